@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "QuizAttemptV2" ADD COLUMN     "currentIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "draftResponses" JSONB,
+ADD COLUMN     "lastSavedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PracticeTestAttemptV2" ADD COLUMN     "currentIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "draftResponses" JSONB,
+ADD COLUMN     "lastSavedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "QuizAttemptV2_userId_quizId_status_idx" ON "QuizAttemptV2"("userId", "quizId", "status");
+
+-- CreateIndex
+CREATE INDEX "PracticeTestAttemptV2_userId_practiceTestId_status_idx" ON "PracticeTestAttemptV2"("userId", "practiceTestId", "status");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "PracticeTestAttemptV2" ADD COLUMN     "deadlineAt" TIMESTAMP(3),
+ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'practice';
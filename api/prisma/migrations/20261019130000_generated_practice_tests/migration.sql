@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "PracticeTest" ADD COLUMN     "isGenerated" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PracticeTestAttemptV2" ADD COLUMN     "optionOrder" JSONB,
+ADD COLUMN     "questionIds" JSONB,
+ADD COLUMN     "seed" INTEGER;
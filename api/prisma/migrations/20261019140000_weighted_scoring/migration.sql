@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "QuizQuestion" ADD COLUMN     "points" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "PracticeTestQuestion" ADD COLUMN     "points" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "PracticeTest" ADD COLUMN     "negativeMarking" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "QuizAttemptV2" ADD COLUMN     "pointsEarned" DOUBLE PRECISION,
+ADD COLUMN     "pointsPossible" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "PracticeTestAttemptV2" ADD COLUMN     "pointsEarned" DOUBLE PRECISION,
+ADD COLUMN     "pointsPossible" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "QuestionAttemptV2" ADD COLUMN     "pointsEarned" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "pointsPossible" DOUBLE PRECISION NOT NULL DEFAULT 1;
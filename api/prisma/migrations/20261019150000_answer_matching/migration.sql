@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "AnswerMatchStrategy" AS ENUM ('EXACT', 'FUZZY', 'NUMERIC', 'REGEX');
+
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "matchOptions" JSONB,
+ADD COLUMN     "matchStrategy" "AnswerMatchStrategy" NOT NULL DEFAULT 'EXACT';
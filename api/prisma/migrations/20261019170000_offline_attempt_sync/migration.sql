@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "QuizAttemptV2" ADD COLUMN     "clientId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAttemptV2_clientId_key" ON "QuizAttemptV2"("clientId");
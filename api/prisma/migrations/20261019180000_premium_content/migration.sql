@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "TopicQuiz" ADD COLUMN     "isPremium" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PracticeTest" ADD COLUMN     "isPremium" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Subscription_user_id_idx" ON "Subscription"("user_id");
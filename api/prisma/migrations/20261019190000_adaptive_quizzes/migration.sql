@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "calibratedAt" TIMESTAMP(3),
+ADD COLUMN     "calibratedDifficulty" DOUBLE PRECISION,
+ADD COLUMN     "calibrationResponses" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "QuizAttemptV2" ADD COLUMN     "abilityEstimate" DOUBLE PRECISION,
+ADD COLUMN     "questionIds" JSONB;
+
+-- AlterTable
+ALTER TABLE "TopicQuiz" ADD COLUMN     "adaptiveQuestionCount" INTEGER,
+ADD COLUMN     "isAdaptive" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "LearnerAbility" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "ability" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "responseCount" INTEGER NOT NULL DEFAULT 0,
+    "calibratedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LearnerAbility_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearnerAbility_userId_key" ON "LearnerAbility"("userId");
+
+-- AddForeignKey
+ALTER TABLE "LearnerAbility" ADD CONSTRAINT "LearnerAbility_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
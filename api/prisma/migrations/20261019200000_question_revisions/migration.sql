@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "QuestionAttemptV2" ADD COLUMN     "questionRevisionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuestionRevision" (
+    "id" SERIAL NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "questionText" TEXT NOT NULL,
+    "questionType" "QuestionType" NOT NULL,
+    "options" JSONB,
+    "correctOption" TEXT,
+    "correctAnswers" JSONB,
+    "matchStrategy" "AnswerMatchStrategy" NOT NULL DEFAULT 'EXACT',
+    "matchOptions" JSONB,
+    "topicId" INTEGER NOT NULL,
+    "difficulty" "Difficulty" NOT NULL,
+    "language" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "explanation" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionRevision_questionId_version_key" ON "QuestionRevision"("questionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "QuestionRevision" ADD CONSTRAINT "QuestionRevision_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuestionBank"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionRevision" ADD CONSTRAINT "QuestionRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionAttemptV2" ADD CONSTRAINT "QuestionAttemptV2_questionRevisionId_fkey" FOREIGN KEY ("questionRevisionId") REFERENCES "QuestionRevision"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every existing question becomes version 1 and existing attempts point at it.
+INSERT INTO "QuestionRevision" ("questionId", "version", "questionText", "questionType", "options", "correctOption", "correctAnswers", "matchStrategy", "matchOptions", "topicId", "difficulty", "language", "imageUrl", "explanation", "createdById", "createdAt")
+SELECT "id", 1, "questionText", "questionType", "options", "correctOption", "correctAnswers", "matchStrategy", "matchOptions", "topicId", "difficulty", "language", "imageUrl", "explanation", "createdById", "updatedAt"
+FROM "QuestionBank";
+
+UPDATE "QuestionAttemptV2" AS attempt
+SET "questionRevisionId" = revision."id"
+FROM "QuestionRevision" AS revision
+WHERE revision."questionId" = attempt."questionId" AND revision."version" = 1;
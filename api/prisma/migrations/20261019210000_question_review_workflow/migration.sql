@@ -0,0 +1,37 @@
+-- Live questions keep their state: ACTIVE is now the PUBLISHED end of the editorial workflow.
+ALTER TYPE "QuestionStatus" RENAME VALUE 'ACTIVE' TO 'PUBLISHED';
+
+-- AlterEnum
+ALTER TYPE "QuestionStatus" ADD VALUE 'DRAFT' BEFORE 'PUBLISHED';
+ALTER TYPE "QuestionStatus" ADD VALUE 'IN_REVIEW' BEFORE 'PUBLISHED';
+ALTER TYPE "QuestionStatus" ADD VALUE 'CHANGES_REQUESTED' BEFORE 'PUBLISHED';
+ALTER TYPE "QuestionStatus" ADD VALUE 'APPROVED' BEFORE 'PUBLISHED';
+
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "reviewerId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuestionReviewComment" (
+    "id" SERIAL NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "authorId" INTEGER,
+    "version" INTEGER NOT NULL,
+    "field" TEXT,
+    "body" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionReviewComment_questionId_idx" ON "QuestionReviewComment"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "QuestionBank" ADD CONSTRAINT "QuestionBank_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionReviewComment" ADD CONSTRAINT "QuestionReviewComment_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuestionBank"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionReviewComment" ADD CONSTRAINT "QuestionReviewComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
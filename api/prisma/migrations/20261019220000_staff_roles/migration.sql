@@ -0,0 +1,8 @@
+-- Existing admins keep full access: ADMIN becomes SUPER_ADMIN, the top of the staff roles.
+ALTER TYPE "Role" RENAME VALUE 'ADMIN' TO 'SUPER_ADMIN';
+
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'CONTENT_EDITOR' BEFORE 'SUPER_ADMIN';
+ALTER TYPE "Role" ADD VALUE 'REVIEWER' BEFORE 'SUPER_ADMIN';
+ALTER TYPE "Role" ADD VALUE 'SUPPORT_AGENT' BEFORE 'SUPER_ADMIN';
+ALTER TYPE "Role" ADD VALUE 'FINANCE' BEFORE 'SUPER_ADMIN';
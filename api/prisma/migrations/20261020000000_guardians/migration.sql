@@ -0,0 +1,63 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'GUARDIAN' AFTER 'USER';
+
+-- CreateTable
+CREATE TABLE "GuardianLink" (
+    "id" SERIAL NOT NULL,
+    "learnerId" INTEGER NOT NULL,
+    "guardianId" INTEGER,
+    "inviteCode" TEXT,
+    "codeExpiresAt" TIMESTAMP(3),
+    "linkedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GuardianLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GuardianWeeklySummary" (
+    "id" SERIAL NOT NULL,
+    "guardianId" INTEGER NOT NULL,
+    "learnerId" INTEGER NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "xpEarned" INTEGER NOT NULL DEFAULT 0,
+    "activeDays" INTEGER NOT NULL DEFAULT 0,
+    "quizzesCompleted" INTEGER NOT NULL DEFAULT 0,
+    "practiceTestsCompleted" INTEGER NOT NULL DEFAULT 0,
+    "averageScore" DOUBLE PRECISION,
+    "streakDays" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuardianWeeklySummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuardianLink_inviteCode_key" ON "GuardianLink"("inviteCode");
+
+-- CreateIndex
+CREATE INDEX "GuardianLink_learnerId_idx" ON "GuardianLink"("learnerId");
+
+-- CreateIndex
+CREATE INDEX "GuardianLink_guardianId_idx" ON "GuardianLink"("guardianId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuardianWeeklySummary_guardianId_learnerId_weekStart_key" ON "GuardianWeeklySummary"("guardianId", "learnerId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "GuardianWeeklySummary_guardianId_weekStart_idx" ON "GuardianWeeklySummary"("guardianId", "weekStart");
+
+-- AddForeignKey
+ALTER TABLE "GuardianLink" ADD CONSTRAINT "GuardianLink_learnerId_fkey" FOREIGN KEY ("learnerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuardianLink" ADD CONSTRAINT "GuardianLink_guardianId_fkey" FOREIGN KEY ("guardianId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuardianWeeklySummary" ADD CONSTRAINT "GuardianWeeklySummary_guardianId_fkey" FOREIGN KEY ("guardianId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuardianWeeklySummary" ADD CONSTRAINT "GuardianWeeklySummary_learnerId_fkey" FOREIGN KEY ("learnerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
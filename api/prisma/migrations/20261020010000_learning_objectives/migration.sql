@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "LearningObjective" (
+    "id" SERIAL NOT NULL,
+    "topicId" INTEGER NOT NULL,
+    "curriculum" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LearningObjective_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuestionObjective" (
+    "questionId" INTEGER NOT NULL,
+    "objectiveId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionObjective_pkey" PRIMARY KEY ("questionId","objectiveId")
+);
+
+-- CreateTable
+CREATE TABLE "ObjectiveMastery" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "objectiveId" INTEGER NOT NULL,
+    "correctAttempts" INTEGER NOT NULL DEFAULT 0,
+    "totalAttempts" INTEGER NOT NULL DEFAULT 0,
+    "accuracy" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ObjectiveMastery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LearningObjective_topicId_idx" ON "LearningObjective"("topicId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearningObjective_curriculum_code_key" ON "LearningObjective"("curriculum", "code");
+
+-- CreateIndex
+CREATE INDEX "QuestionObjective_objectiveId_idx" ON "QuestionObjective"("objectiveId");
+
+-- CreateIndex
+CREATE INDEX "ObjectiveMastery_objectiveId_idx" ON "ObjectiveMastery"("objectiveId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ObjectiveMastery_userId_objectiveId_key" ON "ObjectiveMastery"("userId", "objectiveId");
+
+-- AddForeignKey
+ALTER TABLE "LearningObjective" ADD CONSTRAINT "LearningObjective_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionObjective" ADD CONSTRAINT "QuestionObjective_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "QuestionBank"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionObjective" ADD CONSTRAINT "QuestionObjective_objectiveId_fkey" FOREIGN KEY ("objectiveId") REFERENCES "LearningObjective"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ObjectiveMastery" ADD CONSTRAINT "ObjectiveMastery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ObjectiveMastery" ADD CONSTRAINT "ObjectiveMastery_objectiveId_fkey" FOREIGN KEY ("objectiveId") REFERENCES "LearningObjective"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "TopicMastery" ADD COLUMN     "masteryScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "confidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "successEvidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "failureEvidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "lastPracticedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ObjectiveMastery" ADD COLUMN     "masteryScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "confidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "successEvidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "failureEvidence" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "lastPracticedAt" TIMESTAMP(3);
+
+-- Seed the model from lifetime tallies until the mastery backfill replays attempt history
+UPDATE "TopicMastery" SET
+    "successEvidence" = "correctAttempts",
+    "failureEvidence" = "totalAttempts" - "correctAttempts",
+    "masteryScore" = ROUND((100.0 * ("correctAttempts" + 1) / ("totalAttempts" + 2))::numeric, 2),
+    "confidence" = ROUND(("totalAttempts"::numeric / ("totalAttempts" + 6)), 3),
+    "lastPracticedAt" = "updatedAt"
+WHERE "totalAttempts" > 0;
+
+UPDATE "ObjectiveMastery" SET
+    "successEvidence" = "correctAttempts",
+    "failureEvidence" = "totalAttempts" - "correctAttempts",
+    "masteryScore" = ROUND((100.0 * ("correctAttempts" + 1) / ("totalAttempts" + 2))::numeric, 2),
+    "confidence" = ROUND(("totalAttempts"::numeric / ("totalAttempts" + 6)), 3),
+    "lastPracticedAt" = "updatedAt"
+WHERE "totalAttempts" > 0;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "ReviewAttemptV2" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "topicId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "score" INTEGER,
+    "totalQuestions" INTEGER,
+    "correctCount" INTEGER,
+    "incorrectCount" INTEGER,
+    "pointsEarned" DOUBLE PRECISION,
+    "pointsPossible" DOUBLE PRECISION,
+    "xpAwarded" INTEGER NOT NULL DEFAULT 0,
+    "durationSeconds" INTEGER,
+    "metadata" JSONB,
+    "draftResponses" JSONB,
+    "currentIndex" INTEGER NOT NULL DEFAULT 0,
+    "lastSavedAt" TIMESTAMP(3),
+    "questionIds" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewAttemptV2_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "QuestionAttemptV2" ADD COLUMN     "reviewAttemptId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ReviewAttemptV2_userId_status_idx" ON "ReviewAttemptV2"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "QuestionAttemptV2_reviewAttemptId_idx" ON "QuestionAttemptV2"("reviewAttemptId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewAttemptV2" ADD CONSTRAINT "ReviewAttemptV2_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "Topic"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewAttemptV2" ADD CONSTRAINT "ReviewAttemptV2_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionAttemptV2" ADD CONSTRAINT "QuestionAttemptV2_reviewAttemptId_fkey" FOREIGN KEY ("reviewAttemptId") REFERENCES "ReviewAttemptV2"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "LegacyMigrationRecord" (
+    "id" SERIAL NOT NULL,
+    "entity" TEXT NOT NULL,
+    "legacyId" INTEGER NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LegacyMigrationRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LegacyMigrationRecord_entity_targetId_idx" ON "LegacyMigrationRecord"("entity", "targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LegacyMigrationRecord_entity_legacyId_key" ON "LegacyMigrationRecord"("entity", "legacyId");
@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "Flashcard" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "GradeLevel" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "PracticeTest" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "Subject" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "Topic" ADD COLUMN     "externalKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "TopicQuiz" ADD COLUMN     "externalKey" TEXT;
+
+-- Existing rows get their key here; new rows get one from the column default.
+UPDATE "Flashcard" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "GradeLevel" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "PracticeTest" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "QuestionBank" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "Subject" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "Topic" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+UPDATE "TopicQuiz" SET "externalKey" = gen_random_uuid()::text WHERE "externalKey" IS NULL;
+
+-- AlterTable
+ALTER TABLE "Flashcard" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "GradeLevel" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "PracticeTest" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "QuestionBank" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Subject" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Topic" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "TopicQuiz" ALTER COLUMN "externalKey" SET DEFAULT gen_random_uuid()::text,
+ALTER COLUMN "externalKey" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Flashcard_externalKey_key" ON "Flashcard"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeLevel_externalKey_key" ON "GradeLevel"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PracticeTest_externalKey_key" ON "PracticeTest"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionBank_externalKey_key" ON "QuestionBank"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Subject_externalKey_key" ON "Subject"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Topic_externalKey_key" ON "Topic"("externalKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TopicQuiz_externalKey_key" ON "TopicQuiz"("externalKey");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "QuestionBank" ADD COLUMN     "pendingStatus" "QuestionStatus";
@@ -10,14 +10,14 @@ const ensureAdminUser = async () => {
     update: {
       full_name: "System Admin",
       password_hash: passwordHash,
-      role: Role.ADMIN,
+      role: Role.SUPER_ADMIN,
       is_active: true,
     },
     create: {
       full_name: "System Admin",
       email: "admin@nunya.com",
       password_hash: passwordHash,
-      role: Role.ADMIN,
+      role: Role.SUPER_ADMIN,
       is_active: true,
       is_premium: true,
     },
@@ -0,0 +1,48 @@
+import { Role } from "@prisma/client";
+
+export const PERMISSIONS = [
+  "users:read",
+  "users:write",
+  "roles:assign",
+  "curriculum:read",
+  "curriculum:write",
+  "content:read",
+  "content:write",
+  "content:review",
+  "gamification:manage",
+  "notifications:manage",
+  "support:manage",
+  "classrooms:manage",
+  "classrooms:all",
+  "payments:read",
+  "payments:write",
+  "reports:read",
+  "reports:export",
+  "system:read",
+  "settings:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// The reporting endpoints cover every learner on the platform, so only central staff get reports:read.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  USER: [],
+  GUARDIAN: [],
+  CONTENT_EDITOR: ["curriculum:read", "curriculum:write", "content:read", "content:write", "reports:read"],
+  REVIEWER: ["curriculum:read", "content:read", "content:review", "reports:read"],
+  SUPPORT_AGENT: ["users:read", "support:manage", "notifications:manage", "reports:read"],
+  FINANCE: ["users:read", "payments:read", "payments:write", "reports:read", "reports:export"],
+  // Teachers only ever see the classes they run, including each class's report; classrooms:all lifts that scope.
+  TEACHER: ["classrooms:manage"],
+  SUPER_ADMIN: PERMISSIONS,
+};
+
+export const permissionsForRole = (role: Role) => ROLE_PERMISSIONS[role];
+
+export const isStaffRole = (role: Role) => ROLE_PERMISSIONS[role].length > 0;
+
+export const hasPermission = (role: Role | undefined, permission: Permission) =>
+  role !== undefined && ROLE_PERMISSIONS[role].includes(permission);
+
+export const rolesWithPermission = (permission: Permission) =>
+  (Object.keys(ROLE_PERMISSIONS) as Role[]).filter((role) => hasPermission(role, permission));
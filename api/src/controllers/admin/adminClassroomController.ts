@@ -0,0 +1,314 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { recordAdminAction } from "../../services/auditService";
+import {
+  AssignmentRecord,
+  assignmentKind,
+  assignmentTitle,
+  buildClassroomReport,
+  buildGradebook,
+  createAssignment,
+  createClassroom,
+  deleteAssignment,
+  findClassroom,
+  listAssignableContent,
+  listClassrooms,
+  regenerateJoinCode,
+  removeClassroomMember,
+  updateAssignment,
+  updateClassroom,
+} from "../../services/classroomService";
+
+const listQuerySchema = z.object({
+  archived: z
+    .union([z.literal("true"), z.literal("false"), z.boolean()])
+    .transform((value) => (typeof value === "boolean" ? value : value === "true"))
+    .optional(),
+});
+
+const classroomIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const reportQuerySchema = z.object({
+  range: z.enum(["7d", "30d", "all"]).default("30d"),
+});
+
+const memberParamsSchema = classroomIdSchema.extend({
+  userId: z.coerce.number().int().positive(),
+});
+
+const assignmentParamsSchema = classroomIdSchema.extend({
+  assignmentId: z.coerce.number().int().positive(),
+});
+
+const createClassroomSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().max(500).optional(),
+});
+
+const updateClassroomSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+    isArchived: z.boolean().optional(),
+  })
+  .refine((payload) => Object.keys(payload).length > 0, {
+    message: "At least one field is required",
+  });
+
+const createAssignmentSchema = z
+  .object({
+    quizId: z.coerce.number().int().positive().optional(),
+    practiceTestId: z.coerce.number().int().positive().optional(),
+    title: z.string().trim().min(1).max(160).optional(),
+    instructions: z.string().trim().max(1000).optional(),
+    dueAt: z.coerce.date(),
+  })
+  .refine((data) => (data.quizId === undefined) !== (data.practiceTestId === undefined), {
+    message: "Provide either quizId or practiceTestId",
+    path: ["quizId"],
+  });
+
+const updateAssignmentSchema = z
+  .object({
+    title: z.string().trim().min(1).max(160).nullable().optional(),
+    instructions: z.string().trim().max(1000).nullable().optional(),
+    dueAt: z.coerce.date().optional(),
+  })
+  .refine((payload) => Object.keys(payload).length > 0, {
+    message: "At least one field is required",
+  });
+
+const assignableQuerySchema = z.object({
+  search: z.string().optional(),
+});
+
+const classroomNotFound = (res: Response) => res.status(404).json({ success: false, message: "Class not found" });
+
+const buildAssignmentResponse = (assignment: AssignmentRecord) => ({
+  id: assignment.id,
+  classroomId: assignment.classroomId,
+  type: assignmentKind(assignment),
+  quizId: assignment.quizId,
+  practiceTestId: assignment.practiceTestId,
+  title: assignmentTitle(assignment),
+  customTitle: assignment.title,
+  instructions: assignment.instructions,
+  dueAt: assignment.dueAt,
+  createdAt: assignment.createdAt,
+});
+
+export const listAdminClassrooms = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { archived } = listQuerySchema.parse(req.query);
+    const classrooms = await listClassrooms(req.user!, archived ?? false);
+    return res.json({
+      success: true,
+      data: {
+        classrooms: classrooms.map(({ _count, Teacher, ...classroom }) => ({
+          ...classroom,
+          teacher: { id: Teacher.id, name: Teacher.full_name, email: Teacher.email },
+          memberCount: _count.members,
+          assignmentCount: _count.assignments,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAssignableContent = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { search } = assignableQuerySchema.parse(req.query);
+    const content = await listAssignableContent(search);
+    return res.json({ success: true, data: content });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createAdminClassroom = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = createClassroomSchema.parse(req.body);
+    const classroom = await createClassroom(req.user!.id, payload);
+
+    await recordAdminAction(req.user?.id, "Classroom", "CREATE", classroom.id, classroom.name);
+
+    return res.status(201).json({ success: true, data: { classroom } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAdminClassroom = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    const classroom = await findClassroom(req.user!, id);
+    if (!classroom) {
+      return classroomNotFound(res);
+    }
+
+    const { Teacher, members, assignments, ...rest } = classroom;
+    return res.json({
+      success: true,
+      data: {
+        classroom: {
+          ...rest,
+          teacher: { id: Teacher.id, name: Teacher.full_name, email: Teacher.email },
+          members: members.map((member) => ({
+            userId: member.userId,
+            fullName: member.User.full_name,
+            email: member.User.email,
+            joinedAt: member.joinedAt,
+          })),
+          assignments: assignments.map(buildAssignmentResponse),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAdminClassroom = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    const payload = updateClassroomSchema.parse(req.body);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const classroom = await updateClassroom(id, payload);
+    await recordAdminAction(
+      req.user?.id,
+      "Classroom",
+      payload.isArchived === undefined ? "UPDATE" : payload.isArchived ? "ARCHIVE" : "RESTORE",
+      id,
+      classroom.name,
+    );
+
+    return res.json({ success: true, data: { classroom } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateAdminJoinCode = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const classroom = await regenerateJoinCode(id);
+    await recordAdminAction(req.user?.id, "Classroom", "REGENERATE_CODE", id, classroom.name);
+
+    return res.json({ success: true, data: { classroom } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeAdminClassroomMember = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = memberParamsSchema.parse(req.params);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const removed = await removeClassroomMember(id, userId);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: "Learner is not in this class" });
+    }
+    await recordAdminAction(req.user?.id, "Classroom", "REMOVE_MEMBER", id, `User ${userId}`);
+
+    return res.json({ success: true, data: { classroomId: id, userId } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createAdminAssignment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    const payload = createAssignmentSchema.parse(req.body);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const assignment = await createAssignment(id, payload, req.user?.id);
+    await recordAdminAction(req.user?.id, "Classroom", "ASSIGN", id, assignmentTitle(assignment));
+
+    return res.status(201).json({ success: true, data: { assignment: buildAssignmentResponse(assignment) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAdminAssignment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, assignmentId } = assignmentParamsSchema.parse(req.params);
+    const payload = updateAssignmentSchema.parse(req.body);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const assignment = await updateAssignment(id, assignmentId, payload);
+    if (!assignment) {
+      return res.status(404).json({ success: false, message: "Assignment not found" });
+    }
+    await recordAdminAction(req.user?.id, "Classroom", "UPDATE_ASSIGNMENT", id, assignmentTitle(assignment));
+
+    return res.json({ success: true, data: { assignment: buildAssignmentResponse(assignment) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAdminAssignment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, assignmentId } = assignmentParamsSchema.parse(req.params);
+    if (!(await findClassroom(req.user!, id))) {
+      return classroomNotFound(res);
+    }
+
+    const removed = await deleteAssignment(id, assignmentId);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: "Assignment not found" });
+    }
+    await recordAdminAction(req.user?.id, "Classroom", "UNASSIGN", id, `Assignment ${assignmentId}`);
+
+    return res.json({ success: true, data: { assignmentId } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getClassroomGradebook = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    const gradebook = await buildGradebook(req.user!, id);
+    if (!gradebook) {
+      return classroomNotFound(res);
+    }
+    return res.json({ success: true, data: gradebook });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getClassroomReport = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = classroomIdSchema.parse(req.params);
+    const { range } = reportQuerySchema.parse(req.query);
+    const report = await buildClassroomReport(req.user!, id, range);
+    if (!report) {
+      return classroomNotFound(res);
+    }
+    return res.json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+};
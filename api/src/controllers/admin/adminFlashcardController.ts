@@ -7,6 +7,7 @@ import { z } from "zod";
 import prisma from "../../config/db";
 import { recordAdminAction } from "../../services/auditService";
 import { mapFlashcardDto } from "../../utils/dtoMappers";
+import { findMathMarkupError } from "../../utils/mathMarkup";
 
 interface FlashcardPayload {
   topicId: number;
@@ -29,6 +30,14 @@ const listQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+const mathMarkupText = (schema: z.ZodString) =>
+  schema.superRefine((value, ctx) => {
+    const error = findMathMarkupError(value);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid math markup: ${error}` });
+    }
+  });
+
 const flashcardIdSchema = z.object({
   id: z.coerce.number().int().positive(),
 });
@@ -36,10 +45,10 @@ const flashcardIdSchema = z.object({
 const baseFlashcardSchema = z
   .object({
     topicId: z.coerce.number().int().positive().optional(),
-    question: z.string().min(3, "Question must be at least 3 characters").optional(),
-    frontText: z.string().min(3).optional(),
-    answer: z.string().min(1).optional(),
-    backText: z.string().min(1).optional(),
+    question: mathMarkupText(z.string().min(3, "Question must be at least 3 characters")).optional(),
+    frontText: mathMarkupText(z.string().min(3)).optional(),
+    answer: mathMarkupText(z.string().min(1)).optional(),
+    backText: mathMarkupText(z.string().min(1)).optional(),
     language: z.string().min(2).max(5).optional(),
     imageUrl: z.string().url().optional(),
     isPremium: z.boolean().optional(),
@@ -71,8 +80,8 @@ const updateFlashcardSchema = baseFlashcardSchema
   .refine((data) => Object.keys(data).length > 0, { message: "At least one field is required" });
 
 const importRowSchema = z.object({
-  question: z.string().min(3),
-  answer: z.string().min(1),
+  question: mathMarkupText(z.string().min(3)),
+  answer: mathMarkupText(z.string().min(1)),
   topicId: z.coerce.number().int().positive(),
   language: z.string().min(2).max(5).default("en"),
 });
@@ -0,0 +1,387 @@
+import { Prisma } from "@prisma/client";
+import { NextFunction, Request, Response } from "express";
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import path from "path";
+import { z } from "zod";
+import prisma from "../../config/db";
+import { recordAdminAction } from "../../services/auditService";
+import {
+  ObjectiveImportRow,
+  importObjectives,
+  normalizeCurriculum,
+  normalizeObjectiveCode,
+} from "../../services/learningObjectiveService";
+
+const booleanQueryParam = z
+  .union([z.boolean(), z.literal("true"), z.literal("false"), z.undefined()])
+  .transform((value) => value === true || value === "true");
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+  topicId: z.coerce.number().int().positive().optional(),
+  curriculum: z.string().trim().min(1).optional(),
+  search: z.string().trim().optional(),
+  includeInactive: booleanQueryParam,
+});
+
+const idParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const createSchema = z.object({
+  topicId: z.number().int().positive(),
+  curriculum: z.string().trim().min(1).max(60),
+  code: z.string().trim().min(1).max(60),
+  description: z.string().trim().min(3),
+  sortOrder: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateSchema = createSchema.partial().refine(
+  (payload) => Object.keys(payload).length > 0,
+  "At least one field must be provided",
+);
+
+const importQuerySchema = z.object({
+  curriculum: z.string().trim().min(1).max(60).optional(),
+});
+
+const templateQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("xlsx"),
+});
+
+const importRowSchema = z.object({
+  topicId: z.coerce.number().int().positive(),
+  curriculum: z.string().trim().min(1).max(60),
+  code: z.string().trim().min(1).max(60),
+  description: z.string().trim().min(3),
+  sortOrder: z.coerce.number().int().min(0).optional(),
+});
+
+const objectiveTemplateHeaders = ["curriculum", "code", "description", "topicId", "sortOrder"] as const;
+
+const objectiveInclude = {
+  Topic: { select: { id: true, topic_name: true } },
+  _count: { select: { questions: true } },
+} satisfies Prisma.LearningObjectiveInclude;
+
+type ObjectiveWithRelations = Prisma.LearningObjectiveGetPayload<{ include: typeof objectiveInclude }>;
+
+const buildObjectiveResponse = (objective: ObjectiveWithRelations) => ({
+  id: objective.id,
+  objectiveId: objective.id,
+  topicId: objective.topicId,
+  topicName: objective.Topic.topic_name,
+  curriculum: objective.curriculum,
+  code: objective.code,
+  description: objective.description,
+  sortOrder: objective.sortOrder,
+  isActive: objective.isActive,
+  questionCount: objective._count.questions,
+  createdAt: objective.createdAt,
+  updatedAt: objective.updatedAt,
+});
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+const duplicateCodeResponse = (res: Response) =>
+  res.status(409).json({ success: false, message: "That code already exists in this curriculum" });
+
+const ensureTopic = async (topicId: number) =>
+  Boolean(await prisma.topic.findUnique({ where: { id: topicId }, select: { id: true } }));
+
+export const listObjectives = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, topicId, curriculum, search, includeInactive } = listQuerySchema.parse(req.query);
+
+    const where: Prisma.LearningObjectiveWhereInput = {
+      ...(includeInactive ? {} : { isActive: true }),
+      ...(topicId ? { topicId } : {}),
+      ...(curriculum ? { curriculum: normalizeCurriculum(curriculum) } : {}),
+    };
+    if (search) {
+      where.OR = [
+        { code: { contains: search, mode: "insensitive" } },
+        { description: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const [total, objectives, curricula] = await Promise.all([
+      prisma.learningObjective.count({ where }),
+      prisma.learningObjective.findMany({
+        where,
+        orderBy: [{ topicId: "asc" }, { sortOrder: "asc" }, { code: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: objectiveInclude,
+      }),
+      prisma.learningObjective.findMany({
+        distinct: ["curriculum"],
+        select: { curriculum: true },
+        orderBy: { curriculum: "asc" },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        objectives: objectives.map(buildObjectiveResponse),
+        curricula: curricula.map((entry) => entry.curriculum),
+      },
+      pagination: { page, limit, total },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createObjective = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = createSchema.parse(req.body);
+    if (!(await ensureTopic(payload.topicId))) {
+      return res.status(400).json({ success: false, message: "Topic not available" });
+    }
+
+    const objective = await prisma.learningObjective.create({
+      data: {
+        topicId: payload.topicId,
+        curriculum: normalizeCurriculum(payload.curriculum),
+        code: normalizeObjectiveCode(payload.code),
+        description: payload.description,
+        sortOrder: payload.sortOrder ?? 0,
+        isActive: payload.isActive ?? true,
+      },
+      include: objectiveInclude,
+    });
+
+    await recordAdminAction(req.user?.id, "LearningObjective", "CREATE", objective.id, objective.code);
+
+    return res.status(201).json({ success: true, data: { objective: buildObjectiveResponse(objective) } });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return duplicateCodeResponse(res);
+    }
+    next(error);
+  }
+};
+
+export const updateObjective = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = idParamSchema.parse(req.params);
+    const payload = updateSchema.parse(req.body);
+
+    const existing = await prisma.learningObjective.findUnique({
+      where: { id },
+      include: { _count: { select: { questions: true } } },
+    });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Objective not found" });
+    }
+    if (payload.topicId && payload.topicId !== existing.topicId) {
+      // Tags are only valid within the question's topic, so moving a tagged objective would orphan them.
+      if (existing._count.questions > 0) {
+        return res.status(409).json({
+          success: false,
+          message: "Untag this objective from its questions before moving it to another topic",
+        });
+      }
+      if (!(await ensureTopic(payload.topicId))) {
+        return res.status(400).json({ success: false, message: "Topic not available" });
+      }
+    }
+
+    const objective = await prisma.learningObjective.update({
+      where: { id },
+      data: {
+        ...(payload.topicId ? { topicId: payload.topicId } : {}),
+        ...(payload.curriculum ? { curriculum: normalizeCurriculum(payload.curriculum) } : {}),
+        ...(payload.code ? { code: normalizeObjectiveCode(payload.code) } : {}),
+        ...(payload.description ? { description: payload.description } : {}),
+        ...(payload.sortOrder !== undefined ? { sortOrder: payload.sortOrder } : {}),
+        ...(payload.isActive !== undefined ? { isActive: payload.isActive } : {}),
+      },
+      include: objectiveInclude,
+    });
+
+    await recordAdminAction(req.user?.id, "LearningObjective", "UPDATE", id, objective.code);
+
+    return res.json({ success: true, data: { objective: buildObjectiveResponse(objective) } });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return duplicateCodeResponse(res);
+    }
+    next(error);
+  }
+};
+
+export const deleteObjective = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = idParamSchema.parse(req.params);
+    const objective = await prisma.learningObjective.findUnique({ where: { id } });
+    if (!objective) {
+      return res.status(404).json({ success: false, message: "Objective not found" });
+    }
+
+    await prisma.learningObjective.delete({ where: { id } });
+
+    await recordAdminAction(req.user?.id, "LearningObjective", "DELETE", id, objective.code);
+
+    return res.json({ success: true, data: null, message: "Objective deleted" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const parseCsv = (buffer: Buffer) => {
+  const text = buffer.toString("utf-8");
+  const parsed = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+  });
+  return parsed.data ?? [];
+};
+
+const parseXlsx = async (buffer: ArrayBuffer) => {
+  const workbook = new ExcelJS.Workbook();
+  const workbookBuffer = Buffer.from(new Uint8Array(buffer));
+  await workbook.xlsx.load(workbookBuffer as unknown as ExcelJS.Buffer);
+  const sheet = workbook.worksheets[0];
+  const rows: Record<string, string>[] = [];
+
+  if (!sheet) {
+    return rows;
+  }
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber - 1] = String(cell.value ?? "").toString();
+  });
+
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const record: Record<string, string> = {};
+    row.eachCell((cell, colNumber) => {
+      record[headers[colNumber - 1] ?? `col_${colNumber}`] = String(cell.value ?? "").trim();
+    });
+    if (Object.values(record).some((value) => Boolean(value?.length))) {
+      rows.push(record);
+    }
+  });
+
+  return rows;
+};
+
+export const importObjectivesHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: "No file uploaded" });
+    }
+    const { curriculum: defaultCurriculum } = importQuerySchema.parse(req.query);
+
+    const extension = path.extname(req.file.originalname).toLowerCase();
+    const rawRows =
+      extension === ".xlsx" || extension === ".xls"
+        ? await parseXlsx(Uint8Array.from(req.file.buffer).buffer)
+        : parseCsv(req.file.buffer);
+
+    if (!rawRows.length) {
+      return res.status(400).json({ success: false, message: "No rows detected in file" });
+    }
+
+    let failed = 0;
+    let skipped = 0;
+    const parsedRows: ObjectiveImportRow[] = [];
+
+    rawRows.forEach((row) => {
+      const sortOrder = row.sortOrder ?? row.sort_order;
+      const result = importRowSchema.safeParse({
+        topicId: row.topicId ?? row.topic_id,
+        curriculum: row.curriculum || defaultCurriculum,
+        code: row.code ?? row.objectiveCode ?? row.objective_code,
+        description: row.description,
+        sortOrder: sortOrder ? sortOrder : undefined,
+      });
+      if (!result.success) {
+        failed += 1;
+        return;
+      }
+      parsedRows.push(result.data);
+    });
+
+    const topics = await prisma.topic.findMany({
+      where: { id: { in: Array.from(new Set(parsedRows.map((row) => row.topicId))) } },
+      select: { id: true },
+    });
+    const validTopicIds = new Set(topics.map((topic) => topic.id));
+
+    const seen = new Set<string>();
+    const rowsToImport = parsedRows.filter((row) => {
+      if (!validTopicIds.has(row.topicId)) {
+        failed += 1;
+        return false;
+      }
+      const key = `${normalizeCurriculum(row.curriculum)}|${normalizeObjectiveCode(row.code)}`;
+      if (seen.has(key)) {
+        skipped += 1;
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    if (!rowsToImport.length) {
+      return res.status(400).json({
+        success: false,
+        message: "No valid rows found. Please verify the template headers.",
+        data: { created: 0, updated: 0, skipped, failed },
+      });
+    }
+
+    const { created, updated, conflicts } = await importObjectives(rowsToImport);
+    failed += conflicts;
+
+    await recordAdminAction(
+      req.user?.id,
+      "LearningObjective",
+      "IMPORT",
+      undefined,
+      `${created} created, ${updated} updated`,
+    );
+
+    return res.json({ success: true, data: { created, updated, skipped, failed } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadObjectiveTemplate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format } = templateQuerySchema.parse(req.query);
+    const sample = ["GES-2019", "B4.1.2.1", "Add and subtract fractions with like denominators", "1001", "1"];
+
+    if (format === "csv") {
+      const csv = Papa.unparse({ fields: [...objectiveTemplateHeaders], data: [sample] });
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", 'attachment; filename="learning-objectives-template.csv"');
+      return res.status(200).send(csv);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Objectives");
+    sheet.addRow([...objectiveTemplateHeaders]);
+    sheet.addRow(sample);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+    res.setHeader("Content-Disposition", 'attachment; filename="learning-objectives-template.xlsx"');
+    return res.status(200).send(Buffer.from(buffer));
+  } catch (error) {
+    next(error);
+  }
+};
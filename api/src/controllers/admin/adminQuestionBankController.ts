@@ -1,10 +1,43 @@
-import { Difficulty, Prisma, QuestionStatus, QuestionType } from "@prisma/client";
+import { AnswerMatchStrategy, Difficulty, Prisma, QuestionStatus, QuestionType } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
 import ExcelJS from "exceljs";
 import Papa from "papaparse";
 import { z } from "zod";
 import prisma from "../../config/db";
+import { hasPermission } from "../../config/permissions";
 import { recordAdminAction } from "../../services/auditService";
+import { startItemCalibration } from "../../services/v2/itemCalibrationService";
+import {
+  objectiveCodeKey,
+  pruneQuestionObjectives,
+  resolveObjectiveCodes,
+  setQuestionObjectives,
+} from "../../services/learningObjectiveService";
+import { analyzeQuestions, analyzeTopicQuestions } from "../../services/itemAnalysisService";
+import {
+  addReviewComment,
+  assignQuestionReviewer,
+  listReviewComments,
+  listReviewers,
+  reopenApprovedQuestion,
+  resolveReviewComment,
+  reviewActionPermission,
+  transitionQuestion,
+} from "../../services/questionReviewService";
+import {
+  createQuestionRevision,
+  listQuestionRevisions,
+  recordPublishedEdit,
+  recordQuestionEdit,
+  restoreQuestionRevision,
+} from "../../services/questionRevisionService";
+import {
+  NEAR_DUPLICATE_THRESHOLD,
+  findDuplicateClusters,
+  findImportNearDuplicates,
+  findSimilarQuestions,
+  mergeDuplicateQuestions,
+} from "../../services/questionSimilarityService";
 import {
   NormalizedQuestionInput,
   createQuestionSchema,
@@ -12,10 +45,16 @@ import {
   normalizeQuestionPayload,
   questionIdSchema,
   questionListQuerySchema,
+  questionReviewActionSchema,
+  questionReviewCommentParamsSchema,
+  questionReviewCommentSchema,
+  questionReviewerSchema,
   updateQuestionSchema,
   validateNormalizedQuestion,
 } from "../../validation/questionSchema";
 import { mapQuestionDto } from "../../utils/dtoMappers";
+import { AnswerMatchOptions, parseAnswerMatchOptions } from "../../utils/answerMatching";
+import { findMathMarkupError } from "../../utils/mathMarkup";
 
 const exportQuerySchema = questionListQuerySchema
   .omit({ page: true, limit: true })
@@ -32,6 +71,41 @@ const booleanQueryParam = z
     return value === true || value === "true";
   });
 
+const revisionParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  version: z.coerce.number().int().positive(),
+});
+
+const analysisQuerySchema = z.object({
+  topicId: z.coerce.number().int().positive(),
+  flaggedOnly: booleanQueryParam,
+});
+
+const similarQuerySchema = z.object({
+  questionText: z.string().trim().min(1),
+  topicId: z.coerce.number().int().positive(),
+  excludeId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const duplicateClustersQuerySchema = z
+  .object({
+    topicId: z.coerce.number().int().positive().optional(),
+    subjectId: z.coerce.number().int().positive().optional(),
+    threshold: z.coerce.number().min(0.5).max(1).default(NEAR_DUPLICATE_THRESHOLD),
+  })
+  .refine((query) => query.topicId || query.subjectId, { message: "Provide a topicId or subjectId" });
+
+const mergeDuplicatesSchema = z.object({
+  survivorId: z.number().int().positive(),
+  duplicateIds: z.array(z.number().int().positive()).min(1),
+});
+
+// Imports land as drafts unless the admin explicitly publishes the batch.
+const importQuerySchema = z.object({
+  publish: booleanQueryParam,
+});
+
 const templateQuerySchema = z.object({
   format: z.enum(["csv", "xlsx"]).default("xlsx"),
   includeSamples: booleanQueryParam,
@@ -43,10 +117,15 @@ const questionTemplateHeaders = [
   "options",
   "correctOption",
   "correctAnswers",
+  "pairs",
+  "matchStrategy",
+  "tolerance",
+  "units",
   "topicId",
   "difficulty",
   "language",
   "explanation",
+  "objectiveCodes",
 ];
 
 const topicMappingHeaders = ["gradeName", "subjectName", "topicName", "topicId"] as const;
@@ -60,10 +139,15 @@ const sampleTemplateRows: TemplateRow[] = [
     options: "Mercury|Venus|Earth|Mars",
     correctOption: "Mars",
     correctAnswers: "",
+    pairs: "",
+    matchStrategy: "",
+    tolerance: "",
+    units: "",
     topicId: "1001",
     difficulty: Difficulty.EASY,
     language: "EN",
     explanation: "Mars appears red because of iron oxide on its surface.",
+    objectiveCodes: "",
   },
   {
     questionText: "Water boils at 100°C at sea level.",
@@ -71,10 +155,15 @@ const sampleTemplateRows: TemplateRow[] = [
     options: "",
     correctOption: "TRUE",
     correctAnswers: "",
+    pairs: "",
+    matchStrategy: "",
+    tolerance: "",
+    units: "",
     topicId: "1002",
     difficulty: Difficulty.EASY,
     language: "EN",
     explanation: "Standard boiling point of water is 100°C.",
+    objectiveCodes: "",
   },
   {
     questionText: "_______ is the process where liquid water changes into vapor.",
@@ -82,10 +171,15 @@ const sampleTemplateRows: TemplateRow[] = [
     options: "",
     correctOption: "",
     correctAnswers: "evaporation",
+    pairs: "",
+    matchStrategy: AnswerMatchStrategy.FUZZY,
+    tolerance: "",
+    units: "",
     topicId: "1003",
     difficulty: Difficulty.MEDIUM,
     language: "EN",
     explanation: "Evaporation turns liquid water into gas.",
+    objectiveCodes: "",
   },
   {
     questionText: "Name the force that keeps the planets in orbit around the sun.",
@@ -93,10 +187,79 @@ const sampleTemplateRows: TemplateRow[] = [
     options: "",
     correctOption: "",
     correctAnswers: "gravity|gravitational force",
+    pairs: "",
+    matchStrategy: AnswerMatchStrategy.EXACT,
+    tolerance: "",
+    units: "",
     topicId: "1004",
     difficulty: Difficulty.MEDIUM,
     language: "EN",
     explanation: "Gravity pulls the planets toward the sun.",
+    objectiveCodes: "",
+  },
+  {
+    questionText: "A car travels 150 km in 2 hours. What is its average speed in km/h?",
+    questionType: QuestionType.SHORT_ANSWER,
+    options: "",
+    correctOption: "",
+    correctAnswers: "75",
+    pairs: "",
+    matchStrategy: AnswerMatchStrategy.NUMERIC,
+    tolerance: "0.5",
+    units: "km/h|kmh",
+    topicId: "1005",
+    difficulty: Difficulty.MEDIUM,
+    language: "EN",
+    explanation: "Average speed is distance divided by time: 150 / 2 = 75 km/h.",
+    objectiveCodes: "B7.3.1.2",
+  },
+  {
+    questionText: "Select every prime number.",
+    questionType: QuestionType.MULTI_SELECT,
+    options: "2|4|7|9|11",
+    correctOption: "",
+    correctAnswers: "2|7|11",
+    pairs: "",
+    matchStrategy: "",
+    tolerance: "",
+    units: "",
+    topicId: "1006",
+    difficulty: Difficulty.EASY,
+    language: "EN",
+    explanation: "A prime has exactly two divisors: 1 and itself.",
+    objectiveCodes: "",
+  },
+  {
+    questionText: "Match each country to its capital.",
+    questionType: QuestionType.MATCHING,
+    options: "",
+    correctOption: "",
+    correctAnswers: "",
+    pairs: "Ghana=Accra|Togo=Lomé|Nigeria=Abuja",
+    matchStrategy: "",
+    tolerance: "",
+    units: "",
+    topicId: "1007",
+    difficulty: Difficulty.MEDIUM,
+    language: "EN",
+    explanation: "",
+    objectiveCodes: "",
+  },
+  {
+    questionText: "Put the stages of mitosis in order.",
+    questionType: QuestionType.ORDERING,
+    options: "",
+    correctOption: "",
+    correctAnswers: "Prophase|Metaphase|Anaphase|Telophase",
+    pairs: "",
+    matchStrategy: "",
+    tolerance: "",
+    units: "",
+    topicId: "1008",
+    difficulty: Difficulty.MEDIUM,
+    language: "EN",
+    explanation: "Chromosomes condense, align, separate, then new nuclei form.",
+    objectiveCodes: "",
   },
 ];
 
@@ -122,6 +285,15 @@ const questionInclude = {
       },
     },
   },
+  Reviewer: { select: { id: true, full_name: true } },
+  // The newest revision is a pending edit when its version is ahead of the question's.
+  revisions: { orderBy: { version: "desc" }, take: 1 },
+  objectives: {
+    select: {
+      Objective: { select: { id: true, curriculum: true, code: true, description: true } },
+    },
+    orderBy: { Objective: { code: "asc" } },
+  },
 } satisfies Prisma.QuestionBankInclude;
 
 type QuestionWithRelations = Prisma.QuestionBankGetPayload<{
@@ -151,10 +323,14 @@ type QuestionDraft = {
   options?: string[];
   correctOption?: string;
   correctAnswers?: string[];
+  matchStrategy: AnswerMatchStrategy;
+  matchOptions?: AnswerMatchOptions;
   explanation?: string | null;
   imageUrl?: string | null;
 };
 
+type ImportDraft = QuestionDraft & { objectiveCodes: string[] };
+
 class QuestionValidationError extends Error {}
 
 const isRelationTableMissingError = (error: unknown) =>
@@ -212,12 +388,38 @@ const toStringArray = (value: Prisma.JsonValue | null | undefined) => {
     .filter((entry) => entry.length > 0);
 };
 
+const buildPendingEdit = (question: QuestionWithRelations) => {
+  const revision = question.revisions[0];
+  if (!question.pendingStatus || !revision || revision.version <= question.version) {
+    return null;
+  }
+  return {
+    version: revision.version,
+    status: question.pendingStatus,
+    questionText: revision.questionText,
+    questionType: revision.questionType,
+    options: toStringArray(revision.options) ?? [],
+    correctOption: revision.correctOption,
+    correctAnswers: toStringArray(revision.correctAnswers) ?? [],
+    matchStrategy: revision.matchStrategy,
+    matchOptions: parseAnswerMatchOptions(revision.matchOptions),
+    topicId: revision.topicId,
+    difficulty: revision.difficulty,
+    language: revision.language,
+    explanation: revision.explanation,
+    imageUrl: revision.imageUrl,
+  };
+};
+
 const buildQuestionResponse = (question: QuestionWithRelations, usage?: QuestionUsageSummary) =>
   mapQuestionDto({
     id: question.id,
     questionText: question.questionText,
     questionType: question.questionType,
     difficulty: question.difficulty,
+    calibratedDifficulty: question.calibratedDifficulty,
+    calibrationResponses: question.calibrationResponses,
+    version: question.version,
     language: question.language,
     topicId: question.topicId,
     topicName: question.Topic?.topic_name ?? null,
@@ -226,10 +428,18 @@ const buildQuestionResponse = (question: QuestionWithRelations, usage?: Question
     gradeId: question.Topic?.Subject?.GradeLevel?.id ?? null,
     gradeName: question.Topic?.Subject?.GradeLevel?.name ?? null,
     status: question.status,
+    pendingStatus: question.pendingStatus,
+    pendingEdit: buildPendingEdit(question),
     isActive: question.isActive,
+    reviewerId: question.reviewerId,
+    reviewerName: question.Reviewer?.full_name ?? null,
+    objectiveIds: question.objectives.map((tag) => tag.Objective.id),
+    objectives: question.objectives.map((tag) => tag.Objective),
     options: toStringArray(question.options) ?? [],
     correctOption: question.correctOption,
     correctAnswers: toStringArray(question.correctAnswers) ?? [],
+    matchStrategy: question.matchStrategy,
+    matchOptions: parseAnswerMatchOptions(question.matchOptions),
     explanation: question.explanation,
     imageUrl: question.imageUrl,
     createdAt: question.createdAt,
@@ -237,6 +447,34 @@ const buildQuestionResponse = (question: QuestionWithRelations, usage?: Question
     usage: resolveQuestionUsage(question, usage),
   });
 
+type RevisionWithRelations = NonNullable<Awaited<ReturnType<typeof listQuestionRevisions>>>["revisions"][number];
+
+const buildRevisionResponse = (revision: RevisionWithRelations, currentVersion: number) => ({
+  id: revision.id,
+  questionId: revision.questionId,
+  version: revision.version,
+  isCurrent: revision.version === currentVersion,
+  isPending: revision.version > currentVersion,
+  questionText: revision.questionText,
+  questionType: revision.questionType,
+  options: toStringArray(revision.options) ?? [],
+  correctOption: revision.correctOption,
+  correctAnswers: toStringArray(revision.correctAnswers) ?? [],
+  matchStrategy: revision.matchStrategy,
+  matchOptions: parseAnswerMatchOptions(revision.matchOptions),
+  topicId: revision.topicId,
+  difficulty: revision.difficulty,
+  language: revision.language,
+  imageUrl: revision.imageUrl,
+  explanation: revision.explanation,
+  restoredFromVersion: revision.restoredFromVersion,
+  createdBy: revision.CreatedBy
+    ? { id: revision.CreatedBy.id, name: revision.CreatedBy.full_name, email: revision.CreatedBy.email }
+    : null,
+  attemptCount: revision._count.questionAttempts,
+  createdAt: revision.createdAt,
+});
+
 type SubjectBreakdownEntry = {
   subjectId: number;
   subjectName: string;
@@ -370,7 +608,8 @@ const buildQuestionWhere = (
   }
 
   if (filters.status) {
-    where.status = filters.status;
+    // Published questions with an edit under review also appear in the review queues.
+    where.AND = [{ OR: [{ status: filters.status }, { pendingStatus: filters.status }] }];
   }
 
   if (typeof filters.isActive === "boolean") {
@@ -381,6 +620,10 @@ const buildQuestionWhere = (
     where.questionType = filters.type;
   }
 
+  if (filters.objectiveId) {
+    where.objectives = { some: { objectiveId: filters.objectiveId } };
+  }
+
   if (filters.language) {
     where.language = filters.language.toUpperCase();
   }
@@ -399,6 +642,9 @@ const buildQuestionWhere = (
 const serializeJsonField = (value?: string[]) =>
   value !== undefined ? (value as Prisma.InputJsonValue) : Prisma.JsonNull;
 
+const serializeMatchOptions = (value?: AnswerMatchOptions) =>
+  value && Object.keys(value).length ? (value as Prisma.InputJsonValue) : Prisma.JsonNull;
+
 const cleanImportValue = (value: string) =>
   value
     .replace(/\u0000/g, "")
@@ -431,6 +677,38 @@ const resolveImportField = (...candidates: (string | undefined)[]) => {
   return undefined;
 };
 
+const typedAnswerTypes = new Set<QuestionType>([
+  QuestionType.FILL_IN_THE_BLANK,
+  QuestionType.SHORT_ANSWER,
+]);
+
+const answerListTypes = new Set<QuestionType>([
+  ...typedAnswerTypes,
+  QuestionType.MULTI_SELECT,
+  QuestionType.MATCHING,
+  QuestionType.ORDERING,
+]);
+
+// Rejects LaTeX/mhchem that KaTeX cannot parse so learners never see a broken formula.
+const assertMathMarkup = (draft: QuestionDraft) => {
+  const fields: Array<[string, string[]]> = [
+    ["questionText", [draft.questionText]],
+    ["options", draft.options ?? []],
+    // Regex answers use "$" as an anchor, not a formula delimiter.
+    ["correctAnswers", draft.matchStrategy === AnswerMatchStrategy.REGEX ? [] : draft.correctAnswers ?? []],
+    ["explanation", draft.explanation ? [draft.explanation] : []],
+  ];
+
+  for (const [field, values] of fields) {
+    for (const value of values) {
+      const error = findMathMarkupError(value);
+      if (error) {
+        throw new QuestionValidationError(`Invalid math markup in ${field}: ${error}`);
+      }
+    }
+  }
+};
+
 const ensureQuestionStructure = (
   payload: NormalizedQuestionInput,
   existing?: QuestionWithRelations,
@@ -439,39 +717,50 @@ const ensureQuestionStructure = (
   const currentAnswers = existing ? toStringArray(existing.correctAnswers) : undefined;
 
   const questionType = payload.questionType ?? existing?.questionType ?? QuestionType.MULTIPLE_CHOICE;
+  const baseCorrectAnswers = payload.correctAnswers ?? currentAnswers;
+  // Ordering items default to the answer sequence; learners always see them shuffled.
   const baseOptions =
     payload.options ??
     currentOptions ??
-    (questionType === QuestionType.TRUE_FALSE ? ["True", "False"] : undefined);
+    (questionType === QuestionType.TRUE_FALSE
+      ? ["True", "False"]
+      : questionType === QuestionType.ORDERING
+        ? baseCorrectAnswers
+        : undefined);
   const baseCorrectOption =
     payload.correctOption ??
     existing?.correctOption ??
     (questionType === QuestionType.TRUE_FALSE ? "TRUE" : undefined);
-  const baseCorrectAnswers = payload.correctAnswers ?? currentAnswers;
 
-  const normalizedCorrectOption =
-    questionType === QuestionType.FILL_IN_THE_BLANK || questionType === QuestionType.SHORT_ANSWER
-      ? undefined
-      : questionType === QuestionType.TRUE_FALSE
-        ? baseCorrectOption?.toUpperCase()
-        : baseCorrectOption;
+  const normalizedCorrectOption = answerListTypes.has(questionType)
+    ? undefined
+    : questionType === QuestionType.TRUE_FALSE
+      ? baseCorrectOption?.toUpperCase()
+      : baseCorrectOption;
 
-  const normalizedCorrectAnswers =
-    questionType === QuestionType.FILL_IN_THE_BLANK || questionType === QuestionType.SHORT_ANSWER
-      ? baseCorrectAnswers
-      : undefined;
+  const normalizedCorrectAnswers = answerListTypes.has(questionType) ? baseCorrectAnswers : undefined;
+
+  // Choice questions are always compared exactly; only typed answers carry a match strategy.
+  const acceptsTypedAnswers = typedAnswerTypes.has(questionType);
+  const matchOptions = acceptsTypedAnswers
+    ? payload.matchOptions ?? (existing ? parseAnswerMatchOptions(existing.matchOptions) : undefined)
+    : undefined;
 
   const draft: QuestionDraft = {
     topicId: payload.topicId ?? existing?.topicId ?? 0,
     questionText: payload.questionText ?? existing?.questionText ?? "",
     questionType,
+    matchStrategy: acceptsTypedAnswers
+      ? payload.matchStrategy ?? existing?.matchStrategy ?? AnswerMatchStrategy.EXACT
+      : AnswerMatchStrategy.EXACT,
     difficulty: payload.difficulty ?? existing?.difficulty ?? Difficulty.EASY,
     language: (payload.language ?? existing?.language ?? "EN").toUpperCase(),
     explanation:
       payload.explanation !== undefined ? payload.explanation : existing?.explanation ?? null,
     imageUrl: payload.imageUrl !== undefined ? payload.imageUrl : existing?.imageUrl ?? null,
-    status: payload.status ?? existing?.status ?? QuestionStatus.ACTIVE,
-    isActive: payload.isActive ?? existing?.isActive ?? true,
+    // New questions start as drafts; status only changes through the review workflow.
+    status: existing?.status ?? QuestionStatus.DRAFT,
+    isActive: existing?.isActive ?? false,
   };
 
   if (payload.subjectId !== undefined) {
@@ -494,6 +783,10 @@ const ensureQuestionStructure = (
     draft.correctAnswers = normalizedCorrectAnswers;
   }
 
+  if (matchOptions !== undefined) {
+    draft.matchOptions = matchOptions;
+  }
+
   if (!draft.topicId) {
     throw new QuestionValidationError("Topic is required");
   }
@@ -504,6 +797,7 @@ const ensureQuestionStructure = (
 
   const validationPayload: NormalizedQuestionInput = {
     questionType: draft.questionType,
+    matchStrategy: draft.matchStrategy,
   };
   if (draft.options !== undefined) {
     validationPayload.options = draft.options;
@@ -516,6 +810,7 @@ const ensureQuestionStructure = (
   }
 
   validateNormalizedQuestion(validationPayload);
+  assertMathMarkup(draft);
 
   return draft;
 };
@@ -621,6 +916,125 @@ export const getQuestion = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+export const getQuestionAnalysis = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const [analysis] = await analyzeQuestions([id]);
+    if (!analysis) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+    return res.json({ success: true, data: { analysis } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTopicQuestionAnalysis = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { topicId, flaggedOnly } = analysisQuerySchema.parse(req.query);
+    const analyses = await analyzeTopicQuestions(topicId);
+    return res.json({
+      success: true,
+      data: { items: flaggedOnly ? analyses.filter((analysis) => analysis.flags.length > 0) : analyses },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSimilarQuestions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = similarQuerySchema.parse(req.query);
+    const items = await findSimilarQuestions(query);
+    return res.json({ success: true, data: { items } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDuplicateClusters = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = duplicateClustersQuerySchema.parse(req.query);
+    const clusters = await findDuplicateClusters(query);
+    return res.json({ success: true, data: { clusters } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const mergeDuplicates = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { survivorId, duplicateIds } = mergeDuplicatesSchema.parse(req.body);
+    const summary = await mergeDuplicateQuestions(survivorId, duplicateIds);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+
+    await recordAdminAction(
+      req.user?.id,
+      "QuestionBank",
+      "MERGE",
+      survivorId,
+      `Merged questions ${summary.mergedIds.join(", ")} into ${survivorId}`,
+    );
+
+    return res.json({ success: true, data: summary });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getQuestionRevisions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const history = await listQuestionRevisions(id);
+    if (!history) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+    return res.json({
+      success: true,
+      data: {
+        currentVersion: history.currentVersion,
+        revisions: history.revisions.map((revision) => buildRevisionResponse(revision, history.currentVersion)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const restoreQuestion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, version } = revisionParamsSchema.parse(req.params);
+    const restored = await restoreQuestionRevision(id, version, req.user?.id);
+    if (!restored) {
+      return res.status(404).json({ success: false, message: "Revision not found" });
+    }
+
+    await recordAdminAction(
+      req.user?.id,
+      "QuestionBank",
+      "RESTORE",
+      id,
+      restored.pendingStatus
+        ? `Restored version ${version} as version ${restored.version + 1}, pending review`
+        : `Restored version ${version} as version ${restored.version}`,
+    );
+
+    const question = await prisma.questionBank.findUnique({
+      where: { id },
+      include: questionInclude,
+    });
+    if (!question) {
+      throw new QuestionValidationError("Question could not be loaded after restore");
+    }
+
+    return res.json({ success: true, data: { question: buildQuestionResponse(question) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const createQuestion = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parsed = createQuestionSchema.parse(req.body);
@@ -642,22 +1056,31 @@ export const createQuestion = async (req: Request, res: Response, next: NextFunc
     }
     await assertTopicHierarchy(hierarchyPayload);
 
-    const createdQuestion = await prisma.questionBank.create({
-      data: {
-        topicId: draft.topicId,
-        questionText: draft.questionText,
-        questionType: draft.questionType,
-        options: serializeJsonField(draft.options),
-        correctOption: draft.correctOption ?? null,
-        correctAnswers: serializeJsonField(draft.correctAnswers),
-        difficulty: draft.difficulty,
-        language: draft.language,
-        explanation: draft.explanation ?? null,
-        imageUrl: draft.imageUrl ?? null,
-        isActive: draft.isActive,
-        status: draft.status,
-        createdById: req.user?.id ?? null,
-      },
+    const createdQuestion = await prisma.$transaction(async (tx) => {
+      const created = await tx.questionBank.create({
+        data: {
+          topicId: draft.topicId,
+          questionText: draft.questionText,
+          questionType: draft.questionType,
+          options: serializeJsonField(draft.options),
+          correctOption: draft.correctOption ?? null,
+          correctAnswers: serializeJsonField(draft.correctAnswers),
+          matchStrategy: draft.matchStrategy,
+          matchOptions: serializeMatchOptions(draft.matchOptions),
+          difficulty: draft.difficulty,
+          language: draft.language,
+          explanation: draft.explanation ?? null,
+          imageUrl: draft.imageUrl ?? null,
+          isActive: draft.isActive,
+          status: draft.status,
+          createdById: req.user?.id ?? null,
+        },
+      });
+      await createQuestionRevision(tx, created, req.user?.id);
+      if (parsed.objectiveIds?.length) {
+        await setQuestionObjectives(tx, created.id, created.topicId, parsed.objectiveIds);
+      }
+      return created;
     });
 
     await recordAdminAction(
@@ -703,25 +1126,47 @@ export const updateQuestion = async (req: Request, res: Response, next: NextFunc
 
     const draft = ensureQuestionStructure(normalized, existing);
 
-    const updatedQuestion = await prisma.questionBank.update({
-      where: { id },
-      data: {
-        topicId: draft.topicId,
-        questionText: draft.questionText,
-        questionType: draft.questionType,
-        options: serializeJsonField(draft.options),
-        correctOption: draft.correctOption ?? null,
-        correctAnswers: serializeJsonField(draft.correctAnswers),
-        difficulty: draft.difficulty,
-        language: draft.language,
-        explanation: draft.explanation ?? null,
-        imageUrl: draft.imageUrl ?? null,
-        isActive: draft.isActive,
-        status: draft.status,
-      },
+    const reopened = await prisma.$transaction(async (tx) => {
+      const updated = await tx.questionBank.update({
+        where: { id },
+        data: {
+          topicId: draft.topicId,
+          questionText: draft.questionText,
+          questionType: draft.questionType,
+          options: serializeJsonField(draft.options),
+          correctOption: draft.correctOption ?? null,
+          correctAnswers: serializeJsonField(draft.correctAnswers),
+          matchStrategy: draft.matchStrategy,
+          matchOptions: serializeMatchOptions(draft.matchOptions),
+          difficulty: draft.difficulty,
+          language: draft.language,
+          explanation: draft.explanation ?? null,
+          imageUrl: draft.imageUrl ?? null,
+          isActive: draft.isActive,
+          status: draft.status,
+        },
+      });
+      if (existing.status === QuestionStatus.PUBLISHED) {
+        // Tags follow the live topic; an edit moving the question elsewhere is retagged once published.
+        const staged = await recordPublishedEdit(tx, existing, updated, req.user?.id);
+        if (payload.objectiveIds !== undefined && updated.topicId === existing.topicId) {
+          await setQuestionObjectives(tx, id, existing.topicId, payload.objectiveIds);
+        }
+        return staged ? "Edit to published question held for review" : null;
+      }
+      const versioned = await recordQuestionEdit(tx, existing, updated, req.user?.id);
+      if (payload.objectiveIds !== undefined) {
+        await setQuestionObjectives(tx, id, updated.topicId, payload.objectiveIds);
+      } else if (updated.topicId !== existing.topicId) {
+        await pruneQuestionObjectives(tx, id, updated.topicId);
+      }
+      return (await reopenApprovedQuestion(tx, existing, versioned)) ? "APPROVED → IN_REVIEW after edit" : null;
     });
 
     await recordAdminAction(req.user?.id, "QuestionBank", "UPDATE", id, draft.questionText);
+    if (reopened) {
+      await recordAdminAction(req.user?.id, "QuestionBank", "REOPEN_REVIEW", id, reopened);
+    }
 
     const question = await prisma.questionBank.findUnique({
       where: { id },
@@ -744,6 +1189,13 @@ export const updateQuestion = async (req: Request, res: Response, next: NextFunc
 export const deactivateQuestion = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = questionIdSchema.parse(req.params);
+    const existing = await prisma.questionBank.findUnique({ where: { id }, select: { status: true } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+    if (existing.status !== QuestionStatus.PUBLISHED) {
+      return res.status(409).json({ success: false, message: "Only published questions can be deactivated" });
+    }
     const question = await prisma.questionBank.update({
       where: { id },
       data: { isActive: false, status: QuestionStatus.INACTIVE },
@@ -767,9 +1219,17 @@ export const deactivateQuestion = async (req: Request, res: Response, next: Next
 export const reactivateQuestion = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = questionIdSchema.parse(req.params);
+    const existing = await prisma.questionBank.findUnique({ where: { id }, select: { status: true } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+    // Drafts must go through review; reactivation only brings back questions that were published.
+    if (existing.status !== QuestionStatus.INACTIVE && existing.status !== QuestionStatus.ARCHIVED) {
+      return res.status(409).json({ success: false, message: "Only deactivated questions can be reactivated" });
+    }
     const question = await prisma.questionBank.update({
       where: { id },
-      data: { isActive: true, status: QuestionStatus.ACTIVE },
+      data: { isActive: true, status: QuestionStatus.PUBLISHED },
     });
 
     await recordAdminAction(req.user?.id, "QuestionBank", "REACTIVATE", id, question.questionText);
@@ -784,6 +1244,160 @@ export const reactivateQuestion = async (req: Request, res: Response, next: Next
   }
 };
 
+type ReviewCommentWithAuthor = Awaited<ReturnType<typeof listReviewComments>>[number];
+
+const buildReviewCommentResponse = (comment: ReviewCommentWithAuthor) => ({
+  id: comment.id,
+  questionId: comment.questionId,
+  version: comment.version,
+  field: comment.field,
+  body: comment.body,
+  author: comment.Author ? { id: comment.Author.id, name: comment.Author.full_name, email: comment.Author.email } : null,
+  resolvedAt: comment.resolvedAt,
+  createdAt: comment.createdAt,
+});
+
+export const reviewQuestion = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const payload = questionReviewActionSchema.parse(req.body);
+    if (!hasPermission(req.user?.role, reviewActionPermission(payload.action))) {
+      return res.status(403).json({ success: false, message: "Forbidden" });
+    }
+    const result = await transitionQuestion({
+      questionId: id,
+      action: payload.action,
+      actorId: req.user?.id,
+      reviewerId: payload.reviewerId,
+      comment: payload.comment,
+    });
+    if (!result) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+
+    await recordAdminAction(req.user?.id, "QuestionBank", result.audit, id, `${result.from} → ${result.to}`);
+
+    const question = await prisma.questionBank.findUnique({
+      where: { id },
+      include: questionInclude,
+    });
+    if (!question) {
+      throw new QuestionValidationError("Question could not be loaded after review");
+    }
+
+    return res.json({ success: true, data: { question: buildQuestionResponse(question) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const assignReviewer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const { reviewerId } = questionReviewerSchema.parse(req.body);
+    const updated = await assignQuestionReviewer(id, reviewerId);
+    if (!updated) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+
+    await recordAdminAction(
+      req.user?.id,
+      "QuestionBank",
+      "ASSIGN_REVIEWER",
+      id,
+      reviewerId ? `Reviewer ${reviewerId}` : "Reviewer cleared",
+    );
+
+    const question = await prisma.questionBank.findUnique({
+      where: { id },
+      include: questionInclude,
+    });
+    if (!question) {
+      throw new QuestionValidationError("Question could not be loaded after assigning a reviewer");
+    }
+
+    return res.json({ success: true, data: { question: buildQuestionResponse(question) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReviewers = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reviewers = await listReviewers();
+    return res.json({ success: true, data: { reviewers } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReviewComments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const comments = await listReviewComments(id);
+    return res.json({ success: true, data: { comments: comments.map(buildReviewCommentResponse) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createReviewComment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = questionIdSchema.parse(req.params);
+    const payload = questionReviewCommentSchema.parse(req.body);
+    const comment = await addReviewComment({
+      questionId: id,
+      authorId: req.user?.id,
+      body: payload.body,
+      field: payload.field,
+    });
+    if (!comment) {
+      return res.status(404).json({ success: false, message: "Question not found" });
+    }
+    return res.status(201).json({ success: true, data: { comment: buildReviewCommentResponse(comment) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resolveComment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, commentId } = questionReviewCommentParamsSchema.parse(req.params);
+    const comment = await resolveReviewComment(id, commentId);
+    if (!comment) {
+      return res.status(404).json({ success: false, message: "Comment not found" });
+    }
+    return res.json({ success: true, data: { comment: buildReviewCommentResponse(comment) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const calibrateQuestions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const adminId = req.user?.id;
+    const started = startItemCalibration((summary) =>
+      recordAdminAction(
+        adminId,
+        "QuestionBank",
+        "CALIBRATE",
+        undefined,
+        `${summary.calibratedItems} of ${summary.items} items from ${summary.responses} responses`,
+      ),
+    );
+    if (!started) {
+      return res.status(409).json({ success: false, message: "A calibration run is already in progress" });
+    }
+
+    return res.status(202).json({
+      success: true,
+      message: "Question difficulty recalibration started",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 const parseCsvBuffer = (buffer: Buffer) => {
   const parsed = Papa.parse(buffer.toString("utf-8"), {
     header: true,
@@ -838,12 +1452,26 @@ const normalizeImportRow = (rawRow: Record<string, string>) => {
   const inlineOptions = optionKeys
     .map((key) => resolveImportField(row[key], row[key.toLowerCase()]))
     .filter((value): value is string => Boolean(value));
-  const optionsValue =
-    resolveImportField(row.options) ??
-    (inlineOptions.length ? inlineOptions.join("|") : undefined);
+  // Matching rows may list "prompt=answer" pairs instead of aligned options/correctAnswers.
+  const pairs = (resolveImportField(row.pairs) ?? "")
+    .split("|")
+    .map((pair) => pair.split("=").map((part) => part.trim()))
+    .filter((pair): pair is [string, string] => pair.length === 2 && Boolean(pair[0] && pair[1]));
+  const optionsValue = pairs.length
+    ? pairs.map(([prompt]) => prompt)
+    : resolveImportField(row.options) ??
+      (inlineOptions.length ? inlineOptions.join("|") : undefined);
+  const correctAnswersValue = pairs.length
+    ? pairs.map(([, answer]) => answer)
+    : resolveImportField(row.correctAnswers, row.correct_answers);
   const questionTypeValue =
     resolveImportField(row.questionType, row.question_type) ?? QuestionType.MULTIPLE_CHOICE;
   const difficultyValue = resolveImportField(row.difficulty) ?? Difficulty.EASY;
+  const matchStrategyValue = resolveImportField(row.matchStrategy, row.match_strategy);
+  const maxDistanceValue = resolveImportField(row.maxDistance, row.max_distance);
+  const toleranceValue = resolveImportField(row.tolerance);
+  const unitsValue = resolveImportField(row.units);
+  const hasMatchOptions = Boolean(maxDistanceValue ?? toleranceValue ?? unitsValue);
 
   return {
     topicId: resolveImportField(row.topicId, row.topic_id),
@@ -853,10 +1481,18 @@ const normalizeImportRow = (rawRow: Record<string, string>) => {
     questionType: questionTypeValue.toUpperCase().replace(/-/g, "_"),
     options: optionsValue,
     correctOption: resolveImportField(row.correctOption, row.correct_option),
-    correctAnswers: resolveImportField(row.correctAnswers, row.correct_answers),
+    correctAnswers: correctAnswersValue,
+    matchStrategy: matchStrategyValue?.toUpperCase(),
+    matchOptions: hasMatchOptions
+      ? { maxDistance: maxDistanceValue, tolerance: toleranceValue, units: unitsValue }
+      : undefined,
     difficulty: difficultyValue.toUpperCase(),
     language: resolveImportField(row.language),
     explanation: resolveImportField(row.explanation, row.rationale),
+    objectiveCodes: resolveImportField(row.objectiveCodes, row.objective_codes)
+      ?.split("|")
+      .map((code) => code.trim())
+      .filter(Boolean),
   };
 };
 
@@ -865,6 +1501,11 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
     if (!req.file) {
       return res.status(400).json({ success: false, message: "Upload a CSV or XLSX file" });
     }
+    const { publish } = importQuerySchema.parse(req.query);
+    // Publishing straight from a file skips review, so only someone who could approve the rows may do it.
+    if (publish && !hasPermission(req.user?.role, "content:review")) {
+      return res.status(403).json({ success: false, message: "Publishing an import requires review permission" });
+    }
 
     const extension = req.file.originalname.split(".").pop()?.toLowerCase();
     const isXlsx = extension === "xlsx";
@@ -878,7 +1519,7 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
     }
 
     let failed = 0;
-    const parsedRows: QuestionDraft[] = [];
+    const parsedRows: ImportDraft[] = [];
 
     rawRows.forEach((row) => {
       const normalizedRow = normalizeImportRow(row);
@@ -901,7 +1542,7 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
         if (parsed.data.gradeId !== undefined) {
           draft.gradeId = parsed.data.gradeId;
         }
-        parsedRows.push(draft);
+        parsedRows.push({ ...draft, objectiveCodes: [parsed.data.objectiveCodes ?? []].flat() });
       } catch {
         failed += 1;
       }
@@ -992,12 +1633,18 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
       duplicates.map((record) => `${record.topicId}|${record.questionText.toLowerCase()}`),
     );
 
+    // Objective codes resolve within the row's own topic; a row naming an unknown code fails whole.
+    const objectiveIdsByCode = await resolveObjectiveCodes(deduped);
     const rowsToInsert = deduped.filter((row) => {
       const key = `${row.topicId}|${row.questionText?.toLowerCase()}`;
       if (duplicateKeys.has(key)) {
         skipped += 1;
         return false;
       }
+      if (row.objectiveCodes.some((code) => !objectiveIdsByCode.has(objectiveCodeKey(row.topicId, code)))) {
+        failed += 1;
+        return false;
+      }
       return true;
     });
 
@@ -1009,7 +1656,13 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
       });
     }
 
-    const createResult = await prisma.questionBank.createMany({
+    // Reworded copies still go in, but are reported so the admin can merge them afterwards.
+    const possibleDuplicates = await findImportNearDuplicates(
+      rowsToInsert.map((row) => ({ topicId: row.topicId!, questionText: row.questionText! })),
+    );
+
+    const created = await prisma.questionBank.createManyAndReturn({
+      select: { id: true, topicId: true, questionText: true },
       data: rowsToInsert.map((row) => ({
         topicId: row.topicId!,
         questionText: row.questionText!,
@@ -1017,28 +1670,47 @@ export const importQuestions = async (req: Request, res: Response, next: NextFun
         options: serializeJsonField(row.options),
         correctOption: row.correctOption ?? null,
         correctAnswers: serializeJsonField(row.correctAnswers),
+        matchStrategy: row.matchStrategy,
+        matchOptions: serializeMatchOptions(row.matchOptions),
         difficulty: row.difficulty,
         language: row.language,
         explanation: row.explanation ?? null,
         imageUrl: row.imageUrl ?? null,
-        isActive: row.isActive,
-        status: row.status,
+        isActive: publish,
+        status: publish ? QuestionStatus.PUBLISHED : QuestionStatus.DRAFT,
         createdById: req.user?.id ?? null,
       })),
     });
 
+    const createdIds = new Map(
+      created.map((question) => [`${question.topicId}|${question.questionText.toLowerCase()}`, question.id]),
+    );
+    const objectiveTags = rowsToInsert.flatMap((row) => {
+      const questionId = createdIds.get(`${row.topicId}|${row.questionText?.toLowerCase()}`);
+      if (!questionId) {
+        return [];
+      }
+      return row.objectiveCodes.map((code) => ({
+        questionId,
+        objectiveId: objectiveIdsByCode.get(objectiveCodeKey(row.topicId, code))!,
+      }));
+    });
+    if (objectiveTags.length) {
+      await prisma.questionObjective.createMany({ data: objectiveTags, skipDuplicates: true });
+    }
+
     await recordAdminAction(
       req.user?.id,
       "QuestionBank",
       "IMPORT",
       undefined,
-      `Imported ${createResult.count} questions`,
+      `Imported ${created.length} questions as ${publish ? "published" : "drafts"}`,
     );
 
     return res.json({
       success: true,
       message: "Question import completed",
-      data: { imported: createResult.count, skipped, failed },
+      data: { imported: created.length, skipped, failed, possibleDuplicates },
     });
   } catch (error) {
     next(error);
@@ -1059,7 +1731,9 @@ const exportColumns = [
   { header: "Options", key: "options", width: 40 },
   { header: "Correct Option", key: "correctOption", width: 18 },
   { header: "Correct Answers", key: "correctAnswers", width: 28 },
+  { header: "Match Strategy", key: "matchStrategy", width: 16 },
   { header: "Explanation", key: "explanation", width: 50 },
+  { header: "Objectives", key: "objectives", width: 28 },
 ];
 
 const exportHeaders = exportColumns.map((column) => column.header);
@@ -1078,7 +1752,9 @@ const formatQuestionRow = (question: QuestionWithRelations) => ({
   options: (toStringArray(question.options) ?? []).join(" | "),
   correctOption: question.correctOption ?? "",
   correctAnswers: (toStringArray(question.correctAnswers) ?? []).join(" | "),
+  matchStrategy: question.matchStrategy,
   explanation: question.explanation ?? "",
+  objectives: question.objectives.map((tag) => tag.Objective.code).join(" | "),
 });
 
 export const exportQuestions = async (req: Request, res: Response, next: NextFunction) => {
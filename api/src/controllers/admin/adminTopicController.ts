@@ -3,6 +3,7 @@ import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import prisma from "../../config/db";
 import { recordAdminAction } from "../../services/auditService";
+import { addTopicPrerequisite, listTopicPath, removeTopicPrerequisite } from "../../services/topicPathService";
 import { mapTopicDto } from "../../utils/dtoMappers";
 
 const difficultyEnum = z.enum(["easy", "med", "medium", "hard"]);
@@ -36,6 +37,27 @@ const updateSchema = createSchema.partial().refine(
   "At least one field must be provided",
 );
 
+const prerequisiteSchema = z.object({
+  prerequisiteId: z.number().int().positive(),
+  minAccuracy: z.number().int().min(0).max(100).optional(),
+});
+
+const prerequisiteParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  prerequisiteId: z.coerce.number().int().positive(),
+});
+
+const formatPathTopic = (
+  topic: { id: number; topic_name: string; subject_id: number; is_active: boolean },
+  minAccuracy: number,
+) => ({
+  topicId: topic.id,
+  topicName: topic.topic_name,
+  subjectId: topic.subject_id,
+  isActive: topic.is_active,
+  minAccuracy,
+});
+
 const normalizeDifficulty = (value?: string | null) => {
   if (!value) return undefined;
   return value === "medium" ? "med" : value;
@@ -226,3 +248,59 @@ export const restoreAdminTopic = async (req: Request, res: Response, next: NextF
     next(error);
   }
 };
+
+export const getAdminTopicPath = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = idParamSchema.parse(req.params);
+    const { prerequisites, unlocks } = await listTopicPath(id);
+
+    return res.json({
+      success: true,
+      data: {
+        prerequisites: prerequisites.map((edge) => formatPathTopic(edge.Prerequisite, edge.minAccuracy)),
+        unlocks: unlocks.map((edge) => formatPathTopic(edge.Topic, edge.minAccuracy)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addAdminTopicPrerequisite = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = idParamSchema.parse(req.params);
+    const payload = prerequisiteSchema.parse(req.body);
+    const edge = await addTopicPrerequisite(id, payload.prerequisiteId, payload.minAccuracy);
+
+    await recordAdminAction(
+      req.user?.id,
+      "Topic",
+      "ADD_PREREQUISITE",
+      id,
+      `${edge.Prerequisite.topic_name} at ${edge.minAccuracy}%`,
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: { prerequisite: formatPathTopic(edge.Prerequisite, edge.minAccuracy) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeAdminTopicPrerequisite = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, prerequisiteId } = prerequisiteParamsSchema.parse(req.params);
+    const removed = await removeTopicPrerequisite(id, prerequisiteId);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: "Prerequisite not found" });
+    }
+
+    await recordAdminAction(req.user?.id, "Topic", "REMOVE_PREREQUISITE", id, `Topic ${prerequisiteId}`);
+
+    return res.json({ success: true, data: null, message: "Prerequisite removed" });
+  } catch (error) {
+    next(error);
+  }
+};
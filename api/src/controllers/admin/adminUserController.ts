@@ -3,6 +3,7 @@ import bcrypt from "bcrypt";
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import prisma from "../../config/db";
+import { hasPermission, isStaffRole } from "../../config/permissions";
 import { Parser } from "json2csv";
 import { recordAdminAction } from "../../services/auditService";
 import { mapUserDto } from "../../utils/dtoMappers";
@@ -59,6 +60,22 @@ const updateUserSchema = z
     message: "At least one field is required",
   });
 
+const roleAssignmentError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+// Creating learners is part of users:write; handing out a staff role (or taking one away) is not.
+const assertCanAssignRole = (req: Request, role: Role, targetUserId?: number) => {
+  if (isStaffRole(role) && !hasPermission(req.user?.role, "roles:assign")) {
+    throw roleAssignmentError("You are not allowed to assign staff roles", 403);
+  }
+  if (targetUserId !== undefined && targetUserId === req.user?.id) {
+    throw roleAssignmentError("You cannot change your own role", 400);
+  }
+};
+
 const sanitizeUser = (user: any) => {
   const { password_hash, ...rest } = user;
   return mapUserDto(rest);
@@ -177,6 +194,7 @@ export const getUserById = async (req: Request, res: Response, next: NextFunctio
 export const createUser = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const payload = createUserSchema.parse(req.body);
+    assertCanAssignRole(req, payload.role);
     const password_hash = await bcrypt.hash(payload.password, 10);
 
     const user = await prisma.user.create({
@@ -205,6 +223,16 @@ export const updateUser = async (req: Request, res: Response, next: NextFunction
     const { id } = userIdParamSchema.parse(req.params);
     const payload = updateUserSchema.parse(req.body);
 
+    const existing = await prisma.user.findUnique({ where: { id }, select: { role: true } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+    const nextRole = payload.role !== undefined && payload.role !== existing.role ? payload.role : undefined;
+    if (nextRole) {
+      // Demoting a staff member needs the same permission as promoting one.
+      assertCanAssignRole(req, isStaffRole(nextRole) ? nextRole : existing.role, id);
+    }
+
     const data: Prisma.UserUpdateInput = {};
     if (payload.fullName !== undefined) data.full_name = payload.fullName;
     if (payload.email !== undefined) data.email = payload.email;
@@ -232,6 +260,9 @@ export const updateUser = async (req: Request, res: Response, next: NextFunction
     });
 
     await recordAdminAction(req.user?.id, "User", "UPDATE", id, user.email);
+    if (nextRole) {
+      await recordAdminAction(req.user?.id, "User", "ASSIGN_ROLE", id, `${user.email}: ${existing.role} → ${user.role}`);
+    }
 
     return res.json({
       success: true,
@@ -315,6 +346,7 @@ export const exportUsersCsv = async (req: Request, res: Response, next: NextFunc
 export const importUsersBulk = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const payload = importUsersSchema.parse(req.body);
+    payload.users.forEach((entry) => assertCanAssignRole(req, entry.role));
     const summary = {
       created: 0,
       skipped: [] as string[],
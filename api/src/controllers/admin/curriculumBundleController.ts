@@ -0,0 +1,82 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { hasPermission } from "../../config/permissions";
+import { recordAdminAction } from "../../services/auditService";
+import { exportCurriculumBundle, importCurriculumBundle } from "../../services/curriculumBundleService";
+import { curriculumBundleSchema } from "../../validation/curriculumBundleSchema";
+
+const booleanQueryParam = z
+  .union([z.boolean(), z.literal("true"), z.literal("false"), z.undefined()])
+  .transform((value) => value === true || value === "true");
+
+const importQuerySchema = z.object({
+  dryRun: booleanQueryParam,
+});
+
+export const exportBundle = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const bundle = await exportCurriculumBundle();
+    await recordAdminAction(
+      req.user?.id,
+      "CurriculumBundle",
+      "EXPORT",
+      undefined,
+      `Exported ${bundle.topics.length} topics and ${bundle.questions.length} questions`,
+    );
+
+    const date = bundle.exportedAt?.slice(0, 10) ?? "latest";
+    res.setHeader("Content-Type", "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="curriculum-bundle-${date}.json"`);
+    return res.status(200).send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const importBundle = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: "Upload a curriculum bundle (.json)" });
+    }
+    const { dryRun } = importQuerySchema.parse(req.query);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(req.file.buffer.toString("utf-8"));
+    } catch {
+      return res.status(400).json({ success: false, message: "Bundle is not valid JSON" });
+    }
+    const bundle = curriculumBundleSchema.parse(raw);
+
+    const report = await importCurriculumBundle(bundle, {
+      dryRun,
+      actorId: req.user?.id,
+      canPublish: hasPermission(req.user?.role, "content:review"),
+    });
+    if (report.conflicts.length && !dryRun) {
+      return res.status(409).json({
+        success: false,
+        message: "Bundle has conflicts; nothing was imported",
+        data: report,
+      });
+    }
+
+    if (report.applied) {
+      await recordAdminAction(
+        req.user?.id,
+        "CurriculumBundle",
+        "IMPORT",
+        undefined,
+        `Imported ${report.changes.length} changes`,
+      );
+    }
+
+    return res.json({
+      success: true,
+      message: dryRun ? "Bundle dry run completed" : "Bundle import completed",
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
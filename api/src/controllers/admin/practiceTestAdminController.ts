@@ -1,7 +1,13 @@
-import { Difficulty, Prisma, QuestionStatus } from "@prisma/client";
+import { Prisma, QuestionStatus } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
 import prisma from "../../config/db";
 import { recordAdminAction } from "../../services/auditService";
+import {
+  DifficultyMix,
+  difficultyOrder,
+  parseDifficultyMix,
+  parseTopicFilters,
+} from "../../services/v2/practiceTestGeneratorService";
 import {
   createPracticeTestSchema,
   practiceTestIdSchema,
@@ -11,10 +17,6 @@ import {
 } from "../../validation/practiceTestSchema";
 import { mapPracticeTestDto, mapQuestionDto } from "../../utils/dtoMappers";
 
-type DifficultyMix = Partial<Record<Difficulty, number>>;
-
-const difficultyOrder: Difficulty[] = [Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD];
-
 const practiceTestInclude = {
   Subject: { select: { id: true, subject_name: true } },
   GradeLevel: { select: { id: true, name: true } },
@@ -36,36 +38,6 @@ const practiceTestInclude = {
 
 type PracticeTestPayload = Prisma.PracticeTestGetPayload<{ include: typeof practiceTestInclude }>;
 
-const parseDifficultyMix = (raw: Prisma.JsonValue | null | undefined): DifficultyMix => {
-  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
-    const record: DifficultyMix = {};
-    for (const key of difficultyOrder) {
-      const value = (raw as Record<string, unknown>)[key];
-      if (typeof value === "number") {
-        record[key] = value;
-      }
-    }
-    return record;
-  }
-  return {};
-};
-
-const parseTopicFilters = (
-  raw: Prisma.JsonValue | null | undefined,
-): { topicIds: number[] } => {
-  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
-    const topicIds = (raw as Record<string, unknown>).topicIds;
-    if (Array.isArray(topicIds)) {
-      return {
-        topicIds: topicIds
-          .map((value) => (typeof value === "number" ? value : Number(value)))
-          .filter((value) => Number.isFinite(value) && value > 0),
-      };
-    }
-  }
-  return { topicIds: [] };
-};
-
 const sumDifficultyMix = (mix: DifficultyMix): number =>
   difficultyOrder.reduce((total, key) => total + (mix[key] ?? 0), 0);
 
@@ -92,6 +64,7 @@ const buildPracticeTestResponse = (test: PracticeTestPayload) => {
         id: entry.id,
         questionId: entry.Question.id,
         orderIndex: entry.orderIndex,
+        points: entry.points,
         questionText: entry.Question.questionText,
         difficulty: entry.Question.difficulty,
         topicId: entry.Question.topicId,
@@ -138,7 +111,7 @@ const generateQuestionSelection = async (
       where: {
         topicId: { in: topicIds },
         difficulty,
-        status: QuestionStatus.ACTIVE,
+        status: QuestionStatus.PUBLISHED,
         isActive: true,
       },
       orderBy: { updatedAt: "desc" },
@@ -278,6 +251,9 @@ export const createPracticeTest = async (req: Request, res: Response, next: Next
           questionCount: payload.questionCount,
           difficultyMix: difficultyMix as Prisma.InputJsonValue,
           topicFilters: { topicIds } as Prisma.InputJsonValue,
+          isGenerated: payload.isGenerated ?? false,
+          negativeMarking: payload.negativeMarking ?? 0,
+          isPremium: payload.isPremium ?? false,
           isActive: true,
         },
       });
@@ -287,6 +263,7 @@ export const createPracticeTest = async (req: Request, res: Response, next: Next
           practiceTestId: test.id,
           questionId: question.id,
           orderIndex: index,
+          points: payload.questionPoints?.[String(question.id)] ?? 1,
         })),
       });
 
@@ -365,6 +342,9 @@ export const updatePracticeTest = async (req: Request, res: Response, next: Next
     if (payload.gradeLevelId !== undefined) data.gradeLevelId = payload.gradeLevelId;
     if (payload.durationMinutes !== undefined) data.durationMinutes = payload.durationMinutes ?? null;
     if (payload.xpReward !== undefined) data.xpReward = payload.xpReward;
+    if (payload.isGenerated !== undefined) data.isGenerated = payload.isGenerated;
+    if (payload.negativeMarking !== undefined) data.negativeMarking = payload.negativeMarking;
+    if (payload.isPremium !== undefined) data.isPremium = payload.isPremium;
     if (payload.questionCount !== undefined) data.questionCount = payload.questionCount;
     if (payload.difficultyMix !== undefined)
       data.difficultyMix = nextMix as Prisma.InputJsonValue;
@@ -392,8 +372,16 @@ export const updatePracticeTest = async (req: Request, res: Response, next: Next
             practiceTestId: id,
             questionId: question.id,
             orderIndex: index,
+            points: payload.questionPoints?.[String(question.id)] ?? 1,
           })),
         });
+      } else if (payload.questionPoints) {
+        for (const [questionId, points] of Object.entries(payload.questionPoints)) {
+          await tx.practiceTestQuestion.updateMany({
+            where: { practiceTestId: id, questionId: Number(questionId) },
+            data: { points },
+          });
+        }
       }
     });
 
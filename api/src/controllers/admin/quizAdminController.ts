@@ -26,6 +26,7 @@ const quizInclude = {
           id: true,
           questionText: true,
           difficulty: true,
+          calibratedDifficulty: true,
           questionType: true,
           status: true,
         },
@@ -49,20 +50,20 @@ const dedupePreserveOrder = (ids: number[]) => {
   });
 };
 
-const findActiveQuestionIds = async (topicId: number, questionIds: number[]) => {
+const findPublishedQuestionIds = async (topicId: number, questionIds: number[]) => {
   const normalized = dedupePreserveOrder(questionIds);
-  const activeQuestions = await prisma.questionBank.findMany({
+  const publishedQuestions = await prisma.questionBank.findMany({
     where: {
       id: { in: normalized },
       topicId,
-      status: QuestionStatus.ACTIVE,
+      status: QuestionStatus.PUBLISHED,
       isActive: true,
     },
     select: { id: true },
   });
 
   const missing = normalized.filter(
-    (questionId) => !activeQuestions.some((question) => question.id === questionId),
+    (questionId) => !publishedQuestions.some((question) => question.id === questionId),
   );
 
   return { normalized, missing };
@@ -76,8 +77,10 @@ const buildQuizResponse = (quiz: QuizWithRelations) => {
         quizQuestionId: entry.id,
         questionId: entry.questionId,
         orderIndex: entry.orderIndex,
+        points: entry.points,
         questionText: entry.Question.questionText,
         questionDifficulty: entry.Question.difficulty,
+        calibratedDifficulty: entry.Question.calibratedDifficulty,
         questionType: entry.Question.questionType,
         questionStatus: entry.Question.status,
         topicId: quiz.topicId,
@@ -99,8 +102,8 @@ const respondInvalidQuestions = (res: Response, invalidIds: number[]) => {
   return res.status(400).json({
     success: false,
     message: plural
-      ? "One or more selected questions are inactive or belong to another topic"
-      : "Selected question is inactive or belongs to another topic",
+      ? "One or more selected questions are not published or belong to another topic"
+      : "Selected question is not published or belongs to another topic",
     details: { invalidQuestionIds: invalidIds },
   });
 };
@@ -203,7 +206,7 @@ export const createQuiz = async (req: Request, res: Response, next: NextFunction
       });
     }
 
-    const { normalized, missing } = await findActiveQuestionIds(
+    const { normalized, missing } = await findPublishedQuestionIds(
       payload.topicId,
       payload.questionIds,
     );
@@ -219,6 +222,9 @@ export const createQuiz = async (req: Request, res: Response, next: NextFunction
           title: payload.title,
           description: payload.description ?? null,
           difficulty: payload.difficulty,
+          isPremium: payload.isPremium ?? false,
+          isAdaptive: payload.isAdaptive ?? false,
+          adaptiveQuestionCount: payload.adaptiveQuestionCount ?? null,
           isActive: true,
         },
       });
@@ -228,6 +234,7 @@ export const createQuiz = async (req: Request, res: Response, next: NextFunction
           quizId: quiz.id,
           questionId,
           orderIndex: index,
+          points: payload.questionPoints?.[String(questionId)] ?? 1,
         })),
       });
 
@@ -268,10 +275,13 @@ export const updateQuiz = async (req: Request, res: Response, next: NextFunction
     if (payload.title !== undefined) data.title = payload.title;
     if (payload.description !== undefined) data.description = payload.description ?? null;
     if (payload.difficulty !== undefined) data.difficulty = payload.difficulty;
+    if (payload.isPremium !== undefined) data.isPremium = payload.isPremium;
+    if (payload.isAdaptive !== undefined) data.isAdaptive = payload.isAdaptive;
+    if (payload.adaptiveQuestionCount !== undefined) data.adaptiveQuestionCount = payload.adaptiveQuestionCount;
 
     let normalizedQuestions: number[] | undefined;
     if (payload.questionIds) {
-      const validate = await findActiveQuestionIds(existing.topicId, payload.questionIds);
+      const validate = await findPublishedQuestionIds(existing.topicId, payload.questionIds);
       if (validate.missing.length > 0) {
         return respondInvalidQuestions(res, validate.missing);
       }
@@ -281,7 +291,7 @@ export const updateQuiz = async (req: Request, res: Response, next: NextFunction
     const updateData =
       Object.keys(data).length > 0
         ? data
-        : normalizedQuestions
+        : normalizedQuestions || payload.questionPoints
           ? { updatedAt: new Date() }
           : undefined;
 
@@ -294,14 +304,27 @@ export const updateQuiz = async (req: Request, res: Response, next: NextFunction
       }
 
       if (normalizedQuestions) {
+        const previousPoints = new Map(
+          (await tx.quizQuestion.findMany({ where: { quizId: id }, select: { questionId: true, points: true } })).map(
+            (entry) => [entry.questionId, entry.points],
+          ),
+        );
         await tx.quizQuestion.deleteMany({ where: { quizId: id } });
         await tx.quizQuestion.createMany({
           data: normalizedQuestions.map((questionId, index) => ({
             quizId: id,
             questionId,
             orderIndex: index,
+            points: payload.questionPoints?.[String(questionId)] ?? previousPoints.get(questionId) ?? 1,
           })),
         });
+      } else if (payload.questionPoints) {
+        for (const [questionId, points] of Object.entries(payload.questionPoints)) {
+          await tx.quizQuestion.updateMany({
+            where: { quizId: id, questionId: Number(questionId) },
+            data: { points },
+          });
+        }
       }
     });
 
@@ -310,7 +333,7 @@ export const updateQuiz = async (req: Request, res: Response, next: NextFunction
       return res.status(404).json({ success: false, message: "Quiz not found" });
     }
 
-    if (payload.questionIds) {
+    if (payload.questionIds || payload.questionPoints) {
       await recordAdminAction(req.user?.id, "Quiz", "UPDATE_QUESTIONS", id, updated.title);
     }
     if (Object.keys(data).length > 0) {
@@ -7,6 +7,7 @@ import {
   getProgressSummary,
   getQuizAttempts,
 } from "../../services/analyticsService";
+import { buildObjectiveMasteryReport } from "../../services/learningObjectiveService";
 
 const attemptsQuerySchema = z
   .object({
@@ -42,6 +43,11 @@ const leaderboardQuerySchema = z.object({
   sortBy: z.enum(["xp", "completion"]).default("xp"),
 });
 
+const objectivesQuerySchema = z.object({
+  topicId: z.coerce.number().int().positive().optional(),
+  curriculum: z.string().trim().min(1).optional(),
+});
+
 export const getAttemptReports = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const params = attemptsQuerySchema.parse(req.query);
@@ -109,3 +115,17 @@ export const getMetricReports = async (_req: Request, res: Response, next: NextF
     next(error);
   }
 };
+
+export const getObjectiveReports = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const params = objectivesQuerySchema.parse(req.query);
+    const objectives = await buildObjectiveMasteryReport({
+      ...(params.topicId ? { topicId: params.topicId } : {}),
+      ...(params.curriculum ? { curriculum: params.curriculum } : {}),
+    });
+
+    return res.json({ success: true, data: { objectives } });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -4,6 +4,7 @@ import crypto from "crypto";
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import prisma from "../config/db";
+import { permissionsForRole } from "../config/permissions";
 import { mapUserDto } from "../utils/dtoMappers";
 import {
   getRefreshExpiryDate,
@@ -21,6 +22,7 @@ const registerSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
   email: z.string().email(),
   password: z.string().min(6, "Password must be at least 6 characters"),
+  accountType: z.enum(["learner", "guardian"]).default("learner"),
 });
 
 const loginSchema = z.object({
@@ -110,6 +112,7 @@ export const registerUser = async (req: Request, res: Response, next: NextFuncti
           full_name: payload.fullName,
           email: payload.email,
           password_hash: passwordHash,
+          role: payload.accountType === "guardian" ? Role.GUARDIAN : Role.USER,
         },
       });
 
@@ -206,8 +209,8 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
         orderBy: { completed_at: "desc" },
         take: 10,
       }),
-      prisma.attempt.count({ where: { user_id: user.id } }),
-      prisma.attempt.count({ where: { user_id: user.id, is_correct: true } }),
+      prisma.questionAttemptV2.count({ where: { userId: user.id } }),
+      prisma.questionAttemptV2.count({ where: { userId: user.id, isCorrect: true } }),
       prisma.xpHistory.findMany({
         where: { user_id: user.id },
         orderBy: { created_at: "desc" },
@@ -238,11 +241,13 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
       totalAttempts === 0 ? 0 : Math.round((correctAttempts / totalAttempts) * 100);
 
     const xpToNextLevel = getXpToNextLevel(user.xp_total);
+    // Report the derived entitlement so apps unlock content for subscribers too.
+    const profileUser = { ...user, is_premium: req.user.isPremium };
 
     return res.json({
       success: true,
       data: {
-        user: sanitizeUser(user),
+        user: { ...sanitizeUser(profileUser), permissions: permissionsForRole(user.role) },
         badges: badges.map((badge) => ({
           id: badge.id,
           name: badge.name,
@@ -4,6 +4,8 @@ import { z } from "zod";
 import prisma from "../config/db";
 import { GradeLevelInput, SubjectInput, TopicInput } from "../validation/curriculumSchema";
 import { mapGradeDto, mapGradeLevelDto, mapSubjectDto, mapTopicDto } from "../utils/dtoMappers";
+import { mapTopicLockDto } from "../utils/learnerDtoMappers";
+import { TopicLockState, buildTopicLockStates } from "../services/topicPathService";
 
 type SubjectWithTopics = Subject & { topics: Topic[] };
 type GradeWithRelations = GradeLevel & { subjects: SubjectWithTopics[] };
@@ -34,7 +36,11 @@ const formatTopic = (topic: Topic) =>
     subject_id: topic.subject_id,
   });
 
-const formatSubject = (subject: SubjectWithTopics, includeTopics = false) => {
+const formatSubject = (
+  subject: SubjectWithTopics,
+  includeTopics = false,
+  lockStates?: Map<number, TopicLockState>,
+) => {
   const topicList = subject.topics ?? [];
   const base = mapSubjectDto({
     id: subject.id,
@@ -48,14 +54,16 @@ const formatSubject = (subject: SubjectWithTopics, includeTopics = false) => {
   if (includeTopics) {
     return {
       ...base,
-      topics: topicList.map(formatTopic),
+      topics: topicList.map((topic) =>
+        lockStates ? { ...formatTopic(topic), ...mapTopicLockDto(lockStates.get(topic.id)) } : formatTopic(topic),
+      ),
     };
   }
 
   return base;
 };
 
-const formatGrade = (grade: GradeWithRelations) => {
+const formatGrade = (grade: GradeWithRelations, lockStates?: Map<number, TopicLockState>) => {
   const subjectList = grade.subjects ?? [];
   const topicCount = subjectList.reduce((total, subject) => total + (subject.topics?.length ?? 0), 0);
   return mapGradeLevelDto({
@@ -63,7 +71,7 @@ const formatGrade = (grade: GradeWithRelations) => {
     name: grade.name,
     subjectCount: subjectList.length,
     topicCount,
-    subjects: subjectList.map((subject) => formatSubject(subject, true)),
+    subjects: subjectList.map((subject) => formatSubject(subject, true, lockStates)),
   });
 };
 
@@ -252,7 +260,7 @@ export const createTopic: RequestHandler<unknown, unknown, TopicInput> = async (
 export const listGrades: RequestHandler = async (_req, res, next) => {
   try {
     const gradesRaw = await prisma.gradeLevel.findMany(gradeInclude);
-    const grades = gradesRaw.map(formatGrade);
+    const grades = gradesRaw.map((grade) => formatGrade(grade));
     return res.json({ success: true, data: { grades } });
   } catch (error) {
     next(error);
@@ -314,10 +322,15 @@ export const listTopics: RequestHandler = async (req, res, next) => {
   }
 };
 
-export const getCurriculumTree: RequestHandler = async (_req, res, next) => {
+export const getCurriculumTree: RequestHandler = async (req, res, next) => {
   try {
     const treeRaw = await prisma.gradeLevel.findMany(gradeInclude);
-    const tree = treeRaw.map(formatGrade);
+    const topicIds = treeRaw.flatMap((grade) =>
+      grade.subjects.flatMap((subject) => subject.topics.map((topic) => topic.id)),
+    );
+    // Signed-in learners get their own lock state; anonymous callers see every gated topic locked.
+    const lockStates = await buildTopicLockStates(topicIds, req.user?.id);
+    const tree = treeRaw.map((grade) => formatGrade(grade, lockStates));
     return res.json({ success: true, data: { tree } });
   } catch (error) {
     next(error);
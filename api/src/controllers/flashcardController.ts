@@ -2,7 +2,10 @@ import { Prisma } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import prisma from "../config/db";
+import { assertPremiumAccess } from "../services/entitlementService";
+import { MAX_RECALL_GRADE, listDueFlashcards, recordFlashcardReview } from "../services/v2/flashcardReviewService";
 import { mapFlashcardDto } from "../utils/dtoMappers";
+import { lockLearnerPremiumFlashcard, mapDueFlashcardDto, mapFlashcardReviewDto } from "../utils/learnerDtoMappers";
 
 const booleanQuery = z
   .union([z.literal("true"), z.literal("false"), z.boolean()])
@@ -28,6 +31,17 @@ const createFlashcardSchema = z.object({
   isPremium: z.boolean().optional(),
 });
 
+const dueQuerySchema = z.object({
+  topic_id: z.coerce.number().int().positive().optional(),
+  lang: z.string().min(2).max(5).optional(),
+  include_new: booleanQuery.default(true),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+const reviewSchema = z.object({
+  grade: z.coerce.number().int().min(0).max(MAX_RECALL_GRADE),
+});
+
 const shuffleInPlace = <T>(items: T[]): T[] => {
   for (let i = items.length - 1; i > 0; i -= 1) {
     const j = Math.floor(Math.random() * (i + 1));
@@ -85,10 +99,11 @@ export const getFlashcards = async (req: Request, res: Response, next: NextFunct
     ]);
 
     const result = random ? shuffleInPlace([...flashcards]) : flashcards;
+    const hasPremiumAccess = req.user?.isPremium ?? false;
 
     return res.json({
       success: true,
-      data: result.map((flashcard) => mapFlashcardDto(flashcard)),
+      data: result.map((flashcard) => lockLearnerPremiumFlashcard(mapFlashcardDto(flashcard), hasPremiumAccess)),
       pagination: { page, limit, total },
     });
   } catch (error) {
@@ -120,3 +135,49 @@ export const createFlashcard = async (req: Request, res: Response, next: NextFun
     next(error);
   }
 };
+
+export const getDueFlashcards = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+    const query = dueQuerySchema.parse(req.query);
+
+    const items = await listDueFlashcards({
+      userId,
+      topicId: query.topic_id,
+      language: query.lang,
+      limit: query.limit,
+      includeNew: query.include_new,
+      includePremium: req.user!.isPremium,
+    });
+
+    return res.json({
+      success: true,
+      data: items.map(({ flashcard, review }) => mapDueFlashcardDto(flashcard, review)),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reviewFlashcard = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+    const flashcardId = z.coerce.number().int().positive().parse(req.params.id);
+    const { grade } = reviewSchema.parse(req.body);
+
+    const flashcard = await prisma.flashcard.findUnique({ where: { id: flashcardId } });
+    if (!flashcard) {
+      return res.status(404).json({ success: false, message: "Flashcard not found" });
+    }
+    assertPremiumAccess(flashcard.is_premium, req.user!.isPremium);
+
+    const review = await recordFlashcardReview(userId, flashcard, grade);
+
+    return res.json({
+      success: true,
+      data: { review: mapFlashcardReviewDto(review) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
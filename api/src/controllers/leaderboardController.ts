@@ -1,4 +1,4 @@
-import { ChallengeStatus, Prisma } from "@prisma/client";
+import { ChallengeStatus, Prisma, Role } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import prisma from "../config/db";
@@ -50,15 +50,15 @@ export const getLeaderboard = async (req: Request, res: Response, next: NextFunc
     const hasNoResults = () => Array.isArray(filteredIds) && filteredIds.length === 0;
 
     if (start) {
-      const attemptUsers = await prisma.attempt.findMany({
-        where: { attempt_date: { gte: start } },
-        select: { user_id: true },
-        distinct: ["user_id"],
+      const attemptUsers = await prisma.questionAttemptV2.findMany({
+        where: { createdAt: { gte: start } },
+        select: { userId: true },
+        distinct: ["userId"],
       });
       if (attemptUsers.length === 0) {
         return respondEmpty();
       }
-      mergeIds(attemptUsers.map((item) => item.user_id));
+      mergeIds(attemptUsers.map((item) => item.userId));
       if (hasNoResults()) {
         return respondEmpty();
       }
@@ -98,19 +98,20 @@ export const getLeaderboard = async (req: Request, res: Response, next: NextFunc
       }
     }
 
-    let userWhere: Prisma.UserWhereInput | undefined;
+    // Guardians follow learners from the sidelines and never compete.
+    const userWhere: Prisma.UserWhereInput = { role: { not: Role.GUARDIAN } };
     if (filteredIds) {
       const ids = filteredIds as number[];
       if (ids.length === 0) {
         return respondEmpty();
       }
-      userWhere = { id: { in: ids } };
+      userWhere.id = { in: ids };
     }
 
     const [total, users] = await Promise.all([
-      userWhere ? prisma.user.count({ where: userWhere }) : prisma.user.count(),
+      prisma.user.count({ where: userWhere }),
       prisma.user.findMany({
-        ...(userWhere ? { where: userWhere } : {}),
+        where: userWhere,
         orderBy: [
           { xp_total: "desc" },
           { streak_days: "desc" },
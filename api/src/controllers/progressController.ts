@@ -37,9 +37,9 @@ const buildProgressWhere = (
 
 const createTopicSummary = async (userId: number, topicId: number) => {
   const [totalQuizzes, completedQuizzes] = await Promise.all([
-    prisma.legacyQuiz.count({ where: { topic_id: topicId } }),
-    prisma.attempt.count({
-      where: { user_id: userId, is_correct: true, LegacyQuiz: { topic_id: topicId } },
+    prisma.quiz.count({ where: { topicId, isActive: true } }),
+    prisma.quiz.count({
+      where: { topicId, isActive: true, attemptsV2: { some: { userId, status: "completed" } } },
     }),
   ]);
 
@@ -1,11 +1,45 @@
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
-import { getPracticeTestAttempt, getQuizAttempt, listAttempts } from "../../services/v2/attemptV2Service";
+import {
+  getPracticeTestAttempt,
+  getQuizAttempt,
+  getReviewAttempt,
+  listAttempts,
+  saveAttemptDraft,
+  syncOfflineQuizAttempts,
+} from "../../services/v2/attemptV2Service";
 
 const listQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional(),
 });
 
+const responseSchema = z.object({
+  questionId: z.number().int().positive(),
+  selectedOption: z.string().optional(),
+  selectedOptions: z.array(z.string()).optional(),
+});
+
+const draftSchema = z.object({
+  currentIndex: z.number().int().nonnegative().optional(),
+  responses: z.array(responseSchema).default([]),
+});
+
+const syncSchema = z.object({
+  attempts: z
+    .array(
+      z.object({
+        clientId: z.string().uuid(),
+        quizId: z.number().int().positive(),
+        responses: z.array(responseSchema).default([]),
+        startedAt: z.coerce.date().optional(),
+        completedAt: z.coerce.date(),
+        durationSeconds: z.number().int().nonnegative().optional(),
+        timeSpentSeconds: z.number().int().nonnegative().optional(),
+      }),
+    )
+    .max(50),
+});
+
 export const listLearnerAttemptsHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const query = listQuerySchema.parse(req.query);
@@ -19,13 +53,15 @@ export const listLearnerAttemptsHandler = async (req: Request, res: Response, ne
 export const getLearnerAttemptHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const attemptId = z.coerce.number().int().positive().parse(req.params.id);
-    const type = z.enum(["quiz", "practice"]).parse(
+    const type = z.enum(["quiz", "practice", "review"]).parse(
       (req.query.type as string | undefined)?.toLowerCase() ?? "quiz",
     );
     const attempt =
       type === "quiz"
         ? await getQuizAttempt(attemptId, req.user!.id)
-        : await getPracticeTestAttempt(attemptId, req.user!.id);
+        : type === "practice"
+          ? await getPracticeTestAttempt(attemptId, req.user!.id)
+          : await getReviewAttempt(attemptId, req.user!.id);
     if (!attempt) {
       return res.status(404).json({ success: false, message: "Attempt not found" });
     }
@@ -34,3 +70,33 @@ export const getLearnerAttemptHandler = async (req: Request, res: Response, next
     next(error);
   }
 };
+
+export const saveLearnerAttemptResponsesHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attemptId = z.coerce.number().int().positive().parse(req.params.id);
+    const type = z.enum(["quiz", "practice", "review"]).parse(
+      (req.query.type as string | undefined)?.toLowerCase() ?? "quiz",
+    );
+    const payload = draftSchema.parse(req.body);
+    const draft = await saveAttemptDraft(req.user!.id, attemptId, type, {
+      responses: payload.responses,
+      currentIndex: payload.currentIndex,
+    });
+    if (!draft) {
+      return res.status(404).json({ success: false, message: "Attempt not found" });
+    }
+    return res.json({ success: true, data: draft });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const syncLearnerAttemptsHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = syncSchema.parse(req.body);
+    const results = await syncOfflineQuizAttempts(req.user!.id, payload.attempts, req.user!.isPremium);
+    return res.json({ success: true, data: results });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import {
+  joinClassroom,
+  leaveClassroom,
+  listLearnerAssignments,
+  listLearnerClassrooms,
+} from "../../services/classroomService";
+import { mapLearnerAssignmentDto, mapLearnerClassroomDto } from "../../utils/learnerDtoMappers";
+
+const joinSchema = z.object({
+  code: z.string().trim().min(4).max(16),
+});
+
+export const listClassroomsHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const classrooms = await listLearnerClassrooms(req.user!.id);
+    return res.json({ success: true, data: { classrooms: classrooms.map(mapLearnerClassroomDto) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const joinClassroomHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = joinSchema.parse(req.body);
+    const classroom = await joinClassroom(req.user!.id, payload.code);
+    return res.json({ success: true, data: { classroom: mapLearnerClassroomDto(classroom) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const leaveClassroomHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const classroomId = z.coerce.number().int().positive().parse(req.params.id);
+    const left = await leaveClassroom(req.user!.id, classroomId);
+    if (!left) {
+      return res.status(404).json({ success: false, message: "Class not found" });
+    }
+    return res.json({ success: true, data: { classroomId, classroom_id: classroomId } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listAssignmentsHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entries = await listLearnerAssignments(req.user!.id);
+    return res.json({
+      success: true,
+      data: { assignments: entries.map(({ assignment, progress }) => mapLearnerAssignmentDto(assignment, progress)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,162 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import {
+  buildLearnerDashboard,
+  createGuardianInvite,
+  isLinkedGuardian,
+  listGuardianLearners,
+  listGuardianSummaries,
+  listLearnerGuardians,
+  markSummaryRead,
+  redeemGuardianInvite,
+  revokeGuardianLink,
+  unlinkLearner,
+} from "../../services/guardianService";
+import {
+  mapGuardianDashboardDto,
+  mapGuardianLearnerDto,
+  mapGuardianSummaryDto,
+} from "../../utils/learnerDtoMappers";
+
+const redeemSchema = z.object({
+  code: z.string().trim().min(4).max(16),
+});
+
+const idParamSchema = z.coerce.number().int().positive();
+
+const summariesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+const learnerNotFound = (res: Response) =>
+  res.status(404).json({ success: false, message: "Learner not found" });
+
+// Learner side: issue consent codes and manage who can follow their progress.
+
+export const listMyGuardiansHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { links, pendingInvite } = await listLearnerGuardians(req.user!.id);
+    return res.json({
+      success: true,
+      data: {
+        guardians: links.map((link) => ({
+          linkId: link.id,
+          link_id: link.id,
+          guardianId: link.Guardian?.id ?? null,
+          guardian_id: link.Guardian?.id ?? null,
+          fullName: link.Guardian?.full_name ?? null,
+          full_name: link.Guardian?.full_name ?? null,
+          email: link.Guardian?.email ?? null,
+          linkedAt: link.linkedAt,
+          linked_at: link.linkedAt,
+        })),
+        pendingInvite: pendingInvite
+          ? { linkId: pendingInvite.id, code: pendingInvite.inviteCode, expiresAt: pendingInvite.codeExpiresAt }
+          : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createGuardianInviteHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invite = await createGuardianInvite(req.user!.id);
+    return res.status(201).json({
+      success: true,
+      data: { invite: { linkId: invite.id, code: invite.inviteCode, expiresAt: invite.codeExpiresAt } },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeGuardianLinkHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const linkId = idParamSchema.parse(req.params.id);
+    const revoked = await revokeGuardianLink(req.user!.id, linkId);
+    if (!revoked) {
+      return res.status(404).json({ success: false, message: "Link not found" });
+    }
+    return res.json({ success: true, data: { linkId } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Guardian side: redeem codes and read linked learners' progress.
+
+export const redeemGuardianInviteHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = redeemSchema.parse(req.body);
+    const link = await redeemGuardianInvite(req.user!.id, payload.code);
+    return res.status(201).json({ success: true, data: { learner: mapGuardianLearnerDto(link.Learner, link.linkedAt) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listGuardianLearnersHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const links = await listGuardianLearners(req.user!.id);
+    return res.json({
+      success: true,
+      data: { learners: links.map((link) => mapGuardianLearnerDto(link.Learner, link.linkedAt)) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getLearnerDashboardHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const learnerId = idParamSchema.parse(req.params.learnerId);
+    if (!(await isLinkedGuardian(req.user!.id, learnerId))) {
+      return learnerNotFound(res);
+    }
+    const dashboard = await buildLearnerDashboard(learnerId);
+    if (!dashboard) {
+      return learnerNotFound(res);
+    }
+    return res.json({ success: true, data: mapGuardianDashboardDto(dashboard) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlinkLearnerHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const learnerId = idParamSchema.parse(req.params.learnerId);
+    const unlinked = await unlinkLearner(req.user!.id, learnerId);
+    if (!unlinked) {
+      return learnerNotFound(res);
+    }
+    return res.json({ success: true, data: { learnerId } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const listGuardianSummariesHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit } = summariesQuerySchema.parse(req.query);
+    const summaries = await listGuardianSummaries(req.user!.id, limit);
+    return res.json({ success: true, data: { summaries: summaries.map(mapGuardianSummaryDto) } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markGuardianSummaryReadHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summaryId = idParamSchema.parse(req.params.id);
+    const summary = await markSummaryRead(req.user!.id, summaryId);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: "Summary not found" });
+    }
+    return res.json({ success: true, data: { summary: mapGuardianSummaryDto(summary) } });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import prisma from "../../config/db";
+import { listLearnerObjectiveMastery } from "../../services/learningObjectiveService";
+import { mapObjectiveMasteryDto, mapTopicMasteryDto } from "../../utils/learnerDtoMappers";
+
+const masteryQuerySchema = z.object({
+  topicId: z.coerce.number().int().positive().optional(),
+});
+
+export const getMasteryHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { topicId } = masteryQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const [topics, objectives] = await Promise.all([
+      prisma.topicMastery.findMany({
+        where: { userId, totalAttempts: { gt: 0 }, ...(topicId ? { topicId } : {}) },
+        orderBy: { updatedAt: "desc" },
+        include: { Topic: true },
+      }),
+      listLearnerObjectiveMastery(userId, topicId),
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        topics: topics.map(mapTopicMasteryDto),
+        objectives: objectives.map(mapObjectiveMasteryDto),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -6,6 +6,11 @@ import {
   startPracticeTestAttempt,
   submitPracticeTestAttempt,
 } from "../../services/v2/attemptV2Service";
+import {
+  hideLearnerQuestionAnswers,
+  mapLearnerAttemptDraftDto,
+  mapLearnerQuestionDto,
+} from "../../utils/learnerDtoMappers";
 
 const listQuerySchema = z.object({
   subjectId: z.coerce.number().int().positive().optional(),
@@ -18,6 +23,10 @@ const listQuerySchema = z.object({
   limit: z.coerce.number().int().positive().optional(),
 });
 
+const startSchema = z.object({
+  mode: z.enum(["practice", "exam"]).optional(),
+});
+
 const submitSchema = z.object({
   attemptId: z.number().int().positive(),
   responses: z
@@ -37,7 +46,7 @@ const submitSchema = z.object({
 export const listPracticeTestsHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const query = listQuerySchema.parse(req.query);
-    const result = await listPracticeTests(query);
+    const result = await listPracticeTests({ ...query, hasPremiumAccess: req.user!.isPremium });
     return res.json({
       success: true,
       data: result.items,
@@ -51,7 +60,7 @@ export const listPracticeTestsHandler = async (req: Request, res: Response, next
 export const getPracticeTestHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = z.coerce.number().int().positive().parse(req.params.id);
-    const practiceTest = await getPracticeTestById(id);
+    const practiceTest = await getPracticeTestById(id, req.user!.isPremium);
     if (!practiceTest) {
       return res.status(404).json({ success: false, message: "Practice test not found" });
     }
@@ -64,10 +73,27 @@ export const getPracticeTestHandler = async (req: Request, res: Response, next:
 export const startPracticeTestAttemptHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = z.coerce.number().int().positive().parse(req.params.id);
-    const attempt = await startPracticeTestAttempt(req.user!.id, id);
-    return res.status(201).json({
+    const { mode } = startSchema.parse(req.body ?? {});
+    const { attempt, questions: attemptQuestions, resumed } = await startPracticeTestAttempt(
+      req.user!.id,
+      id,
+      mode,
+      req.user!.isPremium,
+    );
+    // Practice tests are graded on submit in either mode, so answer keys never leave the server.
+    const questions = attemptQuestions.map((entry) =>
+      hideLearnerQuestionAnswers(mapLearnerQuestionDto(entry.Question)),
+    );
+    const serverTime = new Date();
+    return res.status(resumed ? 200 : 201).json({
       success: true,
-      data: { attemptId: attempt.id, attempt_id: attempt.id, status: attempt.status },
+      data: {
+        ...mapLearnerAttemptDraftDto(attempt),
+        resumed,
+        serverTime,
+        server_time: serverTime,
+        questions,
+      },
     });
   } catch (error) {
     next(error);
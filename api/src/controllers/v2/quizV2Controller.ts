@@ -2,7 +2,18 @@ import { Difficulty } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import { getQuizById, listQuizzes, QuizListFilters } from "../../services/v2/quizV2Service";
-import { startQuizAttempt, submitQuizAttempt, getQuizAttempt } from "../../services/v2/attemptV2Service";
+import {
+  answerAdaptiveQuizQuestion,
+  startQuizAttempt,
+  submitQuizAttempt,
+  getQuizAttempt,
+} from "../../services/v2/attemptV2Service";
+import {
+  hideLearnerQuestionAnswers,
+  mapLearnerAttemptDraftDto,
+  mapLearnerQuestionDto,
+  mapLearnerQuizDto,
+} from "../../utils/learnerDtoMappers";
 
 const listQuerySchema = z.object({
   topicId: z.coerce.number().int().positive().optional(),
@@ -31,10 +42,21 @@ const submitSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
+const answerSchema = z.object({
+  attemptId: z.number().int().positive(),
+  questionId: z.number().int().positive(),
+  selectedOption: z.string().optional(),
+  selectedOptions: z.array(z.string()).optional(),
+});
+
+// Adaptive attempts pick the next item from how the learner answered, so answer keys stay server-side.
+const mapAdaptiveQuestion = (question: Record<string, any>, topicId: number) =>
+  hideLearnerQuestionAnswers(mapLearnerQuestionDto({ ...question, topicId: question.topicId ?? topicId }));
+
 export const listQuizzesHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const query = listQuerySchema.parse(req.query);
-    const filters: QuizListFilters = {};
+    const filters: QuizListFilters = { hasPremiumAccess: req.user!.isPremium };
     if (typeof query.topicId === "number") {
       filters.topicId = query.topicId;
     }
@@ -64,7 +86,7 @@ export const listQuizzesHandler = async (req: Request, res: Response, next: Next
 export const getQuizHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = z.coerce.number().int().positive().parse(req.params.id);
-    const quiz = await getQuizById(id);
+    const quiz = await getQuizById(id, req.user!.isPremium);
     if (!quiz) {
       return res.status(404).json({ success: false, message: "Quiz not found" });
     }
@@ -77,10 +99,50 @@ export const getQuizHandler = async (req: Request, res: Response, next: NextFunc
 export const startQuizAttemptHandler = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = z.coerce.number().int().positive().parse(req.params.id);
-    const attempt = await startQuizAttempt(req.user!.id, id);
-    return res.status(201).json({
+    const { attempt, quiz, questions, resumed } = await startQuizAttempt(req.user!.id, id, req.user!.isPremium);
+    const adaptive = quiz.isAdaptive && attempt.abilityEstimate !== null;
+    return res.status(resumed ? 200 : 201).json({
+      success: true,
+      data: {
+        ...mapLearnerAttemptDraftDto(attempt),
+        resumed,
+        adaptive,
+        totalQuestions: attempt.totalQuestions,
+        total_questions: attempt.totalQuestions,
+        questions: adaptive
+          ? questions.map((entry) => mapAdaptiveQuestion(entry.Question, quiz.topicId))
+          : (mapLearnerQuizDto({ ...quiz, questions }).questions ?? []),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const answerAdaptiveQuestionHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const quizId = z.coerce.number().int().positive().parse(req.params.id);
+    const { attemptId, ...response } = answerSchema.parse(req.body);
+    const result = await answerAdaptiveQuizQuestion(req.user!.id, attemptId, response);
+    if (!result) {
+      return res.status(404).json({ success: false, message: "Attempt not found" });
+    }
+    if (result.attempt.quizId !== quizId) {
+      return res.status(400).json({ success: false, message: "Attempt does not belong to quiz" });
+    }
+    return res.json({
       success: true,
-      data: { attemptId: attempt.id, attempt_id: attempt.id, status: attempt.status },
+      data: {
+        ...mapLearnerAttemptDraftDto(result.attempt),
+        answeredCount: result.answeredCount,
+        answered_count: result.answeredCount,
+        totalQuestions: result.questionCount,
+        total_questions: result.questionCount,
+        completed: result.completed,
+        nextQuestion: result.nextQuestion
+          ? mapAdaptiveQuestion(result.nextQuestion.Question, result.nextQuestion.Question.topicId)
+          : null,
+      },
     });
   } catch (error) {
     next(error);
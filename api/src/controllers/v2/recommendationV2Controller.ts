@@ -0,0 +1,28 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { buildRecommendations } from "../../services/v2/recommendationService";
+import { mapRecommendationDto } from "../../utils/learnerDtoMappers";
+
+const recommendationQuerySchema = z.object({
+  gradeLevelId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+export const listRecommendationsHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = recommendationQuerySchema.parse(req.query);
+    const recommendations = await buildRecommendations({
+      userId: req.user!.id,
+      hasPremiumAccess: req.user!.isPremium,
+      gradeLevelId: query.gradeLevelId,
+      limit: query.limit,
+    });
+
+    return res.json({
+      success: true,
+      data: { recommendations: recommendations.map(mapRecommendationDto) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,100 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { getReviewAttempt, startReviewAttempt, submitReviewAttempt } from "../../services/v2/attemptV2Service";
+import {
+  DEFAULT_REVIEW_SIZE,
+  listOpenMistakes,
+  summarizeOpenMistakes,
+} from "../../services/v2/mistakeReviewService";
+import { mapLearnerAttemptDraftDto, mapLearnerQuestionDto } from "../../utils/learnerDtoMappers";
+
+const poolQuerySchema = z.object({
+  topicId: z.coerce.number().int().positive().optional(),
+});
+
+const startSchema = z.object({
+  topicId: z.number().int().positive().optional(),
+  size: z.number().int().min(1).max(30).default(DEFAULT_REVIEW_SIZE),
+});
+
+const submitSchema = z.object({
+  attemptId: z.number().int().positive(),
+  responses: z
+    .array(
+      z.object({
+        questionId: z.number().int().positive(),
+        selectedOption: z.string().optional(),
+        selectedOptions: z.array(z.string()).optional(),
+      }),
+    )
+    .nonempty(),
+  durationSeconds: z.number().int().nonnegative().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+});
+
+export const getReviewPoolHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = poolQuerySchema.parse(req.query);
+    const mistakes = await listOpenMistakes(req.user!.id, {
+      topicId: query.topicId,
+      hasPremiumAccess: req.user!.isPremium,
+    });
+    const summary = summarizeOpenMistakes(mistakes);
+    return res.json({ success: true, data: summary });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const startReviewHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = startSchema.parse(req.body ?? {});
+    const { attempt, questions, mistakeQuestionIds, resumed } = await startReviewAttempt(req.user!.id, {
+      topicId: payload.topicId,
+      size: payload.size,
+      hasPremiumAccess: req.user!.isPremium,
+    });
+    return res.status(resumed ? 200 : 201).json({
+      success: true,
+      data: {
+        ...mapLearnerAttemptDraftDto(attempt),
+        resumed,
+        topicId: attempt.topicId,
+        topic_id: attempt.topicId,
+        totalQuestions: questions.length,
+        total_questions: questions.length,
+        mistakeQuestionIds,
+        mistake_question_ids: mistakeQuestionIds,
+        questions: questions.map((entry) => mapLearnerQuestionDto(entry.Question)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const submitReviewHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payload = submitSchema.parse(req.body);
+    const result = await submitReviewAttempt(req.user!.id, payload.attemptId, payload);
+    if (!result.attempt) {
+      return res.status(404).json({ success: false, message: "Attempt not found" });
+    }
+    return res.json({ success: true, data: result.attempt });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReviewAttemptHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attemptId = z.coerce.number().int().positive().parse(req.params.id);
+    const attempt = await getReviewAttempt(attemptId, req.user!.id);
+    if (!attempt) {
+      return res.status(404).json({ success: false, message: "Attempt not found" });
+    }
+    return res.json({ success: true, data: attempt });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { buildTopicPack } from "../../services/v2/topicPackService";
+
+const packQuerySchema = z.object({
+  version: z.string().trim().min(1).optional(),
+});
+
+export const getTopicPackHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const topicId = z.coerce.number().int().positive().parse(req.params.id);
+    const query = packQuerySchema.parse(req.query);
+    const pack = await buildTopicPack(topicId, req.user!.isPremium);
+    if (!pack) {
+      return res.status(404).json({ success: false, message: "Topic not found" });
+    }
+    if (query.version && query.version === pack.version) {
+      return res.json({
+        success: true,
+        data: { topicId, topic_id: topicId, version: pack.version, upToDate: true, up_to_date: true },
+      });
+    }
+    return res.json({ success: true, data: { ...pack, upToDate: false, up_to_date: false } });
+  } catch (error) {
+    next(error);
+  }
+};
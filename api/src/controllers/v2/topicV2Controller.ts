@@ -0,0 +1,36 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import prisma from "../../config/db";
+import { buildTopicLockStates } from "../../services/topicPathService";
+import { mapTopicDto } from "../../utils/dtoMappers";
+import { mapTopicLockDto } from "../../utils/learnerDtoMappers";
+
+const listQuerySchema = z.object({
+  subjectId: z.coerce.number().int().positive(),
+});
+
+export const listTopicsHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { subjectId } = listQuerySchema.parse(req.query);
+    const topics = await prisma.topic.findMany({
+      where: { subject_id: subjectId, is_active: true },
+      orderBy: { topic_name: "asc" },
+    });
+    const lockStates = await buildTopicLockStates(
+      topics.map((topic) => topic.id),
+      req.user!.id,
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        topics: topics.map((topic) => ({
+          ...mapTopicDto({ ...topic, name: topic.topic_name, subjectId: topic.subject_id }),
+          ...mapTopicLockDto(lockStates.get(topic.id)),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,20 @@
+import "dotenv/config";
+import prisma from "../config/db";
+import { calibrateItems } from "../services/v2/itemCalibrationService";
+
+// Run from cron (e.g. nightly) so adaptive quizzes pick items from fresh difficulty estimates.
+const main = async () => {
+  const summary = await calibrateItems();
+  console.log(
+    `✅ Calibrated ${summary.calibratedItems} of ${summary.items} items and ${summary.learners} learners from ${summary.responses} responses.`,
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error("❌ Calibration failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,20 @@
+import "dotenv/config";
+import prisma from "../config/db";
+import { generateWeeklySummaries } from "../services/guardianService";
+
+// Run from cron early on Mondays; guardians read the summaries in the app.
+const main = async () => {
+  const result = await generateWeeklySummaries();
+  console.log(
+    `✅ Built ${result.summaries} weekly summaries for ${result.guardians} guardians (week of ${result.weekStart.toISOString().slice(0, 10)}).`,
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error("❌ Guardian summaries failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
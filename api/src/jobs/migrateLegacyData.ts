@@ -0,0 +1,65 @@
+import "dotenv/config";
+import prisma from "../config/db";
+import {
+  DEFAULT_MIGRATION_BATCH_SIZE,
+  LegacyMigrationReport,
+  migrateLegacyData,
+  verifyLegacyMigration,
+} from "../services/legacyMigrationService";
+
+const MAX_LISTED_ISSUES = 20;
+
+const readBatchSize = (args: string[]) => {
+  const flag = args.find((arg) => arg.startsWith("--batch-size="));
+  const value = flag ? Number(flag.split("=")[1]) : DEFAULT_MIGRATION_BATCH_SIZE;
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid --batch-size: ${flag}`);
+  }
+  return value;
+};
+
+const printReport = (report: LegacyMigrationReport) => {
+  const verb = report.dryRun ? "Would migrate" : "Migrated";
+  const count = (step: { pending: number; migrated: number }) => (report.dryRun ? step.pending : step.migrated);
+  console.log(
+    `${verb} ${count(report.questions)} questions, ${count(report.practiceTests)} practice tests and ${count(report.attempts)} attempts (${report.attempts.sessions} sessions).`,
+  );
+  console.log(
+    `Skipped ${report.questions.skipped} questions, ${report.practiceTests.skipped} practice tests and ${report.attempts.skipped} attempts.`,
+  );
+  report.issues.slice(0, MAX_LISTED_ISSUES).forEach((issue) => console.log(`  - ${issue}`));
+  if (report.issues.length > MAX_LISTED_ISSUES) {
+    console.log(`  ... and ${report.issues.length - MAX_LISTED_ISSUES} more`);
+  }
+};
+
+// Usage: npm run legacy:migrate -- [--dry-run] [--batch-size=50]. Follow a real run with mastery:rebuild.
+const main = async () => {
+  const args = process.argv.slice(2);
+  const report = await migrateLegacyData({ dryRun: args.includes("--dry-run"), batchSize: readBatchSize(args) });
+  printReport(report);
+  if (report.dryRun) {
+    return;
+  }
+
+  const verification = await verifyLegacyMigration();
+  console.log(
+    `Questions ${verification.questions.migrated}/${verification.questions.legacy}, practice tests ${verification.practiceTests.migrated}/${verification.practiceTests.legacy}, attempts ${verification.attempts.migrated}/${verification.attempts.legacy}.`,
+  );
+  if (verification.learnerMismatches.length) {
+    console.log(`Correct-answer totals differ for learners: ${verification.learnerMismatches.join(", ")}`);
+  }
+  console.log(verification.complete ? "✅ Legacy data fully migrated." : "❌ Migration incomplete; see above.");
+  if (!verification.complete) {
+    process.exitCode = 1;
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error("❌ Legacy migration failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
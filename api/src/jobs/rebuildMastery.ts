@@ -0,0 +1,20 @@
+import "dotenv/config";
+import prisma from "../config/db";
+import { rebuildMasteryFromHistory } from "../services/v2/masteryService";
+
+// Run once after deploying the mastery model, and again whenever its parameters change.
+const main = async () => {
+  const summary = await rebuildMasteryFromHistory();
+  console.log(
+    `✅ Rebuilt mastery for ${summary.learners} learners (${summary.topics} topics, ${summary.objectives} objectives) from ${summary.responses} responses.`,
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error("❌ Mastery rebuild failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,23 @@
+import { NextFunction, Request, Response } from "express";
+import { Role } from "@prisma/client";
+
+export const requireGuardian = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ success: false, message: "Unauthorized" });
+  }
+  if (req.user.role !== Role.GUARDIAN) {
+    return res.status(403).json({ success: false, message: "Only guardian accounts can do this" });
+  }
+  next();
+};
+
+/**
+ * Guardian accounts follow their learners read-only; they never take quizzes or earn XP. Mount this on
+ * every learner write route, v1 as well as v2.
+ */
+export const rejectGuardian = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role === Role.GUARDIAN) {
+    return res.status(403).json({ success: false, message: "Guardian accounts cannot do learner activities" });
+  }
+  next();
+};
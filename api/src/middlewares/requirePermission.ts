@@ -1,14 +1,14 @@
-import { Role } from "@prisma/client";
 import { NextFunction, Request, Response } from "express";
+import { hasPermission, Permission } from "../config/permissions";
 
-export const verifyRole =
-  (...roles: Role[]) =>
+export const requirePermission =
+  (...permissions: Permission[]) =>
   (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ success: false, message: "Unauthorized" });
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!permissions.every((permission) => hasPermission(req.user?.role, permission))) {
       return res.status(403).json({ success: false, message: "Forbidden" });
     }
 
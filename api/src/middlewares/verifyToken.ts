@@ -2,6 +2,7 @@ import { NextFunction, Request, Response } from "express";
 import prisma from "../config/db";
 import { verifyToken as verifyJwtToken } from "../utils/jwtHelper";
 import { Role } from "@prisma/client";
+import { resolvePremiumAccess } from "../services/entitlementService";
 
 interface DecodedToken {
   userId: number;
@@ -24,6 +25,37 @@ declare global {
   }
 }
 
+type RequestUser = NonNullable<Express.Request["user"]>;
+
+const loadRequestUser = async (token: string): Promise<RequestUser | null> => {
+  const decoded = verifyJwtToken<DecodedToken>(token, "access");
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    select: {
+      id: true,
+      email: true,
+      full_name: true,
+      is_premium: true,
+      level: true,
+      role: true,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    fullName: user.full_name,
+    isPremium: await resolvePremiumAccess(user),
+    level: user.level,
+    role: user.role,
+  };
+};
+
 export const verifyToken = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization ?? "";
@@ -35,35 +67,35 @@ export const verifyToken = async (req: Request, res: Response, next: NextFunctio
     if (!token) {
       return res.status(401).json({ success: false, message: "Authorization header malformed" });
     }
-    const decoded = verifyJwtToken<DecodedToken>(token, "access");
-
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        full_name: true,
-        is_premium: true,
-        level: true,
-        role: true,
-      },
-    });
 
+    const user = await loadRequestUser(token);
     if (!user) {
       return res.status(401).json({ success: false, message: "User not found" });
     }
 
-    req.user = {
-      id: user.id,
-      email: user.email,
-      fullName: user.full_name,
-      isPremium: user.is_premium,
-      level: user.level,
-      role: user.role,
-    };
-
+    req.user = user;
     next();
   } catch (error) {
     return res.status(401).json({ success: false, message: "Invalid or expired token" });
   }
 };
+
+/**
+ * For public endpoints that tailor content to the learner: attaches the user when a valid
+ * token is sent and otherwise continues anonymously instead of rejecting the request.
+ */
+export const optionalVerifyToken = async (req: Request, _res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization ?? "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.split(" ")[1] : undefined;
+  if (token) {
+    try {
+      const user = await loadRequestUser(token);
+      if (user) {
+        req.user = user;
+      }
+    } catch {
+      // An expired token on a public endpoint just means anonymous access.
+    }
+  }
+  next();
+};
@@ -7,12 +7,11 @@ import {
   updateAchievement,
 } from "../../controllers/admin/adminAchievementController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
-import { Role } from "@prisma/client";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("gamification:manage"));
 
 router.post("/", createAchievement);
 router.get("/", listAchievements);
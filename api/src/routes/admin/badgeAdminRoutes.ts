@@ -7,12 +7,11 @@ import {
   updateBadge,
 } from "../../controllers/admin/adminBadgeController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
-import { Role } from "@prisma/client";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("gamification:manage"));
 
 router.post("/", createBadge);
 router.get("/", listBadges);
@@ -8,12 +8,11 @@ import {
   updateChallenge,
 } from "../../controllers/admin/adminChallengeController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
-import { Role } from "@prisma/client";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("gamification:manage"));
 
 router.post("/", createChallenge);
 router.get("/", listChallenges);
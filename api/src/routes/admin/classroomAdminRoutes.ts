@@ -0,0 +1,36 @@
+import { Router } from "express";
+import {
+  createAdminAssignment,
+  createAdminClassroom,
+  deleteAdminAssignment,
+  getAdminClassroom,
+  getAssignableContent,
+  getClassroomGradebook,
+  getClassroomReport,
+  listAdminClassrooms,
+  regenerateAdminJoinCode,
+  removeAdminClassroomMember,
+  updateAdminAssignment,
+  updateAdminClassroom,
+} from "../../controllers/admin/adminClassroomController";
+import { verifyToken } from "../../middlewares/verifyToken";
+import { requirePermission } from "../../middlewares/requirePermission";
+
+const router = Router();
+
+router.use(verifyToken, requirePermission("classrooms:manage"));
+
+router.get("/", listAdminClassrooms);
+router.post("/", createAdminClassroom);
+router.get("/assignable", getAssignableContent);
+router.get("/:id", getAdminClassroom);
+router.put("/:id", updateAdminClassroom);
+router.post("/:id/join-code", regenerateAdminJoinCode);
+router.delete("/:id/members/:userId", removeAdminClassroomMember);
+router.post("/:id/assignments", createAdminAssignment);
+router.put("/:id/assignments/:assignmentId", updateAdminAssignment);
+router.delete("/:id/assignments/:assignmentId", deleteAdminAssignment);
+router.get("/:id/gradebook", getClassroomGradebook);
+router.get("/:id/report", getClassroomReport);
+
+export default router;
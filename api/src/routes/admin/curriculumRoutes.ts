@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createGradeLevel,
   createSubject,
@@ -12,26 +11,36 @@ import {
   listSubjects,
   listTopics,
 } from "../../controllers/curriculumController";
+import { exportBundle, importBundle } from "../../controllers/admin/curriculumBundleController";
 import { gradeLevelSchema, subjectSchema, topicSchema } from "../../validation/curriculumSchema";
 import { validateSchema } from "../../middlewares/validateSchema";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
+import { uploadSingleFile } from "../../middlewares/uploadFile";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("curriculum:read"));
 
 router.get("/grades", listGrades);
 router.get("/subjects", listSubjects);
 router.get("/topics", listTopics);
 router.get("/tree", getCurriculumTree);
+router.get("/bundle", requirePermission("content:read"), exportBundle);
 
-router.post("/grades", validateSchema(gradeLevelSchema), createGradeLevel);
-router.post("/subjects", validateSchema(subjectSchema), createSubject);
-router.post("/topics", validateSchema(topicSchema), createTopic);
+router.post("/grades", requirePermission("curriculum:write"), validateSchema(gradeLevelSchema), createGradeLevel);
+router.post("/subjects", requirePermission("curriculum:write"), validateSchema(subjectSchema), createSubject);
+router.post("/topics", requirePermission("curriculum:write"), validateSchema(topicSchema), createTopic);
+router.post(
+  "/bundle/import",
+  requirePermission("curriculum:write"),
+  requirePermission("content:write"),
+  uploadSingleFile,
+  importBundle,
+);
 
-router.delete("/grades/:id", deleteGrade);
-router.delete("/subjects/:id", deleteSubject);
-router.delete("/topics/:id", deleteTopic);
+router.delete("/grades/:id", requirePermission("curriculum:write"), deleteGrade);
+router.delete("/subjects/:id", requirePermission("curriculum:write"), deleteSubject);
+router.delete("/topics/:id", requirePermission("curriculum:write"), deleteTopic);
 
 export default router;
@@ -1,12 +1,11 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 import { exportAttemptsCsv, exportProgressXlsx } from "../../controllers/admin/exportController";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("reports:export"));
 
 router.get("/attempts.csv", exportAttemptsCsv);
 router.get("/progress.xlsx", exportProgressXlsx);
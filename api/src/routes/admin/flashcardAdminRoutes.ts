@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createAdminFlashcard,
   deleteAdminFlashcard,
@@ -9,18 +8,18 @@ import {
   updateAdminFlashcard,
 } from "../../controllers/admin/adminFlashcardController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 import { uploadSingleFile } from "../../middlewares/uploadFile";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("content:read"));
 
 router.get("/", listAdminFlashcards);
-router.post("/", createAdminFlashcard);
-router.post("/import", uploadSingleFile, importAdminFlashcards);
+router.post("/", requirePermission("content:write"), createAdminFlashcard);
+router.post("/import", requirePermission("content:write"), uploadSingleFile, importAdminFlashcards);
 router.get("/:id", getAdminFlashcard);
-router.put("/:id", updateAdminFlashcard);
-router.delete("/:id", deleteAdminFlashcard);
+router.put("/:id", requirePermission("content:write"), updateAdminFlashcard);
+router.delete("/:id", requirePermission("content:write"), deleteAdminFlashcard);
 
 export default router;
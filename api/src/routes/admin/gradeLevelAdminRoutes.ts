@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   archiveGradeLevel,
   createGradeLevel,
@@ -9,17 +8,17 @@ import {
   updateGradeLevel,
 } from "../../controllers/admin/adminGradeLevelController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("curriculum:read"));
 
 router.get("/", listGradeLevels);
-router.post("/", createGradeLevel);
+router.post("/", requirePermission("curriculum:write"), createGradeLevel);
 router.get("/:id", getGradeLevel);
-router.put("/:id", updateGradeLevel);
-router.post("/:id/archive", archiveGradeLevel);
-router.post("/:id/restore", restoreGradeLevel);
+router.put("/:id", requirePermission("curriculum:write"), updateGradeLevel);
+router.post("/:id/archive", requirePermission("curriculum:write"), archiveGradeLevel);
+router.post("/:id/restore", requirePermission("curriculum:write"), restoreGradeLevel);
 
 export default router;
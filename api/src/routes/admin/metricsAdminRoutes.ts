@@ -1,12 +1,11 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 import { getSystemHealth, getSystemLogs } from "../../controllers/admin/metricsController";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("system:read"));
 
 router.get("/health", getSystemHealth);
 router.get("/logs", getSystemLogs);
@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createNotification,
   deleteNotification,
@@ -8,11 +7,11 @@ import {
   updateNotification,
 } from "../../controllers/admin/adminNotificationController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("notifications:manage"));
 
 router.get("/", listNotifications);
 router.get("/:id", getNotification);
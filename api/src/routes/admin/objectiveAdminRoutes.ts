@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  createObjective,
+  deleteObjective,
+  downloadObjectiveTemplate,
+  importObjectivesHandler,
+  listObjectives,
+  updateObjective,
+} from "../../controllers/admin/adminObjectiveController";
+import { verifyToken } from "../../middlewares/verifyToken";
+import { requirePermission } from "../../middlewares/requirePermission";
+import { uploadSingleFile } from "../../middlewares/uploadFile";
+
+const router = Router();
+
+router.use(verifyToken, requirePermission("curriculum:read"));
+
+router.get("/", listObjectives);
+router.get("/template", downloadObjectiveTemplate);
+router.post("/", requirePermission("curriculum:write"), createObjective);
+router.post("/import", requirePermission("curriculum:write"), uploadSingleFile, importObjectivesHandler);
+router.put("/:id", requirePermission("curriculum:write"), updateObjective);
+router.delete("/:id", requirePermission("curriculum:write"), deleteObjective);
+
+export default router;
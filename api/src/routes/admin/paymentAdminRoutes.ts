@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createPayment,
   deletePayment,
@@ -8,16 +7,16 @@ import {
   updatePayment,
 } from "../../controllers/admin/adminPaymentController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("payments:read"));
 
 router.get("/", listPayments);
 router.get("/:id", getPaymentById);
-router.post("/", createPayment);
-router.put("/:id", updatePayment);
-router.delete("/:id", deletePayment);
+router.post("/", requirePermission("payments:write"), createPayment);
+router.put("/:id", requirePermission("payments:write"), updatePayment);
+router.delete("/:id", requirePermission("payments:write"), deletePayment);
 
 export default router;
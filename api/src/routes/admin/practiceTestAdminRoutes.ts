@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createPracticeTest,
   getPracticeTestDetail,
@@ -8,16 +7,16 @@ import {
   updatePracticeTestStatus,
 } from "../../controllers/admin/practiceTestAdminController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("content:read"));
 
 router.get("/", listPracticeTests);
 router.get("/:id", getPracticeTestDetail);
-router.post("/", createPracticeTest);
-router.put("/:id", updatePracticeTest);
-router.patch("/:id/status", updatePracticeTestStatus);
+router.post("/", requirePermission("content:write"), createPracticeTest);
+router.put("/:id", requirePermission("content:write"), updatePracticeTest);
+router.patch("/:id/status", requirePermission("content:write"), updatePracticeTestStatus);
 
 export default router;
@@ -1,34 +1,62 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
+  assignReviewer,
+  calibrateQuestions,
   createQuestion,
+  createReviewComment,
   deactivateQuestion,
   exportQuestions,
   downloadQuestionTemplate,
   downloadTopicMapping,
+  getDuplicateClusters,
   getQuestion,
+  getQuestionAnalysis,
+  getQuestionRevisions,
   getQuestions,
+  getReviewComments,
+  getReviewers,
+  getSimilarQuestions,
+  getTopicQuestionAnalysis,
   importQuestions,
+  mergeDuplicates,
   reactivateQuestion,
+  resolveComment,
+  restoreQuestion,
+  reviewQuestion,
   updateQuestion,
 } from "../../controllers/admin/adminQuestionBankController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 import { uploadSingleFile } from "../../middlewares/uploadFile";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("content:read"));
 
 router.get("/", getQuestions);
 router.get("/export", exportQuestions);
 router.get("/template", downloadQuestionTemplate);
 router.get("/topic-mapping", downloadTopicMapping);
-router.post("/", createQuestion);
-router.post("/import", uploadSingleFile, importQuestions);
+router.get("/analysis", getTopicQuestionAnalysis);
+router.get("/reviewers", getReviewers);
+router.get("/similar", getSimilarQuestions);
+router.get("/duplicates", getDuplicateClusters);
+router.post("/", requirePermission("content:write"), createQuestion);
+router.post("/import", requirePermission("content:write"), uploadSingleFile, importQuestions);
+router.post("/duplicates/merge", requirePermission("content:write"), mergeDuplicates);
+router.post("/calibrate", requirePermission("content:write"), calibrateQuestions);
 router.get("/:id", getQuestion);
-router.put("/:id", updateQuestion);
-router.patch("/:id/deactivate", deactivateQuestion);
-router.patch("/:id/reactivate", reactivateQuestion);
+router.get("/:id/analysis", getQuestionAnalysis);
+router.get("/:id/revisions", getQuestionRevisions);
+router.post("/:id/revisions/:version/restore", requirePermission("content:write"), restoreQuestion);
+router.put("/:id", requirePermission("content:write"), updateQuestion);
+router.patch("/:id/deactivate", requirePermission("content:write"), deactivateQuestion);
+router.patch("/:id/reactivate", requirePermission("content:write"), reactivateQuestion);
+// Submitting needs content:write and decisions need content:review; the handler checks which applies.
+router.post("/:id/review", reviewQuestion);
+router.patch("/:id/reviewer", requirePermission("content:write"), assignReviewer);
+router.get("/:id/comments", getReviewComments);
+router.post("/:id/comments", createReviewComment);
+router.patch("/:id/comments/:commentId/resolve", resolveComment);
 
 export default router;
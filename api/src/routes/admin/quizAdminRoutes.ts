@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createQuiz,
   getQuizDetail,
@@ -8,16 +7,16 @@ import {
   updateQuizStatus,
 } from "../../controllers/admin/quizAdminController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("content:read"));
 
 router.get("/", listQuizzesByTopic);
 router.get("/:id", getQuizDetail);
-router.post("/", createQuiz);
-router.put("/:id", updateQuiz);
-router.patch("/:id/status", updateQuizStatus);
+router.post("/", requirePermission("content:write"), createQuiz);
+router.put("/:id", requirePermission("content:write"), updateQuiz);
+router.patch("/:id/status", requirePermission("content:write"), updateQuizStatus);
 
 export default router;
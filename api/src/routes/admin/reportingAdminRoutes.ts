@@ -1,23 +1,24 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   getAttemptReports,
   getEngagementReports,
   getLeaderboardReports,
   getMetricReports,
+  getObjectiveReports,
   getProgressReports,
 } from "../../controllers/admin/reportingController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("reports:read"));
 
 router.get("/attempts", getAttemptReports);
 router.get("/progress", getProgressReports);
 router.get("/engagement", getEngagementReports);
 router.get("/leaderboard", getLeaderboardReports);
 router.get("/metrics", getMetricReports);
+router.get("/objectives", getObjectiveReports);
 
 export default router;
@@ -8,12 +8,11 @@ import {
   updateReward,
 } from "../../controllers/admin/adminRewardsController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
-import { Role } from "@prisma/client";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("gamification:manage"));
 
 router.get("/", listRewards);
 router.post("/", createReward);
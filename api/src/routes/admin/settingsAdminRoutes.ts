@@ -1,15 +1,14 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   getPlatformSettings,
   updatePlatformSettings,
 } from "../../controllers/admin/adminSettingsController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("settings:manage"));
 
 router.get("/", getPlatformSettings);
 router.put("/", updatePlatformSettings);
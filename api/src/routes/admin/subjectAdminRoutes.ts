@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   archiveAdminSubject,
   createAdminSubject,
@@ -9,17 +8,17 @@ import {
   updateAdminSubject,
 } from "../../controllers/admin/adminSubjectController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("curriculum:read"));
 
 router.get("/", listAdminSubjects);
-router.post("/", createAdminSubject);
+router.post("/", requirePermission("curriculum:write"), createAdminSubject);
 router.get("/:id", getAdminSubject);
-router.put("/:id", updateAdminSubject);
-router.post("/:id/archive", archiveAdminSubject);
-router.post("/:id/restore", restoreAdminSubject);
+router.put("/:id", requirePermission("curriculum:write"), updateAdminSubject);
+router.post("/:id/archive", requirePermission("curriculum:write"), archiveAdminSubject);
+router.post("/:id/restore", requirePermission("curriculum:write"), restoreAdminSubject);
 
 export default router;
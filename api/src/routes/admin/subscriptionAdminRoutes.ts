@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createSubscription,
   deleteSubscription,
@@ -8,16 +7,16 @@ import {
   updateSubscription,
 } from "../../controllers/admin/adminSubscriptionController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("payments:read"));
 
 router.get("/", listSubscriptions);
 router.get("/:id", getSubscriptionById);
-router.post("/", createSubscription);
-router.put("/:id", updateSubscription);
-router.delete("/:id", deleteSubscription);
+router.post("/", requirePermission("payments:write"), createSubscription);
+router.put("/:id", requirePermission("payments:write"), updateSubscription);
+router.delete("/:id", requirePermission("payments:write"), deleteSubscription);
 
 export default router;
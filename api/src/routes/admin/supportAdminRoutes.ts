@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createSupportTicket,
   deleteSupportTicket,
@@ -9,11 +8,11 @@ import {
   updateSupportTicket,
 } from "../../controllers/admin/adminSupportController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("support:manage"));
 
 router.get("/", listSupportTickets);
 router.post("/", createSupportTicket);
@@ -1,25 +1,34 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
+  addAdminTopicPrerequisite,
   archiveAdminTopic,
   createAdminTopic,
   getAdminTopic,
+  getAdminTopicPath,
   listAdminTopics,
+  removeAdminTopicPrerequisite,
   restoreAdminTopic,
   updateAdminTopic,
 } from "../../controllers/admin/adminTopicController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("curriculum:read"));
 
 router.get("/", listAdminTopics);
-router.post("/", createAdminTopic);
+router.post("/", requirePermission("curriculum:write"), createAdminTopic);
 router.get("/:id", getAdminTopic);
-router.put("/:id", updateAdminTopic);
-router.post("/:id/archive", archiveAdminTopic);
-router.post("/:id/restore", restoreAdminTopic);
+router.put("/:id", requirePermission("curriculum:write"), updateAdminTopic);
+router.post("/:id/archive", requirePermission("curriculum:write"), archiveAdminTopic);
+router.post("/:id/restore", requirePermission("curriculum:write"), restoreAdminTopic);
+router.get("/:id/prerequisites", getAdminTopicPath);
+router.post("/:id/prerequisites", requirePermission("curriculum:write"), addAdminTopicPrerequisite);
+router.delete(
+  "/:id/prerequisites/:prerequisiteId",
+  requirePermission("curriculum:write"),
+  removeAdminTopicPrerequisite,
+);
 
 export default router;
@@ -1,5 +1,4 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import {
   createUser,
   deactivateUser,
@@ -10,18 +9,18 @@ import {
   updateUser,
 } from "../../controllers/admin/adminUserController";
 import { verifyToken } from "../../middlewares/verifyToken";
-import { verifyRole } from "../../middlewares/verifyRole";
+import { requirePermission } from "../../middlewares/requirePermission";
 
 const router = Router();
 
-router.use(verifyToken, verifyRole(Role.ADMIN));
+router.use(verifyToken, requirePermission("users:read"));
 
 router.get("/", listUsers);
 router.get("/export.csv", exportUsersCsv);
-router.post("/import", importUsersBulk);
+router.post("/import", requirePermission("users:write"), importUsersBulk);
 router.get("/:id", getUserById);
-router.post("/", createUser);
-router.put("/:id", updateUser);
-router.delete("/:id", deactivateUser);
+router.post("/", requirePermission("users:write"), createUser);
+router.put("/:id", requirePermission("users:write"), updateUser);
+router.delete("/:id", requirePermission("users:write"), deactivateUser);
 
 export default router;
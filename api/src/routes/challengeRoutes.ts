@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { completeChallenge, getChallenges, joinChallenge } from "../controllers/challengeController";
 import { verifyToken } from "../middlewares/verifyToken";
+import { rejectGuardian } from "../middlewares/guardianAccess";
 
 const router = Router();
 
 router.get("/", getChallenges);
-router.post("/join", verifyToken, joinChallenge);
-router.post("/complete", verifyToken, completeChallenge);
+router.post("/join", verifyToken, rejectGuardian, joinChallenge);
+router.post("/complete", verifyToken, rejectGuardian, completeChallenge);
 
 export default router;
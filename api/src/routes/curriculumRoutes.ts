@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { getCurriculumTree, listGrades, listSubjects, listTopics } from "../controllers/curriculumController";
+import { optionalVerifyToken } from "../middlewares/verifyToken";
 
 const router = Router();
 
 router.get("/grades", listGrades);
 router.get("/subjects", listSubjects);
 router.get("/topics", listTopics);
-router.get("/tree", getCurriculumTree);
+router.get("/tree", optionalVerifyToken, getCurriculumTree);
 
 export default router;
@@ -1,10 +1,13 @@
 import { Router } from "express";
-import { createFlashcard, getFlashcards } from "../controllers/flashcardController";
-import { verifyToken } from "../middlewares/verifyToken";
+import { createFlashcard, getDueFlashcards, getFlashcards, reviewFlashcard } from "../controllers/flashcardController";
+import { optionalVerifyToken, verifyToken } from "../middlewares/verifyToken";
+import { rejectGuardian } from "../middlewares/guardianAccess";
 
 const router = Router();
 
-router.get("/", getFlashcards);
+router.get("/", optionalVerifyToken, getFlashcards);
+router.get("/due", verifyToken, getDueFlashcards);
 router.post("/", verifyToken, createFlashcard);
+router.post("/:id/review", verifyToken, rejectGuardian, reviewFlashcard);
 
 export default router;
@@ -30,11 +30,21 @@ import gradeLevelAdminRoutes from "./admin/gradeLevelAdminRoutes";
 import subjectAdminRoutes from "./admin/subjectAdminRoutes";
 import topicAdminRoutes from "./admin/topicAdminRoutes";
 import adminCurriculumRoutes from "./admin/curriculumRoutes";
+import classroomAdminRoutes from "./admin/classroomAdminRoutes";
+import objectiveAdminRoutes from "./admin/objectiveAdminRoutes";
 import quizV2Routes from "./v2/quizV2Routes";
 import practiceTestV2Routes from "./v2/practiceTestV2Routes";
 import attemptV2Routes from "./v2/attemptV2Routes";
+import topicV2Routes from "./v2/topicV2Routes";
+import classroomV2Routes from "./v2/classroomV2Routes";
+import masteryV2Routes from "./v2/masteryV2Routes";
+import recommendationV2Routes from "./v2/recommendationV2Routes";
+import reviewV2Routes from "./v2/reviewV2Routes";
+import guardianV2Routes from "./v2/guardianV2Routes";
+import guardianLinkV2Routes from "./v2/guardianLinkV2Routes";
 import { adminResponseEnvelope } from "../middlewares/adminResponseEnvelope";
 import { verifyToken } from "../middlewares/verifyToken";
+import { rejectGuardian } from "../middlewares/guardianAccess";
 
 const router = Router();
 
@@ -52,9 +62,16 @@ router.use("/leaderboard", leaderboardRoutes);
 router.use("/challenges", challengeRoutes);
 router.use("/xp-history", xpHistoryRoutes);
 router.use("/curriculum", curriculumRoutes);
-router.use("/api/v2/quizzes", verifyToken, quizV2Routes);
-router.use("/api/v2/practice-tests", verifyToken, practiceTestV2Routes);
-router.use("/api/v2/attempts", verifyToken, attemptV2Routes);
+router.use("/api/v2/quizzes", verifyToken, rejectGuardian, quizV2Routes);
+router.use("/api/v2/practice-tests", verifyToken, rejectGuardian, practiceTestV2Routes);
+router.use("/api/v2/attempts", verifyToken, rejectGuardian, attemptV2Routes);
+router.use("/api/v2/topics", verifyToken, rejectGuardian, topicV2Routes);
+router.use("/api/v2/classrooms", verifyToken, rejectGuardian, classroomV2Routes);
+router.use("/api/v2/mastery", verifyToken, rejectGuardian, masteryV2Routes);
+router.use("/api/v2/recommendations", verifyToken, rejectGuardian, recommendationV2Routes);
+router.use("/api/v2/reviews", verifyToken, rejectGuardian, reviewV2Routes);
+router.use("/api/v2/guardian", verifyToken, guardianV2Routes);
+router.use("/api/v2/guardian-links", verifyToken, guardianLinkV2Routes);
 router.use("/admin/users", adminResponseEnvelope, userAdminRoutes);
 router.use("/admin/grades", adminResponseEnvelope, gradeLevelAdminRoutes);
 router.use("/admin/subjects", adminResponseEnvelope, subjectAdminRoutes);
@@ -76,5 +93,7 @@ router.use("/admin/support", adminResponseEnvelope, supportAdminRoutes);
 router.use("/admin/payments", adminResponseEnvelope, paymentAdminRoutes);
 router.use("/admin/subscriptions", adminResponseEnvelope, subscriptionAdminRoutes);
 router.use("/admin/settings", adminResponseEnvelope, settingsAdminRoutes);
+router.use("/admin/classrooms", adminResponseEnvelope, classroomAdminRoutes);
+router.use("/admin/objectives", adminResponseEnvelope, objectiveAdminRoutes);
 
 export default router;
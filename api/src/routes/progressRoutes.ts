@@ -1,10 +1,11 @@
 import { Router } from "express";
 import { getProgress, updateProgress } from "../controllers/progressController";
 import { verifyToken } from "../middlewares/verifyToken";
+import { rejectGuardian } from "../middlewares/guardianAccess";
 
 const router = Router();
 
 router.get("/", verifyToken, getProgress);
-router.put("/", verifyToken, updateProgress);
+router.put("/", verifyToken, rejectGuardian, updateProgress);
 
 export default router;
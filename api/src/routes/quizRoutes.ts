@@ -21,13 +21,12 @@
  * -------------------------------------------------------------------
  */
 import { Router } from "express";
-import { getQuizzes, submitAttempt } from "../controllers/quizController";
-import { verifyToken } from "../middlewares/verifyToken";
+import { getQuizzes } from "../controllers/quizController";
 
 const router = Router();
 
 // ⚠️ Legacy quiz endpoints — keep untouched until Quiz v2 migrates learners.
+// Answers go through /api/v2/quizzes; the legacy attempt endpoint is retired.
 router.get("/", getQuizzes);
-router.post("/attempts", verifyToken, submitAttempt);
 
 export default router;
@@ -1,12 +1,11 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import { createSubject, getSubjects } from "../controllers/subjectController";
 import { verifyToken } from "../middlewares/verifyToken";
-import { verifyRole } from "../middlewares/verifyRole";
+import { requirePermission } from "../middlewares/requirePermission";
 
 const router = Router();
 
 router.get("/", getSubjects);
-router.post("/", verifyToken, verifyRole(Role.ADMIN), createSubject);
+router.post("/", verifyToken, requirePermission("curriculum:write"), createSubject);
 
 export default router;
@@ -1,12 +1,11 @@
 import { Router } from "express";
-import { Role } from "@prisma/client";
 import { createTopic, getTopics } from "../controllers/topicController";
 import { verifyToken } from "../middlewares/verifyToken";
-import { verifyRole } from "../middlewares/verifyRole";
+import { requirePermission } from "../middlewares/requirePermission";
 
 const router = Router();
 
 router.get("/", getTopics);
-router.post("/", verifyToken, verifyRole(Role.ADMIN), createTopic);
+router.post("/", verifyToken, requirePermission("curriculum:write"), createTopic);
 
 export default router;
@@ -2,11 +2,15 @@ import { Router } from "express";
 import {
   getLearnerAttemptHandler,
   listLearnerAttemptsHandler,
+  saveLearnerAttemptResponsesHandler,
+  syncLearnerAttemptsHandler,
 } from "../../controllers/v2/attemptV2Controller";
 
 const router = Router();
 
 router.get("/", listLearnerAttemptsHandler);
+router.post("/sync", syncLearnerAttemptsHandler);
 router.get("/:id", getLearnerAttemptHandler);
+router.patch("/:id/responses", saveLearnerAttemptResponsesHandler);
 
 export default router;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import {
+  joinClassroomHandler,
+  leaveClassroomHandler,
+  listAssignmentsHandler,
+  listClassroomsHandler,
+} from "../../controllers/v2/classroomV2Controller";
+
+const router = Router();
+
+router.get("/", listClassroomsHandler);
+router.get("/assignments", listAssignmentsHandler);
+router.post("/join", joinClassroomHandler);
+router.delete("/:id/membership", leaveClassroomHandler);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import {
+  createGuardianInviteHandler,
+  listMyGuardiansHandler,
+  revokeGuardianLinkHandler,
+} from "../../controllers/v2/guardianV2Controller";
+import { rejectGuardian } from "../../middlewares/guardianAccess";
+
+const router = Router();
+
+router.use(rejectGuardian);
+
+router.get("/", listMyGuardiansHandler);
+router.post("/invites", createGuardianInviteHandler);
+router.delete("/:id", revokeGuardianLinkHandler);
+
+export default router;
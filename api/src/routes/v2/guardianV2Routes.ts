@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+  getLearnerDashboardHandler,
+  listGuardianLearnersHandler,
+  listGuardianSummariesHandler,
+  markGuardianSummaryReadHandler,
+  redeemGuardianInviteHandler,
+  unlinkLearnerHandler,
+} from "../../controllers/v2/guardianV2Controller";
+import { requireGuardian } from "../../middlewares/guardianAccess";
+
+const router = Router();
+
+router.use(requireGuardian);
+
+router.post("/links", redeemGuardianInviteHandler);
+router.get("/learners", listGuardianLearnersHandler);
+router.get("/learners/:learnerId", getLearnerDashboardHandler);
+router.delete("/learners/:learnerId", unlinkLearnerHandler);
+router.get("/summaries", listGuardianSummariesHandler);
+router.post("/summaries/:id/read", markGuardianSummaryReadHandler);
+
+export default router;
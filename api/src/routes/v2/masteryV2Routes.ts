@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { getMasteryHandler } from "../../controllers/v2/masteryV2Controller";
+
+const router = Router();
+
+router.get("/", getMasteryHandler);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import {
+  answerAdaptiveQuestionHandler,
   getQuizHandler,
   listQuizzesHandler,
   reviewQuizAttemptHandler,
@@ -12,6 +13,7 @@ const router = Router();
 router.get("/", listQuizzesHandler);
 router.get("/:id", getQuizHandler);
 router.post("/:id/start", startQuizAttemptHandler);
+router.post("/:id/next", answerAdaptiveQuestionHandler);
 router.post("/:id/submit", submitQuizAttemptHandler);
 router.get("/:id/review", reviewQuizAttemptHandler);
 
@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { listRecommendationsHandler } from "../../controllers/v2/recommendationV2Controller";
+
+const router = Router();
+
+router.get("/", listRecommendationsHandler);
+
+export default router;
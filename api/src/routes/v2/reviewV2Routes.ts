@@ -0,0 +1,16 @@
+import { Router } from "express";
+import {
+  getReviewAttemptHandler,
+  getReviewPoolHandler,
+  startReviewHandler,
+  submitReviewHandler,
+} from "../../controllers/v2/reviewV2Controller";
+
+const router = Router();
+
+router.get("/", getReviewPoolHandler);
+router.post("/start", startReviewHandler);
+router.post("/submit", submitReviewHandler);
+router.get("/:id", getReviewAttemptHandler);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getTopicPackHandler } from "../../controllers/v2/topicPackV2Controller";
+import { listTopicsHandler } from "../../controllers/v2/topicV2Controller";
+
+const router = Router();
+
+router.get("/", listTopicsHandler);
+router.get("/:id/pack", getTopicPackHandler);
+
+export default router;
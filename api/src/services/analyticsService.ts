@@ -34,7 +34,7 @@ export type ProgressExportFilter = {
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 20;
 
-const resolveRangeStart = (range: DateRange): Date | undefined => {
+export const resolveRangeStart = (range: DateRange): Date | undefined => {
   if (range === "all") {
     return undefined;
   }
@@ -47,14 +47,14 @@ export const getQuizAttempts = async (filter: AttemptFilter = {}) => {
   const page = filter.page ?? DEFAULT_PAGE;
   const limit = filter.limit ?? DEFAULT_LIMIT;
 
-  const where: Prisma.AttemptWhereInput = {};
+  const where: Prisma.QuestionAttemptV2WhereInput = {};
 
   if (filter.userId) {
-    where.user_id = filter.userId;
+    where.userId = filter.userId;
   }
 
   if (filter.subjectId) {
-    where.LegacyQuiz = {
+    where.Question = {
       is: {
         Topic: {
           subject_id: filter.subjectId,
@@ -64,26 +64,26 @@ export const getQuizAttempts = async (filter: AttemptFilter = {}) => {
   }
 
   if (filter.startDate || filter.endDate) {
-    where.attempt_date = {
+    where.createdAt = {
       ...(filter.startDate ? { gte: filter.startDate } : {}),
       ...(filter.endDate ? { lte: filter.endDate } : {}),
     };
   }
 
   const [attempts, total] = await Promise.all([
-    prisma.attempt.findMany({
+    prisma.questionAttemptV2.findMany({
       where,
-      orderBy: { attempt_date: "desc" },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       skip: (page - 1) * limit,
       take: limit,
       include: {
         User: {
           select: { id: true, full_name: true, email: true },
         },
-        LegacyQuiz: {
+        Question: {
           select: {
             id: true,
-            question_text: true,
+            questionText: true,
             Topic: {
               select: {
                 id: true,
@@ -97,29 +97,29 @@ export const getQuizAttempts = async (filter: AttemptFilter = {}) => {
         },
       },
     }),
-    prisma.attempt.count({ where }),
+    prisma.questionAttemptV2.count({ where }),
   ]);
 
   const formatted = attempts.map((attempt) => ({
     id: attempt.id,
     score: attempt.score,
-    isCorrect: attempt.is_correct,
-    attemptDate: attempt.attempt_date,
+    isCorrect: attempt.isCorrect,
+    attemptDate: attempt.createdAt,
     user: attempt.User,
     quiz: {
-      id: attempt.LegacyQuiz.id,
-      question: attempt.LegacyQuiz.question_text,
+      id: attempt.Question.id,
+      question: attempt.Question.questionText,
     },
-    topic: attempt.LegacyQuiz.Topic
+    topic: attempt.Question.Topic
       ? {
-        id: attempt.LegacyQuiz.Topic.id,
-        name: attempt.LegacyQuiz.Topic.topic_name,
+        id: attempt.Question.Topic.id,
+        name: attempt.Question.Topic.topic_name,
       }
       : null,
-    subject: attempt.LegacyQuiz.Topic?.Subject
+    subject: attempt.Question.Topic?.Subject
       ? {
-        id: attempt.LegacyQuiz.Topic.Subject.id,
-        name: attempt.LegacyQuiz.Topic.Subject.subject_name,
+        id: attempt.Question.Topic.Subject.id,
+        name: attempt.Question.Topic.Subject.subject_name,
       }
       : null,
   }));
@@ -239,22 +239,22 @@ export const getProgressSummary = async (filter: ProgressFilter = {}) => {
 
 export const getEngagementSummary = async (range: DateRange) => {
   const startDate = resolveRangeStart(range);
-  const attemptWhere: Prisma.AttemptWhereInput = {};
+  const attemptWhere: Prisma.QuestionAttemptV2WhereInput = {};
 
   if (startDate) {
-    attemptWhere.attempt_date = { gte: startDate };
+    attemptWhere.createdAt = { gte: startDate };
   }
 
-  const attemptGroups = await prisma.attempt.groupBy({
-    by: ["user_id"],
+  const attemptGroups = await prisma.questionAttemptV2.groupBy({
+    by: ["userId"],
     where: attemptWhere,
     _count: { _all: true },
   });
 
-  const activeUserIds = attemptGroups.map((group) => group.user_id);
+  const activeUserIds = attemptGroups.map((group) => group.userId);
 
   const [quizCount, xpAggregate, streakAggregate] = await Promise.all([
-    prisma.attempt.count({ where: attemptWhere }),
+    prisma.questionAttemptV2.count({ where: attemptWhere }),
     activeUserIds.length
       ? prisma.user.aggregate({
         where: { id: { in: activeUserIds } },
@@ -340,10 +340,10 @@ export const getLeaderboardSummary = async (
 };
 
 export const getAttemptsForExport = async (filter: AttemptExportFilter = {}) => {
-  const where: Prisma.AttemptWhereInput = {};
+  const where: Prisma.QuestionAttemptV2WhereInput = {};
 
   if (filter.subjectId) {
-    where.LegacyQuiz = {
+    where.Question = {
       is: {
         Topic: {
           subject_id: filter.subjectId,
@@ -353,7 +353,7 @@ export const getAttemptsForExport = async (filter: AttemptExportFilter = {}) =>
   }
 
   if (filter.startDate || filter.endDate) {
-    where.attempt_date = {
+    where.createdAt = {
       ...(filter.startDate ? { gte: filter.startDate } : {}),
       ...(filter.endDate ? { lte: filter.endDate } : {}),
     };
@@ -361,25 +361,27 @@ export const getAttemptsForExport = async (filter: AttemptExportFilter = {}) =>
 
   const limit = Math.min(filter.limit ?? 1000, 5000);
 
-  const attempts = await prisma.attempt.findMany({
+  const attempts = await prisma.questionAttemptV2.findMany({
     where,
-    orderBy: { attempt_date: "desc" },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
     take: limit,
     select: {
       id: true,
-      quiz_id: true,
-      user_id: true,
+      questionId: true,
+      userId: true,
       score: true,
-      attempt_date: true,
+      createdAt: true,
+      QuizAttempt: { select: { quizId: true } },
     },
   });
 
   return attempts.map((attempt) => ({
     attemptId: attempt.id,
-    quizId: attempt.quiz_id,
-    userId: attempt.user_id,
+    quizId: attempt.QuizAttempt?.quizId ?? null,
+    questionId: attempt.questionId,
+    userId: attempt.userId,
     score: attempt.score,
-    attemptDate: attempt.attempt_date,
+    attemptDate: attempt.createdAt,
   }));
 };
 
@@ -436,7 +438,7 @@ export const getKpiTotals = async () => {
     prisma.user.count(),
     prisma.badge.count(),
     prisma.challenge.count(),
-    prisma.legacyQuiz.count(),
+    prisma.quiz.count(),
   ]);
 
   return {
@@ -0,0 +1,478 @@
+import { Prisma, Role } from "@prisma/client";
+import prisma from "../config/db";
+import { hasPermission } from "../config/permissions";
+import { normalizeJoinCode, withFreshJoinCode } from "../utils/joinCodes";
+import { DateRange, resolveRangeStart } from "./analyticsService";
+
+export type AssignmentStatus = "not_started" | "in_progress" | "completed" | "overdue";
+
+export type AssignmentProgress = {
+  status: AssignmentStatus;
+  attemptId: number | null;
+  score: number | null;
+  completedAt: Date | null;
+  late: boolean;
+};
+
+type ClassroomActor = { id: number; role: Role };
+
+type AttemptSummary = {
+  id: number;
+  userId: number;
+  targetId: number;
+  status: string;
+  score: number | null;
+  startedAt: Date;
+  completedAt: Date | null;
+};
+
+const assignmentInclude = {
+  Quiz: { select: { id: true, title: true, isActive: true } },
+  PracticeTest: { select: { id: true, title: true, isActive: true } },
+} satisfies Prisma.ClassroomAssignmentInclude;
+
+export type AssignmentRecord = Prisma.ClassroomAssignmentGetPayload<{ include: typeof assignmentInclude }>;
+
+const classroomError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+/**
+ * Teachers manage the classes they created; staff with classrooms:all see every class.
+ */
+export const classroomScope = (actor: ClassroomActor): Prisma.ClassroomWhereInput =>
+  hasPermission(actor.role, "classrooms:all") ? {} : { teacherId: actor.id };
+
+export const assignmentKind = (assignment: { quizId: number | null }) => (assignment.quizId ? "quiz" : "practice");
+
+export const assignmentTitle = (assignment: AssignmentRecord) =>
+  assignment.title ?? assignment.Quiz?.title ?? assignment.PracticeTest?.title ?? "Assignment";
+
+export const listClassrooms = async (actor: ClassroomActor, includeArchived = false) =>
+  prisma.classroom.findMany({
+    where: { ...classroomScope(actor), ...(includeArchived ? {} : { isArchived: false }) },
+    orderBy: { createdAt: "desc" },
+    include: {
+      Teacher: { select: { id: true, full_name: true, email: true } },
+      _count: { select: { members: true, assignments: true } },
+    },
+  });
+
+export const createClassroom = async (teacherId: number, data: { name: string; description?: string | undefined }) =>
+  withFreshJoinCode((joinCode) =>
+    prisma.classroom.create({
+      data: { name: data.name, description: data.description ?? null, teacherId, joinCode },
+    }),
+  );
+
+export const findClassroom = async (actor: ClassroomActor, classroomId: number) =>
+  prisma.classroom.findFirst({
+    where: { id: classroomId, ...classroomScope(actor) },
+    include: {
+      Teacher: { select: { id: true, full_name: true, email: true } },
+      members: {
+        orderBy: { joinedAt: "asc" },
+        include: { User: { select: { id: true, full_name: true, email: true } } },
+      },
+      assignments: { orderBy: { dueAt: "asc" }, include: assignmentInclude },
+    },
+  });
+
+export const updateClassroom = async (
+  classroomId: number,
+  data: { name?: string | undefined; description?: string | null | undefined; isArchived?: boolean | undefined },
+) =>
+  prisma.classroom.update({
+    where: { id: classroomId },
+    data: {
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.description !== undefined ? { description: data.description } : {}),
+      ...(data.isArchived !== undefined ? { isArchived: data.isArchived } : {}),
+    },
+  });
+
+export const regenerateJoinCode = async (classroomId: number) =>
+  withFreshJoinCode((joinCode) => prisma.classroom.update({ where: { id: classroomId }, data: { joinCode } }));
+
+export const removeClassroomMember = async (classroomId: number, userId: number) => {
+  const removed = await prisma.classroomMember.deleteMany({ where: { classroomId, userId } });
+  return removed.count > 0;
+};
+
+const assertAssignableTarget = async (target: { quizId?: number | undefined; practiceTestId?: number | undefined }) => {
+  if (target.quizId) {
+    const quiz = await prisma.quiz.findUnique({ where: { id: target.quizId }, select: { isActive: true } });
+    if (!quiz) {
+      throw classroomError("Quiz not found", 404);
+    }
+    if (!quiz.isActive) {
+      throw classroomError("Only active quizzes can be assigned", 400);
+    }
+    return;
+  }
+  if (target.practiceTestId) {
+    const test = await prisma.practiceTest.findUnique({
+      where: { id: target.practiceTestId },
+      select: { isActive: true },
+    });
+    if (!test) {
+      throw classroomError("Practice test not found", 404);
+    }
+    if (!test.isActive) {
+      throw classroomError("Only active practice tests can be assigned", 400);
+    }
+    return;
+  }
+  throw classroomError("Choose a quiz or a practice test to assign", 400);
+};
+
+export const createAssignment = async (
+  classroomId: number,
+  data: {
+    quizId?: number | undefined;
+    practiceTestId?: number | undefined;
+    title?: string | undefined;
+    instructions?: string | undefined;
+    dueAt: Date;
+  },
+  createdById?: number,
+) => {
+  if (data.quizId && data.practiceTestId) {
+    throw classroomError("An assignment is either a quiz or a practice test, not both", 400);
+  }
+  await assertAssignableTarget(data);
+  return prisma.classroomAssignment.create({
+    data: {
+      classroomId,
+      quizId: data.quizId ?? null,
+      practiceTestId: data.practiceTestId ?? null,
+      title: data.title ?? null,
+      instructions: data.instructions ?? null,
+      dueAt: data.dueAt,
+      createdById: createdById ?? null,
+    },
+    include: assignmentInclude,
+  });
+};
+
+export const updateAssignment = async (
+  classroomId: number,
+  assignmentId: number,
+  data: { title?: string | null | undefined; instructions?: string | null | undefined; dueAt?: Date | undefined },
+) => {
+  const existing = await prisma.classroomAssignment.findFirst({ where: { id: assignmentId, classroomId } });
+  if (!existing) {
+    return null;
+  }
+  return prisma.classroomAssignment.update({
+    where: { id: assignmentId },
+    data: {
+      ...(data.title !== undefined ? { title: data.title } : {}),
+      ...(data.instructions !== undefined ? { instructions: data.instructions } : {}),
+      ...(data.dueAt !== undefined ? { dueAt: data.dueAt } : {}),
+    },
+    include: assignmentInclude,
+  });
+};
+
+export const deleteAssignment = async (classroomId: number, assignmentId: number) => {
+  const removed = await prisma.classroomAssignment.deleteMany({ where: { id: assignmentId, classroomId } });
+  return removed.count > 0;
+};
+
+/**
+ * Loads the v2 attempts that can count towards the given assignments. Only attempts started after
+ * the earliest assignment was set are fetched; per-assignment filtering happens in memory.
+ */
+const loadAssignmentAttempts = async (userIds: number[], assignments: AssignmentRecord[]) => {
+  const quizIds = assignments.flatMap((assignment) => (assignment.quizId ? [assignment.quizId] : []));
+  const practiceTestIds = assignments.flatMap((assignment) =>
+    assignment.practiceTestId ? [assignment.practiceTestId] : [],
+  );
+  if (!userIds.length || !assignments.length) {
+    return { quiz: [] as AttemptSummary[], practice: [] as AttemptSummary[] };
+  }
+  const since = new Date(Math.min(...assignments.map((assignment) => assignment.createdAt.getTime())));
+  const select = { id: true, userId: true, status: true, score: true, startedAt: true, completedAt: true };
+
+  const [quizAttempts, practiceAttempts] = await Promise.all([
+    quizIds.length
+      ? prisma.quizAttemptV2.findMany({
+          where: { userId: { in: userIds }, quizId: { in: quizIds }, startedAt: { gte: since } },
+          select: { ...select, quizId: true },
+        })
+      : [],
+    practiceTestIds.length
+      ? prisma.practiceTestAttemptV2.findMany({
+          where: { userId: { in: userIds }, practiceTestId: { in: practiceTestIds }, startedAt: { gte: since } },
+          select: { ...select, practiceTestId: true },
+        })
+      : [],
+  ]);
+
+  return {
+    quiz: quizAttempts.map(({ quizId, ...attempt }) => ({ ...attempt, targetId: quizId })),
+    practice: practiceAttempts.map(({ practiceTestId, ...attempt }) => ({ ...attempt, targetId: practiceTestId })),
+  };
+};
+
+/**
+ * Work done before the assignment was set does not count. The best completed attempt wins; a
+ * learner who finishes after the due date is completed but flagged late.
+ */
+export const resolveAssignmentProgress = (
+  assignment: Pick<AssignmentRecord, "quizId" | "practiceTestId" | "dueAt" | "createdAt">,
+  attempts: { quiz: AttemptSummary[]; practice: AttemptSummary[] },
+  userId: number,
+  now = new Date(),
+): AssignmentProgress => {
+  const targetId = assignment.quizId ?? assignment.practiceTestId;
+  const pool = assignment.quizId ? attempts.quiz : attempts.practice;
+  const relevant = pool.filter(
+    (attempt) => attempt.userId === userId && attempt.targetId === targetId && attempt.startedAt >= assignment.createdAt,
+  );
+
+  const best = relevant
+    .filter((attempt) => attempt.status === "completed")
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))[0];
+  if (best) {
+    return {
+      status: "completed",
+      attemptId: best.id,
+      score: best.score,
+      completedAt: best.completedAt,
+      late: best.completedAt !== null && best.completedAt > assignment.dueAt,
+    };
+  }
+
+  const inProgress = relevant.find((attempt) => attempt.status === "in_progress");
+  return {
+    status: now > assignment.dueAt ? "overdue" : inProgress ? "in_progress" : "not_started",
+    attemptId: inProgress?.id ?? null,
+    score: null,
+    completedAt: null,
+    late: false,
+  };
+};
+
+export const buildGradebook = async (actor: ClassroomActor, classroomId: number) => {
+  const classroom = await findClassroom(actor, classroomId);
+  if (!classroom) {
+    return null;
+  }
+  const userIds = classroom.members.map((member) => member.userId);
+  const attempts = await loadAssignmentAttempts(userIds, classroom.assignments);
+  const now = new Date();
+
+  const learners = classroom.members.map((member) => {
+    const cells = classroom.assignments.map((assignment) => ({
+      assignmentId: assignment.id,
+      ...resolveAssignmentProgress(assignment, attempts, member.userId, now),
+    }));
+    const scores = cells.flatMap((cell) => (cell.score !== null ? [cell.score] : []));
+    return {
+      userId: member.userId,
+      fullName: member.User.full_name,
+      email: member.User.email,
+      joinedAt: member.joinedAt,
+      completed: cells.filter((cell) => cell.status === "completed").length,
+      overdue: cells.filter((cell) => cell.status === "overdue").length,
+      averageScore: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      cells,
+    };
+  });
+
+  const assignments = classroom.assignments.map((assignment) => {
+    const cells = learners.map(
+      (learner) => learner.cells.find((cell) => cell.assignmentId === assignment.id) as AssignmentProgress,
+    );
+    return {
+      id: assignment.id,
+      type: assignmentKind(assignment),
+      title: assignmentTitle(assignment),
+      dueAt: assignment.dueAt,
+      completed: cells.filter((cell) => cell.status === "completed").length,
+      overdue: cells.filter((cell) => cell.status === "overdue").length,
+    };
+  });
+
+  return {
+    classroom: { id: classroom.id, name: classroom.name, joinCode: classroom.joinCode },
+    assignments,
+    learners,
+  };
+};
+
+/**
+ * Class-level view of everything the members have done, not just assigned work. Teachers get this
+ * instead of the platform reporting endpoints, so every figure is limited to the classroom's members.
+ */
+export const buildClassroomReport = async (actor: ClassroomActor, classroomId: number, range: DateRange) => {
+  const classroom = await findClassroom(actor, classroomId);
+  if (!classroom) {
+    return null;
+  }
+  const userIds = classroom.members.map((member) => member.userId);
+  const startDate = resolveRangeStart(range);
+  const completedWhere = {
+    userId: { in: userIds },
+    status: "completed",
+    ...(startDate ? { completedAt: { gte: startDate } } : {}),
+  };
+  const attemptStats = { _count: { _all: true }, _avg: { score: true }, _max: { completedAt: true } } as const;
+
+  const [quizStats, practiceStats, users, masteryStats] = await Promise.all([
+    prisma.quizAttemptV2.groupBy({ by: ["userId"], where: completedWhere, ...attemptStats }),
+    prisma.practiceTestAttemptV2.groupBy({ by: ["userId"], where: completedWhere, ...attemptStats }),
+    prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, streak_days: true },
+    }),
+    prisma.objectiveMastery.groupBy({
+      by: ["objectiveId"],
+      where: { userId: { in: userIds }, totalAttempts: { gt: 0 } },
+      _count: { _all: true },
+      _avg: { masteryScore: true },
+      _sum: { totalAttempts: true },
+    }),
+  ]);
+
+  const objectives = masteryStats.length
+    ? await prisma.learningObjective.findMany({
+        where: { id: { in: masteryStats.map((entry) => entry.objectiveId) }, isActive: true },
+        include: { Topic: { select: { topic_name: true } } },
+      })
+    : [];
+  const quizByUser = new Map(quizStats.map((entry) => [entry.userId, entry]));
+  const practiceByUser = new Map(practiceStats.map((entry) => [entry.userId, entry]));
+  const userById = new Map(users.map((user) => [user.id, user]));
+  const masteryByObjective = new Map(masteryStats.map((entry) => [entry.objectiveId, entry]));
+
+  const learners = classroom.members.map((member) => {
+    const quiz = quizByUser.get(member.userId);
+    const practice = practiceByUser.get(member.userId);
+    const quizzesCompleted = quiz?._count._all ?? 0;
+    const practiceTestsCompleted = practice?._count._all ?? 0;
+    const scoreTotal =
+      (quiz?._avg.score ?? 0) * quizzesCompleted + (practice?._avg.score ?? 0) * practiceTestsCompleted;
+    const completed = quizzesCompleted + practiceTestsCompleted;
+    const lastActive = [quiz?._max.completedAt, practice?._max.completedAt]
+      .filter((date): date is Date => date instanceof Date)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+    return {
+      userId: member.userId,
+      fullName: member.User.full_name,
+      email: member.User.email,
+      quizzesCompleted,
+      practiceTestsCompleted,
+      averageScore: completed ? Math.round(scoreTotal / completed) : null,
+      lastActiveAt: lastActive ?? null,
+      streakDays: userById.get(member.userId)?.streak_days ?? 0,
+    };
+  });
+
+  const scored = learners.filter((learner) => learner.averageScore !== null);
+  return {
+    classroom: { id: classroom.id, name: classroom.name },
+    range,
+    summary: {
+      members: learners.length,
+      activeLearners: learners.filter((learner) => learner.lastActiveAt !== null).length,
+      quizzesCompleted: learners.reduce((sum, learner) => sum + learner.quizzesCompleted, 0),
+      practiceTestsCompleted: learners.reduce((sum, learner) => sum + learner.practiceTestsCompleted, 0),
+      averageScore: scored.length
+        ? Math.round(scored.reduce((sum, learner) => sum + (learner.averageScore ?? 0), 0) / scored.length)
+        : null,
+    },
+    learners,
+    objectives: objectives
+      .map((objective) => {
+        const entry = masteryByObjective.get(objective.id);
+        return {
+          objectiveId: objective.id,
+          code: objective.code,
+          description: objective.description,
+          topicName: objective.Topic.topic_name,
+          learners: entry?._count._all ?? 0,
+          responses: entry?._sum.totalAttempts ?? 0,
+          averageMastery:
+            entry?._avg.masteryScore === null || entry?._avg.masteryScore === undefined
+              ? null
+              : Math.round(entry._avg.masteryScore * 100) / 100,
+        };
+      })
+      .sort((a, b) => (a.averageMastery ?? 0) - (b.averageMastery ?? 0)),
+  };
+};
+
+export const listAssignableContent = async (search?: string) => {
+  const term = search?.trim();
+  const [quizzes, practiceTests] = await Promise.all([
+    prisma.quiz.findMany({
+      where: { isActive: true, ...(term ? { title: { contains: term, mode: "insensitive" as const } } : {}) },
+      orderBy: { title: "asc" },
+      take: 50,
+      select: { id: true, title: true, Topic: { select: { topic_name: true } } },
+    }),
+    prisma.practiceTest.findMany({
+      where: { isActive: true, ...(term ? { title: { contains: term, mode: "insensitive" as const } } : {}) },
+      orderBy: { title: "asc" },
+      take: 50,
+      select: { id: true, title: true, questionCount: true },
+    }),
+  ]);
+  return {
+    quizzes: quizzes.map((quiz) => ({ id: quiz.id, title: quiz.title, topicName: quiz.Topic.topic_name })),
+    practiceTests,
+  };
+};
+
+export const joinClassroom = async (userId: number, code: string) => {
+  const classroom = await prisma.classroom.findUnique({ where: { joinCode: normalizeJoinCode(code) } });
+  if (!classroom || classroom.isArchived) {
+    throw classroomError("No class matches that code", 404);
+  }
+  await prisma.classroomMember.upsert({
+    where: { classroomId_userId: { classroomId: classroom.id, userId } },
+    update: {},
+    create: { classroomId: classroom.id, userId },
+  });
+  return classroom;
+};
+
+export const leaveClassroom = async (userId: number, classroomId: number) => removeClassroomMember(classroomId, userId);
+
+export const listLearnerClassrooms = async (userId: number) =>
+  prisma.classroom.findMany({
+    where: { isArchived: false, members: { some: { userId } } },
+    orderBy: { name: "asc" },
+    include: {
+      Teacher: { select: { id: true, full_name: true } },
+      _count: { select: { assignments: true } },
+    },
+  });
+
+const statusOrder: Record<AssignmentStatus, number> = { overdue: 0, in_progress: 1, not_started: 2, completed: 3 };
+
+/**
+ * Everything assigned to the learner across their active classes, overdue work first, then
+ * upcoming work by due date, then completed work.
+ */
+export const listLearnerAssignments = async (userId: number) => {
+  const assignments = await prisma.classroomAssignment.findMany({
+    where: { Classroom: { isArchived: false, members: { some: { userId } } } },
+    include: { ...assignmentInclude, Classroom: { select: { id: true, name: true } } },
+  });
+  const attempts = await loadAssignmentAttempts([userId], assignments);
+  const now = new Date();
+
+  return assignments
+    .map((assignment) => ({ assignment, progress: resolveAssignmentProgress(assignment, attempts, userId, now) }))
+    .sort(
+      (a, b) =>
+        statusOrder[a.progress.status] - statusOrder[b.progress.status] ||
+        a.assignment.dueAt.getTime() - b.assignment.dueAt.getTime(),
+    );
+};
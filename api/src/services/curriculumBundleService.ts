@@ -0,0 +1,650 @@
+import { Prisma, QuestionStatus } from "@prisma/client";
+import prisma from "../config/db";
+import { pruneQuestionObjectives } from "./learningObjectiveService";
+import {
+  createQuestionRevision,
+  hasContentChanges,
+  recordPublishedEdit,
+  recordQuestionEdit,
+} from "./questionRevisionService";
+import {
+  BundleFlashcard,
+  BundleGradeLevel,
+  BundlePracticeTest,
+  BundleQuestion,
+  BundleQuiz,
+  BundleSubject,
+  BundleTopic,
+  CURRICULUM_BUNDLE_FORMAT,
+  CURRICULUM_BUNDLE_VERSION,
+  CurriculumBundle,
+} from "../validation/curriculumBundleSchema";
+
+export type BundleEntity = "gradeLevel" | "subject" | "topic" | "question" | "quiz" | "practiceTest" | "flashcard";
+export type BundleAction = "create" | "update" | "link" | "unchanged";
+
+export type BundleChange = {
+  entity: BundleEntity;
+  key: string;
+  action: Exclude<BundleAction, "unchanged">;
+  targetId: number | null;
+  fields: string[];
+};
+
+export type BundleConflict = { entity: BundleEntity; key: string; message: string };
+
+export type BundleImportReport = {
+  dryRun: boolean;
+  applied: boolean;
+  summary: Record<BundleEntity, Record<BundleAction | "conflict", number>>;
+  changes: BundleChange[];
+  conflicts: BundleConflict[];
+};
+
+// Large bundles write thousands of rows, well past Prisma's default interactive transaction timeout.
+const BUNDLE_IMPORT_TIMEOUT_MS = 120_000;
+
+const bundleEntities: BundleEntity[] = ["gradeLevel", "subject", "topic", "question", "quiz", "practiceTest", "flashcard"];
+
+const keyedSelect = { select: { externalKey: true } } as const;
+const keyOrNull = (row: { externalKey: string } | null) => row?.externalKey ?? null;
+
+const toJsonInput = (value: Prisma.JsonValue | null) =>
+  value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+
+const questionLinks = { orderBy: { orderIndex: "asc" as const }, include: { Question: keyedSelect } };
+
+/**
+ * Snapshot of the whole curriculum, in the same grade → subject → topic shape as the curriculum
+ * tree, with content attached by stable keys instead of database ids.
+ */
+export const exportCurriculumBundle = async (): Promise<CurriculumBundle> => {
+  const [grades, subjects, topics, questions, quizzes, practiceTests, flashcards] = await Promise.all([
+    prisma.gradeLevel.findMany({ orderBy: { name: "asc" } }),
+    prisma.subject.findMany({ orderBy: { subject_name: "asc" }, include: { GradeLevel: keyedSelect } }),
+    prisma.topic.findMany({ orderBy: { topic_name: "asc" }, include: { Subject: keyedSelect } }),
+    prisma.questionBank.findMany({ orderBy: { id: "asc" }, include: { Topic: keyedSelect } }),
+    prisma.quiz.findMany({ orderBy: { id: "asc" }, include: { Topic: keyedSelect, questions: questionLinks } }),
+    prisma.practiceTest.findMany({
+      orderBy: { id: "asc" },
+      include: { Subject: keyedSelect, GradeLevel: keyedSelect, questions: questionLinks },
+    }),
+    prisma.flashcard.findMany({ orderBy: { id: "asc" }, include: { Topic: keyedSelect } }),
+  ]);
+
+  const toLinks = (links: Array<{ orderIndex: number; points: number; Question: { externalKey: string } }>) =>
+    links.map((link) => ({ questionKey: link.Question.externalKey, orderIndex: link.orderIndex, points: link.points }));
+
+  return {
+    format: CURRICULUM_BUNDLE_FORMAT,
+    version: CURRICULUM_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    gradeLevels: grades.map((grade) => ({
+      key: grade.externalKey,
+      name: grade.name,
+      description: grade.description,
+      orderIndex: grade.order_index,
+      isActive: grade.is_active,
+    })),
+    subjects: subjects.map((subject) => ({
+      key: subject.externalKey,
+      gradeLevelKey: keyOrNull(subject.GradeLevel),
+      gradeLevel: subject.grade_level,
+      name: subject.subject_name,
+      description: subject.description,
+      isActive: subject.is_active,
+    })),
+    topics: topics.map((topic) => ({
+      key: topic.externalKey,
+      subjectKey: topic.Subject.externalKey,
+      name: topic.topic_name,
+      difficulty: topic.difficulty,
+      isActive: topic.is_active,
+    })),
+    questions: questions.map((question) => ({
+      key: question.externalKey,
+      topicKey: question.Topic.externalKey,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      options: question.options,
+      correctOption: question.correctOption,
+      correctAnswers: question.correctAnswers,
+      matchStrategy: question.matchStrategy,
+      matchOptions: question.matchOptions,
+      difficulty: question.difficulty,
+      language: question.language,
+      imageUrl: question.imageUrl,
+      explanation: question.explanation,
+      status: question.status,
+      isActive: question.isActive,
+    })),
+    quizzes: quizzes.map((quiz) => ({
+      key: quiz.externalKey,
+      topicKey: quiz.Topic.externalKey,
+      title: quiz.title,
+      description: quiz.description,
+      difficulty: quiz.difficulty,
+      isActive: quiz.isActive,
+      isPremium: quiz.isPremium,
+      isAdaptive: quiz.isAdaptive,
+      adaptiveQuestionCount: quiz.adaptiveQuestionCount,
+      questions: toLinks(quiz.questions),
+    })),
+    practiceTests: practiceTests.map((test) => ({
+      key: test.externalKey,
+      subjectKey: keyOrNull(test.Subject),
+      gradeLevelKey: keyOrNull(test.GradeLevel),
+      title: test.title,
+      description: test.description,
+      xpReward: test.xpReward,
+      durationMinutes: test.durationMinutes,
+      difficultyMix: test.difficultyMix,
+      isGenerated: test.isGenerated,
+      negativeMarking: test.negativeMarking,
+      isActive: test.isActive,
+      isPremium: test.isPremium,
+      questions: toLinks(test.questions),
+    })),
+    flashcards: flashcards.map((card) => ({
+      key: card.externalKey,
+      topicKey: card.Topic.externalKey,
+      frontText: card.front_text,
+      backText: card.back_text,
+      imageUrl: card.image_url,
+      language: card.language,
+      isPremium: card.is_premium,
+    })),
+  };
+};
+
+// Resolves a bundle key to a row id in this environment; null while the row is still to be created.
+type Resolve = (entity: BundleEntity, key: string | null) => number | null;
+
+// Who is importing. Without review permission a bundle cannot publish questions or change live ones.
+type ImportActor = { id: number | null; canPublish: boolean };
+
+type KeyedRow = { id: number; externalKey: string };
+
+type EntitySpec<Item extends { key: string }, Row extends KeyedRow> = {
+  entity: BundleEntity;
+  references: (item: Item) => Array<[BundleEntity, string | null]>;
+  findByKeys: (keys: string[]) => Promise<Row[]>;
+  // A row already holding the item's natural identity (same name under the same parent, and so on).
+  findNatural: (item: Item, resolve: Resolve) => Promise<Row | null>;
+  // Natural identities backed by a unique index cannot be taken over by a second key.
+  naturalIsUnique: boolean;
+  toData: (item: Item, resolve: Resolve) => Record<string, unknown>;
+  snapshot?: (row: Row) => Record<string, unknown>;
+  write: (
+    tx: Prisma.TransactionClient,
+    item: Item,
+    targetId: number | null,
+    resolve: Resolve,
+    actor: ImportActor,
+  ) => Promise<number>;
+};
+
+const requireId = (id: number | null) => {
+  if (id === null) {
+    throw new Error("Bundle reference was not resolved before writing");
+  }
+  return id;
+};
+
+const findKeyedIds: Record<BundleEntity, (keys: string[]) => Promise<KeyedRow[]>> = {
+  gradeLevel: (keys) => prisma.gradeLevel.findMany({ where: { externalKey: { in: keys } } }),
+  subject: (keys) => prisma.subject.findMany({ where: { externalKey: { in: keys } } }),
+  topic: (keys) => prisma.topic.findMany({ where: { externalKey: { in: keys } } }),
+  question: (keys) => prisma.questionBank.findMany({ where: { externalKey: { in: keys } } }),
+  quiz: (keys) => prisma.quiz.findMany({ where: { externalKey: { in: keys } } }),
+  practiceTest: (keys) => prisma.practiceTest.findMany({ where: { externalKey: { in: keys } } }),
+  flashcard: (keys) => prisma.flashcard.findMany({ where: { externalKey: { in: keys } } }),
+};
+
+const toQuestionLinks = (links: BundleQuiz["questions"], resolve: Resolve) =>
+  links.map((link) => ({
+    questionId: resolve("question", link.questionKey),
+    orderIndex: link.orderIndex,
+    points: link.points,
+  }));
+
+const snapshotLinks = (links: Array<{ questionId: number; orderIndex: number; points: number }>) =>
+  links.map((link) => ({ questionId: link.questionId, orderIndex: link.orderIndex, points: link.points }));
+
+const writeLinks = (links: BundleQuiz["questions"], resolve: Resolve) =>
+  toQuestionLinks(links, resolve).map((link) => ({ ...link, questionId: requireId(link.questionId) }));
+
+const gradeLevelSpec: EntitySpec<BundleGradeLevel, Prisma.GradeLevelGetPayload<object>> = {
+  entity: "gradeLevel",
+  references: () => [],
+  findByKeys: (keys) => prisma.gradeLevel.findMany({ where: { externalKey: { in: keys } } }),
+  findNatural: (item) => prisma.gradeLevel.findUnique({ where: { name: item.name } }),
+  naturalIsUnique: true,
+  toData: (item) => ({
+    name: item.name,
+    description: item.description,
+    order_index: item.orderIndex,
+    is_active: item.isActive,
+  }),
+  write: async (tx, item, targetId) => {
+    const data = { ...gradeLevelSpec.toData(item, () => null), externalKey: item.key } as Prisma.GradeLevelCreateInput;
+    const row = targetId
+      ? await tx.gradeLevel.update({ where: { id: targetId }, data })
+      : await tx.gradeLevel.create({ data });
+    return row.id;
+  },
+};
+
+const subjectSpec: EntitySpec<BundleSubject, Prisma.SubjectGetPayload<object>> = {
+  entity: "subject",
+  references: (item) => [["gradeLevel", item.gradeLevelKey]],
+  findByKeys: (keys) => prisma.subject.findMany({ where: { externalKey: { in: keys } } }),
+  findNatural: async (item, resolve) => {
+    const gradeLevelId = resolve("gradeLevel", item.gradeLevelKey);
+    if (item.gradeLevelKey && gradeLevelId === null) return null;
+    return prisma.subject.findFirst({ where: { grade_level_id: gradeLevelId, subject_name: item.name } });
+  },
+  naturalIsUnique: true,
+  toData: (item, resolve) => ({
+    subject_name: item.name,
+    grade_level: item.gradeLevel,
+    grade_level_id: resolve("gradeLevel", item.gradeLevelKey),
+    description: item.description,
+    is_active: item.isActive,
+  }),
+  write: async (tx, item, targetId, resolve) => {
+    const data = { ...subjectSpec.toData(item, resolve), externalKey: item.key } as Prisma.SubjectUncheckedCreateInput;
+    const row = targetId
+      ? await tx.subject.update({ where: { id: targetId }, data })
+      : await tx.subject.create({ data });
+    return row.id;
+  },
+};
+
+const topicSpec: EntitySpec<BundleTopic, Prisma.TopicGetPayload<object>> = {
+  entity: "topic",
+  references: (item) => [["subject", item.subjectKey]],
+  findByKeys: (keys) => prisma.topic.findMany({ where: { externalKey: { in: keys } } }),
+  findNatural: async (item, resolve) => {
+    const subjectId = resolve("subject", item.subjectKey);
+    return subjectId
+      ? prisma.topic.findUnique({ where: { subject_id_topic_name: { subject_id: subjectId, topic_name: item.name } } })
+      : null;
+  },
+  naturalIsUnique: true,
+  toData: (item, resolve) => ({
+    topic_name: item.name,
+    subject_id: resolve("subject", item.subjectKey),
+    difficulty: item.difficulty,
+    is_active: item.isActive,
+  }),
+  write: async (tx, item, targetId, resolve) => {
+    const data = {
+      ...topicSpec.toData(item, resolve),
+      subject_id: requireId(resolve("subject", item.subjectKey)),
+      externalKey: item.key,
+    } as Prisma.TopicUncheckedCreateInput;
+    const row = targetId ? await tx.topic.update({ where: { id: targetId }, data }) : await tx.topic.create({ data });
+    return row.id;
+  },
+};
+
+// Edits go through the revision history like edits in the question editor. Importers without review
+// permission bring new or changed questions in as drafts, and changes to published questions wait for review.
+const questionSpec: EntitySpec<BundleQuestion, Prisma.QuestionBankGetPayload<object>> = {
+  entity: "question",
+  references: (item) => [["topic", item.topicKey]],
+  findByKeys: (keys) => prisma.questionBank.findMany({ where: { externalKey: { in: keys } } }),
+  findNatural: async (item, resolve) => {
+    const topicId = resolve("topic", item.topicKey);
+    return topicId
+      ? prisma.questionBank.findFirst({
+          where: { topicId, questionText: { equals: item.questionText, mode: "insensitive" } },
+        })
+      : null;
+  },
+  naturalIsUnique: false,
+  toData: (item, resolve) => ({
+    topicId: resolve("topic", item.topicKey),
+    questionText: item.questionText,
+    questionType: item.questionType,
+    options: item.options,
+    correctOption: item.correctOption,
+    correctAnswers: item.correctAnswers,
+    matchStrategy: item.matchStrategy,
+    matchOptions: item.matchOptions,
+    difficulty: item.difficulty,
+    language: item.language,
+    imageUrl: item.imageUrl,
+    explanation: item.explanation,
+    status: item.status,
+    isActive: item.isActive,
+  }),
+  write: async (tx, item, targetId, resolve, actor) => {
+    const data = {
+      ...questionSpec.toData(item, resolve),
+      topicId: requireId(resolve("topic", item.topicKey)),
+      options: toJsonInput(item.options),
+      correctAnswers: toJsonInput(item.correctAnswers),
+      matchOptions: toJsonInput(item.matchOptions),
+      externalKey: item.key,
+    } as Prisma.QuestionBankUncheckedCreateInput;
+    if (!targetId) {
+      const status = actor.canPublish ? item.status : QuestionStatus.DRAFT;
+      const created = await tx.questionBank.create({ data: { ...data, status, createdById: actor.id } });
+      await createQuestionRevision(tx, created, actor.id);
+      return created.id;
+    }
+    const before = await tx.questionBank.findUniqueOrThrow({ where: { id: targetId } });
+    if (!actor.canPublish) {
+      const { status: _status, ...fields } = data;
+      let updated = await tx.questionBank.update({ where: { id: targetId }, data: fields });
+      if (before.status === QuestionStatus.PUBLISHED) {
+        await recordPublishedEdit(tx, before, updated, actor.id);
+        return updated.id;
+      }
+      if (hasContentChanges(before, updated)) {
+        updated = await tx.questionBank.update({ where: { id: targetId }, data: { status: QuestionStatus.DRAFT } });
+      }
+      await recordQuestionEdit(tx, before, updated, actor.id);
+      if (updated.topicId !== before.topicId) {
+        await pruneQuestionObjectives(tx, updated.id, updated.topicId);
+      }
+      return updated.id;
+    }
+    const updated = await tx.questionBank.update({ where: { id: targetId }, data });
+    await recordQuestionEdit(tx, before, updated, actor.id);
+    if (updated.topicId !== before.topicId) {
+      await pruneQuestionObjectives(tx, updated.id, updated.topicId);
+    }
+    return updated.id;
+  },
+};
+
+const quizSpec: EntitySpec<BundleQuiz, Prisma.QuizGetPayload<{ include: { questions: true } }>> = {
+  entity: "quiz",
+  references: (item) => [
+    ["topic", item.topicKey],
+    ...item.questions.map((link): [BundleEntity, string] => ["question", link.questionKey]),
+  ],
+  findByKeys: (keys) =>
+    prisma.quiz.findMany({
+      where: { externalKey: { in: keys } },
+      include: { questions: { orderBy: { orderIndex: "asc" } } },
+    }),
+  findNatural: async (item, resolve) => {
+    const topicId = resolve("topic", item.topicKey);
+    return topicId
+      ? prisma.quiz.findFirst({
+          where: { topicId, title: item.title },
+          include: { questions: { orderBy: { orderIndex: "asc" } } },
+        })
+      : null;
+  },
+  naturalIsUnique: false,
+  toData: (item, resolve) => ({
+    topicId: resolve("topic", item.topicKey),
+    title: item.title,
+    description: item.description,
+    difficulty: item.difficulty,
+    isActive: item.isActive,
+    isPremium: item.isPremium,
+    isAdaptive: item.isAdaptive,
+    adaptiveQuestionCount: item.adaptiveQuestionCount,
+    questions: toQuestionLinks(item.questions, resolve),
+  }),
+  snapshot: (row) => ({ ...row, questions: snapshotLinks(row.questions) }),
+  write: async (tx, item, targetId, resolve) => {
+    const { questions: _questions, ...fields } = quizSpec.toData(item, resolve);
+    const data = {
+      ...fields,
+      topicId: requireId(resolve("topic", item.topicKey)),
+      externalKey: item.key,
+    } as Prisma.QuizUncheckedCreateInput;
+    const questions = writeLinks(item.questions, resolve);
+    const row = targetId
+      ? await tx.quiz.update({
+          where: { id: targetId },
+          data: { ...data, questions: { deleteMany: {}, create: questions } },
+        })
+      : await tx.quiz.create({ data: { ...data, questions: { create: questions } } });
+    return row.id;
+  },
+};
+
+const practiceTestSpec: EntitySpec<BundlePracticeTest, Prisma.PracticeTestGetPayload<{ include: { questions: true } }>> =
+  {
+    entity: "practiceTest",
+    references: (item) => [
+      ["subject", item.subjectKey],
+      ["gradeLevel", item.gradeLevelKey],
+      ...item.questions.map((link): [BundleEntity, string] => ["question", link.questionKey]),
+    ],
+    findByKeys: (keys) =>
+      prisma.practiceTest.findMany({
+        where: { externalKey: { in: keys } },
+        include: { questions: { orderBy: { orderIndex: "asc" } } },
+      }),
+    findNatural: async (item, resolve) => {
+      const subjectId = resolve("subject", item.subjectKey);
+      if (item.subjectKey && subjectId === null) return null;
+      return prisma.practiceTest.findFirst({
+        where: { subjectId, title: item.title },
+        include: { questions: { orderBy: { orderIndex: "asc" } } },
+      });
+    },
+    naturalIsUnique: false,
+    toData: (item, resolve) => ({
+      subjectId: resolve("subject", item.subjectKey),
+      gradeLevelId: resolve("gradeLevel", item.gradeLevelKey),
+      title: item.title,
+      description: item.description,
+      xpReward: item.xpReward,
+      questionCount: item.questions.length,
+      durationMinutes: item.durationMinutes,
+      difficultyMix: item.difficultyMix,
+      isGenerated: item.isGenerated,
+      negativeMarking: item.negativeMarking,
+      isActive: item.isActive,
+      isPremium: item.isPremium,
+      questions: toQuestionLinks(item.questions, resolve),
+    }),
+    snapshot: (row) => ({ ...row, questions: snapshotLinks(row.questions) }),
+    write: async (tx, item, targetId, resolve) => {
+      const { questions: _questions, ...fields } = practiceTestSpec.toData(item, resolve);
+      const data = {
+        ...fields,
+        difficultyMix: toJsonInput(item.difficultyMix),
+        externalKey: item.key,
+      } as Prisma.PracticeTestUncheckedCreateInput;
+      const questions = writeLinks(item.questions, resolve);
+      const row = targetId
+        ? await tx.practiceTest.update({
+            where: { id: targetId },
+            data: { ...data, questions: { deleteMany: {}, create: questions } },
+          })
+        : await tx.practiceTest.create({ data: { ...data, questions: { create: questions } } });
+      return row.id;
+    },
+  };
+
+const flashcardSpec: EntitySpec<BundleFlashcard, Prisma.FlashcardGetPayload<object>> = {
+  entity: "flashcard",
+  references: (item) => [["topic", item.topicKey]],
+  findByKeys: (keys) => prisma.flashcard.findMany({ where: { externalKey: { in: keys } } }),
+  findNatural: async (item, resolve) => {
+    const topicId = resolve("topic", item.topicKey);
+    return topicId ? prisma.flashcard.findFirst({ where: { topic_id: topicId, front_text: item.frontText } }) : null;
+  },
+  naturalIsUnique: false,
+  toData: (item, resolve) => ({
+    topic_id: resolve("topic", item.topicKey),
+    front_text: item.frontText,
+    back_text: item.backText,
+    image_url: item.imageUrl,
+    language: item.language,
+    is_premium: item.isPremium,
+  }),
+  write: async (tx, item, targetId, resolve) => {
+    const data = {
+      ...flashcardSpec.toData(item, resolve),
+      topic_id: requireId(resolve("topic", item.topicKey)),
+      externalKey: item.key,
+    } as Prisma.FlashcardUncheckedCreateInput;
+    const row = targetId
+      ? await tx.flashcard.update({ where: { id: targetId }, data })
+      : await tx.flashcard.create({ data });
+    return row.id;
+  },
+};
+
+type ImportState = {
+  ids: Map<string, number | null>;
+  report: BundleImportReport;
+};
+
+type PlannedItem<Item> = { item: Item; action: BundleAction; targetId: number | null };
+
+const refKey = (entity: BundleEntity, key: string) => `${entity}:${key}`;
+
+const resolverFor =
+  (state: ImportState): Resolve =>
+  (entity, key) =>
+    key ? (state.ids.get(refKey(entity, key)) ?? null) : null;
+
+const loadReferences = async (state: ImportState, references: Array<[BundleEntity, string | null]>) => {
+  const missing = new Map<BundleEntity, Set<string>>();
+  references.forEach(([entity, key]) => {
+    if (!key || state.ids.has(refKey(entity, key))) return;
+    missing.set(entity, (missing.get(entity) ?? new Set()).add(key));
+  });
+  for (const [entity, keys] of missing) {
+    const rows = await findKeyedIds[entity](Array.from(keys));
+    rows.forEach((row) => state.ids.set(refKey(entity, row.externalKey), row.id));
+  }
+};
+
+const changedFields = (data: Record<string, unknown>, snapshot: Record<string, unknown>) =>
+  Object.keys(data).filter((field) => JSON.stringify(data[field]) !== JSON.stringify(snapshot[field] ?? null));
+
+/**
+ * Decides what importing each item would do: update the row holding its key, adopt a row with the
+ * same natural identity under the bundle's key, or create a new one. Every row has a key from the day
+ * it is created, so a row is only adopted while no other item in the bundle claims its current key.
+ * Anything ambiguous is reported as a conflict.
+ */
+const planEntity = async <Item extends { key: string }, Row extends KeyedRow>(
+  spec: EntitySpec<Item, Row>,
+  items: Item[],
+  state: ImportState,
+) => {
+  await loadReferences(state, items.flatMap(spec.references));
+  const resolve = resolverFor(state);
+  const existing = new Map((await spec.findByKeys(items.map((item) => item.key))).map((row) => [row.externalKey, row]));
+  const bundleKeys = new Set(items.map((item) => item.key));
+  const summary = state.report.summary[spec.entity];
+  const seen = new Set<string>();
+  const planned: PlannedItem<Item>[] = [];
+
+  for (const item of items) {
+    const conflict = (message: string) => {
+      state.report.conflicts.push({ entity: spec.entity, key: item.key, message });
+      summary.conflict += 1;
+    };
+    if (seen.has(item.key)) {
+      conflict("Key appears more than once in the bundle");
+      continue;
+    }
+    seen.add(item.key);
+    const unknown = spec.references(item).find(([entity, key]) => key && !state.ids.has(refKey(entity, key)));
+    if (unknown) {
+      conflict(`References unknown ${unknown[0]} "${unknown[1]}"`);
+      continue;
+    }
+
+    const row = existing.get(item.key) ?? null;
+    const natural = !row || spec.naturalIsUnique ? await spec.findNatural(item, resolve) : null;
+    if (natural && natural.id !== row?.id && (row || bundleKeys.has(natural.externalKey))) {
+      conflict(`Clashes with existing ${spec.entity} #${natural.id} with key "${natural.externalKey}"`);
+      continue;
+    }
+
+    const target = row ?? natural;
+    const fields = target
+      ? changedFields(spec.toData(item, resolve), spec.snapshot ? spec.snapshot(target) : target)
+      : [];
+    const action: BundleAction = !target ? "create" : !row ? "link" : fields.length ? "update" : "unchanged";
+    state.ids.set(refKey(spec.entity, item.key), target?.id ?? null);
+    summary[action] += 1;
+    if (action !== "unchanged") {
+      state.report.changes.push({ entity: spec.entity, key: item.key, action, targetId: target?.id ?? null, fields });
+    }
+    planned.push({ item, action, targetId: target?.id ?? null });
+  }
+  return planned;
+};
+
+const applyEntity = async <Item extends { key: string }, Row extends KeyedRow>(
+  tx: Prisma.TransactionClient,
+  spec: EntitySpec<Item, Row>,
+  planned: PlannedItem<Item>[],
+  state: ImportState,
+  actor: ImportActor,
+) => {
+  const resolve = resolverFor(state);
+  for (const entry of planned) {
+    if (entry.action === "unchanged") continue;
+    const id = await spec.write(tx, entry.item, entry.targetId, resolve, actor);
+    state.ids.set(refKey(spec.entity, entry.item.key), id);
+  }
+};
+
+/**
+ * Upserts a bundle by key, parents before children. The whole bundle is planned first; with
+ * `dryRun`, or when any item conflicts, nothing is written and the plan is returned as the diff.
+ */
+export const importCurriculumBundle = async (
+  bundle: CurriculumBundle,
+  options: { dryRun: boolean; actorId?: number | undefined; canPublish: boolean },
+): Promise<BundleImportReport> => {
+  const state: ImportState = {
+    ids: new Map(),
+    report: {
+      dryRun: options.dryRun,
+      applied: false,
+      summary: Object.fromEntries(
+        bundleEntities.map((entity) => [entity, { create: 0, update: 0, link: 0, unchanged: 0, conflict: 0 }]),
+      ) as BundleImportReport["summary"],
+      changes: [],
+      conflicts: [],
+    },
+  };
+
+  const grades = await planEntity(gradeLevelSpec, bundle.gradeLevels, state);
+  const subjects = await planEntity(subjectSpec, bundle.subjects, state);
+  const topics = await planEntity(topicSpec, bundle.topics, state);
+  const questions = await planEntity(questionSpec, bundle.questions, state);
+  const quizzes = await planEntity(quizSpec, bundle.quizzes, state);
+  const practiceTests = await planEntity(practiceTestSpec, bundle.practiceTests, state);
+  const flashcards = await planEntity(flashcardSpec, bundle.flashcards, state);
+
+  if (options.dryRun || state.report.conflicts.length || !state.report.changes.length) {
+    return state.report;
+  }
+
+  const actor: ImportActor = { id: options.actorId ?? null, canPublish: options.canPublish };
+  await prisma.$transaction(
+    async (tx) => {
+      await applyEntity(tx, gradeLevelSpec, grades, state, actor);
+      await applyEntity(tx, subjectSpec, subjects, state, actor);
+      await applyEntity(tx, topicSpec, topics, state, actor);
+      await applyEntity(tx, questionSpec, questions, state, actor);
+      await applyEntity(tx, quizSpec, quizzes, state, actor);
+      await applyEntity(tx, practiceTestSpec, practiceTests, state, actor);
+      await applyEntity(tx, flashcardSpec, flashcards, state, actor);
+    },
+    { timeout: BUNDLE_IMPORT_TIMEOUT_MS },
+  );
+  state.report.applied = true;
+  return state.report;
+};
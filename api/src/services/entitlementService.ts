@@ -0,0 +1,49 @@
+import { Prisma, SubscriptionStatus } from "@prisma/client";
+import prisma from "../config/db";
+
+// past_due keeps access while the payment provider retries the charge; expires_at still ends it.
+const ENTITLED_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.active,
+  SubscriptionStatus.trialing,
+  SubscriptionStatus.past_due,
+];
+
+/**
+ * Subscriptions imported from the payment provider may only carry the billing email,
+ * so rows are matched on either the user id or the email.
+ */
+export const activeSubscriptionWhere = (
+  user: { id: number; email: string },
+  now = new Date(),
+): Prisma.SubscriptionWhereInput => ({
+  AND: [
+    {
+      OR: [{ user_id: user.id }, { user_id: null, user_email: { equals: user.email, mode: "insensitive" } }],
+    },
+    { status: { in: ENTITLED_STATUSES } },
+    { OR: [{ expires_at: null }, { expires_at: { gt: now } }] },
+  ],
+});
+
+/**
+ * A learner is premium when an admin granted it manually or an entitled subscription is running.
+ */
+export const resolvePremiumAccess = async (user: { id: number; email: string; is_premium: boolean }) => {
+  if (user.is_premium) {
+    return true;
+  }
+  const subscriptions = await prisma.subscription.count({ where: activeSubscriptionWhere(user) });
+  return subscriptions > 0;
+};
+
+export const premiumRequiredError = () => {
+  const error = new Error("Upgrade required to access premium content");
+  (error as { statusCode?: number }).statusCode = 402;
+  return error;
+};
+
+export const assertPremiumAccess = (isPremiumContent: boolean, hasPremiumAccess: boolean) => {
+  if (isPremiumContent && !hasPremiumAccess) {
+    throw premiumRequiredError();
+  }
+};
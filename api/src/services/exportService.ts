@@ -14,6 +14,7 @@ export const generateAttemptsCsv = async (filter: AttemptExportFilter = {}) => {
     fields: [
       { label: "Attempt ID", value: "attemptId" },
       { label: "Quiz ID", value: "quizId" },
+      { label: "Question ID", value: "questionId" },
       { label: "User ID", value: "userId" },
       { label: "Score", value: "score" },
       { label: "Attempt Date", value: "attemptDate" },
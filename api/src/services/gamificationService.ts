@@ -49,8 +49,8 @@ const ACHIEVEMENT_RULES: AchievementRule[] = [
 
 const getAchievementStats = async (userId: number): Promise<AchievementStats> => {
   const [attempts, correctAttempts] = await Promise.all([
-    prisma.attempt.count({ where: { user_id: userId } }),
-    prisma.attempt.count({ where: { user_id: userId, is_correct: true } }),
+    prisma.questionAttemptV2.count({ where: { userId } }),
+    prisma.questionAttemptV2.count({ where: { userId, isCorrect: true } }),
   ]);
 
   return { attempts, correctAttempts };
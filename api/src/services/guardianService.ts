@@ -0,0 +1,273 @@
+import dayjs from "dayjs";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/db";
+import { normalizeJoinCode, withFreshJoinCode } from "../utils/joinCodes";
+import { summarizeMastery } from "../utils/masteryModel";
+
+const INVITE_TTL_DAYS = 7;
+const RECENT_ATTEMPT_LIMIT = 10;
+const SUMMARY_TOPIC_LIMIT = 3;
+
+const learnerSelect = {
+  id: true,
+  full_name: true,
+  xp_total: true,
+  level: true,
+  streak_days: true,
+} satisfies Prisma.UserSelect;
+
+const guardianError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+const activeLinkWhere = (where: Prisma.GuardianLinkWhereInput): Prisma.GuardianLinkWhereInput => ({
+  ...where,
+  guardianId: where.guardianId ?? { not: null },
+  revokedAt: null,
+});
+
+export type SummaryDetails = {
+  strongestTopics: Array<{ topicId: number; topicName: string; mastery: number }>;
+  weakestTopics: Array<{ topicId: number; topicName: string; mastery: number }>;
+};
+
+/**
+ * The learner hands the code to their parent, which doubles as consent: a guardian can only
+ * see a learner who issued them a code. Issuing a new code retires any code still pending.
+ */
+export const createGuardianInvite = async (learnerId: number) => {
+  await prisma.guardianLink.updateMany({
+    where: { learnerId, guardianId: null, revokedAt: null },
+    data: { inviteCode: null, revokedAt: new Date() },
+  });
+  const codeExpiresAt = dayjs().add(INVITE_TTL_DAYS, "day").toDate();
+  return withFreshJoinCode((inviteCode) =>
+    prisma.guardianLink.create({ data: { learnerId, inviteCode, codeExpiresAt } }),
+  );
+};
+
+export const listLearnerGuardians = async (learnerId: number) => {
+  const [links, pendingInvite] = await Promise.all([
+    prisma.guardianLink.findMany({
+      where: activeLinkWhere({ learnerId }),
+      orderBy: { linkedAt: "asc" },
+      include: { Guardian: { select: { id: true, full_name: true, email: true } } },
+    }),
+    prisma.guardianLink.findFirst({
+      where: { learnerId, guardianId: null, revokedAt: null, codeExpiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+  return { links, pendingInvite };
+};
+
+export const revokeGuardianLink = async (learnerId: number, linkId: number) => {
+  const { count } = await prisma.guardianLink.updateMany({
+    where: { id: linkId, learnerId, revokedAt: null },
+    data: { inviteCode: null, revokedAt: new Date() },
+  });
+  return count > 0;
+};
+
+export const redeemGuardianInvite = async (guardianId: number, code: string) => {
+  const link = await prisma.guardianLink.findUnique({ where: { inviteCode: normalizeJoinCode(code) } });
+  if (!link || link.guardianId !== null || link.revokedAt || !link.codeExpiresAt || link.codeExpiresAt < new Date()) {
+    throw guardianError("That code is invalid or has expired", 404);
+  }
+  if (link.learnerId === guardianId) {
+    throw guardianError("You cannot link to your own account", 400);
+  }
+
+  const existing = await prisma.guardianLink.findFirst({
+    where: activeLinkWhere({ learnerId: link.learnerId, guardianId }),
+  });
+  if (existing) {
+    throw guardianError("You are already linked to this learner", 409);
+  }
+
+  // Two guardians can redeem the same code at once; only the first claim may take the link.
+  const { count } = await prisma.guardianLink.updateMany({
+    where: { id: link.id, guardianId: null, inviteCode: link.inviteCode, revokedAt: null },
+    data: { guardianId, linkedAt: new Date(), inviteCode: null, codeExpiresAt: null },
+  });
+  if (count === 0) {
+    throw guardianError("That code has already been used", 409);
+  }
+  return prisma.guardianLink.findUniqueOrThrow({
+    where: { id: link.id },
+    include: { Learner: { select: learnerSelect } },
+  });
+};
+
+export const listGuardianLearners = async (guardianId: number) =>
+  prisma.guardianLink.findMany({
+    where: activeLinkWhere({ guardianId }),
+    orderBy: { linkedAt: "asc" },
+    include: { Learner: { select: learnerSelect } },
+  });
+
+export const isLinkedGuardian = async (guardianId: number, learnerId: number) =>
+  (await prisma.guardianLink.count({ where: activeLinkWhere({ guardianId, learnerId }) })) > 0;
+
+export const unlinkLearner = async (guardianId: number, learnerId: number) => {
+  const { count } = await prisma.guardianLink.updateMany({
+    where: activeLinkWhere({ guardianId, learnerId }),
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+};
+
+const loadCompletedAttempts = async (learnerId: number, where: { gte?: Date; lt?: Date }, take?: number) => {
+  const completedAt = { not: null, ...where };
+  const [quizAttempts, practiceAttempts] = await Promise.all([
+    prisma.quizAttemptV2.findMany({
+      where: { userId: learnerId, status: "completed", completedAt },
+      orderBy: { completedAt: "desc" },
+      ...(take ? { take } : {}),
+      include: { Quiz: { select: { title: true, Topic: { select: { topic_name: true } } } } },
+    }),
+    prisma.practiceTestAttemptV2.findMany({
+      where: { userId: learnerId, status: "completed", completedAt },
+      orderBy: { completedAt: "desc" },
+      ...(take ? { take } : {}),
+      include: { PracticeTest: { select: { title: true } } },
+    }),
+  ]);
+
+  const attempts = [
+    ...quizAttempts.map((attempt) => ({
+      attemptId: attempt.id,
+      type: "quiz" as const,
+      title: attempt.Quiz.title,
+      topicName: attempt.Quiz.Topic.topic_name,
+      score: attempt.score,
+      completedAt: attempt.completedAt as Date,
+    })),
+    ...practiceAttempts.map((attempt) => ({
+      attemptId: attempt.id,
+      type: "practice" as const,
+      title: attempt.PracticeTest.title,
+      topicName: null as string | null,
+      score: attempt.score,
+      completedAt: attempt.completedAt as Date,
+    })),
+  ].sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime());
+
+  return take ? attempts.slice(0, take) : attempts;
+};
+
+export type GuardianAttempt = Awaited<ReturnType<typeof loadCompletedAttempts>>[number];
+
+const loadTopicMastery = (learnerId: number) =>
+  prisma.topicMastery.findMany({
+    where: { userId: learnerId, totalAttempts: { gt: 0 } },
+    orderBy: { updatedAt: "desc" },
+    include: { Topic: { select: { topic_name: true } } },
+  });
+
+/**
+ * Read-only view a guardian gets of a linked learner. Callers check the link first.
+ */
+export const buildLearnerDashboard = async (learnerId: number) => {
+  const weekStart = dayjs().subtract(7, "day").toDate();
+  const [learner, mastery, recentAttempts, weeklyXp] = await Promise.all([
+    prisma.user.findUnique({ where: { id: learnerId }, select: learnerSelect }),
+    loadTopicMastery(learnerId),
+    loadCompletedAttempts(learnerId, {}, RECENT_ATTEMPT_LIMIT),
+    prisma.xpTransaction.aggregate({
+      where: { userId: learnerId, createdAt: { gte: weekStart } },
+      _sum: { amount: true },
+    }),
+  ]);
+  if (!learner) {
+    return null;
+  }
+  return { learner, mastery, recentAttempts, xpLast7Days: weeklyXp._sum.amount ?? 0 };
+};
+
+const summarizeWeek = async (learnerId: number, weekStart: Date, weekEnd: Date) => {
+  const [learner, attempts, xp, mastery] = await Promise.all([
+    prisma.user.findUnique({ where: { id: learnerId }, select: { streak_days: true } }),
+    loadCompletedAttempts(learnerId, { gte: weekStart, lt: weekEnd }),
+    prisma.xpTransaction.aggregate({
+      where: { userId: learnerId, createdAt: { gte: weekStart, lt: weekEnd } },
+      _sum: { amount: true },
+    }),
+    loadTopicMastery(learnerId),
+  ]);
+
+  const scores = attempts.map((attempt) => attempt.score).filter((score): score is number => score !== null);
+  const activeDays = new Set(attempts.map((attempt) => dayjs(attempt.completedAt).format("YYYY-MM-DD"))).size;
+  const ranked = mastery
+    .map((entry) => ({
+      topicId: entry.topicId,
+      topicName: entry.Topic.topic_name,
+      mastery: summarizeMastery(entry, weekEnd).mastery,
+    }))
+    .sort((a, b) => b.mastery - a.mastery);
+  const details: SummaryDetails = {
+    strongestTopics: ranked.slice(0, SUMMARY_TOPIC_LIMIT),
+    weakestTopics: ranked.slice(SUMMARY_TOPIC_LIMIT).slice(-SUMMARY_TOPIC_LIMIT).reverse(),
+  };
+
+  return {
+    xpEarned: xp._sum.amount ?? 0,
+    activeDays,
+    quizzesCompleted: attempts.filter((attempt) => attempt.type === "quiz").length,
+    practiceTestsCompleted: attempts.filter((attempt) => attempt.type === "practice").length,
+    averageScore: scores.length
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+      : null,
+    streakDays: learner?.streak_days ?? 0,
+    details: details as Prisma.InputJsonValue,
+  };
+};
+
+/**
+ * Builds last week's summary (Monday to Monday) for every active guardian link. Re-running for
+ * the same week refreshes the figures rather than duplicating them.
+ */
+export const generateWeeklySummaries = async (now = new Date()) => {
+  const thisMonday = dayjs(now).startOf("day").subtract((dayjs(now).day() + 6) % 7, "day");
+  const weekStart = thisMonday.subtract(7, "day").toDate();
+  const weekEnd = thisMonday.toDate();
+
+  const links = await prisma.guardianLink.findMany({
+    where: activeLinkWhere({}),
+    select: { guardianId: true, learnerId: true },
+  });
+
+  let summaries = 0;
+  for (const link of links) {
+    const guardianId = link.guardianId as number;
+    const figures = await summarizeWeek(link.learnerId, weekStart, weekEnd);
+    await prisma.guardianWeeklySummary.upsert({
+      where: { guardianId_learnerId_weekStart: { guardianId, learnerId: link.learnerId, weekStart } },
+      update: figures,
+      create: { guardianId, learnerId: link.learnerId, weekStart, ...figures },
+    });
+    summaries += 1;
+  }
+
+  return { weekStart, summaries, guardians: new Set(links.map((link) => link.guardianId)).size };
+};
+
+export const listGuardianSummaries = async (guardianId: number, limit = 20) => {
+  const learnerIds = (await listGuardianLearners(guardianId)).map((link) => link.learnerId);
+  return prisma.guardianWeeklySummary.findMany({
+    where: { guardianId, learnerId: { in: learnerIds } },
+    orderBy: [{ weekStart: "desc" }, { learnerId: "asc" }],
+    take: limit,
+    include: { Learner: { select: { id: true, full_name: true } } },
+  });
+};
+
+export const markSummaryRead = async (guardianId: number, summaryId: number) => {
+  const summary = await prisma.guardianWeeklySummary.findFirst({ where: { id: summaryId, guardianId } });
+  if (!summary || summary.readAt) {
+    return summary;
+  }
+  return prisma.guardianWeeklySummary.update({ where: { id: summaryId }, data: { readAt: new Date() } });
+};
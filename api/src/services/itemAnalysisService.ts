@@ -0,0 +1,313 @@
+import { Prisma, QuestionType } from "@prisma/client";
+import prisma from "../config/db";
+
+// Below this many scored responses the statistics are reported but no flags are raised.
+export const MIN_ANALYSIS_RESPONSES = 20;
+
+// Classical item analysis compares the top and bottom 27% of attempts by overall score.
+const GROUP_SHARE = 0.27;
+
+const TYPED_ANSWER_LIMIT = 10;
+
+const choiceTypes = new Set<QuestionType>([
+  QuestionType.MULTIPLE_CHOICE,
+  QuestionType.TRUE_FALSE,
+  QuestionType.MULTI_SELECT,
+]);
+
+const typedTypes = new Set<QuestionType>([QuestionType.FILL_IN_THE_BLANK, QuestionType.SHORT_ANSWER]);
+
+export type ItemAnalysisFlag =
+  | "possible_miskey"
+  | "negative_discrimination"
+  | "low_discrimination"
+  | "too_easy"
+  | "too_hard"
+  | "non_functioning_distractor";
+
+export type OptionStatistic = {
+  option: string;
+  isKey: boolean;
+  count: number;
+  share: number;
+  upperShare: number;
+  lowerShare: number;
+  // Mean overall attempt score (0-100) of learners who picked this option.
+  meanScore: number | null;
+};
+
+export type ItemAnalysis = {
+  questionId: number;
+  questionText: string;
+  questionType: QuestionType;
+  responses: number;
+  answered: number;
+  skipped: number;
+  facility: number | null;
+  discrimination: number | null;
+  averageSecondsPerQuestion: number | null;
+  options: OptionStatistic[];
+  sufficientData: boolean;
+  flags: ItemAnalysisFlag[];
+};
+
+type AnalysisQuestion = {
+  id: number;
+  questionText: string;
+  questionType: QuestionType;
+  options: Prisma.JsonValue | null;
+  correctOption: string | null;
+  correctAnswers: Prisma.JsonValue | null;
+};
+
+type AttemptSummary = { score: number | null; durationSeconds: number | null; totalQuestions: number | null } | null;
+
+type ResponseRow = {
+  questionId: number;
+  isCorrect: boolean;
+  pointsEarned: number;
+  pointsPossible: number;
+  selectedOption: string | null;
+  selectedOptions: Prisma.JsonValue | null;
+  QuizAttempt: AttemptSummary;
+  PracticeTestAttempt: AttemptSummary;
+};
+
+type ScoredResponse = {
+  credit: number;
+  attemptScore: number;
+  selections: string[];
+  secondsPerQuestion: number | null;
+};
+
+const toStringArray = (value: Prisma.JsonValue | null | undefined) =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    : [];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const roundRatio = (value: number) => Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+const toScoredResponse = (row: ResponseRow): ScoredResponse | null => {
+  const attempt = row.QuizAttempt ?? row.PracticeTestAttempt;
+  if (!attempt || attempt.score === null) {
+    return null;
+  }
+  const credit =
+    row.pointsPossible > 0
+      ? Math.min(1, Math.max(0, row.pointsEarned / row.pointsPossible))
+      : row.isCorrect
+        ? 1
+        : 0;
+  const selections = [
+    ...(row.selectedOption?.trim() ? [row.selectedOption] : []),
+    ...toStringArray(row.selectedOptions),
+  ];
+  const secondsPerQuestion =
+    attempt.durationSeconds && attempt.totalQuestions ? attempt.durationSeconds / attempt.totalQuestions : null;
+  return { credit, attemptScore: attempt.score, selections: Array.from(new Set(selections)), secondsPerQuestion };
+};
+
+const splitGroups = (responses: ScoredResponse[]) => {
+  const ranked = [...responses].sort((left, right) => right.attemptScore - left.attemptScore);
+  const size = Math.max(1, Math.round(ranked.length * GROUP_SHARE));
+  return { upper: ranked.slice(0, size), lower: ranked.slice(-size) };
+};
+
+const hasSelected = (entry: ScoredResponse, option: string) =>
+  entry.selections.some((value) => normalize(value) === option);
+
+const selectionShare = (group: ScoredResponse[], option: string) =>
+  group.length ? group.filter((entry) => hasSelected(entry, option)).length / group.length : 0;
+
+const keyedOptions = (question: AnalysisQuestion) => {
+  const keys = toStringArray(question.correctAnswers);
+  if (question.correctOption?.trim()) {
+    keys.push(question.correctOption);
+  }
+  return new Set(keys.map(normalize));
+};
+
+const buildOptionStatistics = (
+  question: AnalysisQuestion,
+  answered: ScoredResponse[],
+  groups: { upper: ScoredResponse[]; lower: ScoredResponse[] },
+): OptionStatistic[] => {
+  const keys = keyedOptions(question);
+  let candidates: string[] = [];
+  if (choiceTypes.has(question.questionType)) {
+    candidates = toStringArray(question.options);
+    if (question.questionType === QuestionType.TRUE_FALSE && !candidates.length) {
+      candidates = ["True", "False"];
+    }
+  } else if (typedTypes.has(question.questionType)) {
+    // Free-text answers have no fixed options; report the most common responses instead.
+    const counts = new Map<string, { label: string; count: number }>();
+    answered.forEach((entry) =>
+      entry.selections.forEach((value) => {
+        const key = normalize(value);
+        const current = counts.get(key) ?? { label: value.trim(), count: 0 };
+        current.count += 1;
+        counts.set(key, current);
+      }),
+    );
+    candidates = Array.from(counts.values())
+      .sort((left, right) => right.count - left.count)
+      .slice(0, TYPED_ANSWER_LIMIT)
+      .map((entry) => entry.label);
+  }
+
+  return candidates.map((option) => {
+    const normalized = normalize(option);
+    const choosers = answered.filter((entry) => hasSelected(entry, normalized));
+    const meanScore = mean(choosers.map((entry) => entry.attemptScore));
+    return {
+      option,
+      isKey: keys.has(normalized),
+      count: choosers.length,
+      share: answered.length ? roundRatio(choosers.length / answered.length) : 0,
+      upperShare: roundRatio(selectionShare(groups.upper, normalized)),
+      lowerShare: roundRatio(selectionShare(groups.lower, normalized)),
+      meanScore: meanScore === null ? null : Math.round(meanScore * 10) / 10,
+    };
+  });
+};
+
+const buildFlags = (
+  question: AnalysisQuestion,
+  facility: number,
+  discrimination: number,
+  options: OptionStatistic[],
+): ItemAnalysisFlag[] => {
+  const flags: ItemAnalysisFlag[] = [];
+  const keyUpperShare = Math.max(0, ...options.filter((entry) => entry.isKey).map((entry) => entry.upperShare));
+  // Strong learners converging on a "wrong" option usually means the key is wrong, not the learners.
+  if (
+    options.some(
+      (entry) => !entry.isKey && entry.upperShare > keyUpperShare && entry.upperShare > entry.lowerShare,
+    )
+  ) {
+    flags.push("possible_miskey");
+  }
+  if (discrimination < 0) {
+    flags.push("negative_discrimination");
+  } else if (discrimination < 0.2) {
+    flags.push("low_discrimination");
+  }
+  if (facility > 0.9) {
+    flags.push("too_easy");
+  } else if (facility < 0.2) {
+    flags.push("too_hard");
+  }
+  if (
+    choiceTypes.has(question.questionType) &&
+    question.questionType !== QuestionType.TRUE_FALSE &&
+    options.some((entry) => !entry.isKey && entry.share < 0.05)
+  ) {
+    flags.push("non_functioning_distractor");
+  }
+  return flags;
+};
+
+const analyzeQuestion = (question: AnalysisQuestion, rows: ResponseRow[]): ItemAnalysis => {
+  const responses = rows.flatMap((row) => toScoredResponse(row) ?? []);
+  const answered = responses.filter((entry) => entry.selections.length > 0);
+  const groups = splitGroups(responses);
+  const facility = mean(responses.map((entry) => entry.credit));
+  const upperFacility = mean(groups.upper.map((entry) => entry.credit));
+  const lowerFacility = mean(groups.lower.map((entry) => entry.credit));
+  const discrimination =
+    responses.length >= 2 && upperFacility !== null && lowerFacility !== null ? upperFacility - lowerFacility : null;
+  const averageSeconds = mean(responses.flatMap((entry) => entry.secondsPerQuestion ?? []));
+  const options = buildOptionStatistics(question, answered, groups);
+  const sufficientData = responses.length >= MIN_ANALYSIS_RESPONSES;
+
+  return {
+    questionId: question.id,
+    questionText: question.questionText,
+    questionType: question.questionType,
+    responses: responses.length,
+    answered: answered.length,
+    skipped: responses.length - answered.length,
+    facility: facility === null ? null : roundRatio(facility),
+    discrimination: discrimination === null ? null : roundRatio(discrimination),
+    averageSecondsPerQuestion: averageSeconds === null ? null : Math.round(averageSeconds),
+    options,
+    sufficientData,
+    flags:
+      sufficientData && facility !== null && discrimination !== null
+        ? buildFlags(question, facility, discrimination, options)
+        : [],
+  };
+};
+
+const attemptSummarySelect = {
+  select: { score: true, durationSeconds: true, totalQuestions: true },
+} as const;
+
+/**
+ * Classical test theory statistics for each question, computed from graded responses in
+ * completed quiz and practice test attempts. Learners are ranked by their overall attempt
+ * score. Time per question is approximate: attempts only record their total duration, so it
+ * is the attempt duration spread evenly across its questions.
+ */
+export const analyzeQuestions = async (questionIds: number[]): Promise<ItemAnalysis[]> => {
+  if (!questionIds.length) {
+    return [];
+  }
+  const [questions, rows] = await Promise.all([
+    prisma.questionBank.findMany({
+      where: { id: { in: questionIds } },
+      select: {
+        id: true,
+        questionText: true,
+        questionType: true,
+        options: true,
+        correctOption: true,
+        correctAnswers: true,
+      },
+    }),
+    prisma.questionAttemptV2.findMany({
+      where: {
+        questionId: { in: questionIds },
+        OR: [{ QuizAttempt: { status: "completed" } }, { PracticeTestAttempt: { status: "completed" } }],
+      },
+      select: {
+        questionId: true,
+        isCorrect: true,
+        pointsEarned: true,
+        pointsPossible: true,
+        selectedOption: true,
+        selectedOptions: true,
+        QuizAttempt: attemptSummarySelect,
+        PracticeTestAttempt: attemptSummarySelect,
+      },
+    }),
+  ]);
+
+  const rowsByQuestion = new Map<number, ResponseRow[]>();
+  rows.forEach((row) => {
+    const list = rowsByQuestion.get(row.questionId) ?? [];
+    list.push(row);
+    rowsByQuestion.set(row.questionId, list);
+  });
+  const questionsById = new Map(questions.map((question) => [question.id, question]));
+
+  return questionIds.flatMap((questionId) => {
+    const question = questionsById.get(questionId);
+    return question ? [analyzeQuestion(question, rowsByQuestion.get(questionId) ?? [])] : [];
+  });
+};
+
+export const analyzeTopicQuestions = async (topicId: number) => {
+  const questions = await prisma.questionBank.findMany({
+    where: { topicId },
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+  return analyzeQuestions(questions.map((question) => question.id));
+};
@@ -0,0 +1,192 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/db";
+
+type PrismaExecutor = Prisma.TransactionClient | typeof prisma;
+
+export type ObjectiveImportRow = {
+  topicId: number;
+  curriculum: string;
+  code: string;
+  description: string;
+  sortOrder?: number | undefined;
+};
+
+const objectiveError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+export const normalizeCurriculum = (value: string) => value.trim().toUpperCase();
+
+export const normalizeObjectiveCode = (value: string) => value.trim();
+
+export const objectiveCodeKey = (topicId: number, code: string) =>
+  `${topicId}|${normalizeObjectiveCode(code).toLowerCase()}`;
+
+/**
+ * Replaces a question's objective tags. Objectives must sit under the question's own topic so a
+ * tag can never credit mastery to a topic the learner was not actually practising.
+ */
+export const setQuestionObjectives = async (
+  client: PrismaExecutor,
+  questionId: number,
+  topicId: number,
+  objectiveIds: number[],
+) => {
+  const uniqueIds = Array.from(new Set(objectiveIds));
+  if (uniqueIds.length) {
+    const matches = await client.learningObjective.count({ where: { id: { in: uniqueIds }, topicId } });
+    if (matches !== uniqueIds.length) {
+      throw objectiveError("Learning objectives must belong to the question's topic", 400);
+    }
+  }
+
+  await client.questionObjective.deleteMany({ where: { questionId } });
+  if (uniqueIds.length) {
+    await client.questionObjective.createMany({
+      data: uniqueIds.map((objectiveId) => ({ questionId, objectiveId })),
+    });
+  }
+};
+
+/**
+ * Drops tags left pointing at another topic after a question moves, whether by edit or restore.
+ */
+export const pruneQuestionObjectives = (client: PrismaExecutor, questionId: number, topicId: number) =>
+  client.questionObjective.deleteMany({
+    where: { questionId, Objective: { topicId: { not: topicId } } },
+  });
+
+/**
+ * Looks up objective ids for spreadsheet codes, scoped to each row's topic. Keys come from
+ * objectiveCodeKey so callers can resolve a row without caring about code casing.
+ */
+export const resolveObjectiveCodes = async (entries: Array<{ topicId: number; objectiveCodes: string[] }>) => {
+  const topicIds = Array.from(
+    new Set(entries.filter((entry) => entry.objectiveCodes.length).map((entry) => entry.topicId)),
+  );
+  const resolved = new Map<string, number>();
+  if (!topicIds.length) {
+    return resolved;
+  }
+
+  const objectives = await prisma.learningObjective.findMany({
+    where: { topicId: { in: topicIds }, isActive: true },
+    select: { id: true, topicId: true, code: true },
+  });
+  objectives.forEach((objective) => {
+    resolved.set(objectiveCodeKey(objective.topicId, objective.code), objective.id);
+  });
+  return resolved;
+};
+
+/**
+ * Catalogue imports are keyed by curriculum and code, so re-importing a revised national
+ * curriculum updates descriptions in place and keeps existing question tags and mastery.
+ * Rows that would move an already-tagged objective to another topic are reported as conflicts.
+ */
+export const importObjectives = async (rows: ObjectiveImportRow[]) => {
+  let created = 0;
+  let updated = 0;
+  let conflicts = 0;
+
+  for (const row of rows) {
+    const curriculum = normalizeCurriculum(row.curriculum);
+    const code = normalizeObjectiveCode(row.code);
+    const existing = await prisma.learningObjective.findUnique({
+      where: { curriculum_code: { curriculum, code } },
+      select: { id: true, topicId: true, _count: { select: { questions: true } } },
+    });
+    if (existing && existing.topicId !== row.topicId && existing._count.questions > 0) {
+      conflicts += 1;
+      continue;
+    }
+    const data = {
+      topicId: row.topicId,
+      description: row.description.trim(),
+      ...(row.sortOrder !== undefined ? { sortOrder: row.sortOrder } : {}),
+    };
+
+    if (existing) {
+      await prisma.learningObjective.update({ where: { id: existing.id }, data: { ...data, isActive: true } });
+      updated += 1;
+    } else {
+      await prisma.learningObjective.create({ data: { ...data, curriculum, code } });
+      created += 1;
+    }
+  }
+
+  return { created, updated, conflicts };
+};
+
+export const listLearnerObjectiveMastery = (userId: number, topicId?: number) =>
+  prisma.objectiveMastery.findMany({
+    where: {
+      userId,
+      totalAttempts: { gt: 0 },
+      Objective: { isActive: true, ...(topicId ? { topicId } : {}) },
+    },
+    orderBy: [{ Objective: { topicId: "asc" } }, { Objective: { sortOrder: "asc" } }, { Objective: { code: "asc" } }],
+    include: {
+      Objective: {
+        select: {
+          id: true,
+          topicId: true,
+          curriculum: true,
+          code: true,
+          description: true,
+          Topic: { select: { topic_name: true } },
+        },
+      },
+    },
+  });
+
+/**
+ * Cohort view for staff: how many learners have practised each objective and how they fare.
+ */
+export const buildObjectiveMasteryReport = async (filters: { topicId?: number; curriculum?: string }) => {
+  const objectives = await prisma.learningObjective.findMany({
+    where: {
+      isActive: true,
+      ...(filters.topicId ? { topicId: filters.topicId } : {}),
+      ...(filters.curriculum ? { curriculum: normalizeCurriculum(filters.curriculum) } : {}),
+    },
+    orderBy: [{ topicId: "asc" }, { sortOrder: "asc" }, { code: "asc" }],
+    include: {
+      Topic: { select: { topic_name: true } },
+      _count: { select: { questions: true } },
+    },
+  });
+  if (!objectives.length) {
+    return [];
+  }
+
+  const stats = await prisma.objectiveMastery.groupBy({
+    by: ["objectiveId"],
+    where: { objectiveId: { in: objectives.map((objective) => objective.id) }, totalAttempts: { gt: 0 } },
+    _count: { _all: true },
+    _avg: { masteryScore: true },
+    _sum: { totalAttempts: true },
+  });
+  const statsById = new Map(stats.map((entry) => [entry.objectiveId, entry]));
+
+  return objectives.map((objective) => {
+    const entry = statsById.get(objective.id);
+    return {
+      objectiveId: objective.id,
+      topicId: objective.topicId,
+      topicName: objective.Topic.topic_name,
+      curriculum: objective.curriculum,
+      code: objective.code,
+      description: objective.description,
+      questionCount: objective._count.questions,
+      learners: entry?._count._all ?? 0,
+      responses: entry?._sum.totalAttempts ?? 0,
+      averageMastery:
+        entry?._avg.masteryScore === null || entry?._avg.masteryScore === undefined
+          ? null
+          : Math.round(entry._avg.masteryScore * 100) / 100,
+    };
+  });
+};
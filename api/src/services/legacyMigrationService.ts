@@ -0,0 +1,396 @@
+import { Attempt, Difficulty, LegacyQuiz, Prisma, QuestionType } from "@prisma/client";
+import prisma from "../config/db";
+import { createQuestionRevision } from "./questionRevisionService";
+
+type PrismaExecutor = Prisma.TransactionClient | typeof prisma;
+
+// Each legacy row maps to exactly one v2 row; the record is what makes re-runs skip finished work.
+const ENTITY = {
+  question: "legacy_quiz",
+  topicQuiz: "topic_quiz",
+  premiumTopicQuiz: "premium_topic_quiz",
+  practiceTest: "legacy_practice_test",
+  attempt: "legacy_attempt",
+} as const;
+
+export const DEFAULT_MIGRATION_BATCH_SIZE = 50;
+const MIGRATED_FROM = "legacy";
+const optionLetters = ["a", "b", "c", "d"];
+
+type StepCounts = { pending: number; migrated: number; skipped: number };
+
+export type LegacyMigrationReport = {
+  dryRun: boolean;
+  questions: StepCounts;
+  quizzesCreated: number;
+  practiceTests: StepCounts;
+  attempts: StepCounts & { sessions: number };
+  issues: string[];
+};
+
+export type LegacyMigrationOptions = {
+  dryRun?: boolean;
+  batchSize?: number;
+};
+
+const emptyCounts = (): StepCounts => ({ pending: 0, migrated: 0, skipped: 0 });
+
+const toDifficulty = (value: string) =>
+  ({ easy: Difficulty.EASY, med: Difficulty.MEDIUM, medium: Difficulty.MEDIUM, hard: Difficulty.HARD })[
+    value.trim().toLowerCase()
+  ] ?? Difficulty.MEDIUM;
+
+const legacyOptions = (quiz: LegacyQuiz) => [quiz.option_a, quiz.option_b, quiz.option_c, quiz.option_d];
+
+/**
+ * Legacy answers were stored as a letter ("B"), an "option_b" key or the option text itself.
+ * v2 grades against the option text, so every form is resolved to that.
+ */
+export const resolveLegacyOption = (quiz: LegacyQuiz, raw: string) => {
+  const value = raw.trim().toLowerCase();
+  const options = legacyOptions(quiz);
+  const index = optionLetters.indexOf(value.startsWith("option_") ? value.slice("option_".length) : value);
+  const resolved = index >= 0 ? options[index] : options.find((option) => option.trim().toLowerCase() === value);
+  return resolved?.trim() ? resolved.trim() : null;
+};
+
+const loadRecords = async (client: PrismaExecutor, entity: string, legacyIds: number[]) => {
+  const records = await client.legacyMigrationRecord.findMany({
+    where: { entity, legacyId: { in: legacyIds } },
+    select: { legacyId: true, targetId: true },
+  });
+  return new Map(records.map((record) => [record.legacyId, record.targetId]));
+};
+
+// Questions land in one v2 quiz per topic, with premium questions kept apart so access rules still hold.
+const ensureTopicQuiz = async (
+  tx: Prisma.TransactionClient,
+  quiz: LegacyQuiz & { Topic: { topic_name: string } },
+  report: LegacyMigrationReport,
+) => {
+  const entity = quiz.is_premium ? ENTITY.premiumTopicQuiz : ENTITY.topicQuiz;
+  const existing = await tx.legacyMigrationRecord.findUnique({
+    where: { entity_legacyId: { entity, legacyId: quiz.topic_id } },
+  });
+  if (existing) {
+    return existing.targetId;
+  }
+  const created = await tx.quiz.create({
+    data: {
+      topicId: quiz.topic_id,
+      title: quiz.is_premium ? `${quiz.Topic.topic_name} quiz (Premium)` : `${quiz.Topic.topic_name} quiz`,
+      description: "Imported from the legacy question bank.",
+      difficulty: toDifficulty(quiz.difficulty),
+      isPremium: quiz.is_premium,
+    },
+  });
+  await tx.legacyMigrationRecord.create({ data: { entity, legacyId: quiz.topic_id, targetId: created.id } });
+  report.quizzesCreated += 1;
+  return created.id;
+};
+
+const migrateQuestions = async (report: LegacyMigrationReport, batchSize: number, unresolved: Set<number>) => {
+  let cursor = 0;
+  for (;;) {
+    const batch = await prisma.legacyQuiz.findMany({
+      where: { id: { gt: cursor } },
+      orderBy: { id: "asc" },
+      take: batchSize,
+      include: { Topic: { select: { topic_name: true } } },
+    });
+    if (!batch.length) break;
+    cursor = batch[batch.length - 1]!.id;
+
+    const mapped = await loadRecords(prisma, ENTITY.question, batch.map((quiz) => quiz.id));
+    const pending = batch.flatMap((quiz) => {
+      if (mapped.has(quiz.id)) return [];
+      const correctOption = resolveLegacyOption(quiz, quiz.correct_option);
+      if (!correctOption) {
+        unresolved.add(quiz.id);
+        report.questions.skipped += 1;
+        report.issues.push(`Legacy quiz #${quiz.id}: correct option "${quiz.correct_option}" matches no option`);
+        return [];
+      }
+      return [{ quiz, correctOption }];
+    });
+    report.questions.pending += pending.length;
+    if (report.dryRun || !pending.length) continue;
+
+    await prisma.$transaction(async (tx) => {
+      for (const { quiz, correctOption } of pending) {
+        const quizId = await ensureTopicQuiz(tx, quiz, report);
+        const question = await tx.questionBank.create({
+          data: {
+            questionText: quiz.question_text,
+            questionType: QuestionType.MULTIPLE_CHOICE,
+            options: legacyOptions(quiz)
+              .map((option) => option.trim())
+              .filter(Boolean),
+            correctOption,
+            topicId: quiz.topic_id,
+            difficulty: toDifficulty(quiz.difficulty),
+            createdAt: quiz.created_at,
+          },
+        });
+        await createQuestionRevision(tx, question);
+        const orderIndex = await tx.quizQuestion.count({ where: { quizId } });
+        await tx.quizQuestion.create({ data: { quizId, questionId: question.id, orderIndex } });
+        await tx.legacyMigrationRecord.create({
+          data: { entity: ENTITY.question, legacyId: quiz.id, targetId: question.id },
+        });
+      }
+    });
+    report.questions.migrated += pending.length;
+  }
+};
+
+const migratePracticeTests = async (report: LegacyMigrationReport, unresolved: Set<number>) => {
+  const tests = await prisma.legacyPracticeTest.findMany({
+    orderBy: { id: "asc" },
+    include: { quizzes: { orderBy: [{ order_index: "asc" }, { quiz_id: "asc" }], include: { LegacyQuiz: true } } },
+  });
+  const mappedTests = await loadRecords(prisma, ENTITY.practiceTest, tests.map((test) => test.id));
+
+  for (const test of tests) {
+    if (mappedTests.has(test.id)) continue;
+    const entries = test.quizzes.filter((entry) => !unresolved.has(entry.quiz_id));
+    if (!entries.length) {
+      report.practiceTests.skipped += 1;
+      report.issues.push(`Legacy practice test #${test.id}: no migratable questions`);
+      continue;
+    }
+    report.practiceTests.pending += 1;
+    if (report.dryRun) continue;
+
+    const questionIds = await loadRecords(prisma, ENTITY.question, entries.map((entry) => entry.quiz_id));
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.practiceTest.create({
+        data: {
+          title: test.title,
+          description: test.description,
+          subjectId: test.subject_id,
+          xpReward: test.xp_reward,
+          questionCount: entries.length,
+          durationMinutes: test.duration_minutes,
+          isActive: test.is_active,
+          isPremium: entries.some((entry) => entry.LegacyQuiz.is_premium),
+          createdAt: test.created_at,
+          questions: {
+            create: entries.flatMap((entry, index) => {
+              const questionId = questionIds.get(entry.quiz_id);
+              return questionId ? [{ questionId, orderIndex: index }] : [];
+            }),
+          },
+        },
+      });
+      await tx.legacyMigrationRecord.create({
+        data: { entity: ENTITY.practiceTest, legacyId: test.id, targetId: created.id },
+      });
+    });
+    report.practiceTests.migrated += 1;
+  }
+};
+
+type LegacyAnswer = Attempt & { LegacyQuiz: LegacyQuiz };
+
+/**
+ * Legacy attempts are single answers. Consecutive answers to the same topic quiz on the same day
+ * become one completed v2 attempt; a repeated question starts a new one.
+ */
+const groupSessions = (answers: LegacyAnswer[]) => {
+  const sessions: LegacyAnswer[][] = [];
+  let current: LegacyAnswer[] = [];
+  for (const answer of answers) {
+    const first = current[0];
+    const continues =
+      first &&
+      first.LegacyQuiz.topic_id === answer.LegacyQuiz.topic_id &&
+      first.LegacyQuiz.is_premium === answer.LegacyQuiz.is_premium &&
+      first.attempt_date.toDateString() === answer.attempt_date.toDateString() &&
+      !current.some((entry) => entry.quiz_id === answer.quiz_id);
+    if (!continues && current.length) {
+      sessions.push(current);
+      current = [];
+    }
+    current.push(answer);
+  }
+  if (current.length) sessions.push(current);
+  return sessions;
+};
+
+// XP was credited when the legacy answers were given, so migrated attempts award none.
+const writeSession = async (userId: number, session: LegacyAnswer[], questionIds: Map<number, number>) => {
+  const first = session[0]!;
+  const quizRecord = await prisma.legacyMigrationRecord.findUnique({
+    where: {
+      entity_legacyId: {
+        entity: first.LegacyQuiz.is_premium ? ENTITY.premiumTopicQuiz : ENTITY.topicQuiz,
+        legacyId: first.LegacyQuiz.topic_id,
+      },
+    },
+  });
+  if (!quizRecord) {
+    throw new Error(`Topic quiz for legacy topic #${first.LegacyQuiz.topic_id} has not been migrated`);
+  }
+  const revisions = await prisma.questionRevision.findMany({
+    where: { questionId: { in: session.map((answer) => questionIds.get(answer.quiz_id)!) }, version: 1 },
+    select: { id: true, questionId: true },
+  });
+  const revisionIds = new Map(revisions.map((revision) => [revision.questionId, revision.id]));
+  const correctCount = session.filter((answer) => answer.is_correct).length;
+  const last = session[session.length - 1]!;
+
+  await prisma.$transaction(async (tx) => {
+    const attempt = await tx.quizAttemptV2.create({
+      data: {
+        quizId: quizRecord.targetId,
+        userId,
+        status: "completed",
+        score: Math.round((correctCount / session.length) * 100),
+        totalQuestions: session.length,
+        correctCount,
+        incorrectCount: session.length - correctCount,
+        pointsEarned: correctCount,
+        pointsPossible: session.length,
+        xpAwarded: 0,
+        questionIds: session.map((answer) => questionIds.get(answer.quiz_id)!),
+        metadata: { migratedFrom: MIGRATED_FROM, legacyAttemptIds: session.map((answer) => answer.id) },
+        startedAt: first.attempt_date,
+        completedAt: last.attempt_date,
+        createdAt: first.attempt_date,
+      },
+    });
+    const rows = await tx.questionAttemptV2.createManyAndReturn({
+      data: session.map((answer) => {
+        const questionId = questionIds.get(answer.quiz_id)!;
+        return {
+          quizAttemptId: attempt.id,
+          questionId,
+          questionRevisionId: revisionIds.get(questionId) ?? null,
+          userId,
+          selectedOption: resolveLegacyOption(answer.LegacyQuiz, answer.selected_option) ?? answer.selected_option,
+          isCorrect: answer.is_correct,
+          score: answer.is_correct ? 1 : 0,
+          pointsEarned: answer.is_correct ? 1 : 0,
+          pointsPossible: 1,
+          responseMetadata: { migratedFrom: MIGRATED_FROM, legacyAttemptId: answer.id },
+          createdAt: answer.attempt_date,
+        };
+      }),
+      select: { id: true, responseMetadata: true },
+    });
+    await tx.legacyMigrationRecord.createMany({
+      data: rows.map((row) => ({
+        entity: ENTITY.attempt,
+        legacyId: (row.responseMetadata as { legacyAttemptId: number }).legacyAttemptId,
+        targetId: row.id,
+      })),
+    });
+  });
+};
+
+// Learners are migrated one at a time, so an interrupted run resumes with the next unfinished learner.
+const migrateAttempts = async (report: LegacyMigrationReport, unresolved: Set<number>) => {
+  const learners = await prisma.attempt.groupBy({ by: ["user_id"], orderBy: { user_id: "asc" } });
+
+  for (const { user_id: userId } of learners) {
+    const answers = await prisma.attempt.findMany({
+      where: { user_id: userId },
+      orderBy: [{ attempt_date: "asc" }, { id: "asc" }],
+      include: { LegacyQuiz: true },
+    });
+    const mapped = await loadRecords(prisma, ENTITY.attempt, answers.map((answer) => answer.id));
+    const pending = answers.filter((answer) => {
+      if (mapped.has(answer.id)) return false;
+      if (unresolved.has(answer.quiz_id)) {
+        report.attempts.skipped += 1;
+        return false;
+      }
+      return true;
+    });
+    if (!pending.length) continue;
+
+    const sessions = groupSessions(pending);
+    report.attempts.pending += pending.length;
+    report.attempts.sessions += sessions.length;
+    if (report.dryRun) continue;
+
+    const questionIds = await loadRecords(prisma, ENTITY.question, Array.from(new Set(pending.map((a) => a.quiz_id))));
+    for (const session of sessions) {
+      await writeSession(userId, session, questionIds);
+      report.attempts.migrated += session.length;
+    }
+  }
+};
+
+/**
+ * Copies legacy quizzes, practice tests and attempts into the v2 models. Safe to re-run: rows that
+ * already have a migration record are skipped, so an interrupted run picks up where it stopped.
+ * With `dryRun` nothing is written and the report lists what a real run would do.
+ */
+export const migrateLegacyData = async (options: LegacyMigrationOptions = {}): Promise<LegacyMigrationReport> => {
+  const report: LegacyMigrationReport = {
+    dryRun: options.dryRun ?? false,
+    questions: emptyCounts(),
+    quizzesCreated: 0,
+    practiceTests: emptyCounts(),
+    attempts: { ...emptyCounts(), sessions: 0 },
+    issues: [],
+  };
+  // Legacy quizzes whose answer key cannot be read; anything depending on them is skipped too.
+  const unresolved = new Set<number>();
+
+  await migrateQuestions(report, options.batchSize ?? DEFAULT_MIGRATION_BATCH_SIZE, unresolved);
+  await migratePracticeTests(report, unresolved);
+  await migrateAttempts(report, unresolved);
+  return report;
+};
+
+export type LegacyMigrationVerification = {
+  questions: { legacy: number; migrated: number };
+  practiceTests: { legacy: number; migrated: number };
+  attempts: { legacy: number; migrated: number };
+  // Learners whose correct-answer count differs between the legacy and migrated history.
+  learnerMismatches: number[];
+  complete: boolean;
+};
+
+export const verifyLegacyMigration = async (): Promise<LegacyMigrationVerification> => {
+  const migratedAnswer = {
+    responseMetadata: { path: ["migratedFrom"], equals: MIGRATED_FROM },
+  } satisfies Prisma.QuestionAttemptV2WhereInput;
+
+  const [legacyQuestions, legacyTests, legacyAttempts, records, legacyCorrect, migratedCorrect] = await Promise.all([
+    prisma.legacyQuiz.count(),
+    prisma.legacyPracticeTest.count(),
+    prisma.attempt.count(),
+    prisma.legacyMigrationRecord.groupBy({ by: ["entity"], _count: { _all: true } }),
+    prisma.attempt.groupBy({ by: ["user_id"], where: { is_correct: true }, _count: { _all: true } }),
+    prisma.questionAttemptV2.groupBy({
+      by: ["userId"],
+      where: { ...migratedAnswer, isCorrect: true },
+      _count: { _all: true },
+    }),
+  ]);
+  const recorded = (entity: string) => records.find((record) => record.entity === entity)?._count._all ?? 0;
+
+  const migratedByUser = new Map(migratedCorrect.map((entry) => [entry.userId, entry._count._all]));
+  const learnerMismatches = legacyCorrect
+    .filter((entry) => migratedByUser.get(entry.user_id) !== entry._count._all)
+    .map((entry) => entry.user_id);
+
+  const verification = {
+    questions: { legacy: legacyQuestions, migrated: recorded(ENTITY.question) },
+    practiceTests: { legacy: legacyTests, migrated: recorded(ENTITY.practiceTest) },
+    attempts: { legacy: legacyAttempts, migrated: recorded(ENTITY.attempt) },
+    learnerMismatches,
+  };
+  return {
+    ...verification,
+    complete:
+      verification.questions.legacy === verification.questions.migrated &&
+      verification.practiceTests.legacy === verification.practiceTests.migrated &&
+      verification.attempts.legacy === verification.attempts.migrated &&
+      !learnerMismatches.length,
+  };
+};
@@ -0,0 +1,188 @@
+import { Prisma, QuestionBank, QuestionStatus } from "@prisma/client";
+import prisma from "../config/db";
+import { hasPermission, Permission, rolesWithPermission } from "../config/permissions";
+import { applyPendingRevision } from "./questionRevisionService";
+
+type PrismaExecutor = Prisma.TransactionClient | typeof prisma;
+
+export type QuestionReviewAction = "submit" | "approve" | "request_changes" | "publish";
+
+// DRAFT → IN_REVIEW → APPROVED → PUBLISHED, with CHANGES_REQUESTED looping back to the author.
+const transitions: Record<QuestionReviewAction, { from: QuestionStatus[]; to: QuestionStatus; audit: string }> = {
+  submit: {
+    from: [QuestionStatus.DRAFT, QuestionStatus.CHANGES_REQUESTED],
+    to: QuestionStatus.IN_REVIEW,
+    audit: "SUBMIT_FOR_REVIEW",
+  },
+  approve: { from: [QuestionStatus.IN_REVIEW], to: QuestionStatus.APPROVED, audit: "APPROVE" },
+  request_changes: {
+    from: [QuestionStatus.IN_REVIEW],
+    to: QuestionStatus.CHANGES_REQUESTED,
+    audit: "REQUEST_CHANGES",
+  },
+  publish: { from: [QuestionStatus.APPROVED], to: QuestionStatus.PUBLISHED, audit: "PUBLISH" },
+};
+
+// Only these two decisions belong to the assigned reviewer; any content editor may submit or publish.
+const reviewerActions = new Set<QuestionReviewAction>(["approve", "request_changes"]);
+
+export const reviewActionPermission = (action: QuestionReviewAction): Permission =>
+  reviewerActions.has(action) ? "content:review" : "content:write";
+
+const reviewError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+const assertReviewer = async (client: PrismaExecutor, reviewerId: number) => {
+  const reviewer = await client.user.findUnique({
+    where: { id: reviewerId },
+    select: { role: true, is_active: true },
+  });
+  if (!reviewer || !hasPermission(reviewer.role, "content:review") || !reviewer.is_active) {
+    throw reviewError("Reviewer must be an active staff member who can review content", 400);
+  }
+};
+
+// Comments on a pending edit belong to the version it will become.
+const reviewVersion = (question: Pick<QuestionBank, "version" | "pendingStatus">) =>
+  question.pendingStatus ? question.version + 1 : question.version;
+
+export const listReviewers = async () =>
+  prisma.user.findMany({
+    where: { role: { in: rolesWithPermission("content:review") }, is_active: true },
+    orderBy: { full_name: "asc" },
+    select: { id: true, full_name: true, email: true, role: true },
+  });
+
+export type QuestionTransition = {
+  question: QuestionBank;
+  from: QuestionStatus;
+  to: QuestionStatus;
+  audit: string;
+};
+
+/**
+ * Moves a question one step through the editorial workflow. A comment given with the action is
+ * stored against the version under review; requesting changes requires one.
+ */
+export const transitionQuestion = async (params: {
+  questionId: number;
+  action: QuestionReviewAction;
+  actorId?: number | undefined;
+  reviewerId?: number | null | undefined;
+  comment?: string | undefined;
+}): Promise<QuestionTransition | null> => {
+  const { questionId, action, actorId, reviewerId, comment } = params;
+  const transition = transitions[action];
+  if (action === "request_changes" && !comment) {
+    throw reviewError("Explain the changes you are requesting", 400);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const question = await tx.questionBank.findUnique({ where: { id: questionId } });
+    if (!question) {
+      return null;
+    }
+    // A published question with a pending edit stays live; the workflow runs on the edit instead.
+    const from = question.pendingStatus ?? question.status;
+    if (!transition.from.includes(from)) {
+      throw reviewError(`Cannot ${action.replace("_", " ")} a question that is ${from}`, 409);
+    }
+    if (reviewerActions.has(action) && question.reviewerId && question.reviewerId !== actorId) {
+      throw reviewError("Only the assigned reviewer can decide on this question", 403);
+    }
+    if (reviewerId) {
+      await assertReviewer(tx, reviewerId);
+    }
+
+    const reviewer = reviewerId !== undefined ? { reviewerId } : {};
+    let updated = await tx.questionBank.update({
+      where: { id: questionId },
+      data: question.pendingStatus
+        ? { pendingStatus: transition.to, ...reviewer }
+        : { status: transition.to, isActive: transition.to === QuestionStatus.PUBLISHED, ...reviewer },
+    });
+    if (question.pendingStatus && transition.to === QuestionStatus.PUBLISHED) {
+      const applied = await applyPendingRevision(tx, updated);
+      if (!applied) {
+        throw reviewError("The pending edit for this question could not be found", 409);
+      }
+      updated = applied;
+    }
+    if (comment) {
+      await tx.questionReviewComment.create({
+        data: { questionId, authorId: actorId ?? null, version: reviewVersion(question), body: comment },
+      });
+    }
+    return { question: updated, from, to: transition.to, audit: transition.audit };
+  });
+};
+
+export const assignQuestionReviewer = async (questionId: number, reviewerId: number | null) => {
+  const question = await prisma.questionBank.findUnique({ where: { id: questionId }, select: { id: true } });
+  if (!question) {
+    return null;
+  }
+  if (reviewerId) {
+    await assertReviewer(prisma, reviewerId);
+  }
+  return prisma.questionBank.update({ where: { id: questionId }, data: { reviewerId } });
+};
+
+/**
+ * An approval covers the content the reviewer saw. Editing an approved question sends it back
+ * for review before it can be published.
+ */
+export const reopenApprovedQuestion = async (client: PrismaExecutor, before: QuestionBank, after: QuestionBank) => {
+  if (before.status !== QuestionStatus.APPROVED || before.version === after.version) {
+    return false;
+  }
+  await client.questionBank.update({ where: { id: after.id }, data: { status: QuestionStatus.IN_REVIEW } });
+  return true;
+};
+
+export const listReviewComments = async (questionId: number) =>
+  prisma.questionReviewComment.findMany({
+    where: { questionId },
+    orderBy: { createdAt: "asc" },
+    include: { Author: { select: { id: true, full_name: true, email: true } } },
+  });
+
+export const addReviewComment = async (params: {
+  questionId: number;
+  authorId?: number | undefined;
+  body: string;
+  field?: string | undefined;
+}) => {
+  const question = await prisma.questionBank.findUnique({
+    where: { id: params.questionId },
+    select: { version: true, pendingStatus: true },
+  });
+  if (!question) {
+    return null;
+  }
+  return prisma.questionReviewComment.create({
+    data: {
+      questionId: params.questionId,
+      authorId: params.authorId ?? null,
+      version: reviewVersion(question),
+      field: params.field ?? null,
+      body: params.body,
+    },
+    include: { Author: { select: { id: true, full_name: true, email: true } } },
+  });
+};
+
+export const resolveReviewComment = async (questionId: number, commentId: number) => {
+  const comment = await prisma.questionReviewComment.findFirst({ where: { id: commentId, questionId } });
+  if (!comment) {
+    return null;
+  }
+  return prisma.questionReviewComment.update({
+    where: { id: commentId },
+    data: { resolvedAt: comment.resolvedAt ?? new Date() },
+    include: { Author: { select: { id: true, full_name: true, email: true } } },
+  });
+};
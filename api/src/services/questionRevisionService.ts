@@ -0,0 +1,281 @@
+import { Prisma, QuestionBank, QuestionRevision, QuestionStatus } from "@prisma/client";
+import prisma from "../config/db";
+import { pruneQuestionObjectives } from "./learningObjectiveService";
+
+type PrismaExecutor = Prisma.TransactionClient | typeof prisma;
+
+// Everything a learner sees or is graded against. Status, activation and calibration are not versioned.
+const revisionFields = [
+  "questionText",
+  "questionType",
+  "options",
+  "correctOption",
+  "correctAnswers",
+  "matchStrategy",
+  "matchOptions",
+  "topicId",
+  "difficulty",
+  "language",
+  "imageUrl",
+  "explanation",
+] as const;
+
+export type RevisionContent = Pick<QuestionRevision, (typeof revisionFields)[number]>;
+
+export const pickRevisionContent = (source: RevisionContent): RevisionContent => ({
+  questionText: source.questionText,
+  questionType: source.questionType,
+  options: source.options,
+  correctOption: source.correctOption,
+  correctAnswers: source.correctAnswers,
+  matchStrategy: source.matchStrategy,
+  matchOptions: source.matchOptions,
+  topicId: source.topicId,
+  difficulty: source.difficulty,
+  language: source.language,
+  imageUrl: source.imageUrl,
+  explanation: source.explanation,
+});
+
+const toJsonInput = (value: Prisma.JsonValue | null) =>
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+const toWritableContent = (source: RevisionContent) => {
+  const content = pickRevisionContent(source);
+  return {
+    ...content,
+    options: toJsonInput(content.options),
+    correctAnswers: toJsonInput(content.correctAnswers),
+    matchOptions: toJsonInput(content.matchOptions),
+  };
+};
+
+export const hasContentChanges = (before: RevisionContent, after: RevisionContent) =>
+  revisionFields.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+
+export const createQuestionRevision = (
+  client: PrismaExecutor,
+  question: QuestionBank,
+  createdById?: number | null,
+  restoredFromVersion?: number,
+) =>
+  client.questionRevision.create({
+    data: {
+      questionId: question.id,
+      version: question.version,
+      ...toWritableContent(question),
+      restoredFromVersion: restoredFromVersion ?? null,
+      createdById: createdById ?? null,
+    },
+  });
+
+/**
+ * Questions created outside the admin editor (seeds, bulk import) have no revision row until
+ * something needs one; this snapshots the current content as the current version.
+ */
+export const ensureQuestionRevision = (client: PrismaExecutor, question: QuestionBank) =>
+  client.questionRevision.upsert({
+    where: { questionId_version: { questionId: question.id, version: question.version } },
+    update: {},
+    create: {
+      questionId: question.id,
+      version: question.version,
+      ...toWritableContent(question),
+      createdById: question.createdById,
+    },
+  });
+
+const pendingRevisionKey = (question: QuestionBank) => ({
+  questionId_version: { questionId: question.id, version: question.version + 1 },
+});
+
+export const getPendingRevision = (client: PrismaExecutor, question: QuestionBank) =>
+  question.pendingStatus ? client.questionRevision.findUnique({ where: pendingRevisionKey(question) }) : null;
+
+// A pending edit is superseded once the question is edited or restored outside the published flow.
+const discardPendingRevision = async (client: PrismaExecutor, question: QuestionBank) => {
+  if (!question.pendingStatus) {
+    return;
+  }
+  await client.questionRevision.deleteMany({ where: { questionId: question.id, version: { gt: question.version } } });
+  await client.questionBank.update({ where: { id: question.id }, data: { pendingStatus: null } });
+};
+
+const stagePendingRevision = async (
+  client: PrismaExecutor,
+  question: QuestionBank,
+  content: RevisionContent,
+  createdById?: number | null,
+  restoredFromVersion?: number,
+) => {
+  await ensureQuestionRevision(client, question);
+  const data = {
+    ...toWritableContent(content),
+    restoredFromVersion: restoredFromVersion ?? null,
+    createdById: createdById ?? null,
+  };
+  await client.questionRevision.upsert({
+    where: pendingRevisionKey(question),
+    update: data,
+    create: { questionId: question.id, version: question.version + 1, ...data },
+  });
+  // Editing an edit the author was asked to change keeps it with the author until resubmitted.
+  const pendingStatus =
+    question.pendingStatus === QuestionStatus.CHANGES_REQUESTED
+      ? QuestionStatus.CHANGES_REQUESTED
+      : QuestionStatus.IN_REVIEW;
+  return client.questionBank.update({ where: { id: question.id }, data: { pendingStatus } });
+};
+
+/**
+ * Published content stays live while an edit to it is reviewed. Called after the row was updated in
+ * place: the new content is moved into the next version's revision and the row is put back as it
+ * was, so learners keep seeing the reviewed version until the edit is published. Editing back to the
+ * live content withdraws the pending edit.
+ */
+export const recordPublishedEdit = async (
+  client: PrismaExecutor,
+  before: QuestionBank,
+  after: QuestionBank,
+  createdById?: number | null,
+) => {
+  if (!hasContentChanges(before, after)) {
+    await discardPendingRevision(client, before);
+    return false;
+  }
+  await client.questionBank.update({ where: { id: before.id }, data: toWritableContent(before) });
+  // Saving the pending edit unchanged must not send an approved edit back to review.
+  const pending = await getPendingRevision(client, before);
+  if (pending && !hasContentChanges(pending, after)) {
+    return false;
+  }
+  await stagePendingRevision(client, before, after, createdById);
+  return true;
+};
+
+/**
+ * Copies a reviewed pending edit onto the question, making it the live version.
+ */
+export const applyPendingRevision = async (client: PrismaExecutor, question: QuestionBank) => {
+  const revision = await getPendingRevision(client, question);
+  if (!revision) {
+    return null;
+  }
+  const applied = await client.questionBank.update({
+    where: { id: question.id },
+    data: { ...toWritableContent(revision), version: revision.version, pendingStatus: null },
+  });
+  if (applied.topicId !== question.topicId) {
+    await pruneQuestionObjectives(client, question.id, applied.topicId);
+  }
+  return applied;
+};
+
+/**
+ * Called after a question row was updated in place. When learner-facing content changed the
+ * question moves to the next version and the new content is stored as its revision, so attempts
+ * pinned to earlier versions keep rendering what the learner actually answered.
+ */
+export const recordQuestionEdit = async (
+  client: PrismaExecutor,
+  before: QuestionBank,
+  after: QuestionBank,
+  createdById?: number | null,
+) => {
+  if (!hasContentChanges(before, after)) {
+    return after;
+  }
+  await discardPendingRevision(client, before);
+  await ensureQuestionRevision(client, before);
+  const versioned = await client.questionBank.update({
+    where: { id: after.id },
+    data: { version: before.version + 1 },
+  });
+  await createQuestionRevision(client, versioned, createdById);
+  return versioned;
+};
+
+/**
+ * Maps each question to the revision id of its current version, snapshotting questions that do
+ * not have one yet.
+ */
+export const resolveCurrentRevisionIds = async (questionIds: number[]) => {
+  const ids = Array.from(new Set(questionIds));
+  if (!ids.length) {
+    return new Map<number, number>();
+  }
+  const questions = await prisma.questionBank.findMany({ where: { id: { in: ids } } });
+  const revisions = await prisma.questionRevision.findMany({
+    where: { OR: questions.map((question) => ({ questionId: question.id, version: question.version })) },
+    select: { id: true, questionId: true },
+  });
+  const revisionIds = new Map(revisions.map((revision) => [revision.questionId, revision.id]));
+  for (const question of questions) {
+    if (!revisionIds.has(question.id)) {
+      const revision = await ensureQuestionRevision(prisma, question);
+      revisionIds.set(question.id, revision.id);
+    }
+  }
+  return revisionIds;
+};
+
+export const listQuestionRevisions = async (questionId: number) => {
+  const question = await prisma.questionBank.findUnique({ where: { id: questionId } });
+  if (!question) {
+    return null;
+  }
+  await ensureQuestionRevision(prisma, question);
+  const revisions = await prisma.questionRevision.findMany({
+    where: { questionId },
+    orderBy: { version: "desc" },
+    include: {
+      CreatedBy: { select: { id: true, full_name: true, email: true } },
+      _count: { select: { questionAttempts: true } },
+    },
+  });
+  return { currentVersion: question.version, revisions };
+};
+
+/**
+ * Rolls a question back by copying an earlier revision's content forward as a new version.
+ * History is never rewritten, so attempts pinned to the versions in between stay intact.
+ */
+export const restoreQuestionRevision = async (questionId: number, version: number, restoredById?: number) =>
+  prisma.$transaction(async (tx) => {
+    const question = await tx.questionBank.findUnique({ where: { id: questionId } });
+    const revision = await tx.questionRevision.findUnique({
+      where: { questionId_version: { questionId, version } },
+    });
+    if (!question || !revision) {
+      return null;
+    }
+    if (revision.version >= question.version) {
+      const error = new Error(
+        revision.version === question.version
+          ? "This revision is already the current version"
+          : "This revision is an edit still waiting for review",
+      );
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+    // Restoring a published question is an edit like any other and waits for review.
+    if (question.status === QuestionStatus.PUBLISHED) {
+      return stagePendingRevision(tx, question, revision, restoredById, revision.version);
+    }
+    await discardPendingRevision(tx, question);
+    await ensureQuestionRevision(tx, question);
+    const restored = await tx.questionBank.update({
+      where: { id: questionId },
+      data: {
+        ...toWritableContent(revision),
+        version: question.version + 1,
+        // Restored content was not what the reviewer approved.
+        ...(question.status === QuestionStatus.APPROVED ? { status: QuestionStatus.IN_REVIEW } : {}),
+      },
+    });
+    await createQuestionRevision(tx, restored, restoredById, revision.version);
+    if (restored.topicId !== question.topicId) {
+      await pruneQuestionObjectives(tx, questionId, restored.topicId);
+    }
+    return restored;
+  });
@@ -0,0 +1,366 @@
+import { Prisma, QuestionStatus } from "@prisma/client";
+import prisma from "../config/db";
+import { normalizeAnswerText } from "../utils/answerMatching";
+
+// Share of trigrams two prompts must have in common to be treated as the same question.
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+// Prompts this short ("Define x") collide by accident, so they are never flagged.
+const MIN_TRIGRAMS = 8;
+
+const similarityError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+/**
+ * Character trigrams of the normalised prompt, with each word padded the way pg_trgm does, so
+ * reworded copies and spacing or punctuation variants still share most of their trigrams.
+ */
+export const questionTrigrams = (text: string) => {
+  const trigrams = new Set<string>();
+  normalizeAnswerText(text)
+    .split(" ")
+    .filter(Boolean)
+    .forEach((word) => {
+      const padded = `  ${word} `;
+      for (let index = 0; index + 3 <= padded.length; index += 1) {
+        trigrams.add(padded.slice(index, index + 3));
+      }
+    });
+  return trigrams;
+};
+
+export const trigramSimilarity = (left: Set<string>, right: Set<string>) => {
+  if (left.size < MIN_TRIGRAMS || right.size < MIN_TRIGRAMS) {
+    return 0;
+  }
+  let shared = 0;
+  left.forEach((trigram) => {
+    if (right.has(trigram)) shared += 1;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Merged copies are archived, so they never show up as duplicates again.
+const comparableQuestion = { status: { not: QuestionStatus.ARCHIVED } } satisfies Prisma.QuestionBankWhereInput;
+
+const candidateSelect = {
+  id: true,
+  questionText: true,
+  questionType: true,
+  topicId: true,
+  status: true,
+  isActive: true,
+  createdAt: true,
+  Topic: { select: { topic_name: true } },
+  _count: { select: { quizQuestions: true, practiceTestQuestions: true, questionAttemptsV2: true } },
+} satisfies Prisma.QuestionBankSelect;
+
+type Candidate = Prisma.QuestionBankGetPayload<{ select: typeof candidateSelect }>;
+
+const toSimilarQuestion = (candidate: Candidate, similarity: number) => ({
+  id: candidate.id,
+  questionText: candidate.questionText,
+  questionType: candidate.questionType,
+  topicId: candidate.topicId,
+  topicName: candidate.Topic.topic_name,
+  status: candidate.status,
+  isActive: candidate.isActive,
+  usage: {
+    quizzes: candidate._count.quizQuestions,
+    practiceTests: candidate._count.practiceTestQuestions,
+    attempts: candidate._count.questionAttemptsV2,
+  },
+  similarity: round(similarity),
+});
+
+export type SimilarQuestion = ReturnType<typeof toSimilarQuestion>;
+
+/**
+ * Existing questions in the topic whose prompt is close to `questionText`, most similar first.
+ * Comparison happens in memory, so it is always scoped to one topic rather than the whole bank.
+ */
+export const findSimilarQuestions = async (params: {
+  questionText: string;
+  topicId: number;
+  excludeId?: number | undefined;
+  limit: number;
+}) => {
+  const trigrams = questionTrigrams(params.questionText);
+  if (trigrams.size < MIN_TRIGRAMS) {
+    return [];
+  }
+  const candidates = await prisma.questionBank.findMany({
+    where: {
+      ...comparableQuestion,
+      topicId: params.topicId,
+      ...(params.excludeId ? { id: { not: params.excludeId } } : {}),
+    },
+    select: candidateSelect,
+  });
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      similarity: trigramSimilarity(trigrams, questionTrigrams(candidate.questionText)),
+    }))
+    .filter((entry) => entry.similarity >= NEAR_DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, params.limit)
+    .map((entry) => toSimilarQuestion(entry.candidate, entry.similarity));
+};
+
+export type ImportDuplicateWarning = {
+  questionText: string;
+  topicId: number;
+  matchId: number | null;
+  matchText: string;
+  similarity: number;
+};
+
+/**
+ * Flags import rows that read like a question already in their topic, or like an earlier row in the
+ * same file. Exact copies are skipped by the importer before this runs.
+ */
+export const findImportNearDuplicates = async (rows: Array<{ topicId: number; questionText: string }>) => {
+  const existing = await prisma.questionBank.findMany({
+    where: { ...comparableQuestion, topicId: { in: Array.from(new Set(rows.map((row) => row.topicId))) } },
+    select: { id: true, topicId: true, questionText: true },
+  });
+  const pool = existing.map((question) => ({
+    id: question.id as number | null,
+    topicId: question.topicId,
+    questionText: question.questionText,
+    trigrams: questionTrigrams(question.questionText),
+  }));
+
+  const warnings: ImportDuplicateWarning[] = [];
+  rows.forEach((row) => {
+    const trigrams = questionTrigrams(row.questionText);
+    let best: { match: (typeof pool)[number]; similarity: number } | null = null;
+    for (const entry of pool) {
+      if (entry.topicId !== row.topicId) continue;
+      const similarity = trigramSimilarity(trigrams, entry.trigrams);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+        best = { match: entry, similarity };
+      }
+    }
+    if (best) {
+      warnings.push({
+        questionText: row.questionText,
+        topicId: row.topicId,
+        matchId: best.match.id,
+        matchText: best.match.questionText,
+        similarity: round(best.similarity),
+      });
+    }
+    pool.push({ id: null, topicId: row.topicId, questionText: row.questionText, trigrams });
+  });
+  return warnings;
+};
+
+const placements = (question: Candidate) => question._count.quizQuestions + question._count.practiceTestQuestions;
+
+const canSurvive = (question: Pick<Candidate, "status" | "isActive">) =>
+  question.status === QuestionStatus.PUBLISHED && question.isActive;
+
+// Only a live copy can survive. Among those, the one already doing the most work wins: most quiz and
+// test placements, then answers, then age.
+const pickSurvivor = (questions: Candidate[]) =>
+  [...questions].sort(
+    (a, b) =>
+      Number(canSurvive(b)) - Number(canSurvive(a)) ||
+      placements(b) - placements(a) ||
+      b._count.questionAttemptsV2 - a._count.questionAttemptsV2 ||
+      a.createdAt.getTime() - b.createdAt.getTime(),
+  )[0]!.id;
+
+/**
+ * Groups near-identical questions within each topic. Similarity is transitive here: if A matches
+ * B and B matches C, all three form one cluster even when A and C are further apart. Requires a
+ * topic or subject so a request never pulls the whole bank into memory.
+ */
+export const findDuplicateClusters = async (params: {
+  topicId?: number | undefined;
+  subjectId?: number | undefined;
+  threshold: number;
+}) => {
+  if (!params.topicId && !params.subjectId) {
+    throw similarityError("Choose a topic or subject to search for duplicates", 400);
+  }
+  const questions = await prisma.questionBank.findMany({
+    where: {
+      ...comparableQuestion,
+      ...(params.topicId ? { topicId: params.topicId } : {}),
+      ...(params.subjectId ? { Topic: { subject_id: params.subjectId } } : {}),
+    },
+    orderBy: { id: "asc" },
+    select: candidateSelect,
+  });
+
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  const bestSimilarity = new Map<number, number>();
+
+  const byTopic = new Map<number, Array<{ question: Candidate; trigrams: Set<string> }>>();
+  questions.forEach((question) => {
+    const entries = byTopic.get(question.topicId) ?? [];
+    entries.push({ question, trigrams: questionTrigrams(question.questionText) });
+    byTopic.set(question.topicId, entries);
+  });
+  for (const entries of byTopic.values()) {
+    entries.forEach((left, index) => {
+      entries.slice(index + 1).forEach((right) => {
+        const similarity = trigramSimilarity(left.trigrams, right.trigrams);
+        if (similarity < params.threshold) return;
+        parent.set(find(right.question.id), find(left.question.id));
+        [left.question.id, right.question.id].forEach((id) =>
+          bestSimilarity.set(id, Math.max(bestSimilarity.get(id) ?? 0, similarity)),
+        );
+      });
+    });
+  }
+
+  const clusters = new Map<number, Candidate[]>();
+  questions.forEach((question) => {
+    if (!bestSimilarity.has(question.id)) return;
+    const root = find(question.id);
+    clusters.set(root, [...(clusters.get(root) ?? []), question]);
+  });
+
+  return Array.from(clusters.values())
+    .map((members) => ({
+      topicId: members[0]!.topicId,
+      topicName: members[0]!.Topic.topic_name,
+      suggestedSurvivorId: pickSurvivor(members),
+      questions: members.map((member) => toSimilarQuestion(member, bestSimilarity.get(member.id) ?? 0)),
+    }))
+    .sort((a, b) => b.questions.length - a.questions.length || a.topicName.localeCompare(b.topicName));
+};
+
+/**
+ * Folds duplicates into the survivor: quiz and practice-test slots move to the survivor (or are
+ * dropped where it is already present), objective tags are carried over, and the duplicates are
+ * archived. Learner history stays on the archived copies so past attempts still render as answered.
+ * Attempts still in progress read their questions through those slots, so the merge waits for them.
+ */
+export const mergeDuplicateQuestions = async (survivorId: number, duplicateIds: number[]) => {
+  const ids = Array.from(new Set(duplicateIds));
+  if (ids.includes(survivorId)) {
+    throw similarityError("The surviving question cannot also be merged away", 400);
+  }
+  const questions = await prisma.questionBank.findMany({
+    where: { id: { in: [survivorId, ...ids] } },
+    select: { id: true, topicId: true, status: true, isActive: true },
+  });
+  const survivor = questions.find((question) => question.id === survivorId);
+  if (!survivor || questions.length !== ids.length + 1) {
+    return null;
+  }
+  if (questions.some((question) => question.topicId !== survivor.topicId)) {
+    throw similarityError("Only questions from the same topic can be merged", 400);
+  }
+  if (!canSurvive(survivor)) {
+    throw similarityError("Only a published, active question can survive a merge", 409);
+  }
+  const pinned = ids.map((id) => ({ questionIds: { array_contains: [id] } }));
+  const open = { in: ["in_progress", "submitting"] };
+
+  return prisma.$transaction(async (tx) => {
+    // Starting an attempt key-shares its quiz or test row, so these locks hold off new attempts
+    // until the links have moved; the count below then sees every attempt that got in first.
+    await tx.$queryRaw`
+      SELECT id FROM "TopicQuiz"
+      WHERE id IN (SELECT "quizId" FROM "QuizQuestion" WHERE "questionId" IN (${Prisma.join(ids)}))
+      FOR UPDATE
+    `;
+    await tx.$queryRaw`
+      SELECT id FROM "PracticeTest"
+      WHERE id IN (SELECT "practiceTestId" FROM "PracticeTestQuestion" WHERE "questionId" IN (${Prisma.join(ids)}))
+      FOR UPDATE
+    `;
+    const [openQuizAttempts, openTestAttempts] = await Promise.all([
+      tx.quizAttemptV2.count({
+        where: {
+          status: open,
+          OR: [{ Quiz: { questions: { some: { questionId: { in: ids } } } } }, ...pinned],
+        },
+      }),
+      tx.practiceTestAttemptV2.count({
+        where: {
+          status: open,
+          OR: [{ PracticeTest: { questions: { some: { questionId: { in: ids } } } } }, ...pinned],
+        },
+      }),
+    ]);
+    const openAttempts = openQuizAttempts + openTestAttempts;
+    if (openAttempts) {
+      throw similarityError(
+        `${openAttempts} ${openAttempts === 1 ? "attempt is" : "attempts are"} still in progress on these questions; ` +
+          "merge once learners have finished",
+        409,
+      );
+    }
+
+    const summary = { survivorId, mergedIds: ids, quizLinksMoved: 0, practiceTestLinksMoved: 0, linksDropped: 0 };
+
+    const quizLinks = await tx.quizQuestion.findMany({ where: { questionId: { in: ids } }, orderBy: { id: "asc" } });
+    for (const link of quizLinks) {
+      const taken = await tx.quizQuestion.findUnique({
+        where: { quizId_questionId: { quizId: link.quizId, questionId: survivorId } },
+      });
+      if (taken) {
+        await tx.quizQuestion.delete({ where: { id: link.id } });
+        summary.linksDropped += 1;
+      } else {
+        await tx.quizQuestion.update({ where: { id: link.id }, data: { questionId: survivorId } });
+        summary.quizLinksMoved += 1;
+      }
+    }
+
+    const testLinks = await tx.practiceTestQuestion.findMany({
+      where: { questionId: { in: ids } },
+      orderBy: { id: "asc" },
+    });
+    const shrunkTests = new Set<number>();
+    for (const link of testLinks) {
+      const taken = await tx.practiceTestQuestion.findUnique({
+        where: { practiceTestId_questionId: { practiceTestId: link.practiceTestId, questionId: survivorId } },
+      });
+      if (taken) {
+        await tx.practiceTestQuestion.delete({ where: { id: link.id } });
+        shrunkTests.add(link.practiceTestId);
+        summary.linksDropped += 1;
+      } else {
+        await tx.practiceTestQuestion.update({ where: { id: link.id }, data: { questionId: survivorId } });
+        summary.practiceTestLinksMoved += 1;
+      }
+    }
+    for (const practiceTestId of shrunkTests) {
+      const questionCount = await tx.practiceTestQuestion.count({ where: { practiceTestId } });
+      await tx.practiceTest.update({ where: { id: practiceTestId }, data: { questionCount } });
+    }
+
+    const tags = await tx.questionObjective.findMany({ where: { questionId: { in: ids } } });
+    if (tags.length) {
+      await tx.questionObjective.createMany({
+        data: tags.map((tag) => ({ questionId: survivorId, objectiveId: tag.objectiveId })),
+        skipDuplicates: true,
+      });
+    }
+
+    await tx.questionBank.updateMany({
+      where: { id: { in: ids } },
+      data: { status: QuestionStatus.ARCHIVED, isActive: false },
+    });
+    return summary;
+  });
+};
@@ -0,0 +1,194 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/db";
+
+// A single lucky answer should not open the next topic, so mastery only counts after a few tries.
+export const MIN_UNLOCK_ATTEMPTS = 5;
+
+const pathError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+export type PrerequisiteStatus = {
+  topicId: number;
+  topicName: string;
+  minAccuracy: number;
+  mastery: number | null;
+  attempts: number;
+  met: boolean;
+};
+
+export type TopicLockState = {
+  locked: boolean;
+  prerequisites: PrerequisiteStatus[];
+  unlocksNext: Array<{ topicId: number; topicName: string }>;
+};
+
+const edgeTopicSelect = { select: { id: true, topic_name: true, subject_id: true, is_active: true } };
+
+export const listTopicPath = async (topicId: number) => {
+  const [prerequisites, unlocks] = await Promise.all([
+    prisma.topicPrerequisite.findMany({
+      where: { topicId },
+      orderBy: { Prerequisite: { topic_name: "asc" } },
+      include: { Prerequisite: edgeTopicSelect },
+    }),
+    prisma.topicPrerequisite.findMany({
+      where: { prerequisiteId: topicId },
+      orderBy: { Topic: { topic_name: "asc" } },
+      include: { Topic: edgeTopicSelect },
+    }),
+  ]);
+  return { prerequisites, unlocks };
+};
+
+/**
+ * Walks prerequisite edges upward from `startId`; returns the chain that reaches `targetId`, if any.
+ * Adding `targetId -> startId` would close that chain into a cycle.
+ */
+const findPrerequisitePath = async (tx: Prisma.TransactionClient, startId: number, targetId: number) => {
+  const parents = new Map<number, number>();
+  const visited = new Set<number>([startId]);
+  let frontier = [startId];
+
+  while (frontier.length) {
+    const edges = await tx.topicPrerequisite.findMany({
+      where: { topicId: { in: frontier } },
+      select: { topicId: true, prerequisiteId: true },
+    });
+    const next: number[] = [];
+    for (const edge of edges) {
+      if (visited.has(edge.prerequisiteId)) continue;
+      visited.add(edge.prerequisiteId);
+      parents.set(edge.prerequisiteId, edge.topicId);
+      if (edge.prerequisiteId === targetId) {
+        const path = [targetId];
+        let cursor = targetId;
+        while (cursor !== startId) {
+          cursor = parents.get(cursor) as number;
+          path.unshift(cursor);
+        }
+        return path;
+      }
+      next.push(edge.prerequisiteId);
+    }
+    frontier = next;
+  }
+
+  return null;
+};
+
+export const addTopicPrerequisite = async (topicId: number, prerequisiteId: number, minAccuracy?: number) => {
+  if (topicId === prerequisiteId) {
+    throw pathError("A topic cannot be its own prerequisite", 400);
+  }
+  const topics = await prisma.topic.findMany({
+    where: { id: { in: [topicId, prerequisiteId] } },
+    select: { id: true, topic_name: true },
+  });
+  if (topics.length !== 2) {
+    throw pathError("Topic not found", 404);
+  }
+
+  // Two opposite edges saved at once would each pass the check alone, so the walk and the write
+  // share one serializable transaction and the later of the two fails instead of closing a cycle.
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const cycle = await findPrerequisitePath(tx, prerequisiteId, topicId);
+        if (cycle) {
+          const names = new Map(
+            (
+              await tx.topic.findMany({ where: { id: { in: cycle } }, select: { id: true, topic_name: true } })
+            ).map((topic) => [topic.id, topic.topic_name]),
+          );
+          const chain = [topicId, ...cycle].map((id) => names.get(id) ?? `#${id}`).join(" → ");
+          throw pathError(`That prerequisite would create a cycle: ${chain}`, 409);
+        }
+
+        return tx.topicPrerequisite.upsert({
+          where: { topicId_prerequisiteId: { topicId, prerequisiteId } },
+          update: { ...(minAccuracy !== undefined ? { minAccuracy } : {}) },
+          create: { topicId, prerequisiteId, ...(minAccuracy !== undefined ? { minAccuracy } : {}) },
+          include: { Prerequisite: edgeTopicSelect },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+      throw pathError("Prerequisites changed while saving; please try again", 409);
+    }
+    throw error;
+  }
+};
+
+export const removeTopicPrerequisite = async (topicId: number, prerequisiteId: number) => {
+  const { count } = await prisma.topicPrerequisite.deleteMany({ where: { topicId, prerequisiteId } });
+  return count > 0;
+};
+
+/**
+ * Lock state for a set of topics. Without a learner every gated topic reports as locked, which is
+ * what a signed-out visitor would see. Archived prerequisites are ignored so they cannot strand a
+ * topic. Mastery is read as of the last practice, so a long break does not re-lock a topic the
+ * learner already opened. Locks are guidance for the learning path; assigned work stays reachable.
+ */
+export const buildTopicLockStates = async (topicIds: number[], userId?: number) => {
+  const states = new Map<number, TopicLockState>();
+  if (!topicIds.length) {
+    return states;
+  }
+
+  const [requirements, dependents] = await Promise.all([
+    prisma.topicPrerequisite.findMany({
+      where: { topicId: { in: topicIds }, Prerequisite: { is_active: true } },
+      include: { Prerequisite: { select: { topic_name: true } } },
+    }),
+    prisma.topicPrerequisite.findMany({
+      where: { prerequisiteId: { in: topicIds } },
+      include: { Topic: { select: { topic_name: true, is_active: true } } },
+    }),
+  ]);
+
+  const prerequisiteIds = Array.from(new Set(requirements.map((edge) => edge.prerequisiteId)));
+  const mastery =
+    userId && prerequisiteIds.length
+      ? await prisma.topicMastery.findMany({
+          where: { userId, topicId: { in: prerequisiteIds } },
+          select: { topicId: true, masteryScore: true, totalAttempts: true },
+        })
+      : [];
+  const masteryByTopic = new Map(mastery.map((entry) => [entry.topicId, entry]));
+
+  topicIds.forEach((topicId) => {
+    const prerequisites = requirements
+      .filter((edge) => edge.topicId === topicId)
+      .map((edge) => {
+        const record = masteryByTopic.get(edge.prerequisiteId);
+        const attempts = record?.totalAttempts ?? 0;
+        const mastery = record ? record.masteryScore : null;
+        return {
+          topicId: edge.prerequisiteId,
+          topicName: edge.Prerequisite.topic_name,
+          minAccuracy: edge.minAccuracy,
+          mastery,
+          attempts,
+          met: mastery !== null && attempts >= MIN_UNLOCK_ATTEMPTS && mastery >= edge.minAccuracy,
+        };
+      })
+      .sort((a, b) => a.topicName.localeCompare(b.topicName));
+
+    states.set(topicId, {
+      locked: prerequisites.some((entry) => !entry.met),
+      prerequisites,
+      unlocksNext: dependents
+        .filter((edge) => edge.prerequisiteId === topicId && edge.Topic.is_active)
+        .map((edge) => ({ topicId: edge.topicId, topicName: edge.Topic.topic_name }))
+        .sort((a, b) => a.topicName.localeCompare(b.topicName)),
+    });
+  });
+
+  return states;
+};
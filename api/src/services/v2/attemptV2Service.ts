@@ -1,15 +1,31 @@
-import { Prisma, QuestionType } from "@prisma/client";
+import { Difficulty, Prisma, QuestionType } from "@prisma/client";
 import prisma from "../../config/db";
+import { parseQuestionIds } from "../../utils/questionIds";
+import { generateSeed } from "../../utils/seededRandom";
 import {
+  mapLearnerAttemptDraftDto,
   mapLearnerPracticeTestAttemptDto,
   mapLearnerQuestionAttemptDto,
   mapLearnerQuizAttemptDto,
+  mapLearnerReviewAttemptDto,
 } from "../../utils/learnerDtoMappers";
-import { getPracticeTestQuestions } from "./practiceTestV2Service";
-import { getQuizQuestions } from "./quizV2Service";
-import { recordPracticeTestXp, recordQuizAttemptXp } from "./xpTransactionService";
+import { getPracticeTestAttemptQuestions, getPracticeTestQuestions } from "./practiceTestV2Service";
+import { drawPracticeTestQuestions } from "./practiceTestGeneratorService";
+import { getQuizAttemptQuestions, getQuizQuestions } from "./quizV2Service";
+import { recordPracticeTestXp, recordQuizAttemptXp, recordReviewXp } from "./xpTransactionService";
 import { recordPracticeTestStreak, recordQuizStreak } from "./streakService";
-import { recordTopicMastery } from "./masteryService";
+import { recordAttemptMastery } from "./masteryService";
+import { buildReviewQuestionSet, getReviewAttemptQuestions, listOpenMistakes } from "./mistakeReviewService";
+import { assertPremiumAccess, premiumRequiredError } from "../entitlementService";
+import { resolveCurrentRevisionIds } from "../questionRevisionService";
+import { pointsForResult, roundPoints, ScoringQuestion, scoreResponse } from "./scoringService";
+import {
+  estimateAbility,
+  getLearnerAbility,
+  recordLearnerAbility,
+  resolveItemDifficulty,
+  selectNextItem,
+} from "./itemCalibrationService";
 
 type ResponsePayload = {
   questionId: number;
@@ -17,11 +33,48 @@ type ResponsePayload = {
   selectedOptions?: string[] | undefined;
 };
 
+type DraftPayload = {
+  responses: ResponsePayload[];
+  currentIndex?: number | undefined;
+};
+
+export type AttemptKind = "quiz" | "practice" | "review";
+
+export type PracticeTestMode = "practice" | "exam";
+
+// Absorbs network latency between the client's countdown hitting zero and the request landing.
+const DEADLINE_GRACE_MS = 15 * 1000;
+
+const isPastDeadline = (deadlineAt: Date | null, now = new Date()) =>
+  deadlineAt !== null && now.getTime() > deadlineAt.getTime() + DEADLINE_GRACE_MS;
+
 type SubmitPayload = {
   responses: ResponsePayload[];
   durationSeconds?: number | undefined;
   timeSpentSeconds?: number | undefined;
   metadata?: Record<string, any> | undefined;
+  // Set when replaying an offline attempt so history reflects when the learner actually finished.
+  completedAt?: Date | undefined;
+};
+
+export type OfflineQuizAttempt = {
+  clientId: string;
+  quizId: number;
+  responses: ResponsePayload[];
+  startedAt?: Date | undefined;
+  completedAt: Date;
+  durationSeconds?: number | undefined;
+  timeSpentSeconds?: number | undefined;
+};
+
+export type OfflineSyncStatus = "synced" | "duplicate" | "rejected" | "failed";
+
+export type OfflineSyncResult = {
+  clientId: string;
+  status: OfflineSyncStatus;
+  attemptId: number | null;
+  attempt?: ReturnType<typeof mapLearnerQuizAttemptDto> | null;
+  message?: string;
 };
 
 const buildMetadata = (
@@ -52,118 +105,470 @@ const toStringArray = (value: Prisma.JsonValue | null | undefined): string[] =>
   return [];
 };
 
-const normalizeOption = (value?: string | null) => value?.trim().toLowerCase() ?? "";
+const parseDraftResponses = (value: Prisma.JsonValue | null | undefined): ResponsePayload[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return [];
+    }
+    const questionId = Number(entry.questionId);
+    if (!Number.isInteger(questionId) || questionId <= 0) {
+      return [];
+    }
+    const selectedOptions = toStringArray(entry.selectedOptions ?? null);
+    return [
+      {
+        questionId,
+        selectedOption: typeof entry.selectedOption === "string" ? entry.selectedOption : undefined,
+        selectedOptions: selectedOptions.length ? selectedOptions : undefined,
+      },
+    ];
+  });
+};
+
+/**
+ * Later responses win per question, so an autosave only needs to carry what changed
+ * and a final submit can be partial when the rest was already saved.
+ */
+const mergeResponses = (saved: ResponsePayload[], incoming: ResponsePayload[]) => {
+  const merged = new Map(saved.map((entry) => [entry.questionId, entry]));
+  incoming.forEach((entry) => merged.set(entry.questionId, entry));
+  return Array.from(merged.values());
+};
 
-const evaluateResponse = (
-  question: {
-    id: number;
-    questionType: QuestionType;
-    correctOption?: string | null;
-    correctAnswers?: Prisma.JsonValue | null;
-  },
-  payload?: ResponsePayload,
-) => {
-  const correctOption = question.correctOption ? normalizeOption(question.correctOption) : undefined;
-  const correctAnswers = toStringArray(question.correctAnswers);
+const toDraftJson = (responses: ResponsePayload[]): Prisma.InputJsonValue =>
+  responses.map((entry) => ({
+    questionId: entry.questionId,
+    selectedOption: entry.selectedOption ?? null,
+    selectedOptions: entry.selectedOptions ?? null,
+  }));
 
-  if (!payload) {
-    return { isCorrect: false, selectedOption: null, selectedOptions: null };
-  }
+const assertQuestionsBelong = (validQuestionIds: Set<number>, responses: ResponsePayload[]) => {
+  responses.forEach((response) => {
+    if (!validQuestionIds.has(response.questionId)) {
+      const error = new Error("Invalid question submission: question does not belong to this quiz.");
+      (error as { statusCode?: number }).statusCode = 400;
+      throw error;
+    }
+  });
+};
+
+type GradableQuestion = {
+  questionId: number;
+  points?: number | null;
+  Question:
+    | (Omit<ScoringQuestion, "id"> & {
+        Topic?: { id: number } | null;
+      })
+    | null;
+};
+
+type GradedRow = {
+  questionId: number;
+  isCorrect: boolean;
+  selectedOption: string | null;
+  selectedOptions: string[] | null;
+  pointsEarned: number;
+  pointsPossible: number;
+  topicId?: number | null;
+};
+
+const toScoringQuestion = (entry: GradableQuestion): ScoringQuestion => ({
+  id: entry.questionId,
+  questionType: entry.Question?.questionType ?? QuestionType.MULTIPLE_CHOICE,
+  questionText: entry.Question?.questionText ?? null,
+  correctOption: entry.Question?.correctOption ?? null,
+  correctAnswers: entry.Question?.correctAnswers ?? null,
+  matchStrategy: entry.Question?.matchStrategy ?? null,
+  matchOptions: entry.Question?.matchOptions ?? null,
+});
 
-  if (question.questionType === QuestionType.MULTIPLE_CHOICE || question.questionType === QuestionType.TRUE_FALSE) {
-    const selected = normalizeOption(payload.selectedOption ?? payload.selectedOptions?.[0]);
+const gradeQuestions = (
+  questions: GradableQuestion[],
+  responses: ResponsePayload[],
+  negativeMarking = 0,
+): GradedRow[] => {
+  const responseMap = new Map(responses.map((entry) => [entry.questionId, entry]));
+  return questions.map((entry) => {
+    const question = entry.Question;
+    const pointsPossible = entry.points ?? 1;
+    const result = scoreResponse(toScoringQuestion(entry), responseMap.get(entry.questionId));
     return {
-      isCorrect: correctOption ? selected === normalizeOption(correctOption) : false,
-      selectedOption: payload.selectedOption ?? null,
-      selectedOptions: payload.selectedOptions ?? null,
+      questionId: entry.questionId,
+      isCorrect: result.isCorrect,
+      selectedOption: result.selectedOption,
+      selectedOptions: result.selectedOptions,
+      pointsEarned: roundPoints(pointsForResult(result, pointsPossible, negativeMarking)),
+      pointsPossible,
+      topicId: question?.Topic?.id ?? null,
     };
+  });
+};
+
+// Negative marking can push individual questions below zero, but never the attempt as a whole.
+const summarizeGrades = (rows: GradedRow[]) => {
+  const correct = rows.filter((row) => row.isCorrect).length;
+  const pointsPossible = roundPoints(rows.reduce((total, row) => total + row.pointsPossible, 0));
+  const pointsEarned = roundPoints(Math.max(0, rows.reduce((total, row) => total + row.pointsEarned, 0)));
+  const scorePercentage = pointsPossible > 0 ? Math.round((pointsEarned / pointsPossible) * 100) : 0;
+  return { correct, pointsEarned, pointsPossible, scorePercentage };
+};
+
+const forfeitGrades = (rows: GradedRow[]) =>
+  rows.map((row) => ({ ...row, isCorrect: false, pointsEarned: 0 }));
+
+// Attempt tables row-locked while a request merges into the stored draft.
+const draftTables: Record<AttemptKind, string> = {
+  quiz: '"QuizAttemptV2"',
+  practice: '"PracticeTestAttemptV2"',
+  review: '"ReviewAttemptV2"',
+};
+
+/**
+ * Marks an in-progress attempt as being graded. Only one request can win the claim, so a phone
+ * retrying a slow sync or a double-tapped submit cannot grade the attempt, or pay its XP, twice.
+ */
+const claimAttempt = async (kind: AttemptKind, attemptId: number) => {
+  const where = { id: attemptId, status: "in_progress" };
+  const data = { status: "submitting" };
+  const claimed =
+    kind === "quiz"
+      ? await prisma.quizAttemptV2.updateMany({ where, data })
+      : kind === "practice"
+        ? await prisma.practiceTestAttemptV2.updateMany({ where, data })
+        : await prisma.reviewAttemptV2.updateMany({ where, data });
+  return claimed.count > 0;
+};
+
+// Grading failed part way; hand the attempt back so the learner can submit again.
+const releaseAttempt = async (kind: AttemptKind, attemptId: number) => {
+  const where = { id: attemptId, status: "submitting" };
+  const data = { status: "in_progress" };
+  if (kind === "quiz") {
+    await prisma.quizAttemptV2.updateMany({ where, data });
+  } else if (kind === "practice") {
+    await prisma.practiceTestAttemptV2.updateMany({ where, data });
+  } else {
+    await prisma.reviewAttemptV2.updateMany({ where, data });
   }
+};
 
-  if (question.questionType === QuestionType.FILL_IN_THE_BLANK || question.questionType === QuestionType.SHORT_ANSWER) {
-    const answers = payload.selectedOptions?.length ? payload.selectedOptions : payload.selectedOption ? [payload.selectedOption] : [];
-    const normalized = answers.map((entry) => normalizeOption(entry));
-    const isCorrect =
-      normalized.length > 0 &&
-      normalized.every((candidate) =>
-        correctAnswers.some((answer) => normalizeOption(answer) === candidate || candidate.includes(normalizeOption(answer))),
-      );
-    return {
-      isCorrect,
-      selectedOption: payload.selectedOption ?? null,
-      selectedOptions: answers,
-    };
+const gradeClaimedAttempt = async <T>(kind: AttemptKind, attemptId: number, grade: () => Promise<T>) => {
+  if (!(await claimAttempt(kind, attemptId))) {
+    return null;
+  }
+  try {
+    return await grade();
+  } catch (error) {
+    await releaseAttempt(kind, attemptId);
+    throw error;
   }
+};
+
+type AdaptiveQuestion = GradableQuestion & {
+  Question: { difficulty: Difficulty; calibratedDifficulty: number | null };
+};
 
-  const selectedList = payload.selectedOptions ?? (payload.selectedOption ? [payload.selectedOption] : []);
-  const normalizedSelection = selectedList.map((entry) => normalizeOption(entry));
-  const normalizedCorrect = correctAnswers.map((answer) => normalizeOption(answer));
-  const isCorrect =
-    normalizedCorrect.length > 0 &&
-    normalizedCorrect.length === normalizedSelection.length &&
-    normalizedCorrect.every((answer) => normalizedSelection.includes(answer));
+const pickAdaptiveQuestion = <T extends AdaptiveQuestion>(pool: T[], servedIds: number[], ability: number) => {
+  const served = new Set(servedIds);
+  const candidates = pool
+    .filter((entry) => !served.has(entry.questionId))
+    .map((entry) => ({ entry, difficulty: resolveItemDifficulty(entry.Question) }));
+  return selectNextItem(candidates, ability)?.entry ?? null;
+};
 
-  return {
-    isCorrect,
-    selectedOption: payload.selectedOption ?? null,
-    selectedOptions: payload.selectedOptions ?? null,
-  };
+const adaptiveObservations = (questions: AdaptiveQuestion[], responses: ResponsePayload[]) => {
+  const responseMap = new Map(responses.map((entry) => [entry.questionId, entry]));
+  return questions.flatMap((entry) => {
+    const response = responseMap.get(entry.questionId);
+    if (!response) {
+      return [];
+    }
+    return [
+      {
+        difficulty: resolveItemDifficulty(entry.Question),
+        credit: scoreResponse(toScoringQuestion(entry), response).credit,
+      },
+    ];
+  });
 };
 
-export const startQuizAttempt = async (userId: number, quizId: number) => {
+export const startQuizAttempt = async (userId: number, quizId: number, hasPremiumAccess = false) => {
   const context = await getQuizQuestions(quizId);
   if (!context) {
     throw new Error("Quiz not found or inactive");
   }
-  return prisma.quizAttemptV2.create({
+  assertPremiumAccess(context.quiz.isPremium, hasPremiumAccess);
+  const existing = await prisma.quizAttemptV2.findFirst({
+    where: { userId, quizId, status: "in_progress", clientId: null },
+    orderBy: { startedAt: "desc" },
+  });
+  if (existing) {
+    const resumedContext = await getQuizAttemptQuestions(existing);
+    return {
+      attempt: existing,
+      quiz: context.quiz,
+      questions: resumedContext?.questions ?? context.questions,
+      resumed: true,
+    };
+  }
+
+  // Adaptive attempts start with the item that best fits the learner's stored ability and
+  // grow one question at a time through answerAdaptiveQuizQuestion.
+  let adaptive: { questionIds: number[]; abilityEstimate: number } | null = null;
+  if (context.quiz.isAdaptive && context.questions.length) {
+    const abilityEstimate = await getLearnerAbility(userId);
+    const first = pickAdaptiveQuestion(context.questions, [], abilityEstimate);
+    adaptive = { questionIds: first ? [first.questionId] : [], abilityEstimate };
+  }
+
+  const attempt = await prisma.quizAttemptV2.create({
     data: {
       quizId,
       userId,
-      totalQuestions: context.questions.length,
+      totalQuestions: adaptive
+        ? Math.min(context.quiz.adaptiveQuestionCount ?? context.questions.length, context.questions.length)
+        : context.questions.length,
       status: "in_progress",
+      ...(adaptive ?? {}),
     },
   });
+  const servedIds = adaptive?.questionIds;
+  return {
+    attempt,
+    quiz: context.quiz,
+    questions: servedIds
+      ? context.questions.filter((entry) => servedIds.includes(entry.questionId))
+      : context.questions,
+    resumed: false,
+  };
 };
 
-export const startPracticeTestAttempt = async (userId: number, practiceTestId: number) => {
+/**
+ * Records the answer to the current question of an adaptive attempt, re-estimates the learner's
+ * ability from everything answered so far and serves the unseen item closest to that estimate.
+ * Each question is answered once, and neither correctness nor the estimate is revealed here; the
+ * attempt is graded on submit like any other quiz.
+ */
+export const answerAdaptiveQuizQuestion = async (userId: number, attemptId: number, response: ResponsePayload) =>
+  prisma.$transaction(async (tx) => {
+    // Parallel answers to the same question would each see no saved answer without the lock.
+    await tx.$queryRaw`SELECT id FROM ${Prisma.raw(draftTables.quiz)} WHERE id = ${attemptId} FOR UPDATE`;
+    const attempt = await tx.quizAttemptV2.findFirst({ where: { id: attemptId, userId } });
+    if (!attempt) {
+      return null;
+    }
+    if (attempt.status !== "in_progress") {
+      const error = new Error("Attempt is already completed");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+
+    const context = await getQuizQuestions(attempt.quizId);
+    if (!context) {
+      throw new Error("Quiz not available");
+    }
+    const servedIds = parseQuestionIds(attempt.questionIds);
+    if (!context.quiz.isAdaptive || !servedIds.length) {
+      const error = new Error("Attempt is not adaptive");
+      (error as { statusCode?: number }).statusCode = 400;
+      throw error;
+    }
+    if (response.questionId !== servedIds[servedIds.length - 1]) {
+      const error = new Error("Only the current question can be answered");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+    const savedResponses = parseDraftResponses(attempt.draftResponses);
+    if (savedResponses.some((entry) => entry.questionId === response.questionId)) {
+      const error = new Error("This question has already been answered");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+
+    const responses = mergeResponses(savedResponses, [response]);
+    const questionsById = new Map(context.questions.map((entry) => [entry.questionId, entry]));
+    const served = servedIds.flatMap((questionId) => questionsById.get(questionId) ?? []);
+    const abilityEstimate = estimateAbility(adaptiveObservations(served, responses), await getLearnerAbility(userId));
+
+    const questionCount = attempt.totalQuestions ?? context.questions.length;
+    const next =
+      servedIds.length < questionCount ? pickAdaptiveQuestion(context.questions, servedIds, abilityEstimate) : null;
+    const questionIds = next ? [...servedIds, next.questionId] : servedIds;
+
+    const saved = await tx.quizAttemptV2.update({
+      where: { id: attemptId },
+      data: {
+        draftResponses: toDraftJson(responses),
+        questionIds,
+        abilityEstimate,
+        currentIndex: questionIds.length - 1,
+        lastSavedAt: new Date(),
+      },
+    });
+    return {
+      attempt: saved,
+      nextQuestion: next,
+      completed: !next,
+      answeredCount: servedIds.length,
+      questionCount,
+    };
+  });
+
+export const startPracticeTestAttempt = async (
+  userId: number,
+  practiceTestId: number,
+  mode: PracticeTestMode = "practice",
+  hasPremiumAccess = false,
+) => {
   const context = await getPracticeTestQuestions(practiceTestId);
   if (!context) {
     throw new Error("Practice test not found or inactive");
   }
-  return prisma.practiceTestAttemptV2.create({
+  assertPremiumAccess(context.practiceTest.isPremium, hasPremiumAccess);
+  const existing = await prisma.practiceTestAttemptV2.findFirst({
+    // An untimed practice attempt must not stand in for a requested exam, nor the other way round.
+    where: { userId, practiceTestId, status: "in_progress", mode },
+    orderBy: { startedAt: "desc" },
+  });
+  if (existing) {
+    if (!isPastDeadline(existing.deadlineAt)) {
+      const resumedContext = await getPracticeTestAttemptQuestions(existing);
+      return {
+        attempt: existing,
+        practiceTest: context.practiceTest,
+        questions: resumedContext?.questions ?? context.questions,
+        resumed: true,
+      };
+    }
+    // The learner walked away from an exam; grade what was saved before starting over.
+    await submitPracticeTestAttempt(userId, existing.id, { responses: [] });
+  }
+  const durationMinutes = context.practiceTest.durationMinutes;
+  const deadlineAt =
+    mode === "exam" && durationMinutes && durationMinutes > 0
+      ? new Date(Date.now() + durationMinutes * 60 * 1000)
+      : null;
+
+  let generated: { seed: number; questionIds: number[]; optionOrder: Record<string, string[]> } | null = null;
+  if (context.practiceTest.isGenerated) {
+    const seed = generateSeed();
+    generated = { seed, ...(await drawPracticeTestQuestions(context.practiceTest, seed)) };
+  }
+
+  const attempt = await prisma.practiceTestAttemptV2.create({
     data: {
       practiceTestId,
       userId,
-      totalQuestions: context.questions.length,
+      totalQuestions: generated ? generated.questionIds.length : context.questions.length,
       status: "in_progress",
+      mode,
+      deadlineAt,
+      ...(generated
+        ? { seed: generated.seed, questionIds: generated.questionIds, optionOrder: generated.optionOrder }
+        : {}),
     },
   });
+  const attemptContext = generated ? await getPracticeTestAttemptQuestions(attempt) : context;
+  return {
+    attempt,
+    practiceTest: context.practiceTest,
+    questions: attemptContext?.questions ?? context.questions,
+    resumed: false,
+  };
 };
 
+/**
+ * Players fire overlapping autosaves, so the read-merge-write runs under a row lock: a save that
+ * arrives while another is in flight waits and merges into its result instead of overwriting it.
+ */
+export const saveAttemptDraft = async (
+  userId: number,
+  attemptId: number,
+  kind: AttemptKind,
+  payload: DraftPayload,
+) =>
+  prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM ${Prisma.raw(draftTables[kind])} WHERE id = ${attemptId} FOR UPDATE`;
+    const attempt =
+      kind === "quiz"
+        ? await tx.quizAttemptV2.findFirst({ where: { id: attemptId, userId } })
+        : kind === "practice"
+          ? await tx.practiceTestAttemptV2.findFirst({ where: { id: attemptId, userId } })
+          : await tx.reviewAttemptV2.findFirst({ where: { id: attemptId, userId } });
+    if (!attempt) {
+      return null;
+    }
+    if (attempt.status !== "in_progress") {
+      const error = new Error("Attempt is already completed");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+    if ("deadlineAt" in attempt && isPastDeadline(attempt.deadlineAt)) {
+      const error = new Error("Exam time is over");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+    // Adaptive answers go through answerAdaptiveQuizQuestion so each can be recorded only once.
+    if ("abilityEstimate" in attempt && attempt.abilityEstimate !== null && payload.responses.length) {
+      const error = new Error("Adaptive quiz answers are recorded one question at a time");
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+
+    const context =
+      "quizId" in attempt
+        ? await getQuizAttemptQuestions(attempt)
+        : "practiceTestId" in attempt
+          ? await getPracticeTestAttemptQuestions(attempt)
+          : { questions: await getReviewAttemptQuestions(attempt) };
+    if (!context) {
+      throw new Error(kind === "quiz" ? "Quiz not available" : "Practice test not available");
+    }
+    assertQuestionsBelong(new Set(context.questions.map((entry) => entry.questionId)), payload.responses);
+
+    const responses = mergeResponses(parseDraftResponses(attempt.draftResponses), payload.responses);
+    const maxIndex = Math.max(context.questions.length - 1, 0);
+    const data = {
+      draftResponses: toDraftJson(responses),
+      currentIndex: Math.min(payload.currentIndex ?? attempt.currentIndex, maxIndex),
+      lastSavedAt: new Date(),
+    };
+
+    const saved =
+      kind === "quiz"
+        ? await tx.quizAttemptV2.update({ where: { id: attemptId }, data })
+        : kind === "practice"
+          ? await tx.practiceTestAttemptV2.update({ where: { id: attemptId }, data })
+          : await tx.reviewAttemptV2.update({ where: { id: attemptId }, data });
+    return mapLearnerAttemptDraftDto(saved);
+  });
+
 const persistQuestionAttempts = async (params: {
   attemptId: number;
   userId: number;
-  rows: Array<{
-    questionId: number;
-    isCorrect: boolean;
-    selectedOption: string | null;
-    selectedOptions: string[] | null;
-    quizAttemptId?: number;
-    practiceTestAttemptId?: number;
-    topicId?: number | null;
-  }>;
-  isQuiz: boolean;
+  rows: GradedRow[];
+  kind: AttemptKind;
   applyMastery?: boolean;
 }) => {
-  const { attemptId, rows, userId, isQuiz, applyMastery = true } = params;
+  const { attemptId, rows, userId, kind, applyMastery = true } = params;
+  // Pin each answer to the version it was graded against so later edits do not rewrite review.
+  const revisionIds = await resolveCurrentRevisionIds(rows.map((row) => row.questionId));
   const createRows: Prisma.QuestionAttemptV2CreateManyInput[] = rows.map((row) => ({
     questionId: row.questionId,
+    questionRevisionId: revisionIds.get(row.questionId) ?? null,
     isCorrect: row.isCorrect,
     selectedOption: row.selectedOption,
     selectedOptions: row.selectedOptions ?? Prisma.DbNull,
     userId,
-    quizAttemptId: isQuiz ? attemptId : null,
-    practiceTestAttemptId: isQuiz ? null : attemptId,
+    quizAttemptId: kind === "quiz" ? attemptId : null,
+    practiceTestAttemptId: kind === "practice" ? attemptId : null,
+    reviewAttemptId: kind === "review" ? attemptId : null,
     score: row.isCorrect ? 1 : 0,
+    pointsEarned: row.pointsEarned,
+    pointsPossible: row.pointsPossible,
     responseMetadata: row.topicId ? ({ topicId: row.topicId } as Prisma.InputJsonValue) : Prisma.DbNull,
   }));
 
@@ -171,46 +576,44 @@ const persistQuestionAttempts = async (params: {
     data: createRows,
   });
 
-  if (applyMastery) {
-    await Promise.all(
-      rows.map((row) => {
-        if (!row.topicId) {
-          return Promise.resolve();
-        }
-        return recordTopicMastery({ userId, topicId: row.topicId, isCorrect: row.isCorrect });
-      }),
-    );
-  }
+  return applyMastery ? recordAttemptMastery(userId, rows) : null;
+};
+
+type QuizSubmitResult = {
+  attempt: ReturnType<typeof mapLearnerQuizAttemptDto> | null;
+  message?: string;
+  // Another request already graded, or is grading, this attempt.
+  duplicate?: boolean;
 };
 
 export const submitQuizAttempt = async (
   userId: number,
   attemptId: number,
   payload: SubmitPayload,
-): Promise<{ attempt: ReturnType<typeof mapLearnerQuizAttemptDto> | null; message?: string }> => {
+): Promise<QuizSubmitResult> => {
   const attempt = await prisma.quizAttemptV2.findUnique({
     where: { id: attemptId },
   });
   if (!attempt || attempt.userId !== userId) {
     throw new Error("Attempt not found");
   }
-  if (attempt.status === "completed") {
-    return { attempt: await getQuizAttempt(attemptId, userId) };
-  }
+  const result =
+    attempt.status === "in_progress"
+      ? await gradeClaimedAttempt("quiz", attemptId, () => gradeQuizAttempt(attemptId, payload))
+      : null;
+  return result ?? { attempt: await getQuizAttempt(attemptId, userId), duplicate: true };
+};
 
-  const context = await getQuizQuestions(attempt.quizId);
+// Reads the attempt again once claimed, so drafts saved while the submit was on its way are graded.
+const gradeQuizAttempt = async (attemptId: number, payload: SubmitPayload): Promise<QuizSubmitResult> => {
+  const attempt = await prisma.quizAttemptV2.findUniqueOrThrow({ where: { id: attemptId } });
+  const { userId } = attempt;
+  const context = await getQuizAttemptQuestions(attempt);
   if (!context) {
     throw new Error("Quiz not available");
   }
 
-  const validQuestionIds = new Set(context.questions.map((entry) => entry.questionId));
-  payload.responses.forEach((response) => {
-    if (!validQuestionIds.has(response.questionId)) {
-      const error = new Error("Invalid question submission: question does not belong to this quiz.");
-      (error as { statusCode?: number }).statusCode = 400;
-      throw error;
-    }
-  });
+  assertQuestionsBelong(new Set(context.questions.map((entry) => entry.questionId)), payload.responses);
 
   const submittedTime = payload.timeSpentSeconds ?? payload.durationSeconds ?? null;
   const timeLimitSeconds =
@@ -223,62 +626,28 @@ export const submitQuizAttempt = async (
     typeof submittedTime === "number" &&
     submittedTime > timeLimitSeconds;
 
-  const responseMap = new Map(payload.responses.map((entry) => [entry.questionId, entry]));
-  let rows: Array<{
-    questionId: number;
-    isCorrect: boolean;
-    selectedOption: string | null;
-    selectedOptions: string[] | null;
-    topicId?: number | null;
-  }> = [];
-  let correct = 0;
-
-  context.questions.forEach((entry) => {
-    const questionId = entry.questionId;
-    const question = entry.Question;
-    const response = responseMap.get(questionId);
-    const evaluation = evaluateResponse(
-      {
-        id: questionId,
-        questionType: question?.questionType ?? QuestionType.MULTIPLE_CHOICE,
-        correctOption: question?.correctOption ?? null,
-        correctAnswers: question?.correctAnswers ?? null,
-      },
-      response,
-    );
-    if (evaluation.isCorrect) {
-      correct += 1;
-    }
-    rows.push({
-      questionId,
-      isCorrect: evaluation.isCorrect,
-      selectedOption: evaluation.selectedOption,
-      selectedOptions: evaluation.selectedOptions,
-      topicId: question?.Topic?.id,
-    });
-  });
-
-  if (timeLimitExceeded) {
-    rows = rows.map((row) => ({
-      ...row,
-      isCorrect: false,
-    }));
-    correct = 0;
-  }
+  // Answers an adaptive attempt already recorded are final; the submit cannot replace them.
+  const savedResponses = parseDraftResponses(attempt.draftResponses);
+  const responses =
+    attempt.abilityEstimate !== null
+      ? mergeResponses(payload.responses, savedResponses)
+      : mergeResponses(savedResponses, payload.responses);
+  const graded = gradeQuestions(context.questions, responses);
+  const rows = timeLimitExceeded ? forfeitGrades(graded) : graded;
+  const { correct, pointsEarned, pointsPossible, scorePercentage } = summarizeGrades(rows);
 
   await prisma.questionAttemptV2.deleteMany({
     where: { quizAttemptId: attemptId },
   });
-  await persistQuestionAttempts({
+  const masteryChange = await persistQuestionAttempts({
     attemptId,
     userId,
     rows,
-    isQuiz: true,
+    kind: "quiz",
     applyMastery: !timeLimitExceeded,
   });
 
   const totalQuestions = rows.length || attempt.totalQuestions || 0;
-  const scorePercentage = totalQuestions === 0 ? 0 : Math.round((correct / totalQuestions) * 100);
   let xpAwarded = 0;
   let xpTransactionId: number | null = null;
   if (!timeLimitExceeded) {
@@ -287,10 +656,17 @@ export const submitQuizAttempt = async (
       quizId: attempt.quizId,
       difficulty: context.quiz.difficulty,
       scorePercentage,
+      occurredAt: payload.completedAt,
     });
     xpAwarded = xpResult.xpAwarded;
     xpTransactionId = xpResult.transactionId ?? null;
-    await recordQuizStreak(userId);
+  }
+
+  let abilityEstimate = attempt.abilityEstimate;
+  if (attempt.abilityEstimate !== null && !timeLimitExceeded) {
+    const answered = adaptiveObservations(context.questions, responses);
+    abilityEstimate = estimateAbility(answered, await getLearnerAbility(userId));
+    await recordLearnerAbility(userId, abilityEstimate, answered.length);
   }
 
   const durationSeconds = payload.durationSeconds ?? null;
@@ -301,19 +677,29 @@ export const submitQuizAttempt = async (
       score: timeLimitExceeded ? 0 : scorePercentage,
       correctCount: correct,
       incorrectCount: totalQuestions - correct,
+      pointsEarned: timeLimitExceeded ? 0 : pointsEarned,
+      pointsPossible,
       xpAwarded,
-      completedAt: new Date(),
+      completedAt: payload.completedAt ?? new Date(),
       durationSeconds,
+      abilityEstimate,
       metadata: buildMetadata(payload.metadata, {
         xpTransactionId,
         timeLimitExceeded,
         timeLimitSeconds: timeLimitSeconds ?? null,
         timeSpentSeconds: submittedTime ?? null,
+        masteryBefore: masteryChange?.before ?? null,
+        masteryAfter: masteryChange?.after ?? null,
+        masteryConfidence: masteryChange?.confidence ?? null,
       }),
     },
   });
+  // The streak reads completed attempts, so it only sees this one after the update above.
+  if (!timeLimitExceeded) {
+    await recordQuizStreak(userId);
+  }
 
-  const response: { attempt: ReturnType<typeof mapLearnerQuizAttemptDto> | null; message?: string } = {
+  const response: QuizSubmitResult = {
     attempt: await getQuizAttempt(attemptId, userId),
   };
   if (timeLimitExceeded) {
@@ -322,102 +708,174 @@ export const submitQuizAttempt = async (
   return response;
 };
 
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+const replayOfflineQuizAttempt = async (
+  userId: number,
+  item: OfflineQuizAttempt,
+  hasPremiumAccess: boolean,
+): Promise<OfflineSyncResult> => {
+  const { clientId } = item;
+  try {
+    let attempt = await prisma.quizAttemptV2.findUnique({ where: { clientId } });
+    if (attempt && (attempt.userId !== userId || attempt.quizId !== item.quizId)) {
+      return { clientId, status: "rejected", attemptId: null, message: "Client id belongs to another attempt" };
+    }
+    if (attempt && attempt.status !== "in_progress") {
+      return { clientId, status: "duplicate", attemptId: attempt.id, attempt: await getQuizAttempt(attempt.id, userId) };
+    }
+
+    const context = await getQuizQuestions(item.quizId);
+    if (!context) {
+      return { clientId, status: "rejected", attemptId: attempt?.id ?? null, message: "Quiz not found or inactive" };
+    }
+    if (context.quiz.isPremium && !hasPremiumAccess) {
+      return { clientId, status: "rejected", attemptId: attempt?.id ?? null, message: premiumRequiredError().message };
+    }
+    // A previous sync may have stopped between creating and grading the attempt; finish that one.
+    if (!attempt) {
+      attempt = await prisma.quizAttemptV2.create({
+        data: {
+          quizId: item.quizId,
+          userId,
+          clientId,
+          totalQuestions: context.questions.length,
+          status: "in_progress",
+          startedAt: item.startedAt ?? item.completedAt,
+        },
+      });
+    }
+
+    const result = await submitQuizAttempt(userId, attempt.id, {
+      responses: item.responses,
+      durationSeconds: item.durationSeconds,
+      timeSpentSeconds: item.timeSpentSeconds,
+      completedAt: item.completedAt,
+      metadata: { offline: true },
+    });
+    return {
+      clientId,
+      status: result.duplicate ? "duplicate" : "synced",
+      attemptId: attempt.id,
+      attempt: result.attempt,
+      ...(result.message ? { message: result.message } : {}),
+    };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      // Another request replayed the same attempt first.
+      return { clientId, status: "duplicate", attemptId: null };
+    }
+    const message = error instanceof Error ? error.message : "Unable to sync attempt";
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    return { clientId, status: statusCode === 400 ? "rejected" : "failed", attemptId: null, message };
+  }
+};
+
+/**
+ * Replays quiz attempts taken offline. Items are graded oldest first so XP, streak and mastery
+ * are applied in the order the learner earned them. Client ids make the call idempotent: an
+ * attempt that was already synced is reported as a duplicate instead of being scored again.
+ */
+export const syncOfflineQuizAttempts = async (
+  userId: number,
+  items: OfflineQuizAttempt[],
+  hasPremiumAccess = false,
+) => {
+  // Device clocks drift; never record an attempt as finished in the future.
+  const now = new Date();
+  const ordered = items
+    .map((item) => (item.completedAt > now ? { ...item, completedAt: now } : item))
+    .sort((left, right) => left.completedAt.getTime() - right.completedAt.getTime());
+  const results: OfflineSyncResult[] = [];
+  for (const item of ordered) {
+    results.push(await replayOfflineQuizAttempt(userId, item, hasPremiumAccess));
+  }
+  return results;
+};
+
+type PracticeTestSubmitResult = {
+  attempt: ReturnType<typeof mapLearnerPracticeTestAttemptDto> | null;
+  message?: string;
+};
+
 export const submitPracticeTestAttempt = async (
   userId: number,
   attemptId: number,
   payload: SubmitPayload,
-): Promise<{
-  attempt: ReturnType<typeof mapLearnerPracticeTestAttemptDto> | null;
-  message?: string;
-}> => {
+): Promise<PracticeTestSubmitResult> => {
   const attempt = await prisma.practiceTestAttemptV2.findUnique({
     where: { id: attemptId },
   });
   if (!attempt || attempt.userId !== userId) {
     throw new Error("Attempt not found");
   }
-  if (attempt.status === "completed") {
-    return { attempt: await getPracticeTestAttempt(attemptId, userId) };
-  }
+  const result =
+    attempt.status === "in_progress"
+      ? await gradeClaimedAttempt("practice", attemptId, () => gradePracticeTestAttempt(attemptId, payload))
+      : null;
+  return result ?? { attempt: await getPracticeTestAttempt(attemptId, userId) };
+};
 
-  const context = await getPracticeTestQuestions(attempt.practiceTestId);
+const gradePracticeTestAttempt = async (
+  attemptId: number,
+  payload: SubmitPayload,
+): Promise<PracticeTestSubmitResult> => {
+  const attempt = await prisma.practiceTestAttemptV2.findUniqueOrThrow({ where: { id: attemptId } });
+  const { userId } = attempt;
+  const context = await getPracticeTestAttemptQuestions(attempt);
   if (!context) {
     throw new Error("Practice test not available");
   }
 
-  const validQuestionIds = new Set(context.questions.map((entry) => entry.questionId));
-  payload.responses.forEach((response) => {
-    if (!validQuestionIds.has(response.questionId)) {
-      const error = new Error("Invalid question submission: question does not belong to this quiz.");
-      (error as { statusCode?: number }).statusCode = 400;
-      throw error;
-    }
-  });
+  assertQuestionsBelong(new Set(context.questions.map((entry) => entry.questionId)), payload.responses);
 
-  const submittedTime = payload.timeSpentSeconds ?? payload.durationSeconds ?? null;
+  const now = new Date();
+  const isExam = attempt.mode === "exam";
+  // Exams are timed by the server: late submissions are finalized from the last autosave
+  // and the duration comes from our own clock instead of the client's.
+  const autoFinalized = isPastDeadline(attempt.deadlineAt, now);
+  const serverDurationSeconds = Math.max(
+    0,
+    Math.round(
+      (Math.min(now.getTime(), attempt.deadlineAt?.getTime() ?? now.getTime()) - attempt.startedAt.getTime()) / 1000,
+    ),
+  );
+
+  const submittedTime = isExam
+    ? serverDurationSeconds
+    : (payload.timeSpentSeconds ?? payload.durationSeconds ?? null);
   const timeLimitSeconds =
     (context.practiceTest as { timeLimitSeconds?: number | null })?.timeLimitSeconds ??
     (context.practiceTest as { timeLimit?: number | null })?.timeLimit ??
     (context.practiceTest.durationMinutes ? context.practiceTest.durationMinutes * 60 : null);
   const timeLimitExceeded =
+    !isExam &&
     typeof timeLimitSeconds === "number" &&
     timeLimitSeconds > 0 &&
     typeof submittedTime === "number" &&
     submittedTime > timeLimitSeconds;
 
-  const responseMap = new Map(payload.responses.map((entry) => [entry.questionId, entry]));
-  let rows: Array<{
-    questionId: number;
-    isCorrect: boolean;
-    selectedOption: string | null;
-    selectedOptions: string[] | null;
-    topicId?: number | null;
-  }> = [];
-  let correct = 0;
-
-  context.questions.forEach((entry) => {
-    const questionId = entry.questionId;
-    const question = entry.Question;
-    const response = responseMap.get(questionId);
-    const evaluation = evaluateResponse(
-      {
-        id: questionId,
-        questionType: question?.questionType ?? QuestionType.MULTIPLE_CHOICE,
-        correctOption: question?.correctOption ?? null,
-        correctAnswers: question?.correctAnswers ?? null,
-      },
-      response,
-    );
-    if (evaluation.isCorrect) {
-      correct += 1;
-    }
-    rows.push({
-      questionId,
-      isCorrect: evaluation.isCorrect,
-      selectedOption: evaluation.selectedOption,
-      selectedOptions: evaluation.selectedOptions,
-      topicId: question?.Topic?.id,
-    });
-  });
-
-  if (timeLimitExceeded) {
-    rows = rows.map((row) => ({ ...row, isCorrect: false }));
-    correct = 0;
-  }
+  const responses = mergeResponses(
+    parseDraftResponses(attempt.draftResponses),
+    autoFinalized ? [] : payload.responses,
+  );
+  const graded = gradeQuestions(context.questions, responses, context.practiceTest.negativeMarking);
+  const rows = timeLimitExceeded ? forfeitGrades(graded) : graded;
+  const { correct, pointsEarned, pointsPossible, scorePercentage } = summarizeGrades(rows);
 
   await prisma.questionAttemptV2.deleteMany({
     where: { practiceTestAttemptId: attemptId },
   });
-  await persistQuestionAttempts({
+  const masteryChange = await persistQuestionAttempts({
     attemptId,
     userId,
     rows,
-    isQuiz: false,
+    kind: "practice",
     applyMastery: !timeLimitExceeded,
   });
 
   const totalQuestions = rows.length || attempt.totalQuestions || 0;
-  const scorePercentage = totalQuestions === 0 ? 0 : Math.round((correct / totalQuestions) * 100);
   const baseXpReward = context.practiceTest.xpReward ?? 0;
   let xpAwarded = timeLimitExceeded ? 0 : baseXpReward;
   let xpTransactionId: number | null = null;
@@ -428,7 +886,6 @@ export const submitPracticeTestAttempt = async (
       xpReward: xpAwarded,
     });
     xpTransactionId = xpResult.transactionId ?? null;
-    await recordPracticeTestStreak(userId);
   }
 
   await prisma.practiceTestAttemptV2.update({
@@ -438,30 +895,163 @@ export const submitPracticeTestAttempt = async (
       score: timeLimitExceeded ? 0 : scorePercentage,
       correctCount: correct,
       incorrectCount: totalQuestions - correct,
+      pointsEarned: timeLimitExceeded ? 0 : pointsEarned,
+      pointsPossible,
       xpAwarded,
-      completedAt: new Date(),
-      durationSeconds: payload.durationSeconds ?? null,
+      completedAt: now,
+      durationSeconds: isExam ? serverDurationSeconds : (payload.durationSeconds ?? null),
       metadata: buildMetadata(payload.metadata, {
         xpTransactionId,
         timeLimitExceeded,
+        autoFinalized,
         timeLimitSeconds: timeLimitSeconds ?? null,
         timeSpentSeconds: submittedTime ?? null,
+        masteryBefore: masteryChange?.before ?? null,
+        masteryAfter: masteryChange?.after ?? null,
+        masteryConfidence: masteryChange?.confidence ?? null,
       }),
     },
   });
+  if (!timeLimitExceeded && xpAwarded > 0) {
+    await recordPracticeTestStreak(userId);
+  }
 
-  const response: {
-    attempt: ReturnType<typeof mapLearnerPracticeTestAttemptDto> | null;
-    message?: string;
-  } = {
+  const response: PracticeTestSubmitResult = {
     attempt: await getPracticeTestAttempt(attemptId, userId),
   };
   if (timeLimitExceeded) {
     response.message = "Time limit exceeded";
+  } else if (autoFinalized) {
+    response.message = "Exam time expired; answers saved before the deadline were graded";
   }
   return response;
 };
 
+const reviewError = (message: string, statusCode: number) => {
+  const error = new Error(message);
+  (error as { statusCode?: number }).statusCode = statusCode;
+  return error;
+};
+
+/**
+ * Starts (or resumes) a "review my mistakes" session. The question set is fixed when the session
+ * starts, so answering it elsewhere in the meantime does not reshuffle what the learner sees.
+ */
+export const startReviewAttempt = async (
+  userId: number,
+  options: { topicId?: number | undefined; size: number; hasPremiumAccess: boolean },
+) => {
+  const topicId = options.topicId ?? null;
+  const existing = await prisma.reviewAttemptV2.findFirst({
+    where: { userId, topicId, status: "in_progress" },
+    orderBy: { startedAt: "desc" },
+  });
+  if (existing) {
+    const metadata = existing.metadata as Record<string, Prisma.JsonValue> | null;
+    return {
+      attempt: existing,
+      questions: await getReviewAttemptQuestions(existing),
+      mistakeQuestionIds: parseQuestionIds(metadata?.mistakeQuestionIds ?? null),
+      resumed: true,
+    };
+  }
+
+  const { questionIds, mistakeIds } = await buildReviewQuestionSet({
+    userId,
+    hasPremiumAccess: options.hasPremiumAccess,
+    topicId: options.topicId,
+    size: options.size,
+  });
+  if (!mistakeIds.length) {
+    throw reviewError("No mistakes to review yet", 404);
+  }
+
+  const attempt = await prisma.reviewAttemptV2.create({
+    data: {
+      userId,
+      topicId,
+      questionIds,
+      totalQuestions: questionIds.length,
+      status: "in_progress",
+      metadata: { mistakeQuestionIds: mistakeIds },
+    },
+  });
+  return {
+    attempt,
+    questions: await getReviewAttemptQuestions(attempt),
+    mistakeQuestionIds: mistakeIds,
+    resumed: false,
+  };
+};
+
+/**
+ * Grades a review session through the same pipeline as a quiz. Mistakes answered correctly
+ * often enough in a row since the miss are reported as retired.
+ */
+type ReviewSubmitResult = { attempt: ReturnType<typeof mapLearnerReviewAttemptDto> | null };
+
+export const submitReviewAttempt = async (
+  userId: number,
+  attemptId: number,
+  payload: SubmitPayload,
+): Promise<ReviewSubmitResult> => {
+  const attempt = await prisma.reviewAttemptV2.findUnique({ where: { id: attemptId } });
+  if (!attempt || attempt.userId !== userId) {
+    throw new Error("Attempt not found");
+  }
+  const result =
+    attempt.status === "in_progress"
+      ? await gradeClaimedAttempt("review", attemptId, () => gradeReviewAttempt(attemptId, payload))
+      : null;
+  return result ?? { attempt: await getReviewAttempt(attemptId, userId) };
+};
+
+const gradeReviewAttempt = async (attemptId: number, payload: SubmitPayload): Promise<ReviewSubmitResult> => {
+  const attempt = await prisma.reviewAttemptV2.findUniqueOrThrow({ where: { id: attemptId } });
+  const { userId } = attempt;
+  const questions = await getReviewAttemptQuestions(attempt);
+  assertQuestionsBelong(new Set(questions.map((entry) => entry.questionId)), payload.responses);
+
+  const responses = mergeResponses(parseDraftResponses(attempt.draftResponses), payload.responses);
+  const rows = gradeQuestions(questions, responses);
+  const { correct, pointsEarned, pointsPossible, scorePercentage } = summarizeGrades(rows);
+
+  await prisma.questionAttemptV2.deleteMany({ where: { reviewAttemptId: attemptId } });
+  const masteryChange = await persistQuestionAttempts({ attemptId, userId, rows, kind: "review" });
+
+  const metadata = (attempt.metadata ?? {}) as Record<string, unknown>;
+  const mistakeIds = Array.isArray(metadata.mistakeQuestionIds) ? (metadata.mistakeQuestionIds as number[]) : [];
+  const stillOpen = new Set((await listOpenMistakes(userId)).map((mistake) => mistake.questionId));
+  const retiredQuestionIds = mistakeIds.filter((questionId) => !stillOpen.has(questionId));
+
+  const xpResult = await recordReviewXp({ userId, reviewAttemptId: attemptId, scorePercentage });
+
+  await prisma.reviewAttemptV2.update({
+    where: { id: attemptId },
+    data: {
+      status: "completed",
+      score: scorePercentage,
+      correctCount: correct,
+      incorrectCount: rows.length - correct,
+      pointsEarned,
+      pointsPossible,
+      xpAwarded: xpResult.xpAwarded,
+      completedAt: new Date(),
+      durationSeconds: payload.durationSeconds ?? null,
+      metadata: buildMetadata({ ...(payload.metadata ?? {}), ...metadata }, {
+        xpTransactionId: xpResult.transactionId,
+        retiredQuestionIds,
+        masteryBefore: masteryChange?.before ?? null,
+        masteryAfter: masteryChange?.after ?? null,
+        masteryConfidence: masteryChange?.confidence ?? null,
+      }),
+    },
+  });
+  await recordQuizStreak(userId);
+
+  return { attempt: await getReviewAttempt(attemptId, userId) };
+};
+
 export const getQuizAttempt = async (attemptId: number, userId: number) => {
   const attempt = await prisma.quizAttemptV2.findFirst({
     where: { id: attemptId, userId },
@@ -469,6 +1059,7 @@ export const getQuizAttempt = async (attemptId: number, userId: number) => {
       QuestionAttempts: {
         include: {
           Question: true,
+          Revision: true,
         },
       },
     },
@@ -486,6 +1077,7 @@ export const getPracticeTestAttempt = async (attemptId: number, userId: number)
       QuestionAttempts: {
         include: {
           Question: true,
+          Revision: true,
         },
       },
     },
@@ -496,8 +1088,26 @@ export const getPracticeTestAttempt = async (attemptId: number, userId: number)
   return mapLearnerPracticeTestAttemptDto(attempt);
 };
 
+export const getReviewAttempt = async (attemptId: number, userId: number) => {
+  const attempt = await prisma.reviewAttemptV2.findFirst({
+    where: { id: attemptId, userId },
+    include: {
+      QuestionAttempts: {
+        include: {
+          Question: true,
+          Revision: true,
+        },
+      },
+    },
+  });
+  if (!attempt) {
+    return null;
+  }
+  return mapLearnerReviewAttemptDto(attempt);
+};
+
 export const listAttempts = async (userId: number, limit = 20) => {
-  const [quizAttempts, practiceAttempts] = await Promise.all([
+  const [quizAttempts, practiceAttempts, reviewAttempts] = await Promise.all([
     prisma.quizAttemptV2.findMany({
       where: { userId },
       orderBy: { createdAt: "desc" },
@@ -506,6 +1116,7 @@ export const listAttempts = async (userId: number, limit = 20) => {
         QuestionAttempts: {
           include: {
             Question: true,
+            Revision: true,
           },
         },
       },
@@ -518,6 +1129,20 @@ export const listAttempts = async (userId: number, limit = 20) => {
         QuestionAttempts: {
           include: {
             Question: true,
+            Revision: true,
+          },
+        },
+      },
+    }),
+    prisma.reviewAttemptV2.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: {
+        QuestionAttempts: {
+          include: {
+            Question: true,
+            Revision: true,
           },
         },
       },
@@ -527,5 +1152,6 @@ export const listAttempts = async (userId: number, limit = 20) => {
   return {
     quizAttempts: quizAttempts.map((attempt) => mapLearnerQuizAttemptDto(attempt)),
     practiceTestAttempts: practiceAttempts.map((attempt) => mapLearnerPracticeTestAttemptDto(attempt)),
+    reviewAttempts: reviewAttempts.map((attempt) => mapLearnerReviewAttemptDto(attempt)),
   };
 };
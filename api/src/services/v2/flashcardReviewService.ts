@@ -0,0 +1,156 @@
+import { Flashcard, FlashcardReview, Prisma } from "@prisma/client";
+import prisma from "../../config/db";
+import { recordTopicMastery } from "./masteryService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const DEFAULT_EASE_FACTOR = 2.5;
+const PASSING_GRADE = 3;
+
+export const MAX_RECALL_GRADE = 5;
+
+type ReviewState = Pick<FlashcardReview, "easeFactor" | "intervalDays" | "repetitions" | "lapses">;
+
+type ScheduledReview = ReviewState & {
+  dueAt: Date;
+};
+
+type DueFlashcardFilters = {
+  userId: number;
+  topicId?: number | undefined;
+  language?: string | undefined;
+  limit: number;
+  includeNew: boolean;
+  includePremium: boolean;
+};
+
+export type DueFlashcard = {
+  flashcard: Flashcard;
+  review: FlashcardReview | null;
+};
+
+const initialState: ReviewState = {
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+/**
+ * SM-2 scheduling: grades 0-5, anything below 3 is a lapse that sends the card back
+ * into a short relearning step while the ease factor drops towards its floor.
+ */
+export const scheduleReview = (state: ReviewState | null, grade: number, now = new Date()): ScheduledReview => {
+  const current = state ?? initialState;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + (0.1 - (MAX_RECALL_GRADE - grade) * (0.08 + (MAX_RECALL_GRADE - grade) * 0.02)),
+  );
+
+  if (grade < PASSING_GRADE) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: current.repetitions > 0 ? current.lapses + 1 : current.lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  const repetitions = current.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.max(1, Math.round(current.intervalDays * current.easeFactor));
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: current.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+};
+
+export const recordFlashcardReview = async (userId: number, flashcard: Flashcard, grade: number) => {
+  const now = new Date();
+
+  // A double tap or retried request grades the same card twice; each grade must build on the other's
+  // schedule, so the review row is created if missing and locked before it is read.
+  const review = await prisma.$transaction(async (tx) => {
+    await tx.flashcardReview.createMany({ data: [{ userId, flashcardId: flashcard.id }], skipDuplicates: true });
+    await tx.$queryRaw`
+      SELECT id FROM "FlashcardReview" WHERE "userId" = ${userId} AND "flashcardId" = ${flashcard.id} FOR UPDATE
+    `;
+    const existing = await tx.flashcardReview.findUniqueOrThrow({
+      where: { userId_flashcardId: { userId, flashcardId: flashcard.id } },
+    });
+    return tx.flashcardReview.update({
+      where: { id: existing.id },
+      data: { ...scheduleReview(existing, grade, now), lastGrade: grade, lastReviewedAt: now },
+    });
+  });
+
+  await recordTopicMastery({
+    userId,
+    topicId: flashcard.topic_id,
+    observations: [{ isCorrect: grade >= PASSING_GRADE, credit: grade / MAX_RECALL_GRADE, difficulty: 0, at: now }],
+  });
+
+  return review;
+};
+
+export const listDueFlashcards = async ({
+  userId,
+  topicId,
+  language,
+  limit,
+  includeNew,
+  includePremium,
+}: DueFlashcardFilters): Promise<DueFlashcard[]> => {
+  const flashcardWhere: Prisma.FlashcardWhereInput = includePremium ? {} : { is_premium: false };
+  if (topicId) {
+    flashcardWhere.topic_id = topicId;
+  }
+  if (language) {
+    flashcardWhere.language = { equals: language, mode: "insensitive" };
+  }
+
+  const dueReviews = await prisma.flashcardReview.findMany({
+    where: {
+      userId,
+      dueAt: { lte: new Date() },
+      Flashcard: flashcardWhere,
+    },
+    include: { Flashcard: true },
+    orderBy: [{ dueAt: "asc" }, { id: "asc" }],
+    take: limit,
+  });
+
+  const items: DueFlashcard[] = dueReviews.map(({ Flashcard: flashcard, ...review }) => ({
+    flashcard,
+    review,
+  }));
+
+  const remaining = limit - items.length;
+  if (!includeNew || remaining <= 0) {
+    return items;
+  }
+
+  // Cards the learner has never reviewed are due immediately and queue behind overdue reviews.
+  const unseen = await prisma.flashcard.findMany({
+    where: {
+      ...flashcardWhere,
+      reviews: { none: { userId } },
+    },
+    orderBy: [{ created_at: "asc" }, { id: "asc" }],
+    take: remaining,
+  });
+
+  return [...items, ...unseen.map((flashcard) => ({ flashcard, review: null }))];
+};
@@ -0,0 +1,268 @@
+import { Difficulty, Prisma } from "@prisma/client";
+import prisma from "../../config/db";
+
+// Authored labels placed on the logit scale used by the Rasch model.
+export const AUTHORED_ITEM_DIFFICULTY: Record<Difficulty, number> = {
+  [Difficulty.EASY]: -1,
+  [Difficulty.MEDIUM]: 0,
+  [Difficulty.HARD]: 1,
+};
+
+// Items with fewer scored responses than this keep their authored difficulty.
+export const MIN_CALIBRATION_RESPONSES = 30;
+
+const LOGIT_LIMIT = 4;
+const CALIBRATION_ITERATIONS = 25;
+const WRITE_BATCH_SIZE = 200;
+
+const clampLogit = (value: number) => Math.min(LOGIT_LIMIT, Math.max(-LOGIT_LIMIT, value));
+
+const roundLogit = (value: number) => Math.round(value * 1000) / 1000;
+
+export const probabilityCorrect = (ability: number, difficulty: number) =>
+  1 / (1 + Math.exp(difficulty - ability));
+
+export const resolveItemDifficulty = (item: { difficulty: Difficulty; calibratedDifficulty?: number | null }) =>
+  item.calibratedDifficulty ?? AUTHORED_ITEM_DIFFICULTY[item.difficulty];
+
+export type AbilityObservation = {
+  difficulty: number;
+  // Share of the question's points earned, between 0 and 1.
+  credit: number;
+};
+
+/**
+ * Rasch ability estimate with a unit normal prior centred on `prior`. The prior keeps the
+ * estimate finite when every answer so far is right (or wrong) and pulls short attempts
+ * towards what we already knew about the learner.
+ */
+export const estimateAbility = (observations: AbilityObservation[], prior = 0) => {
+  let ability = prior;
+  for (let step = 0; step < CALIBRATION_ITERATIONS; step += 1) {
+    let gradient = prior - ability;
+    let information = 1;
+    observations.forEach((observation) => {
+      const probability = probabilityCorrect(ability, observation.difficulty);
+      gradient += observation.credit - probability;
+      information += probability * (1 - probability);
+    });
+    const delta = gradient / information;
+    ability = clampLogit(ability + delta);
+    if (Math.abs(delta) < 1e-4) {
+      break;
+    }
+  }
+  return roundLogit(ability);
+};
+
+/**
+ * Picks the candidate whose difficulty is closest to the learner's ability, which is where a
+ * Rasch item carries the most information. Ties keep the authored order.
+ */
+export const selectNextItem = <T extends { difficulty: number }>(candidates: T[], ability: number) =>
+  candidates.reduce<T | null>(
+    (best, candidate) =>
+      !best || Math.abs(candidate.difficulty - ability) < Math.abs(best.difficulty - ability) ? candidate : best,
+    null,
+  );
+
+// Every scored answer a learner gave to one item, summed. The Rasch gradient and information
+// are linear in the responses, so a pair carries everything a per-row pass would.
+type ResponsePair = { userId: number; questionId: number; responses: number; credit: number };
+
+type NewtonStats = { gradient: number; information: number };
+
+const accumulate = (stats: Map<number, NewtonStats>, key: number, gradient: number, information: number) => {
+  const current = stats.get(key) ?? { gradient: 0, information: 0 };
+  current.gradient += gradient;
+  current.information += information;
+  stats.set(key, current);
+};
+
+export const toCredit = (row: { isCorrect: boolean; pointsEarned: number; pointsPossible: number }) => {
+  if (row.pointsPossible > 0) {
+    return Math.min(1, Math.max(0, row.pointsEarned / row.pointsPossible));
+  }
+  return row.isCorrect ? 1 : 0;
+};
+
+const PAIR_PAGE_SIZE = 5000;
+
+/**
+ * Sums answered, non-review responses per (learner, item) in SQL, one keyed page at a time, so
+ * the calibration never holds raw attempt rows. Credit mirrors `toCredit`.
+ */
+const loadResponsePairs = async () => {
+  const pairs: ResponsePair[] = [];
+  let after = { userId: 0, questionId: 0 };
+  for (;;) {
+    const page = await prisma.$queryRaw<ResponsePair[]>`
+      SELECT "userId", "questionId", COUNT(*)::int AS responses,
+        SUM(CASE
+          WHEN "pointsPossible" > 0 THEN LEAST(1, GREATEST(0, "pointsEarned" / "pointsPossible"))
+          WHEN "isCorrect" THEN 1
+          ELSE 0
+        END)::float8 AS credit
+      FROM "QuestionAttemptV2"
+      WHERE "reviewAttemptId" IS NULL
+        AND ("userId", "questionId") > (${after.userId}, ${after.questionId})
+        AND (
+          btrim(COALESCE("selectedOption", '')) <> ''
+          OR (jsonb_typeof("selectedOptions") = 'array' AND jsonb_array_length("selectedOptions") > 0)
+        )
+      GROUP BY "userId", "questionId"
+      ORDER BY "userId", "questionId"
+      LIMIT ${PAIR_PAGE_SIZE}
+    `;
+    pairs.push(...page);
+    const last = page[page.length - 1];
+    if (!last || page.length < PAIR_PAGE_SIZE) {
+      return pairs;
+    }
+    after = { userId: last.userId, questionId: last.questionId };
+  }
+};
+
+const runInBatches = async <T>(items: T[], write: (item: T) => Prisma.PrismaPromise<unknown>) => {
+  for (let index = 0; index < items.length; index += WRITE_BATCH_SIZE) {
+    await prisma.$transaction(items.slice(index, index + WRITE_BATCH_SIZE).map(write));
+  }
+};
+
+export type CalibrationSummary = {
+  responses: number;
+  items: number;
+  calibratedItems: number;
+  learners: number;
+  calibratedAt: Date;
+};
+
+/**
+ * Re-estimates item difficulty and learner ability from answered QuestionAttemptV2 rows with
+ * joint maximum likelihood. Items below the response threshold stay fixed at their authored
+ * difficulty and anchor the scale; calibrated items are also pulled gently towards their label.
+ * Skipped questions are ignored so running out of time does not make an item look harder, and
+ * mistake reviews are left out because they re-ask items the learner has already seen answered.
+ */
+export const calibrateItems = async (minResponses = MIN_CALIBRATION_RESPONSES): Promise<CalibrationSummary> => {
+  const [questions, allPairs] = await Promise.all([
+    prisma.questionBank.findMany({ select: { id: true, difficulty: true } }),
+    loadResponsePairs(),
+  ]);
+
+  const authored = new Map(questions.map((question) => [question.id, AUTHORED_ITEM_DIFFICULTY[question.difficulty]]));
+  const pairs = allPairs.filter((pair) => authored.has(pair.questionId));
+
+  const itemCounts = new Map<number, number>();
+  const learnerCounts = new Map<number, number>();
+  pairs.forEach((pair) => {
+    itemCounts.set(pair.questionId, (itemCounts.get(pair.questionId) ?? 0) + pair.responses);
+    learnerCounts.set(pair.userId, (learnerCounts.get(pair.userId) ?? 0) + pair.responses);
+  });
+  const calibrating = new Set(
+    Array.from(itemCounts.entries())
+      .filter(([, count]) => count >= minResponses)
+      .map(([questionId]) => questionId),
+  );
+
+  const difficulties = new Map(authored);
+  const abilities = new Map(Array.from(learnerCounts.keys()).map((userId) => [userId, 0]));
+  for (let iteration = 0; iteration < CALIBRATION_ITERATIONS; iteration += 1) {
+    const learnerStats = new Map<number, NewtonStats>();
+    const itemStats = new Map<number, NewtonStats>();
+    pairs.forEach((pair) => {
+      const probability = probabilityCorrect(abilities.get(pair.userId) ?? 0, difficulties.get(pair.questionId) ?? 0);
+      const expected = pair.responses * probability;
+      const information = expected * (1 - probability);
+      accumulate(learnerStats, pair.userId, pair.credit - expected, information);
+      if (calibrating.has(pair.questionId)) {
+        accumulate(itemStats, pair.questionId, expected - pair.credit, information);
+      }
+    });
+
+    // One Newton step per parameter, each with a unit normal prior (0 for learners, the label for items).
+    learnerStats.forEach((stats, userId) => {
+      const current = abilities.get(userId) ?? 0;
+      abilities.set(userId, clampLogit(current + (stats.gradient - current) / (stats.information + 1)));
+    });
+    itemStats.forEach((stats, questionId) => {
+      const current = difficulties.get(questionId) ?? 0;
+      const anchor = authored.get(questionId) ?? 0;
+      difficulties.set(
+        questionId,
+        clampLogit(current + (stats.gradient + anchor - current) / (stats.information + 1)),
+      );
+    });
+  }
+
+  const calibratedAt = new Date();
+  await prisma.questionBank.updateMany({
+    where: { id: { notIn: Array.from(itemCounts.keys()) } },
+    data: { calibratedDifficulty: null, calibrationResponses: 0, calibratedAt },
+  });
+  await runInBatches(Array.from(itemCounts.entries()), ([questionId, count]) =>
+    prisma.questionBank.update({
+      where: { id: questionId },
+      data: {
+        calibratedDifficulty: calibrating.has(questionId) ? roundLogit(difficulties.get(questionId) ?? 0) : null,
+        calibrationResponses: count,
+        calibratedAt,
+      },
+    }),
+  );
+  await runInBatches(Array.from(abilities.entries()), ([userId, ability]) => {
+    const data = { ability: roundLogit(ability), responseCount: learnerCounts.get(userId) ?? 0, calibratedAt };
+    return prisma.learnerAbility.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+  });
+
+  return {
+    responses: Array.from(itemCounts.values()).reduce((sum, count) => sum + count, 0),
+    items: itemCounts.size,
+    calibratedItems: calibrating.size,
+    learners: abilities.size,
+    calibratedAt,
+  };
+};
+
+let runningCalibration: Promise<CalibrationSummary> | null = null;
+
+/**
+ * Starts the same run as `jobs/calibrateItems.ts` without waiting for it, so an admin request
+ * returns at once. Returns false while a run is already in flight.
+ */
+export const startItemCalibration = (onFinish: (summary: CalibrationSummary) => Promise<unknown>) => {
+  if (runningCalibration) {
+    return false;
+  }
+  runningCalibration = calibrateItems();
+  runningCalibration
+    .then(onFinish)
+    .catch((error) => {
+      console.error("Failed to calibrate items", error);
+    })
+    .finally(() => {
+      runningCalibration = null;
+    });
+  return true;
+};
+
+export const getLearnerAbility = async (userId: number) => {
+  const record = await prisma.learnerAbility.findUnique({ where: { userId } });
+  return record?.ability ?? 0;
+};
+
+/**
+ * Folds a finished adaptive attempt into the learner's stored ability so the next adaptive
+ * quiz starts from a better guess. The next calibration run replaces it with a full re-fit.
+ */
+export const recordLearnerAbility = async (userId: number, ability: number, responseCount: number) => {
+  await prisma.learnerAbility.upsert({
+    where: { userId },
+    update: { ability, responseCount: { increment: responseCount } },
+    create: { userId, ability, responseCount },
+  });
+};
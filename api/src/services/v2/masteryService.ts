@@ -1,40 +1,320 @@
+import { Prisma } from "@prisma/client";
 import prisma from "../../config/db";
+import {
+  decayMasteryState,
+  emptyMasteryState,
+  MasteryState,
+  summarizeMastery,
+} from "../../utils/masteryModel";
+import { probabilityCorrect, resolveItemDifficulty, toCredit } from "./itemCalibrationService";
+
+export type MasteryObservation = {
+  isCorrect: boolean;
+  // Share of the question's points earned, between 0 and 1.
+  credit: number;
+  // Item difficulty on the Rasch logit scale.
+  difficulty: number;
+  at: Date;
+};
+
+export type MasteryResponse = {
+  questionId: number;
+  topicId?: number | null;
+  isCorrect: boolean;
+  pointsEarned: number;
+  pointsPossible: number;
+};
+
+export type MasteryChange = {
+  before: number;
+  after: number;
+  confidence: number;
+};
+
+/**
+ * Folds one answer into the evidence after forgetting up to the moment it was given. Answers are
+ * weighed against what a learner of average ability would score, so a correct hard item or a
+ * missed easy item moves mastery further than the reverse.
+ */
+export const applyObservation = (state: MasteryState, observation: MasteryObservation): MasteryState => {
+  const decayed = decayMasteryState(state, observation.at);
+  const expected = probabilityCorrect(0, observation.difficulty);
+  return {
+    successEvidence: decayed.successEvidence + observation.credit * 2 * (1 - expected),
+    failureEvidence: decayed.failureEvidence + (1 - observation.credit) * 2 * expected,
+    lastPracticedAt:
+      !state.lastPracticedAt || observation.at > state.lastPracticedAt ? observation.at : state.lastPracticedAt,
+  };
+};
+
+const foldObservations = (state: MasteryState, observations: MasteryObservation[]) =>
+  observations.reduce(applyObservation, state);
+
+const toStoredMastery = (state: MasteryState) => {
+  const { mastery, confidence } = summarizeMastery(state);
+  return {
+    successEvidence: state.successEvidence,
+    failureEvidence: state.failureEvidence,
+    lastPracticedAt: state.lastPracticedAt,
+    masteryScore: mastery,
+    confidence,
+  };
+};
+
+const toTally = (
+  existing: { correctAttempts: number; totalAttempts: number } | null,
+  observations: MasteryObservation[],
+) => {
+  const totalAttempts = (existing?.totalAttempts ?? 0) + observations.length;
+  const correctAttempts =
+    (existing?.correctAttempts ?? 0) + observations.filter((observation) => observation.isCorrect).length;
+  return {
+    correctAttempts,
+    totalAttempts,
+    accuracy: totalAttempts === 0 ? 0 : Math.round((correctAttempts / totalAttempts) * 100),
+  };
+};
 
 type MasteryUpdatePayload = {
   userId: number;
   topicId: number;
-  isCorrect: boolean;
+  observations: MasteryObservation[];
 };
 
-export const recordTopicMastery = async ({ userId, topicId, isCorrect }: MasteryUpdatePayload) => {
-  const correctIncrement = isCorrect ? 1 : 0;
-  const mastery = await prisma.topicMastery.upsert({
+/**
+ * Updates a learner's topic model with answers in the order they were given. The lifetime
+ * correct/total tally is kept alongside for reporting.
+ */
+export const recordTopicMastery = async ({
+  userId,
+  topicId,
+  observations,
+}: MasteryUpdatePayload): Promise<MasteryChange> => {
+  const existing = await prisma.topicMastery.findUnique({ where: { userId_topicId: { userId, topicId } } });
+  const startedAt = observations[0]?.at ?? new Date();
+  const state = foldObservations(existing ?? emptyMasteryState, observations);
+  const stored = toStoredMastery(state);
+  const data = { ...toTally(existing, observations), ...stored };
+
+  await prisma.topicMastery.upsert({
+    where: { userId_topicId: { userId, topicId } },
+    update: data,
+    create: { userId, topicId, ...data },
+  });
+
+  return {
+    before: existing ? summarizeMastery(existing, startedAt).mastery : 0,
+    after: stored.masteryScore,
+    confidence: stored.confidence,
+  };
+};
+
+type ObjectiveMasteryResponse = {
+  questionId: number;
+  observation: MasteryObservation;
+};
+
+const groupObjectiveObservations = async (responses: ObjectiveMasteryResponse[]) => {
+  const tags = await prisma.questionObjective.findMany({
     where: {
-      userId_topicId: {
-        userId,
-        topicId,
-      },
-    },
-    update: {
-      totalAttempts: { increment: 1 },
-      correctAttempts: { increment: correctIncrement },
-    },
-    create: {
-      userId,
-      topicId,
-      totalAttempts: 1,
-      correctAttempts: correctIncrement,
-      accuracy: correctIncrement ? 100 : 0,
+      questionId: { in: Array.from(new Set(responses.map((response) => response.questionId))) },
+      Objective: { isActive: true },
     },
+    select: { questionId: true, objectiveId: true },
   });
 
-  const accuracy =
-    mastery.totalAttempts === 0 ? 0 : Math.round((mastery.correctAttempts / mastery.totalAttempts) * 100);
+  const grouped = new Map<number, MasteryObservation[]>();
+  for (const response of responses) {
+    for (const tag of tags) {
+      if (tag.questionId !== response.questionId) continue;
+      const entries = grouped.get(tag.objectiveId) ?? [];
+      entries.push(response.observation);
+      grouped.set(tag.objectiveId, entries);
+    }
+  }
+  return grouped;
+};
+
+/**
+ * Objective mastery uses the same model as topic mastery, fed by whichever objectives each
+ * answered question is tagged with. Untagged questions only count towards their topic.
+ */
+export const recordObjectiveMastery = async (userId: number, responses: ObjectiveMasteryResponse[]) => {
+  if (!responses.length) {
+    return;
+  }
+
+  const grouped = await groupObjectiveObservations(responses);
+  for (const [objectiveId, observations] of grouped) {
+    const existing = await prisma.objectiveMastery.findUnique({
+      where: { userId_objectiveId: { userId, objectiveId } },
+    });
+    const data = {
+      ...toTally(existing, observations),
+      ...toStoredMastery(foldObservations(existing ?? emptyMasteryState, observations)),
+    };
+    await prisma.objectiveMastery.upsert({
+      where: { userId_objectiveId: { userId, objectiveId } },
+      update: data,
+      create: { userId, objectiveId, ...data },
+    });
+  }
+};
 
-  await prisma.topicMastery.update({
-    where: { id: mastery.id },
-    data: { accuracy },
+const loadItemDifficulties = async (questionIds: number[]) => {
+  const questions = await prisma.questionBank.findMany({
+    where: { id: { in: Array.from(new Set(questionIds)) } },
+    select: { id: true, difficulty: true, calibratedDifficulty: true },
   });
+  return new Map(questions.map((question) => [question.id, resolveItemDifficulty(question)]));
+};
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Applies a graded attempt to topic and objective mastery. The returned change averages the
+ * touched topics, weighted by how many answers each one received, for the result screen.
+ */
+export const recordAttemptMastery = async (
+  userId: number,
+  responses: MasteryResponse[],
+  at = new Date(),
+): Promise<MasteryChange | null> => {
+  if (!responses.length) {
+    return null;
+  }
+
+  const difficulties = await loadItemDifficulties(responses.map((response) => response.questionId));
+  const observed = responses.map((response) => ({
+    questionId: response.questionId,
+    topicId: response.topicId ?? null,
+    observation: {
+      isCorrect: response.isCorrect,
+      credit: toCredit(response),
+      difficulty: difficulties.get(response.questionId) ?? 0,
+      at,
+    },
+  }));
+
+  const byTopic = new Map<number, MasteryObservation[]>();
+  observed.forEach((entry) => {
+    if (!entry.topicId) return;
+    const entries = byTopic.get(entry.topicId) ?? [];
+    entries.push(entry.observation);
+    byTopic.set(entry.topicId, entries);
+  });
+
+  const totals = { before: 0, after: 0, confidence: 0, weight: 0 };
+  for (const [topicId, observations] of byTopic) {
+    const change = await recordTopicMastery({ userId, topicId, observations });
+    totals.before += change.before * observations.length;
+    totals.after += change.after * observations.length;
+    totals.confidence += change.confidence * observations.length;
+    totals.weight += observations.length;
+  }
+  await recordObjectiveMastery(userId, observed);
+
+  if (!totals.weight) {
+    return null;
+  }
+  return {
+    before: round(totals.before / totals.weight, 2),
+    after: round(totals.after / totals.weight, 2),
+    confidence: round(totals.confidence / totals.weight, 3),
+  };
+};
+
+export const isForfeited = (metadata: Prisma.JsonValue | null | undefined) =>
+  Boolean(
+    metadata &&
+      typeof metadata === "object" &&
+      !Array.isArray(metadata) &&
+      (metadata as Record<string, unknown>).timeLimitExceeded === true,
+  );
+
+export type MasteryRebuildSummary = {
+  learners: number;
+  responses: number;
+  topics: number;
+  objectives: number;
+};
+
+/**
+ * Replays every learner's QuestionAttemptV2 history through the mastery model, oldest answer
+ * first, and overwrites the modelled fields. Attempts forfeited on time never counted towards
+ * mastery and are skipped here too. Lifetime tallies are left alone because they also include
+ * flashcard reviews, which keep no history to replay.
+ */
+export const rebuildMasteryFromHistory = async (): Promise<MasteryRebuildSummary> => {
+  const learners = await prisma.questionAttemptV2.groupBy({ by: ["userId"] });
+  const summary: MasteryRebuildSummary = { learners: 0, responses: 0, topics: 0, objectives: 0 };
+
+  for (const { userId } of learners) {
+    const rows = await prisma.questionAttemptV2.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      select: {
+        questionId: true,
+        isCorrect: true,
+        pointsEarned: true,
+        pointsPossible: true,
+        createdAt: true,
+        Question: { select: { topicId: true, difficulty: true, calibratedDifficulty: true } },
+        QuizAttempt: { select: { metadata: true } },
+        PracticeTestAttempt: { select: { metadata: true } },
+      },
+    });
+    const counted = rows.filter(
+      (row) => !isForfeited(row.QuizAttempt?.metadata) && !isForfeited(row.PracticeTestAttempt?.metadata),
+    );
+    if (!counted.length) continue;
+
+    const observed = counted.map((row) => ({
+      questionId: row.questionId,
+      topicId: row.Question.topicId,
+      observation: {
+        isCorrect: row.isCorrect,
+        credit: toCredit(row),
+        difficulty: resolveItemDifficulty(row.Question),
+        at: row.createdAt,
+      },
+    }));
+
+    const topicStates = new Map<number, { state: MasteryState; observations: MasteryObservation[] }>();
+    observed.forEach((entry) => {
+      const current = topicStates.get(entry.topicId) ?? { state: emptyMasteryState, observations: [] };
+      current.state = applyObservation(current.state, entry.observation);
+      current.observations.push(entry.observation);
+      topicStates.set(entry.topicId, current);
+    });
+    const objectiveObservations = await groupObjectiveObservations(observed);
+
+    await prisma.$transaction([
+      ...Array.from(topicStates.entries()).map(([topicId, { state, observations }]) =>
+        prisma.topicMastery.upsert({
+          where: { userId_topicId: { userId, topicId } },
+          update: toStoredMastery(state),
+          create: { userId, topicId, ...toTally(null, observations), ...toStoredMastery(state) },
+        }),
+      ),
+      ...Array.from(objectiveObservations.entries()).map(([objectiveId, observations]) => {
+        const stored = toStoredMastery(foldObservations(emptyMasteryState, observations));
+        return prisma.objectiveMastery.upsert({
+          where: { userId_objectiveId: { userId, objectiveId } },
+          update: stored,
+          create: { userId, objectiveId, ...toTally(null, observations), ...stored },
+        });
+      }),
+    ]);
+
+    summary.learners += 1;
+    summary.responses += counted.length;
+    summary.topics += topicStates.size;
+    summary.objectives += objectiveObservations.size;
+  }
 
-  return accuracy;
+  return summary;
 };
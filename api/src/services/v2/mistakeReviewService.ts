@@ -0,0 +1,182 @@
+import { Prisma, QuestionStatus, ReviewAttemptV2 } from "@prisma/client";
+import prisma from "../../config/db";
+import { parseQuestionIds } from "../../utils/questionIds";
+import { isForfeited } from "./masteryService";
+
+// Answering a missed question correctly this many times in a row takes it out of review.
+export const RETIRE_AFTER_CORRECT = 2;
+export const DEFAULT_REVIEW_SIZE = 10;
+// Unseen questions from the same topic keep a session from being a memory test of the misses.
+const SIBLINGS_PER_TOPIC = 2;
+
+const reviewableQuestion = { isActive: true, status: QuestionStatus.PUBLISHED } satisfies Prisma.QuestionBankWhereInput;
+
+const freeQuestion = {
+  OR: [
+    { quizQuestions: { some: { Quiz: { isActive: true, isPremium: false } } } },
+    { practiceTestQuestions: { some: { PracticeTest: { isActive: true, isPremium: false } } } },
+  ],
+} satisfies Prisma.QuestionBankWhereInput;
+
+const questionTopicSelect = { id: true, topic_name: true, subject_id: true } as const;
+
+export type OpenMistake = {
+  questionId: number;
+  topicId: number;
+  topicName: string;
+  lastMistakeAt: Date;
+  // Correct answers given since the last miss.
+  correctStreak: number;
+};
+
+/**
+ * Questions the learner has missed and not yet retired, most recent miss first. Answers from
+ * attempts forfeited on time were never really given, so they count neither way. Without premium
+ * access, misses on questions that only premium quizzes or tests carry are left out.
+ */
+export const listOpenMistakes = async (
+  userId: number,
+  filters: { topicId?: number | undefined; hasPremiumAccess?: boolean } = {},
+) => {
+  const { topicId, hasPremiumAccess = true } = filters;
+  const history = await prisma.questionAttemptV2.findMany({
+    where: {
+      userId,
+      Question: { ...reviewableQuestion, ...(hasPremiumAccess ? {} : freeQuestion), ...(topicId ? { topicId } : {}) },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    select: {
+      questionId: true,
+      isCorrect: true,
+      createdAt: true,
+      Question: { select: { Topic: { select: { id: true, topic_name: true } } } },
+      QuizAttempt: { select: { metadata: true } },
+      PracticeTestAttempt: { select: { metadata: true } },
+    },
+  });
+
+  // Walk newest to oldest; a question is settled by its latest miss or by enough correct answers after it.
+  const streaks = new Map<number, number>();
+  const settled = new Set<number>();
+  const mistakes: OpenMistake[] = [];
+  for (const row of history) {
+    if (settled.has(row.questionId)) continue;
+    if (isForfeited(row.QuizAttempt?.metadata) || isForfeited(row.PracticeTestAttempt?.metadata)) continue;
+    const streak = streaks.get(row.questionId) ?? 0;
+    if (row.isCorrect) {
+      streaks.set(row.questionId, streak + 1);
+      if (streak + 1 >= RETIRE_AFTER_CORRECT) {
+        settled.add(row.questionId);
+      }
+      continue;
+    }
+    settled.add(row.questionId);
+    mistakes.push({
+      questionId: row.questionId,
+      topicId: row.Question.Topic.id,
+      topicName: row.Question.Topic.topic_name,
+      lastMistakeAt: row.createdAt,
+      correctStreak: streak,
+    });
+  }
+  return mistakes;
+};
+
+export const summarizeOpenMistakes = (mistakes: OpenMistake[]) => {
+  const byTopic = new Map<number, { topicId: number; topicName: string; count: number }>();
+  mistakes.forEach((mistake) => {
+    const entry = byTopic.get(mistake.topicId) ?? { topicId: mistake.topicId, topicName: mistake.topicName, count: 0 };
+    entry.count += 1;
+    byTopic.set(mistake.topicId, entry);
+  });
+  return {
+    total: mistakes.length,
+    topics: Array.from(byTopic.values()).sort((a, b) => b.count - a.count || a.topicName.localeCompare(b.topicName)),
+  };
+};
+
+const loadSiblingQuestions = async (params: {
+  userId: number;
+  topicIds: number[];
+  excludeIds: number[];
+  hasPremiumAccess: boolean;
+  slots: number;
+}) => {
+  const { userId, topicIds, excludeIds, hasPremiumAccess } = params;
+  const slots = Math.min(params.slots, topicIds.length * SIBLINGS_PER_TOPIC);
+  if (!slots) {
+    return [];
+  }
+  const candidates = await prisma.questionBank.findMany({
+    where: {
+      ...reviewableQuestion,
+      ...(hasPremiumAccess ? {} : freeQuestion),
+      topicId: { in: topicIds },
+      id: { notIn: excludeIds },
+      questionAttemptsV2: { none: { userId } },
+    },
+    orderBy: [{ difficulty: "asc" }, { id: "asc" }],
+    select: { id: true, topicId: true },
+  });
+
+  // Spread the slots across topics in the order their misses were ranked.
+  const picked: Array<{ id: number; topicId: number }> = [];
+  for (let round = 0; round < SIBLINGS_PER_TOPIC && picked.length < slots; round += 1) {
+    for (const topicId of topicIds) {
+      const next = candidates.filter((candidate) => candidate.topicId === topicId)[round];
+      if (next) picked.push(next);
+      if (picked.length >= slots) break;
+    }
+  }
+  return picked;
+};
+
+/**
+ * Assembles a review session: the learner's open mistakes, fewest correct answers since the miss
+ * first, topped up with unseen questions from the same topics. Questions are grouped by topic.
+ */
+export const buildReviewQuestionSet = async (params: {
+  userId: number;
+  hasPremiumAccess: boolean;
+  topicId?: number | undefined;
+  size: number;
+}) => {
+  const { userId, hasPremiumAccess, topicId, size } = params;
+  const mistakes = (await listOpenMistakes(userId, { topicId, hasPremiumAccess })).sort(
+    (a, b) => a.correctStreak - b.correctStreak || b.lastMistakeAt.getTime() - a.lastMistakeAt.getTime(),
+  );
+  if (!mistakes.length) {
+    return { questionIds: [], mistakeIds: [] };
+  }
+
+  const reserved = mistakes.length >= size ? Math.floor(size / 4) : size - mistakes.length;
+  const siblings = await loadSiblingQuestions({
+    userId,
+    topicIds: Array.from(new Set(mistakes.slice(0, size - reserved).map((mistake) => mistake.topicId))),
+    excludeIds: mistakes.map((mistake) => mistake.questionId),
+    hasPremiumAccess,
+    slots: reserved,
+  });
+  // Slots the topics could not fill go back to mistakes.
+  const chosen = mistakes.slice(0, size - siblings.length);
+
+  const topicOrder = Array.from(new Set(chosen.map((mistake) => mistake.topicId)));
+  const questionIds = topicOrder.flatMap((id) => [
+    ...chosen.filter((mistake) => mistake.topicId === id).map((mistake) => mistake.questionId),
+    ...siblings.filter((sibling) => sibling.topicId === id).map((sibling) => sibling.id),
+  ]);
+  return { questionIds, mistakeIds: chosen.map((mistake) => mistake.questionId) };
+};
+
+export const getReviewAttemptQuestions = async (attempt: Pick<ReviewAttemptV2, "questionIds">) => {
+  const questionIds = parseQuestionIds(attempt.questionIds);
+  const bank = await prisma.questionBank.findMany({
+    where: { id: { in: questionIds } },
+    include: { Topic: { select: questionTopicSelect } },
+  });
+  const questionsById = new Map(bank.map((question) => [question.id, question]));
+  return questionIds.flatMap((questionId, index) => {
+    const question = questionsById.get(questionId);
+    return question ? [{ questionId, orderIndex: index, points: 1, Question: question }] : [];
+  });
+};
@@ -0,0 +1,100 @@
+import { Difficulty, Prisma, QuestionStatus, QuestionType } from "@prisma/client";
+import prisma from "../../config/db";
+import { createSeededRandom, seededShuffle } from "../../utils/seededRandom";
+
+export type DifficultyMix = Partial<Record<Difficulty, number>>;
+
+export const difficultyOrder: Difficulty[] = [Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD];
+
+export const parseDifficultyMix = (raw: Prisma.JsonValue | null | undefined): DifficultyMix => {
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    const record: DifficultyMix = {};
+    for (const key of difficultyOrder) {
+      const value = (raw as Record<string, unknown>)[key];
+      if (typeof value === "number") {
+        record[key] = value;
+      }
+    }
+    return record;
+  }
+  return {};
+};
+
+export const parseTopicFilters = (
+  raw: Prisma.JsonValue | null | undefined,
+): { topicIds: number[] } => {
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    const topicIds = (raw as Record<string, unknown>).topicIds;
+    if (Array.isArray(topicIds)) {
+      return {
+        topicIds: topicIds
+          .map((value) => (typeof value === "number" ? value : Number(value)))
+          .filter((value) => Number.isFinite(value) && value > 0),
+      };
+    }
+  }
+  return { topicIds: [] };
+};
+
+// Matching prompts stay in authored order because responses are aligned to them by index.
+const shuffledOptionTypes = new Set<QuestionType>([QuestionType.MULTIPLE_CHOICE, QuestionType.MULTI_SELECT]);
+
+export type DrawnPracticeTest = {
+  questionIds: number[];
+  optionOrder: Record<string, string[]>;
+};
+
+/**
+ * Draws a question set for one attempt of a generated practice test. Pools are read in id order
+ * so the same seed against the same bank always yields the same questions and option order.
+ */
+export const drawPracticeTestQuestions = async (
+  practiceTest: { difficultyMix: Prisma.JsonValue | null; topicFilters: Prisma.JsonValue | null },
+  seed: number,
+): Promise<DrawnPracticeTest> => {
+  const difficultyMix = parseDifficultyMix(practiceTest.difficultyMix);
+  const { topicIds } = parseTopicFilters(practiceTest.topicFilters);
+  const random = createSeededRandom(seed);
+
+  const drawn: Array<{ id: number; questionType: QuestionType; options: Prisma.JsonValue | null }> = [];
+  for (const difficulty of difficultyOrder) {
+    const required = difficultyMix[difficulty] ?? 0;
+    if (required === 0) {
+      continue;
+    }
+
+    const pool = await prisma.questionBank.findMany({
+      where: {
+        ...(topicIds.length ? { topicId: { in: topicIds } } : {}),
+        difficulty,
+        status: QuestionStatus.PUBLISHED,
+        isActive: true,
+      },
+      select: { id: true, questionType: true, options: true },
+      orderBy: { id: "asc" },
+    });
+
+    if (pool.length < required) {
+      const error = new Error(`Not enough ${difficulty.toLowerCase()} questions available for this practice test`);
+      (error as { statusCode?: number }).statusCode = 409;
+      throw error;
+    }
+
+    drawn.push(...seededShuffle(pool, random).slice(0, required));
+  }
+
+  const ordered = seededShuffle(drawn, random);
+  const optionOrder: Record<string, string[]> = {};
+  ordered.forEach((question) => {
+    if (!shuffledOptionTypes.has(question.questionType) || !Array.isArray(question.options)) {
+      return;
+    }
+    const options = question.options.filter((option): option is string => typeof option === "string");
+    optionOrder[String(question.id)] = seededShuffle(options, random);
+  });
+
+  return {
+    questionIds: ordered.map((question) => question.id),
+    optionOrder,
+  };
+};
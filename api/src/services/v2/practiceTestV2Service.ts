@@ -1,6 +1,13 @@
 import prisma from "../../config/db";
-import { mapLearnerPracticeTestDto } from "../../utils/learnerDtoMappers";
-import { Prisma } from "@prisma/client";
+import { lockLearnerPremiumContent, mapLearnerPracticeTestDto } from "../../utils/learnerDtoMappers";
+import { parseQuestionIds } from "../../utils/questionIds";
+import { PracticeTestAttemptV2, Prisma } from "@prisma/client";
+
+const questionTopicSelect = {
+  id: true,
+  topic_name: true,
+  subject_id: true,
+} satisfies Prisma.TopicSelect;
 
 const practiceTestInclude = {
   Subject: {
@@ -21,11 +28,7 @@ const practiceTestInclude = {
       Question: {
         include: {
           Topic: {
-            select: {
-              id: true,
-              topic_name: true,
-              subject_id: true,
-            },
+            select: questionTopicSelect,
           },
         },
       },
@@ -37,12 +40,13 @@ export type PracticeTestFilters = {
   subjectId?: number | undefined;
   gradeLevelId?: number | undefined;
   includeInactive?: boolean | undefined;
+  hasPremiumAccess?: boolean | undefined;
   page?: number | undefined;
   limit?: number | undefined;
 };
 
 export const listPracticeTests = async (filters: PracticeTestFilters) => {
-  const { subjectId, gradeLevelId, includeInactive, page, limit } = filters;
+  const { subjectId, gradeLevelId, includeInactive, hasPremiumAccess = false, page, limit } = filters;
   const where: Prisma.PracticeTestWhereInput = {
     ...(includeInactive ? {} : { isActive: true }),
   };
@@ -69,7 +73,9 @@ export const listPracticeTests = async (filters: PracticeTestFilters) => {
   ]);
 
   return {
-    items: practiceTests.map((practiceTest) => mapLearnerPracticeTestDto(practiceTest)),
+    items: practiceTests.map((practiceTest) =>
+      lockLearnerPremiumContent(mapLearnerPracticeTestDto(practiceTest), hasPremiumAccess),
+    ),
     meta: {
       page: pageNumber,
       limit: perPage,
@@ -79,7 +85,7 @@ export const listPracticeTests = async (filters: PracticeTestFilters) => {
   };
 };
 
-export const getPracticeTestById = async (id: number) => {
+export const getPracticeTestById = async (id: number, hasPremiumAccess = false) => {
   const practiceTest = await prisma.practiceTest.findUnique({
     where: { id },
     include: practiceTestInclude,
@@ -87,7 +93,7 @@ export const getPracticeTestById = async (id: number) => {
   if (!practiceTest || !practiceTest.isActive) {
     return null;
   }
-  return mapLearnerPracticeTestDto(practiceTest);
+  return lockLearnerPremiumContent(mapLearnerPracticeTestDto(practiceTest), hasPremiumAccess);
 };
 
 export const getPracticeTestRecord = async (id: number) => {
@@ -108,7 +114,51 @@ export const getPracticeTestQuestions = async (id: number) => {
     questions: practiceTest.questions.map((entry) => ({
       questionId: entry.questionId,
       orderIndex: entry.orderIndex,
+      points: entry.points,
       Question: entry.Question,
     })),
   };
 };
+
+/**
+ * Questions an attempt is answering: the drawn set for generated practice tests, otherwise the
+ * authored list. Drawn questions carry the option order persisted when the attempt started.
+ */
+export const getPracticeTestAttemptQuestions = async (
+  attempt: Pick<PracticeTestAttemptV2, "practiceTestId" | "questionIds" | "optionOrder">,
+) => {
+  const context = await getPracticeTestQuestions(attempt.practiceTestId);
+  const questionIds = parseQuestionIds(attempt.questionIds);
+  if (!context || !questionIds.length) {
+    return context;
+  }
+
+  const bank = await prisma.questionBank.findMany({
+    where: { id: { in: questionIds } },
+    include: { Topic: { select: questionTopicSelect } },
+  });
+  const questionsById = new Map(bank.map((question) => [question.id, question]));
+  const optionOrder =
+    attempt.optionOrder && typeof attempt.optionOrder === "object" && !Array.isArray(attempt.optionOrder)
+      ? attempt.optionOrder
+      : {};
+
+  return {
+    practiceTest: context.practiceTest,
+    questions: questionIds.flatMap((questionId, index) => {
+      const question = questionsById.get(questionId);
+      if (!question) {
+        return [];
+      }
+      const options = optionOrder[String(questionId)];
+      return [
+        {
+          questionId,
+          orderIndex: index,
+          points: 1,
+          Question: Array.isArray(options) ? { ...question, options } : question,
+        },
+      ];
+    }),
+  };
+};
@@ -1,6 +1,7 @@
-import { Difficulty, Prisma } from "@prisma/client";
+import { Difficulty, Prisma, QuizAttemptV2 } from "@prisma/client";
 import prisma from "../../config/db";
-import { mapLearnerQuizDto } from "../../utils/learnerDtoMappers";
+import { lockLearnerPremiumContent, mapLearnerQuizDto } from "../../utils/learnerDtoMappers";
+import { parseQuestionIds } from "../../utils/questionIds";
 
 const quizInclude = {
   Topic: {
@@ -40,12 +41,13 @@ export type QuizListFilters = {
   topicId?: number;
   difficulty?: Difficulty;
   includeInactive?: boolean;
+  hasPremiumAccess?: boolean;
   page?: number;
   limit?: number;
 };
 
 export const listQuizzes = async (filters: QuizListFilters) => {
-  const { topicId, difficulty, includeInactive, page, limit } = filters;
+  const { topicId, difficulty, includeInactive, hasPremiumAccess = false, page, limit } = filters;
   const where: Prisma.QuizWhereInput = {
     ...(includeInactive ? {} : { isActive: true }),
   };
@@ -72,7 +74,7 @@ export const listQuizzes = async (filters: QuizListFilters) => {
   ]);
 
   return {
-    items: quizzes.map((quiz) => mapLearnerQuizDto(quiz)),
+    items: quizzes.map((quiz) => lockLearnerPremiumContent(mapLearnerQuizDto(quiz), hasPremiumAccess)),
     meta: {
       page: pageNumber,
       limit: perPage,
@@ -82,7 +84,7 @@ export const listQuizzes = async (filters: QuizListFilters) => {
   };
 };
 
-export const getQuizById = async (id: number) => {
+export const getQuizById = async (id: number, hasPremiumAccess = false) => {
   const quiz = await prisma.quiz.findUnique({
     where: { id },
     include: quizInclude,
@@ -90,7 +92,7 @@ export const getQuizById = async (id: number) => {
   if (!quiz || !quiz.isActive) {
     return null;
   }
-  return mapLearnerQuizDto(quiz);
+  return lockLearnerPremiumContent(mapLearnerQuizDto(quiz), hasPremiumAccess);
 };
 
 export const getQuizRecord = async (id: number) => {
@@ -100,6 +102,14 @@ export const getQuizRecord = async (id: number) => {
   });
 };
 
+export const listTopicQuizRecords = async (topicId: number, includePremium = true) => {
+  return prisma.quiz.findMany({
+    where: { topicId, isActive: true, ...(includePremium ? {} : { isPremium: false }) },
+    include: quizInclude,
+    orderBy: { id: "asc" },
+  });
+};
+
 export const getQuizQuestions = async (id: number) => {
   const quiz = await getQuizRecord(id);
   if (!quiz || !quiz.isActive) {
@@ -111,7 +121,25 @@ export const getQuizQuestions = async (id: number) => {
     questions: quiz.questions.map((entry) => ({
       questionId: entry.questionId,
       orderIndex: entry.orderIndex,
+      points: entry.points,
       Question: entry.Question,
     })),
   };
 };
+
+/**
+ * Questions an attempt is answering: the items served so far for adaptive quizzes, otherwise
+ * the authored list.
+ */
+export const getQuizAttemptQuestions = async (attempt: Pick<QuizAttemptV2, "quizId" | "questionIds">) => {
+  const context = await getQuizQuestions(attempt.quizId);
+  const questionIds = parseQuestionIds(attempt.questionIds);
+  if (!context || !questionIds.length) {
+    return context;
+  }
+  const questionsById = new Map(context.questions.map((entry) => [entry.questionId, entry]));
+  return {
+    quiz: context.quiz,
+    questions: questionIds.flatMap((questionId) => questionsById.get(questionId) ?? []),
+  };
+};
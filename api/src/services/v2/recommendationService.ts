@@ -0,0 +1,357 @@
+import dayjs from "dayjs";
+import prisma from "../../config/db";
+import { summarizeMastery } from "../../utils/masteryModel";
+import { buildTopicLockStates } from "../topicPathService";
+import { listOpenMistakes, summarizeOpenMistakes } from "./mistakeReviewService";
+
+// Topics below this current mastery are worth a refresher.
+const WEAK_MASTERY = 60;
+const WEAK_TOPIC_LIMIT = 3;
+const NEW_QUIZ_LIMIT = 3;
+const DUE_FLASHCARD_SCAN = 200;
+
+export type RecommendationType =
+  | "resume_quiz"
+  | "resume_practice"
+  | "review_flashcards"
+  | "review_mistakes"
+  | "strengthen_topic"
+  | "start_quiz"
+  | "continue_challenge"
+  | "join_challenge";
+
+export type Recommendation = {
+  type: RecommendationType;
+  title: string;
+  reason: string;
+  // Higher comes first. Scores only order items within one response.
+  priority: number;
+  topicId: number | null;
+  topicName: string | null;
+  subjectId: number | null;
+  quizId: number | null;
+  practiceTestId: number | null;
+  attemptId: number | null;
+  challengeId: number | null;
+  count: number | null;
+};
+
+const recommendation = (
+  fields: Pick<Recommendation, "type" | "title" | "reason" | "priority"> & Partial<Recommendation>,
+): Recommendation => ({
+  topicId: null,
+  topicName: null,
+  subjectId: null,
+  quizId: null,
+  practiceTestId: null,
+  attemptId: null,
+  challengeId: null,
+  count: null,
+  ...fields,
+});
+
+const answeredCount = (draft: unknown) => (Array.isArray(draft) ? draft.length : 0);
+
+const describeProgress = (answered: number, total: number | null) =>
+  total ? `You've answered ${answered} of ${total} questions.` : "Pick up where you left off.";
+
+const loadUnfinishedAttempts = async (userId: number, now: Date) => {
+  const [quizzes, practiceTests] = await Promise.all([
+    prisma.quizAttemptV2.findMany({
+      where: { userId, status: "in_progress", Quiz: { isActive: true } },
+      orderBy: { updatedAt: "desc" },
+      take: 3,
+      include: {
+        Quiz: { select: { title: true, Topic: { select: { id: true, topic_name: true, subject_id: true } } } },
+      },
+    }),
+    prisma.practiceTestAttemptV2.findMany({
+      where: {
+        userId,
+        status: "in_progress",
+        PracticeTest: { isActive: true },
+        OR: [{ deadlineAt: null }, { deadlineAt: { gt: now } }],
+      },
+      orderBy: { updatedAt: "desc" },
+      take: 3,
+      include: { PracticeTest: { select: { title: true, subjectId: true } } },
+    }),
+  ]);
+
+  const staleness = (updatedAt: Date) => Math.min(dayjs(now).diff(updatedAt, "day"), 14);
+  return [
+    ...quizzes.map((attempt) =>
+      recommendation({
+        type: "resume_quiz",
+        title: attempt.Quiz.title,
+        reason: describeProgress(answeredCount(attempt.draftResponses), attempt.totalQuestions),
+        priority: 100 - staleness(attempt.updatedAt),
+        topicId: attempt.Quiz.Topic.id,
+        topicName: attempt.Quiz.Topic.topic_name,
+        subjectId: attempt.Quiz.Topic.subject_id,
+        quizId: attempt.quizId,
+        attemptId: attempt.id,
+      }),
+    ),
+    ...practiceTests.map((attempt) =>
+      recommendation({
+        type: "resume_practice",
+        title: attempt.PracticeTest.title,
+        reason: attempt.deadlineAt
+          ? `Your exam closes ${dayjs(attempt.deadlineAt).format("HH:mm")}. ${describeProgress(
+              answeredCount(attempt.draftResponses),
+              attempt.totalQuestions,
+            )}`
+          : describeProgress(answeredCount(attempt.draftResponses), attempt.totalQuestions),
+        // Exams run against a clock, so they outrank everything else.
+        priority: attempt.deadlineAt ? 110 : 100 - staleness(attempt.updatedAt),
+        subjectId: attempt.PracticeTest.subjectId,
+        practiceTestId: attempt.practiceTestId,
+        attemptId: attempt.id,
+      }),
+    ),
+  ];
+};
+
+const loadDueFlashcards = async (userId: number, hasPremiumAccess: boolean, now: Date) => {
+  const due = await prisma.flashcardReview.findMany({
+    where: {
+      userId,
+      dueAt: { lte: now },
+      Flashcard: hasPremiumAccess ? {} : { is_premium: false },
+    },
+    orderBy: { dueAt: "asc" },
+    take: DUE_FLASHCARD_SCAN,
+    select: { Flashcard: { select: { Topic: { select: { id: true, topic_name: true, subject_id: true } } } } },
+  });
+  if (!due.length) {
+    return [];
+  }
+
+  const byTopic = new Map<number, { topic: (typeof due)[number]["Flashcard"]["Topic"]; count: number }>();
+  due.forEach(({ Flashcard: { Topic: topic } }) => {
+    const entry = byTopic.get(topic.id) ?? { topic, count: 0 };
+    entry.count += 1;
+    byTopic.set(topic.id, entry);
+  });
+  const busiest = Array.from(byTopic.values()).sort((a, b) => b.count - a.count)[0]!;
+  const total = due.length;
+  const label = total >= DUE_FLASHCARD_SCAN ? `${DUE_FLASHCARD_SCAN}+` : String(total);
+
+  return [
+    recommendation({
+      type: "review_flashcards",
+      title: "Flashcard review",
+      reason:
+        byTopic.size > 1
+          ? `${label} cards are due, most of them in ${busiest.topic.topic_name}.`
+          : `${label} ${total === 1 ? "card is" : "cards are"} due in ${busiest.topic.topic_name}.`,
+      priority: 80 + Math.min(total, 20) / 2,
+      topicId: busiest.topic.id,
+      topicName: busiest.topic.topic_name,
+      subjectId: busiest.topic.subject_id,
+      count: total,
+    }),
+  ];
+};
+
+const loadMistakeReview = async (userId: number, hasPremiumAccess: boolean) => {
+  const { total, topics } = summarizeOpenMistakes(await listOpenMistakes(userId, { hasPremiumAccess }));
+  const top = topics[0];
+  if (!top) {
+    return [];
+  }
+  return [
+    recommendation({
+      type: "review_mistakes",
+      title: "Review your mistakes",
+      reason:
+        topics.length > 1
+          ? `${total} questions you missed are waiting, most of them in ${top.topicName}.`
+          : `${total} missed ${total === 1 ? "question" : "questions"} in ${top.topicName} to try again.`,
+      priority: 65 + Math.min(total, 20) / 2,
+      topicId: topics.length > 1 ? null : top.topicId,
+      topicName: top.topicName,
+      count: total,
+    }),
+  ];
+};
+
+const loadWeakTopics = async (userId: number, hasPremiumAccess: boolean, now: Date) => {
+  const records = await prisma.topicMastery.findMany({
+    where: { userId, totalAttempts: { gt: 0 }, Topic: { is_active: true } },
+    include: { Topic: { select: { topic_name: true, subject_id: true } } },
+  });
+  const weakest = records
+    .map((record) => ({ record, current: summarizeMastery(record, now).mastery }))
+    .filter((entry) => entry.current < WEAK_MASTERY)
+    .sort((a, b) => a.current - b.current)
+    .slice(0, WEAK_TOPIC_LIMIT);
+  if (!weakest.length) {
+    return [];
+  }
+
+  const quizzes = await prisma.quiz.findMany({
+    where: {
+      topicId: { in: weakest.map((entry) => entry.record.topicId) },
+      isActive: true,
+      ...(hasPremiumAccess ? {} : { isPremium: false }),
+    },
+    orderBy: [{ difficulty: "asc" }, { id: "asc" }],
+    select: { id: true, topicId: true, title: true },
+  });
+
+  return weakest.flatMap(({ record, current }) => {
+    const quiz = quizzes.find((entry) => entry.topicId === record.topicId);
+    if (!quiz) {
+      return [];
+    }
+    const idleDays = record.lastPracticedAt ? dayjs(now).diff(record.lastPracticedAt, "day") : 0;
+    const rounded = Math.round(current);
+    return [
+      recommendation({
+        type: "strengthen_topic",
+        title: quiz.title,
+        reason:
+          idleDays >= 14 && record.masteryScore >= WEAK_MASTERY
+            ? `It's been ${idleDays} days since you practised ${record.Topic.topic_name}; ` +
+              `mastery has slipped to ${rounded}%.`
+            : `Your mastery in ${record.Topic.topic_name} is ${rounded}%. A quick quiz will help.`,
+        priority: 60 + (WEAK_MASTERY - current) / 2,
+        topicId: record.topicId,
+        topicName: record.Topic.topic_name,
+        subjectId: record.Topic.subject_id,
+        quizId: quiz.id,
+      }),
+    ];
+  });
+};
+
+/**
+ * The learner's grade is whichever one their most recent quiz belongs to, unless the caller
+ * names one (e.g. the grade picked on the home screen).
+ */
+const resolveGradeLevelId = async (userId: number, gradeLevelId?: number) => {
+  if (gradeLevelId) {
+    return gradeLevelId;
+  }
+  const latest = await prisma.quizAttemptV2.findFirst({
+    where: { userId },
+    orderBy: { startedAt: "desc" },
+    select: { Quiz: { select: { Topic: { select: { Subject: { select: { grade_level_id: true } } } } } } },
+  });
+  return latest?.Quiz.Topic.Subject.grade_level_id ?? null;
+};
+
+const loadNewQuizzes = async (userId: number, hasPremiumAccess: boolean, gradeLevelId: number | null) => {
+  if (!gradeLevelId) {
+    return [];
+  }
+  const quizzes = await prisma.quiz.findMany({
+    where: {
+      isActive: true,
+      ...(hasPremiumAccess ? {} : { isPremium: false }),
+      attemptsV2: { none: { userId } },
+      Topic: { is_active: true, Subject: { grade_level_id: gradeLevelId, is_active: true } },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: NEW_QUIZ_LIMIT * 4,
+    include: {
+      Topic: { select: { id: true, topic_name: true, subject_id: true, Subject: { select: { subject_name: true } } } },
+    },
+  });
+  // Quizzes in topics the learner has not unlocked yet would only lead to a locked screen.
+  const lockStates = await buildTopicLockStates(
+    Array.from(new Set(quizzes.map((quiz) => quiz.topicId))),
+    userId,
+  );
+
+  return quizzes
+    .filter((quiz) => !lockStates.get(quiz.topicId)?.locked)
+    .slice(0, NEW_QUIZ_LIMIT)
+    .map((quiz, index) =>
+      recommendation({
+        type: "start_quiz",
+        title: quiz.title,
+        reason: `New for you in ${quiz.Topic.Subject.subject_name}: ${quiz.Topic.topic_name}.`,
+        priority: 40 - index,
+        topicId: quiz.Topic.id,
+        topicName: quiz.Topic.topic_name,
+        subjectId: quiz.Topic.subject_id,
+        quizId: quiz.id,
+      }),
+    );
+};
+
+const loadChallenges = async (userId: number, now: Date) => {
+  const challenges = await prisma.challenge.findMany({
+    where: { start_date: { lte: now }, end_date: { gte: now } },
+    orderBy: { end_date: "asc" },
+    include: { participants: { where: { user_id: userId } } },
+  });
+
+  return challenges.flatMap((challenge) => {
+    const participation = challenge.participants[0];
+    if (participation && participation.status !== "joined") {
+      return [];
+    }
+    const hoursLeft = dayjs(challenge.end_date).diff(now, "hour");
+    const endsLabel =
+      hoursLeft < 24 ? `ends in ${Math.max(hoursLeft, 1)}h` : `ends ${dayjs(challenge.end_date).format("MMM D")}`;
+    return [
+      participation
+        ? recommendation({
+            type: "continue_challenge",
+            title: challenge.title,
+            reason: `You're ${Math.round(participation.progress ?? 0)}% through; it ${endsLabel}.`,
+            priority: hoursLeft < 24 ? 70 : 55,
+            challengeId: challenge.id,
+          })
+        : recommendation({
+            type: "join_challenge",
+            title: challenge.title,
+            reason: `Worth ${challenge.xp_reward} XP and ${endsLabel}.`,
+            priority: 45,
+            challengeId: challenge.id,
+          }),
+    ];
+  });
+};
+
+/**
+ * Ranks what a learner could do next: unfinished attempts first, then due reviews and missed
+ * questions, refreshers for weak or fading topics, running challenges and finally new quizzes in
+ * their grade.
+ */
+export const buildRecommendations = async (params: {
+  userId: number;
+  hasPremiumAccess: boolean;
+  gradeLevelId?: number | undefined;
+  limit: number;
+}) => {
+  const { userId, hasPremiumAccess, limit } = params;
+  const now = new Date();
+  const gradeLevelId = await resolveGradeLevelId(userId, params.gradeLevelId);
+
+  const groups = await Promise.all([
+    loadUnfinishedAttempts(userId, now),
+    loadDueFlashcards(userId, hasPremiumAccess, now),
+    loadMistakeReview(userId, hasPremiumAccess),
+    loadWeakTopics(userId, hasPremiumAccess, now),
+    loadNewQuizzes(userId, hasPremiumAccess, gradeLevelId),
+    loadChallenges(userId, now),
+  ]);
+
+  // A quiz already suggested for resuming should not also show up as a refresher.
+  const seenQuizIds = new Set<number>();
+  return groups
+    .flat()
+    .sort((a, b) => b.priority - a.priority)
+    .filter((item) => {
+      if (item.quizId === null) return true;
+      if (seenQuizIds.has(item.quizId)) return false;
+      seenQuizIds.add(item.quizId);
+      return true;
+    })
+    .slice(0, limit);
+};
@@ -0,0 +1,206 @@
+import { AnswerMatchStrategy, Prisma, QuestionType } from "@prisma/client";
+import { AnswerMatchOptions, matchAnswer, parseAnswerMatchOptions } from "../../utils/answerMatching";
+
+export type ScoringResponse = {
+  questionId: number;
+  selectedOption?: string | undefined;
+  selectedOptions?: string[] | undefined;
+};
+
+export type ScoringQuestion = {
+  id: number;
+  questionType: QuestionType;
+  questionText?: string | null;
+  correctOption?: string | null;
+  correctAnswers?: Prisma.JsonValue | null;
+  matchStrategy?: AnswerMatchStrategy | null;
+  matchOptions?: Prisma.JsonValue | null;
+};
+
+export type ScoreResult = {
+  // Share of the question's points earned, between 0 and 1.
+  credit: number;
+  isCorrect: boolean;
+  answered: boolean;
+  selectedOption: string | null;
+  selectedOptions: string[] | null;
+};
+
+type Scorer = (question: ScoringQuestion, response: ScoringResponse) => ScoreResult;
+
+const toStringArray = (value: Prisma.JsonValue | null | undefined): string[] => {
+  if (!value) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => {
+        if (typeof entry === "string") {
+          return entry.trim();
+        }
+        if (entry === null || entry === undefined) {
+          return "";
+        }
+        return String(entry).trim();
+      })
+      .filter((entry) => entry.length > 0);
+  }
+  return [];
+};
+
+const normalizeOption = (value?: string | null) => value?.trim().toLowerCase() ?? "";
+
+const clampCredit = (value: number) => Math.min(1, Math.max(0, value));
+
+const buildResult = (
+  credit: number,
+  response: ScoringResponse,
+  selectedOptions: string[] | null = response.selectedOptions ?? null,
+): ScoreResult => {
+  const normalizedCredit = clampCredit(credit);
+  return {
+    credit: normalizedCredit,
+    isCorrect: normalizedCredit === 1,
+    answered: Boolean(response.selectedOption?.trim()) || Boolean(selectedOptions?.some((entry) => entry.trim())),
+    selectedOption: response.selectedOption ?? null,
+    selectedOptions,
+  };
+};
+
+const textAnswers = (response: ScoringResponse) =>
+  response.selectedOptions?.length ? response.selectedOptions : response.selectedOption ? [response.selectedOption] : [];
+
+const matchesAnyAnswer = (
+  candidate: string,
+  correctAnswers: string[],
+  strategy: AnswerMatchStrategy,
+  options: AnswerMatchOptions,
+) => correctAnswers.some((answer) => matchAnswer(candidate, answer, strategy, options));
+
+const answerMatcher = (question: ScoringQuestion) => {
+  const strategy = question.matchStrategy ?? AnswerMatchStrategy.EXACT;
+  const options = parseAnswerMatchOptions(question.matchOptions);
+  return (candidate: string, correctAnswers: string[]) =>
+    matchesAnyAnswer(candidate, correctAnswers, strategy, options);
+};
+
+const countBlanks = (questionText?: string | null) => Math.max(1, questionText?.match(/_{2,}/g)?.length ?? 1);
+
+const scoreSingleChoice: Scorer = (question, response) => {
+  const correctOption = normalizeOption(question.correctOption);
+  const selected = normalizeOption(response.selectedOption ?? response.selectedOptions?.[0]);
+  return buildResult(correctOption && selected === correctOption ? 1 : 0, response);
+};
+
+// Alternatives for one blank share a line, separated by "|"; regex answers express them in the pattern.
+const blankAlternatives = (answer: string, strategy?: AnswerMatchStrategy | null) =>
+  strategy === AnswerMatchStrategy.REGEX
+    ? [answer]
+    : answer
+        .split("|")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+
+/**
+ * Each blank is worth an equal share, so two of three blanks right earns two thirds. With several
+ * blanks, answers[i] is marked only against correctAnswers[i]; a single blank accepts any listed answer.
+ */
+const scoreFillInTheBlank: Scorer = (question, response) => {
+  const correctAnswers = toStringArray(question.correctAnswers);
+  const answers = textAnswers(response);
+  const matches = answerMatcher(question);
+  const blankCount = countBlanks(question.questionText);
+  const blanks = Math.max(blankCount, answers.length);
+  const matched =
+    blankCount === 1
+      ? answers.filter((answer) => matches(answer, correctAnswers)).length
+      : answers.filter((answer, index) => {
+          const expected = correctAnswers[index];
+          return expected !== undefined && matches(answer, blankAlternatives(expected, question.matchStrategy));
+        }).length;
+  return buildResult(matched / blanks, response, answers);
+};
+
+const scoreShortAnswer: Scorer = (question, response) => {
+  const correctAnswers = toStringArray(question.correctAnswers);
+  const answers = textAnswers(response);
+  const matches = answerMatcher(question);
+  const isCorrect = answers.length > 0 && answers.every((answer) => matches(answer, correctAnswers));
+  return buildResult(isCorrect ? 1 : 0, response, answers);
+};
+
+// Every correct pick earns a share; every wrong pick cancels one out.
+const scoreMultiAnswer: Scorer = (question, response) => {
+  const correctAnswers = new Set(toStringArray(question.correctAnswers).map((answer) => normalizeOption(answer)));
+  const selected = new Set(textAnswers(response).map((entry) => normalizeOption(entry)));
+  if (!correctAnswers.size) {
+    return buildResult(0, response);
+  }
+  let hits = 0;
+  let misses = 0;
+  selected.forEach((entry) => {
+    if (correctAnswers.has(entry)) {
+      hits += 1;
+    } else {
+      misses += 1;
+    }
+  });
+  return buildResult((hits - misses) / correctAnswers.size, response);
+};
+
+// selectedOptions[i] is the learner's answer for the i-th prompt; each correct pair earns a share.
+const scoreMatching: Scorer = (question, response) => {
+  const correctAnswers = toStringArray(question.correctAnswers);
+  const selected = response.selectedOptions ?? [];
+  if (!correctAnswers.length) {
+    return buildResult(0, response);
+  }
+  const matched = correctAnswers.filter(
+    (answer, index) => normalizeOption(selected[index]) === normalizeOption(answer),
+  ).length;
+  return buildResult(matched / correctAnswers.length, response);
+};
+
+// Credit is the share of items the learner placed in their correct position.
+const scoreOrdering: Scorer = (question, response) => {
+  const correctOrder = toStringArray(question.correctAnswers);
+  const selected = response.selectedOptions ?? [];
+  if (!correctOrder.length) {
+    return buildResult(0, response);
+  }
+  const inPlace = correctOrder.filter(
+    (item, index) => normalizeOption(selected[index]) === normalizeOption(item),
+  ).length;
+  return buildResult(inPlace / correctOrder.length, response);
+};
+
+const scorers: Partial<Record<QuestionType, Scorer>> = {
+  [QuestionType.MULTIPLE_CHOICE]: scoreSingleChoice,
+  [QuestionType.TRUE_FALSE]: scoreSingleChoice,
+  [QuestionType.FILL_IN_THE_BLANK]: scoreFillInTheBlank,
+  [QuestionType.SHORT_ANSWER]: scoreShortAnswer,
+  [QuestionType.MULTI_SELECT]: scoreMultiAnswer,
+  [QuestionType.MATCHING]: scoreMatching,
+  [QuestionType.ORDERING]: scoreOrdering,
+};
+
+export const scoreResponse = (question: ScoringQuestion, response?: ScoringResponse): ScoreResult => {
+  if (!response) {
+    return { credit: 0, isCorrect: false, answered: false, selectedOption: null, selectedOptions: null };
+  }
+  const scorer = scorers[question.questionType] ?? scoreMultiAnswer;
+  return scorer(question, response);
+};
+
+/**
+ * Converts a scored response into points. Negative marking is a fraction of the question's
+ * weight deducted only for answered questions that earned nothing; blanks are never penalised.
+ */
+export const pointsForResult = (result: ScoreResult, points: number, negativeMarking = 0) => {
+  if (result.credit > 0) {
+    return result.credit * points;
+  }
+  return result.answered && negativeMarking > 0 ? -negativeMarking * points : 0;
+};
+
+export const roundPoints = (value: number) => Math.round(value * 100) / 100;
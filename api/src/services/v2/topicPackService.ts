@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import prisma from "../../config/db";
+import { mapFlashcardDto, mapSubjectDto, mapTopicDto } from "../../utils/dtoMappers";
+import { mapLearnerQuizDto } from "../../utils/learnerDtoMappers";
+import { listTopicQuizRecords } from "./quizV2Service";
+
+// Bumped whenever the pack layout changes so installed apps re-download instead of misreading old packs.
+export const TOPIC_PACK_FORMAT = 1;
+
+const hashContent = (content: unknown) =>
+  crypto.createHash("sha256").update(JSON.stringify(content)).digest("hex").slice(0, 16);
+
+/**
+ * Bundles everything a learner needs to study a topic offline: flashcards and active v2 quizzes
+ * with their questions. The version is a hash of the content, so it only changes when the
+ * content does and clients can skip re-downloading an unchanged pack. Premium content is only
+ * packed for entitled learners.
+ */
+export const buildTopicPack = async (topicId: number, hasPremiumAccess = false) => {
+  const topic = await prisma.topic.findUnique({
+    where: { id: topicId },
+    include: { Subject: { select: { id: true, subject_name: true } } },
+  });
+  if (!topic || !topic.is_active) {
+    return null;
+  }
+
+  const [flashcards, quizzes] = await Promise.all([
+    prisma.flashcard.findMany({
+      where: { topic_id: topicId, ...(hasPremiumAccess ? {} : { is_premium: false }) },
+      orderBy: { id: "asc" },
+    }),
+    listTopicQuizRecords(topicId, hasPremiumAccess),
+  ]);
+
+  const content = {
+    format: TOPIC_PACK_FORMAT,
+    topic: {
+      ...mapTopicDto(topic),
+      Subject: topic.Subject ? mapSubjectDto(topic.Subject) : null,
+    },
+    flashcards: flashcards.map((flashcard) => mapFlashcardDto(flashcard)),
+    quizzes: quizzes.map((quiz) => mapLearnerQuizDto(quiz)),
+  };
+  const version = hashContent(content);
+
+  return {
+    topicId,
+    topic_id: topicId,
+    version,
+    ...content,
+  };
+};
@@ -4,14 +4,16 @@ import { applyRewards } from "../gamificationService";
 
 const QUIZ_SOURCE = "quiz_v2";
 const PRACTICE_TEST_SOURCE = "practice_test_v2";
+const MISTAKE_REVIEW_SOURCE = "mistake_review_v2";
 
 export const recordQuizAttemptXp = async (params: {
   userId: number;
   quizId: number;
   difficulty: string;
   scorePercentage: number;
+  occurredAt?: Date | undefined;
 }) => {
-  const { userId, quizId, difficulty, scorePercentage } = params;
+  const { userId, quizId, difficulty, scorePercentage, occurredAt } = params;
   const xpAwarded = calculateXp(scorePercentage, difficulty);
   const transaction = await prisma.xpTransaction.create({
     data: {
@@ -22,6 +24,7 @@ export const recordQuizAttemptXp = async (params: {
       metadata: {
         scorePercentage,
       },
+      ...(occurredAt ? { createdAt: occurredAt } : {}),
     },
   });
   const updatedUser = await applyXpChange(userId, xpAwarded, "Quiz V2 attempt");
@@ -47,3 +50,23 @@ export const recordPracticeTestXp = async (params: {
   const rewards = await applyRewards(userId, xpReward, "Practice Test V2 attempt");
   return { xpAwarded: xpReward, updatedUser, rewards, transactionId: transaction.id };
 };
+
+// Review sessions are scored like an easy quiz: revisiting known material is worth less than new work.
+export const recordReviewXp = async (params: { userId: number; reviewAttemptId: number; scorePercentage: number }) => {
+  const { userId, reviewAttemptId, scorePercentage } = params;
+  const xpAwarded = calculateXp(scorePercentage, "EASY");
+  const transaction = await prisma.xpTransaction.create({
+    data: {
+      userId,
+      amount: xpAwarded,
+      source: MISTAKE_REVIEW_SOURCE,
+      reason: `Mistake review ${reviewAttemptId}`,
+      metadata: {
+        scorePercentage,
+      },
+    },
+  });
+  const updatedUser = await applyXpChange(userId, xpAwarded, "Mistake review");
+  const rewards = await applyRewards(userId, xpAwarded, "Mistake review");
+  return { xpAwarded, updatedUser, rewards, transactionId: transaction.id };
+};
@@ -116,15 +116,23 @@ export const applyXpChange = async (userId: number, amount: number, reason?: str
 const STREAK_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export const updateStreak = async (userId: number): Promise<number> => {
-  const [user, attempts] = await Promise.all([
+  const completedSession = {
+    where: { userId, status: "completed", completedAt: { not: null } },
+    orderBy: { completedAt: "desc" as const },
+    take: 2,
+    select: { completedAt: true },
+  };
+  const [user, quizzes, practiceTests, reviews] = await Promise.all([
     prisma.user.findUnique({ where: { id: userId }, select: { streak_days: true } }),
-    prisma.attempt.findMany({
-      where: { user_id: userId },
-      orderBy: { attempt_date: "desc" },
-      take: 2,
-      select: { attempt_date: true },
-    }),
+    // A session is one completed quiz, practice test or review; adaptive quizzes write a row per answer.
+    prisma.quizAttemptV2.findMany(completedSession),
+    prisma.practiceTestAttemptV2.findMany(completedSession),
+    prisma.reviewAttemptV2.findMany(completedSession),
   ]);
+  const attempts = [...quizzes, ...practiceTests, ...reviews]
+    .flatMap((attempt) => (attempt.completedAt ? [{ completedAt: attempt.completedAt }] : []))
+    .sort((left, right) => right.completedAt.getTime() - left.completedAt.getTime())
+    .slice(0, 2);
 
   if (!user) {
     throw new Error("User not found while updating streak");
@@ -132,8 +140,8 @@ export const updateStreak = async (userId: number): Promise<number> => {
 
   let newStreak = 1;
   if (attempts.length >= 2) {
-    const latest = attempts[0]?.attempt_date;
-    const previous = attempts[1]?.attempt_date;
+    const latest = attempts[0]?.completedAt;
+    const previous = attempts[1]?.completedAt;
     if (latest && previous) {
       const diff = latest.getTime() - previous.getTime();
       const sameDay = latest.toDateString() === previous.toDateString();
@@ -0,0 +1,161 @@
+import { AnswerMatchStrategy, Prisma } from "@prisma/client";
+
+export type AnswerMatchOptions = {
+  // FUZZY: edits allowed between the response and an accepted answer.
+  maxDistance?: number;
+  // NUMERIC: absolute difference still accepted as correct.
+  tolerance?: number;
+  // NUMERIC: units a learner may write after the number, e.g. ["m", "metres"].
+  units?: string[];
+};
+
+// Short words get less slack so "cat" never matches "car" unless the author opts in.
+const defaultMaxDistance = (length: number) => {
+  if (length <= 4) {
+    return 0;
+  }
+  return length <= 8 ? 1 : 2;
+};
+
+/**
+ * Folds accents, case, punctuation and whitespace so "Photosynthèse." and "photosynthese"
+ * compare equal. Decimal separators between digits are kept.
+ */
+export const normalizeAnswerText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s.,]/gu, " ")
+    .replace(/(?<!\d)[.,]|[.,](?!\d)/g, " ")
+    .replace(/(\d),(\d)/g, "$1.$2")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const levenshteinDistance = (left: string, right: string) => {
+  if (left === right) {
+    return 0;
+  }
+  if (!left.length || !right.length) {
+    return Math.max(left.length, right.length);
+  }
+
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      const substitution = previous[j - 1]! + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[right.length]!;
+};
+
+const numberPattern = /^([+-]?(?:\d+(?:[.,]\d+)?|[.,]\d+))\s*(.*)$/;
+
+/**
+ * Reads "3,5", "3.50" or "12 cm" into a value and trailing unit. Returns null when the text does
+ * not start with a number.
+ */
+export const parseNumericAnswer = (value: string) => {
+  const match = numberPattern.exec(value.trim().replace(/\s+/g, " "));
+  if (!match) {
+    return null;
+  }
+  const parsed = Number(match[1]!.replace(",", "."));
+  if (!Number.isFinite(parsed)) {
+    return null;
+  }
+  return { value: parsed, unit: normalizeAnswerText(match[2] ?? "") };
+};
+
+export const compileAnswerPattern = (pattern: string) => new RegExp(`^(?:${pattern})$`, "iu");
+
+const matchesExact = (candidate: string, accepted: string) => {
+  const candidateNumber = parseNumericAnswer(candidate);
+  const acceptedNumber = parseNumericAnswer(accepted);
+  if (candidateNumber && acceptedNumber && !candidateNumber.unit && !acceptedNumber.unit) {
+    return candidateNumber.value === acceptedNumber.value;
+  }
+  const normalized = normalizeAnswerText(candidate);
+  return normalized.length > 0 && normalized === normalizeAnswerText(accepted);
+};
+
+const matchesFuzzy = (candidate: string, accepted: string, options: AnswerMatchOptions) => {
+  const normalized = normalizeAnswerText(candidate);
+  const target = normalizeAnswerText(accepted);
+  if (!normalized.length || !target.length) {
+    return false;
+  }
+  const maxDistance = options.maxDistance ?? defaultMaxDistance(target.length);
+  return levenshteinDistance(normalized, target) <= maxDistance;
+};
+
+const matchesNumeric = (candidate: string, accepted: string, options: AnswerMatchOptions) => {
+  const response = parseNumericAnswer(candidate);
+  const expected = parseNumericAnswer(accepted);
+  if (!response || !expected) {
+    return false;
+  }
+  if (response.unit) {
+    const allowedUnits = [...(options.units ?? []), expected.unit]
+      .map((unit) => normalizeAnswerText(unit))
+      .filter((unit) => unit.length > 0);
+    if (!allowedUnits.includes(response.unit)) {
+      return false;
+    }
+  }
+  const tolerance = Math.abs(options.tolerance ?? 0);
+  // Small epsilon so 0.1 + 0.2 style float noise never flips a correct answer.
+  return Math.abs(response.value - expected.value) <= tolerance + 1e-9;
+};
+
+const matchesPattern = (candidate: string, pattern: string) => {
+  try {
+    return compileAnswerPattern(pattern).test(candidate.trim());
+  } catch {
+    return false;
+  }
+};
+
+export const parseAnswerMatchOptions = (
+  raw: Prisma.JsonValue | null | undefined,
+): AnswerMatchOptions => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {};
+  }
+  const record = raw as Record<string, unknown>;
+  const options: AnswerMatchOptions = {};
+  if (typeof record.maxDistance === "number" && record.maxDistance >= 0) {
+    options.maxDistance = Math.floor(record.maxDistance);
+  }
+  if (typeof record.tolerance === "number" && record.tolerance >= 0) {
+    options.tolerance = record.tolerance;
+  }
+  if (Array.isArray(record.units)) {
+    options.units = record.units.filter((unit): unit is string => typeof unit === "string");
+  }
+  return options;
+};
+
+export const matchAnswer = (
+  candidate: string,
+  accepted: string,
+  strategy: AnswerMatchStrategy = AnswerMatchStrategy.EXACT,
+  options: AnswerMatchOptions = {},
+) => {
+  if (!candidate.trim()) {
+    return false;
+  }
+  switch (strategy) {
+    case AnswerMatchStrategy.FUZZY:
+      return matchesFuzzy(candidate, accepted, options);
+    case AnswerMatchStrategy.NUMERIC:
+      return matchesNumeric(candidate, accepted, options);
+    case AnswerMatchStrategy.REGEX:
+      return matchesPattern(candidate, accepted);
+    default:
+      return matchesExact(candidate, accepted);
+  }
+};
@@ -179,6 +179,9 @@ export const mapQuizDto = <T extends Record<string, any>>(quiz: T) => {
   const description = quiz.description ?? quiz.quiz_description ?? null;
   const difficulty = quiz.difficulty ?? quiz.quiz_difficulty ?? null;
   const isActive = quiz.isActive ?? quiz.is_active ?? true;
+  const isPremium = quiz.isPremium ?? quiz.is_premium ?? false;
+  const isAdaptive = quiz.isAdaptive ?? quiz.is_adaptive ?? false;
+  const adaptiveQuestionCount = quiz.adaptiveQuestionCount ?? quiz.adaptive_question_count ?? null;
   const createdAt = quiz.createdAt ?? quiz.created_at ?? null;
   const updatedAt = quiz.updatedAt ?? quiz.updated_at ?? null;
   const questionCount = quiz.questionCount ?? quiz.questions?.length ?? 0;
@@ -199,6 +202,12 @@ export const mapQuizDto = <T extends Record<string, any>>(quiz: T) => {
     difficulty,
     isActive,
     is_active: quiz.is_active ?? isActive,
+    isPremium,
+    is_premium: quiz.is_premium ?? isPremium,
+    isAdaptive,
+    is_adaptive: quiz.is_adaptive ?? isAdaptive,
+    adaptiveQuestionCount,
+    adaptive_question_count: quiz.adaptive_question_count ?? adaptiveQuestionCount,
     createdAt,
     created_at: quiz.created_at ?? createdAt ?? undefined,
     updatedAt,
@@ -244,6 +253,9 @@ export const mapPracticeTestDto = <T extends Record<string, any>>(test: T) => {
   const xpReward = test.xpReward ?? test.xp_reward ?? 0;
   const questionCount = test.questionCount ?? test.question_count ?? test.questions?.length ?? 0;
   const isActive = test.isActive ?? test.is_active ?? true;
+  const isGenerated = test.isGenerated ?? test.is_generated ?? false;
+  const isPremium = test.isPremium ?? test.is_premium ?? false;
+  const negativeMarking = test.negativeMarking ?? test.negative_marking ?? 0;
   const difficultyMix = test.difficultyMix ?? test.difficulty_mix ?? {};
   const topicIds = test.topicIds ?? test.topic_ids ?? [];
   const topics = test.topics ?? test.topic_list ?? [];
@@ -279,6 +291,12 @@ export const mapPracticeTestDto = <T extends Record<string, any>>(test: T) => {
     question_count: test.question_count ?? questionCount ?? undefined,
     isActive,
     is_active: test.is_active ?? isActive,
+    isGenerated,
+    is_generated: test.is_generated ?? isGenerated,
+    isPremium,
+    is_premium: test.is_premium ?? isPremium,
+    negativeMarking,
+    negative_marking: test.negative_marking ?? negativeMarking,
     difficultyMix,
     difficulty_mix: test.difficulty_mix ?? difficultyMix ?? undefined,
     topicIds,
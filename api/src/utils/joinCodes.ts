@@ -0,0 +1,33 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+
+// No 0/O or 1/I, so a code read aloud or copied from a board is typed correctly.
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+const JOIN_CODE_ATTEMPTS = 5;
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+export const generateJoinCode = () =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)]).join(
+    "",
+  );
+
+export const normalizeJoinCode = (code: string) => code.replace(/[\s-]/g, "").toUpperCase();
+
+// Codes are short enough to collide occasionally; retry with a fresh one instead of failing the write.
+export const withFreshJoinCode = async <T>(write: (joinCode: string) => Promise<T>) => {
+  for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt += 1) {
+    try {
+      return await write(generateJoinCode());
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+  }
+  const error = new Error("Could not generate a unique code, please try again");
+  (error as { statusCode?: number }).statusCode = 503;
+  throw error;
+};
@@ -1,5 +1,18 @@
-import { QuestionAttemptV2, QuizAttemptV2, PracticeTestAttemptV2, TopicMastery, XpTransaction } from "@prisma/client";
-import { mapPracticeTestDto, mapQuestionDto, mapQuizDto } from "./dtoMappers";
+import {
+  FlashcardReview,
+  ObjectiveMastery,
+  QuestionAttemptV2,
+  QuestionRevision,
+  QuestionType,
+  QuizAttemptV2,
+  PracticeTestAttemptV2,
+  ReviewAttemptV2,
+  TopicMastery,
+  XpTransaction,
+} from "@prisma/client";
+import { mapFlashcardDto, mapPracticeTestDto, mapQuestionDto, mapQuizDto } from "./dtoMappers";
+import { summarizeMastery } from "./masteryModel";
+import { createSeededRandom, seededShuffle } from "./seededRandom";
 
 type AnyQuestion = Record<string, any>;
 
@@ -36,18 +49,35 @@ const parseMetadata = (metadata: unknown): Record<string, unknown> | null => {
   return null;
 };
 
+// Seeded by question id so a learner sees the same scramble every time the question loads.
+const scrambleForLearner = (items: string[], questionId: number, correctOrder: string[] = items) => {
+  const shuffled = seededShuffle(items, createSeededRandom(questionId));
+  const unchanged = shuffled.length > 1 && shuffled.every((item, index) => item === correctOrder[index]);
+  return unchanged ? [...shuffled.slice(1), shuffled[0]!] : shuffled;
+};
+
 export const mapLearnerQuestionDto = (question: AnyQuestion) => {
   const base = mapQuestionDto(question);
   if (!base) {
     return null;
   }
   const questionId = base.questionId ?? base.id ?? question.id;
-  const options =
+  const questionType = base.questionType ?? question.questionType;
+  const authoredOptions =
     Array.isArray(question.options) && question.options.length
       ? question.options
       : Array.isArray(base.options)
         ? base.options
         : toStringArray(question.options);
+  const correctAnswers = toStringArray(question.correctAnswers ?? base.correctAnswers);
+  const options =
+    questionType === QuestionType.ORDERING
+      ? scrambleForLearner(toStringArray(authoredOptions), Number(questionId), correctAnswers)
+      : authoredOptions;
+  const matchChoices =
+    questionType === QuestionType.MATCHING
+      ? scrambleForLearner(Array.from(new Set(correctAnswers)), Number(questionId))
+      : undefined;
   return {
     ...base,
     questionId,
@@ -56,6 +86,52 @@ export const mapLearnerQuestionDto = (question: AnyQuestion) => {
     prompt_text: base.questionText ?? question.questionText,
     options,
     choices: options,
+    ...(matchChoices ? { matchChoices, match_choices: matchChoices } : {}),
+  };
+};
+
+/**
+ * Strips answer keys from a learner question payload so practice tests and exam-mode
+ * attempts cannot reveal correctness before they are graded.
+ */
+export const hideLearnerQuestionAnswers = <T extends Record<string, any> | null>(question: T) => {
+  if (!question) {
+    return question;
+  }
+  const {
+    correctOption: _correctOption,
+    correct_option: _correctOptionSnake,
+    correctAnswers: _correctAnswers,
+    correct_answers: _correctAnswersSnake,
+    explanation: _explanation,
+    ...rest
+  } = question;
+  return rest;
+};
+
+/**
+ * Premium quizzes and practice tests stay listed so learners can discover them, but their
+ * questions are withheld until the learner is entitled.
+ */
+export const lockLearnerPremiumContent = <T extends Record<string, any>>(dto: T, hasPremiumAccess: boolean) => {
+  const locked = Boolean(dto.isPremium) && !hasPremiumAccess;
+  return locked ? { ...dto, locked, questions: [], questions_list: [] } : { ...dto, locked };
+};
+
+/**
+ * Premium flashcards keep their prompt as a teaser; the answer is withheld.
+ */
+export const lockLearnerPremiumFlashcard = <T extends Record<string, any> | null>(dto: T, hasPremiumAccess: boolean) => {
+  if (!dto) {
+    return dto;
+  }
+  const isPremium = Boolean(dto.is_premium ?? dto.isPremium);
+  const locked = isPremium && !hasPremiumAccess;
+  return {
+    ...dto,
+    isPremium,
+    locked,
+    ...(locked ? { backText: null, back_text: null } : {}),
   };
 };
 
@@ -86,7 +162,7 @@ export const mapLearnerPracticeTestDto = (practiceTest: Record<string, any>) =>
   const questions = Array.isArray(practiceTest.questions)
     ? practiceTest.questions.map((entry) => {
         const payload = entry.Question ?? entry;
-        return mapLearnerQuestionDto(payload);
+        return hideLearnerQuestionAnswers(mapLearnerQuestionDto(payload));
       })
     : undefined;
   const totalQuestions = coalesce(base.questionCount, questions?.length, practiceTest.questionCount) ?? 0;
@@ -99,19 +175,53 @@ export const mapLearnerPracticeTestDto = (practiceTest: Record<string, any>) =>
   };
 };
 
-export const mapLearnerQuestionAttemptDto = (attempt: QuestionAttemptV2 & { Question?: AnyQuestion | null }) => {
-  const questionPayload = attempt.Question ? mapLearnerQuestionDto(attempt.Question) : undefined;
+type AnsweredQuestionAttempt = QuestionAttemptV2 & {
+  Question?: AnyQuestion | null;
+  Revision?: QuestionRevision | null;
+};
+
+// Review shows the version the learner answered; the live question may have been edited since.
+const resolveAnsweredQuestion = (attempt: AnsweredQuestionAttempt) => {
+  const { Question: question, Revision: revision } = attempt;
+  if (!question || !revision) {
+    return question;
+  }
+  return {
+    ...question,
+    questionText: revision.questionText,
+    questionType: revision.questionType,
+    options: revision.options,
+    correctOption: revision.correctOption,
+    correctAnswers: revision.correctAnswers,
+    matchStrategy: revision.matchStrategy,
+    matchOptions: revision.matchOptions,
+    topicId: revision.topicId,
+    difficulty: revision.difficulty,
+    language: revision.language,
+    imageUrl: revision.imageUrl,
+    explanation: revision.explanation,
+    version: revision.version,
+  };
+};
+
+export const mapLearnerQuestionAttemptDto = (attempt: AnsweredQuestionAttempt) => {
+  const question = resolveAnsweredQuestion(attempt);
+  const questionPayload = question ? mapLearnerQuestionDto(question) : undefined;
   return {
     questionAttemptId: attempt.id,
     question_attempt_id: attempt.id,
     questionId: attempt.questionId,
     question_id: attempt.questionId,
+    questionRevisionId: attempt.questionRevisionId ?? undefined,
+    question_revision_id: attempt.questionRevisionId ?? undefined,
     userId: attempt.userId,
     user_id: attempt.userId,
     quizAttemptId: attempt.quizAttemptId ?? undefined,
     quiz_attempt_id: attempt.quizAttemptId ?? undefined,
     practiceTestAttemptId: attempt.practiceTestAttemptId ?? undefined,
     practice_test_attempt_id: attempt.practiceTestAttemptId ?? undefined,
+    reviewAttemptId: attempt.reviewAttemptId ?? undefined,
+    review_attempt_id: attempt.reviewAttemptId ?? undefined,
     selectedOption: attempt.selectedOption ?? undefined,
     selected_option: attempt.selectedOption ?? undefined,
     selectedOptions: attempt.selectedOptions ?? undefined,
@@ -119,6 +229,10 @@ export const mapLearnerQuestionAttemptDto = (attempt: QuestionAttemptV2 & { Ques
     isCorrect: attempt.isCorrect,
     is_correct: attempt.isCorrect,
     score: attempt.score,
+    pointsEarned: attempt.pointsEarned,
+    points_earned: attempt.pointsEarned,
+    pointsPossible: attempt.pointsPossible,
+    points_possible: attempt.pointsPossible,
     responseMetadata: attempt.responseMetadata ?? undefined,
     response_metadata: attempt.responseMetadata ?? undefined,
     createdAt: attempt.createdAt,
@@ -127,8 +241,25 @@ export const mapLearnerQuestionAttemptDto = (attempt: QuestionAttemptV2 & { Ques
   };
 };
 
+const readMetadataNumber = (metadata: Record<string, unknown> | null, key: string) =>
+  typeof metadata?.[key] === "number" ? (metadata[key] as number) : null;
+
+const mapMasteryChange = (metadata: Record<string, unknown> | null) => {
+  const masteryBefore = readMetadataNumber(metadata, "masteryBefore");
+  const masteryAfter = readMetadataNumber(metadata, "masteryAfter");
+  const masteryConfidence = readMetadataNumber(metadata, "masteryConfidence");
+  return {
+    masteryBefore,
+    mastery_before: masteryBefore,
+    masteryAfter,
+    mastery_after: masteryAfter,
+    masteryConfidence,
+    mastery_confidence: masteryConfidence,
+  };
+};
+
 export const mapLearnerQuizAttemptDto = (
-  attempt: QuizAttemptV2 & { QuestionAttempts?: Array<QuestionAttemptV2 & { Question?: AnyQuestion | null }> },
+  attempt: QuizAttemptV2 & { QuestionAttempts?: AnsweredQuestionAttempt[] },
 ) => {
   const questions =
     attempt.QuestionAttempts?.map((questionAttempt) => mapLearnerQuestionAttemptDto(questionAttempt)) ?? [];
@@ -152,6 +283,10 @@ export const mapLearnerQuizAttemptDto = (
     correct_count: attempt.correctCount ?? 0,
     incorrectCount: attempt.incorrectCount ?? 0,
     incorrect_count: attempt.incorrectCount ?? 0,
+    pointsEarned: attempt.pointsEarned ?? null,
+    points_earned: attempt.pointsEarned ?? null,
+    pointsPossible: attempt.pointsPossible ?? null,
+    points_possible: attempt.pointsPossible ?? null,
     xpAwarded: attempt.xpAwarded ?? 0,
     xp_awarded: attempt.xpAwarded ?? 0,
     durationSeconds: attempt.durationSeconds ?? null,
@@ -162,15 +297,31 @@ export const mapLearnerQuizAttemptDto = (
     completed_at: attempt.completedAt,
     xpTransactionId,
     xp_transaction_id: xpTransactionId,
+    ...mapMasteryChange(metadata),
+    // Adaptive attempts report the ability estimate once graded; mid-attempt it would reveal correctness.
+    ...(attempt.status === "completed" && attempt.abilityEstimate !== null
+      ? { abilityEstimate: attempt.abilityEstimate, ability_estimate: attempt.abilityEstimate }
+      : {}),
     questions,
   };
 };
 
 export const mapLearnerPracticeTestAttemptDto = (
-  attempt: PracticeTestAttemptV2 & { QuestionAttempts?: Array<QuestionAttemptV2 & { Question?: AnyQuestion | null }> },
+  attempt: PracticeTestAttemptV2 & { QuestionAttempts?: AnsweredQuestionAttempt[] },
 ) => {
+  // Generated tests shuffle options per attempt; review must show them in the order the learner saw.
+  const optionOrder = parseMetadata(attempt.optionOrder);
   const questions =
-    attempt.QuestionAttempts?.map((questionAttempt) => mapLearnerQuestionAttemptDto(questionAttempt)) ?? [];
+    attempt.QuestionAttempts?.map((questionAttempt) => {
+      const options = optionOrder?.[String(questionAttempt.questionId)];
+      const question = resolveAnsweredQuestion(questionAttempt);
+      return mapLearnerQuestionAttemptDto({
+        ...questionAttempt,
+        Question: Array.isArray(options) && question ? { ...question, options } : (question ?? null),
+        Revision: null,
+      });
+    }) ?? [];
+  const questionIds = Array.isArray(attempt.questionIds) ? attempt.questionIds : null;
   const metadata = parseMetadata(attempt.metadata);
   const xpTransactionId =
     metadata && metadata.xpTransactionId !== undefined
@@ -191,21 +342,106 @@ export const mapLearnerPracticeTestAttemptDto = (
     correct_count: attempt.correctCount ?? 0,
     incorrectCount: attempt.incorrectCount ?? 0,
     incorrect_count: attempt.incorrectCount ?? 0,
+    pointsEarned: attempt.pointsEarned ?? null,
+    points_earned: attempt.pointsEarned ?? null,
+    pointsPossible: attempt.pointsPossible ?? null,
+    points_possible: attempt.pointsPossible ?? null,
+    xpAwarded: attempt.xpAwarded ?? 0,
+    xp_awarded: attempt.xpAwarded ?? 0,
+    durationSeconds: attempt.durationSeconds ?? null,
+    duration_seconds: attempt.durationSeconds ?? null,
+    mode: attempt.mode,
+    deadlineAt: attempt.deadlineAt ?? null,
+    deadline_at: attempt.deadlineAt ?? null,
+    seed: attempt.seed ?? null,
+    questionIds,
+    question_ids: questionIds,
+    startedAt: attempt.startedAt,
+    started_at: attempt.startedAt,
+    completedAt: attempt.completedAt,
+    completed_at: attempt.completedAt,
+    xpTransactionId,
+    xp_transaction_id: xpTransactionId,
+    ...mapMasteryChange(metadata),
+    questions,
+  };
+};
+
+const readMetadataIds = (metadata: Record<string, unknown> | null, key: string) =>
+  Array.isArray(metadata?.[key]) ? (metadata[key] as unknown[]).map(Number).filter(Number.isInteger) : [];
+
+export const mapLearnerReviewAttemptDto = (
+  attempt: ReviewAttemptV2 & { QuestionAttempts?: AnsweredQuestionAttempt[] },
+) => {
+  const questions =
+    attempt.QuestionAttempts?.map((questionAttempt) => mapLearnerQuestionAttemptDto(questionAttempt)) ?? [];
+  const metadata = parseMetadata(attempt.metadata);
+  const xpTransactionId = readMetadataNumber(metadata, "xpTransactionId");
+  const mistakeQuestionIds = readMetadataIds(metadata, "mistakeQuestionIds");
+  const retiredQuestionIds = readMetadataIds(metadata, "retiredQuestionIds");
+  return {
+    attemptId: attempt.id,
+    attempt_id: attempt.id,
+    topicId: attempt.topicId ?? null,
+    topic_id: attempt.topicId ?? null,
+    userId: attempt.userId,
+    user_id: attempt.userId,
+    status: attempt.status,
+    score: attempt.score ?? 0,
+    totalQuestions: attempt.totalQuestions ?? questions.length,
+    total_questions: attempt.totalQuestions ?? questions.length,
+    correctCount: attempt.correctCount ?? 0,
+    correct_count: attempt.correctCount ?? 0,
+    incorrectCount: attempt.incorrectCount ?? 0,
+    incorrect_count: attempt.incorrectCount ?? 0,
+    pointsEarned: attempt.pointsEarned ?? null,
+    points_earned: attempt.pointsEarned ?? null,
+    pointsPossible: attempt.pointsPossible ?? null,
+    points_possible: attempt.pointsPossible ?? null,
     xpAwarded: attempt.xpAwarded ?? 0,
     xp_awarded: attempt.xpAwarded ?? 0,
     durationSeconds: attempt.durationSeconds ?? null,
     duration_seconds: attempt.durationSeconds ?? null,
+    mistakeQuestionIds,
+    mistake_question_ids: mistakeQuestionIds,
+    retiredQuestionIds,
+    retired_question_ids: retiredQuestionIds,
+    retiredCount: retiredQuestionIds.length,
+    retired_count: retiredQuestionIds.length,
     startedAt: attempt.startedAt,
     started_at: attempt.startedAt,
     completedAt: attempt.completedAt,
     completed_at: attempt.completedAt,
     xpTransactionId,
     xp_transaction_id: xpTransactionId,
+    ...mapMasteryChange(metadata),
     questions,
   };
 };
 
+export const mapLearnerAttemptDraftDto = (attempt: QuizAttemptV2 | PracticeTestAttemptV2 | ReviewAttemptV2) => {
+  const responses = Array.isArray(attempt.draftResponses) ? attempt.draftResponses : [];
+  const mode = "mode" in attempt ? attempt.mode : "practice";
+  const deadlineAt = "deadlineAt" in attempt ? attempt.deadlineAt : null;
+  return {
+    attemptId: attempt.id,
+    attempt_id: attempt.id,
+    status: attempt.status,
+    mode,
+    deadlineAt,
+    deadline_at: deadlineAt,
+    currentIndex: attempt.currentIndex,
+    current_index: attempt.currentIndex,
+    responses,
+    startedAt: attempt.startedAt,
+    started_at: attempt.startedAt,
+    lastSavedAt: attempt.lastSavedAt ?? null,
+    last_saved_at: attempt.lastSavedAt ?? null,
+  };
+};
+
 export const mapTopicMasteryDto = (mastery: TopicMastery & { Topic?: AnyQuestion | null }) => {
+  const current = summarizeMastery(mastery, new Date());
   return {
     masteryId: mastery.id,
     mastery_id: mastery.id,
@@ -218,6 +454,10 @@ export const mapTopicMasteryDto = (mastery: TopicMastery & { Topic?: AnyQuestion
     totalAttempts: mastery.totalAttempts,
     total_attempts: mastery.totalAttempts,
     accuracy: mastery.accuracy,
+    mastery: current.mastery,
+    confidence: current.confidence,
+    lastPracticedAt: mastery.lastPracticedAt,
+    last_practiced_at: mastery.lastPracticedAt,
     updatedAt: mastery.updatedAt,
     updated_at: mastery.updatedAt,
     topic: mastery.Topic
@@ -232,6 +472,84 @@ export const mapTopicMasteryDto = (mastery: TopicMastery & { Topic?: AnyQuestion
   };
 };
 
+export const mapObjectiveMasteryDto = (
+  mastery: ObjectiveMastery & {
+    Objective: {
+      id: number;
+      topicId: number;
+      curriculum: string;
+      code: string;
+      description: string;
+      Topic?: { topic_name: string } | null;
+    };
+  },
+) => {
+  const current = summarizeMastery(mastery, new Date());
+  return {
+    masteryId: mastery.id,
+    mastery_id: mastery.id,
+    objectiveId: mastery.objectiveId,
+    objective_id: mastery.objectiveId,
+    topicId: mastery.Objective.topicId,
+    topic_id: mastery.Objective.topicId,
+    topicName: mastery.Objective.Topic?.topic_name ?? null,
+    topic_name: mastery.Objective.Topic?.topic_name ?? null,
+    curriculum: mastery.Objective.curriculum,
+    code: mastery.Objective.code,
+    description: mastery.Objective.description,
+    correctAttempts: mastery.correctAttempts,
+    correct_attempts: mastery.correctAttempts,
+    totalAttempts: mastery.totalAttempts,
+    total_attempts: mastery.totalAttempts,
+    accuracy: mastery.accuracy,
+    mastery: current.mastery,
+    confidence: current.confidence,
+    lastPracticedAt: mastery.lastPracticedAt,
+    last_practiced_at: mastery.lastPracticedAt,
+    updatedAt: mastery.updatedAt,
+    updated_at: mastery.updatedAt,
+  };
+};
+
+export const mapTopicLockDto = (state?: {
+  locked: boolean;
+  prerequisites: Array<{
+    topicId: number;
+    topicName: string;
+    minAccuracy: number;
+    mastery: number | null;
+    attempts: number;
+    met: boolean;
+  }>;
+  unlocksNext: Array<{ topicId: number; topicName: string }>;
+}) => {
+  const prerequisites = (state?.prerequisites ?? []).map((entry) => ({
+    topicId: entry.topicId,
+    topic_id: entry.topicId,
+    topicName: entry.topicName,
+    topic_name: entry.topicName,
+    minAccuracy: entry.minAccuracy,
+    min_accuracy: entry.minAccuracy,
+    mastery: entry.mastery,
+    attempts: entry.attempts,
+    met: entry.met,
+  }));
+  const unlocksNext = (state?.unlocksNext ?? []).map((entry) => ({
+    topicId: entry.topicId,
+    topic_id: entry.topicId,
+    topicName: entry.topicName,
+    topic_name: entry.topicName,
+  }));
+  return {
+    locked: state?.locked ?? false,
+    isLocked: state?.locked ?? false,
+    is_locked: state?.locked ?? false,
+    prerequisites,
+    unlocksNext,
+    unlocks_next: unlocksNext,
+  };
+};
+
 export const mapXpTransactionDto = (transaction: XpTransaction) => ({
   transactionId: transaction.id,
   transaction_id: transaction.id,
@@ -244,3 +562,238 @@ export const mapXpTransactionDto = (transaction: XpTransaction) => ({
   createdAt: transaction.createdAt,
   created_at: transaction.createdAt,
 });
+
+export const mapFlashcardReviewDto = (review: FlashcardReview) => ({
+  reviewId: review.id,
+  review_id: review.id,
+  flashcardId: review.flashcardId,
+  flashcard_id: review.flashcardId,
+  easeFactor: review.easeFactor,
+  ease_factor: review.easeFactor,
+  intervalDays: review.intervalDays,
+  interval_days: review.intervalDays,
+  repetitions: review.repetitions,
+  lapses: review.lapses,
+  lastGrade: review.lastGrade ?? null,
+  last_grade: review.lastGrade ?? null,
+  dueAt: review.dueAt,
+  due_at: review.dueAt,
+  lastReviewedAt: review.lastReviewedAt ?? null,
+  last_reviewed_at: review.lastReviewedAt ?? null,
+});
+
+export const mapDueFlashcardDto = (flashcard: Record<string, any>, review: FlashcardReview | null) => ({
+  ...mapFlashcardDto(flashcard),
+  isNew: review === null,
+  is_new: review === null,
+  dueAt: review?.dueAt ?? null,
+  due_at: review?.dueAt ?? null,
+  review: review ? mapFlashcardReviewDto(review) : null,
+});
+
+export const mapLearnerClassroomDto = (classroom: {
+  id: number;
+  name: string;
+  description: string | null;
+  Teacher?: { full_name: string } | null;
+  _count?: { assignments: number };
+}) => ({
+  classroomId: classroom.id,
+  classroom_id: classroom.id,
+  name: classroom.name,
+  description: classroom.description ?? null,
+  teacherName: classroom.Teacher?.full_name ?? null,
+  teacher_name: classroom.Teacher?.full_name ?? null,
+  assignmentCount: classroom._count?.assignments ?? 0,
+  assignment_count: classroom._count?.assignments ?? 0,
+});
+
+export const mapLearnerAssignmentDto = (
+  assignment: {
+    id: number;
+    quizId: number | null;
+    practiceTestId: number | null;
+    title: string | null;
+    instructions: string | null;
+    dueAt: Date;
+    Quiz?: { title: string } | null;
+    PracticeTest?: { title: string } | null;
+    Classroom?: { id: number; name: string } | null;
+  },
+  progress: { status: string; attemptId: number | null; score: number | null; completedAt: Date | null; late: boolean },
+) => {
+  const type = assignment.quizId ? "quiz" : "practice";
+  const title = assignment.title ?? assignment.Quiz?.title ?? assignment.PracticeTest?.title ?? "Assignment";
+  return {
+    assignmentId: assignment.id,
+    assignment_id: assignment.id,
+    type,
+    title,
+    instructions: assignment.instructions ?? null,
+    quizId: assignment.quizId,
+    quiz_id: assignment.quizId,
+    practiceTestId: assignment.practiceTestId,
+    practice_test_id: assignment.practiceTestId,
+    classroomId: assignment.Classroom?.id ?? null,
+    classroom_id: assignment.Classroom?.id ?? null,
+    classroomName: assignment.Classroom?.name ?? null,
+    classroom_name: assignment.Classroom?.name ?? null,
+    dueAt: assignment.dueAt,
+    due_at: assignment.dueAt,
+    status: progress.status,
+    attemptId: progress.attemptId,
+    attempt_id: progress.attemptId,
+    score: progress.score,
+    completedAt: progress.completedAt,
+    completed_at: progress.completedAt,
+    late: progress.late,
+  };
+};
+
+type GuardianLearnerRecord = {
+  id: number;
+  full_name: string;
+  xp_total: number;
+  level: number;
+  streak_days: number;
+};
+
+export const mapGuardianLearnerDto = (learner: GuardianLearnerRecord, linkedAt?: Date | null) => ({
+  learnerId: learner.id,
+  learner_id: learner.id,
+  fullName: learner.full_name,
+  full_name: learner.full_name,
+  xpTotal: learner.xp_total,
+  xp_total: learner.xp_total,
+  level: learner.level,
+  streakDays: learner.streak_days,
+  streak_days: learner.streak_days,
+  linkedAt: linkedAt ?? null,
+  linked_at: linkedAt ?? null,
+});
+
+export const mapGuardianDashboardDto = (dashboard: {
+  learner: GuardianLearnerRecord;
+  xpLast7Days: number;
+  mastery: Array<{
+    topicId: number;
+    accuracy: number;
+    correctAttempts: number;
+    totalAttempts: number;
+    successEvidence: number;
+    failureEvidence: number;
+    lastPracticedAt: Date | null;
+    updatedAt: Date;
+    Topic: { topic_name: string };
+  }>;
+  recentAttempts: Array<{
+    attemptId: number;
+    type: "quiz" | "practice";
+    title: string;
+    topicName: string | null;
+    score: number | null;
+    completedAt: Date;
+  }>;
+}) => ({
+  learner: mapGuardianLearnerDto(dashboard.learner),
+  xpLast7Days: dashboard.xpLast7Days,
+  xp_last_7_days: dashboard.xpLast7Days,
+  mastery: dashboard.mastery.map((entry) => ({
+    topicId: entry.topicId,
+    topic_id: entry.topicId,
+    topicName: entry.Topic.topic_name,
+    topic_name: entry.Topic.topic_name,
+    accuracy: entry.accuracy,
+    ...summarizeMastery(entry, new Date()),
+    correctAttempts: entry.correctAttempts,
+    correct_attempts: entry.correctAttempts,
+    totalAttempts: entry.totalAttempts,
+    total_attempts: entry.totalAttempts,
+    updatedAt: entry.updatedAt,
+    updated_at: entry.updatedAt,
+  })),
+  recentAttempts: dashboard.recentAttempts.map((attempt) => ({
+    attemptId: attempt.attemptId,
+    attempt_id: attempt.attemptId,
+    type: attempt.type,
+    title: attempt.title,
+    topicName: attempt.topicName,
+    topic_name: attempt.topicName,
+    score: attempt.score,
+    completedAt: attempt.completedAt,
+    completed_at: attempt.completedAt,
+  })),
+});
+
+export const mapGuardianSummaryDto = (summary: {
+  id: number;
+  learnerId: number;
+  weekStart: Date;
+  xpEarned: number;
+  activeDays: number;
+  quizzesCompleted: number;
+  practiceTestsCompleted: number;
+  averageScore: number | null;
+  streakDays: number;
+  details: unknown;
+  readAt: Date | null;
+  Learner?: { full_name: string } | null;
+}) => ({
+  summaryId: summary.id,
+  summary_id: summary.id,
+  learnerId: summary.learnerId,
+  learner_id: summary.learnerId,
+  learnerName: summary.Learner?.full_name ?? null,
+  learner_name: summary.Learner?.full_name ?? null,
+  weekStart: summary.weekStart,
+  week_start: summary.weekStart,
+  xpEarned: summary.xpEarned,
+  xp_earned: summary.xpEarned,
+  activeDays: summary.activeDays,
+  active_days: summary.activeDays,
+  quizzesCompleted: summary.quizzesCompleted,
+  quizzes_completed: summary.quizzesCompleted,
+  practiceTestsCompleted: summary.practiceTestsCompleted,
+  practice_tests_completed: summary.practiceTestsCompleted,
+  averageScore: summary.averageScore,
+  average_score: summary.averageScore,
+  streakDays: summary.streakDays,
+  streak_days: summary.streakDays,
+  details: summary.details ?? null,
+  read: summary.readAt !== null,
+});
+
+export const mapRecommendationDto = (item: {
+  type: string;
+  title: string;
+  reason: string;
+  priority: number;
+  topicId: number | null;
+  topicName: string | null;
+  subjectId: number | null;
+  quizId: number | null;
+  practiceTestId: number | null;
+  attemptId: number | null;
+  challengeId: number | null;
+  count: number | null;
+}) => ({
+  type: item.type,
+  title: item.title,
+  reason: item.reason,
+  priority: item.priority,
+  topicId: item.topicId,
+  topic_id: item.topicId,
+  topicName: item.topicName,
+  topic_name: item.topicName,
+  subjectId: item.subjectId,
+  subject_id: item.subjectId,
+  quizId: item.quizId,
+  quiz_id: item.quizId,
+  practiceTestId: item.practiceTestId,
+  practice_test_id: item.practiceTestId,
+  attemptId: item.attemptId,
+  attempt_id: item.attemptId,
+  challengeId: item.challengeId,
+  challenge_id: item.challengeId,
+  count: item.count,
+});
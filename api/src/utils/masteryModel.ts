@@ -0,0 +1,46 @@
+// Evidence halves after this many days without practice, so old results fade back towards "unknown".
+export const MASTERY_HALF_LIFE_DAYS = 21;
+
+// Amount of evidence at which confidence reaches one half.
+const CONFIDENCE_EVIDENCE = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MasteryState = {
+  successEvidence: number;
+  failureEvidence: number;
+  lastPracticedAt: Date | null;
+};
+
+export const emptyMasteryState: MasteryState = { successEvidence: 0, failureEvidence: 0, lastPracticedAt: null };
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+export const decayMasteryState = (state: MasteryState, at: Date): MasteryState => {
+  if (!state.lastPracticedAt) {
+    return state;
+  }
+  const days = Math.max(0, at.getTime() - state.lastPracticedAt.getTime()) / DAY_MS;
+  const factor = 0.5 ** (days / MASTERY_HALF_LIFE_DAYS);
+  return {
+    successEvidence: state.successEvidence * factor,
+    failureEvidence: state.failureEvidence * factor,
+    lastPracticedAt: state.lastPracticedAt,
+  };
+};
+
+/**
+ * Mastery is the mean of a Beta(1, 1) prior updated with the (decayed) evidence, as a percentage;
+ * confidence says how much evidence backs it. Without `at` the estimate is as of the last practice.
+ */
+export const summarizeMastery = (state: MasteryState, at?: Date) => {
+  const decayed = at ? decayMasteryState(state, at) : state;
+  const evidence = decayed.successEvidence + decayed.failureEvidence;
+  return {
+    mastery: round((100 * (decayed.successEvidence + 1)) / (evidence + 2), 2),
+    confidence: round(evidence / (evidence + CONFIDENCE_EVIDENCE), 3),
+  };
+};
@@ -0,0 +1,120 @@
+import katex from "katex";
+import "katex/dist/contrib/mhchem.js";
+
+export type MathSegment = {
+  type: "text" | "math";
+  value: string;
+  // Source text including delimiters and escapes, so callers can rebuild the original markup.
+  raw: string;
+  displayMode: boolean;
+};
+
+// Longest delimiters first so "$$" is never read as two empty inline formulas.
+const delimiters = [
+  { open: "$$", close: "$$", displayMode: true },
+  { open: "\\[", close: "\\]", displayMode: true },
+  { open: "\\(", close: "\\)", displayMode: false },
+  { open: "$", close: "$", displayMode: false },
+];
+
+const findClosing = (text: string, close: string, from: number) => {
+  let index = text.indexOf(close, from);
+  while (index > 0 && text[index - 1] === "\\" && close === "$") {
+    index = text.indexOf(close, index + 1);
+  }
+  return index;
+};
+
+/**
+ * Splits text into plain and math segments. Supports $...$, $$...$$, \(...\) and \[...\];
+ * an escaped \$ stays literal so prices do not open a formula.
+ */
+export const splitMathSegments = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = "";
+  let bufferStart = 0;
+  let index = 0;
+
+  const flushText = (end: number) => {
+    if (buffer) {
+      segments.push({ type: "text", value: buffer, raw: text.slice(bufferStart, end), displayMode: false });
+      buffer = "";
+    }
+  };
+
+  while (index < text.length) {
+    if (text[index] === "\\" && text[index + 1] === "$") {
+      buffer += "$";
+      index += 2;
+      continue;
+    }
+
+    const delimiter = delimiters.find((entry) => text.startsWith(entry.open, index));
+    const closing = delimiter ? findClosing(text, delimiter.close, index + delimiter.open.length) : -1;
+    if (!delimiter || closing === -1) {
+      buffer += text[index];
+      index += 1;
+      continue;
+    }
+
+    flushText(index);
+    const end = closing + delimiter.close.length;
+    segments.push({
+      type: "math",
+      value: text.slice(index + delimiter.open.length, closing),
+      raw: text.slice(index, end),
+      displayMode: delimiter.displayMode,
+    });
+    index = end;
+    bufferStart = end;
+  }
+
+  flushText(text.length);
+  return segments;
+};
+
+export const hasMathMarkup = (text: string) => splitMathSegments(text).some((segment) => segment.type === "math");
+
+/**
+ * Returns the first KaTeX parse error in the text, or null when every formula renders.
+ * mhchem is registered above so \ce{...} and \pu{...} are accepted.
+ */
+export const findMathMarkupError = (text: string): string | null => {
+  for (const segment of splitMathSegments(text)) {
+    if (segment.type !== "math") {
+      continue;
+    }
+    if (!segment.value.trim()) {
+      return "Empty formula";
+    }
+    try {
+      katex.renderToString(segment.value, { displayMode: segment.displayMode, throwOnError: true });
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return null;
+};
+
+/**
+ * Splits a delimited list ("a|b", "a, b") without breaking formulas that contain the separator,
+ * e.g. "$f(x, y)$|$g(x)$".
+ */
+export const splitOutsideMath = (value: string, separator: RegExp) => {
+  const items: string[] = [];
+  let current = "";
+  splitMathSegments(value).forEach((segment) => {
+    if (segment.type === "math") {
+      current += segment.raw;
+      return;
+    }
+    const parts = segment.raw.split(separator);
+    current += parts[0] ?? "";
+    parts.slice(1).forEach((part) => {
+      items.push(current);
+      current = part;
+    });
+  });
+  items.push(current);
+  return items;
+};
@@ -0,0 +1,5 @@
+import { Prisma } from "@prisma/client";
+
+// Question id lists persisted as JSON (served, drawn or pinned items); anything malformed is dropped.
+export const parseQuestionIds = (value: Prisma.JsonValue | null) =>
+  Array.isArray(value) ? value.map((entry) => Number(entry)).filter((entry) => Number.isInteger(entry) && entry > 0) : [];
@@ -0,0 +1,122 @@
+import { AnswerMatchStrategy, Difficulty, Prisma, QuestionStatus, QuestionType } from "@prisma/client";
+import { z } from "zod";
+
+export const CURRICULUM_BUNDLE_FORMAT = "nunyalearn.curriculum-bundle";
+export const CURRICULUM_BUNDLE_VERSION = 1;
+
+const key = z.string().trim().min(1).max(100);
+const optionalText = z.string().nullable().default(null);
+// Bundles arrive through JSON.parse, so any value here is already valid JSON.
+const json = z.custom<Prisma.JsonValue>().nullable().default(null);
+
+const bundleQuestionLink = z.object({
+  questionKey: key,
+  orderIndex: z.number().int().min(0),
+  points: z.number().positive().default(1),
+});
+
+export const bundleGradeLevelSchema = z.object({
+  key,
+  name: z.string().trim().min(2),
+  description: optionalText,
+  orderIndex: z.number().int().nullable().default(null),
+  isActive: z.boolean().default(true),
+});
+
+export const bundleSubjectSchema = z.object({
+  key,
+  gradeLevelKey: key.nullable().default(null),
+  gradeLevel: z.string(),
+  name: z.string().trim().min(2),
+  description: optionalText,
+  isActive: z.boolean().default(true),
+});
+
+export const bundleTopicSchema = z.object({
+  key,
+  subjectKey: key,
+  name: z.string().trim().min(2),
+  difficulty: z.string().default("med"),
+  isActive: z.boolean().default(true),
+});
+
+export const bundleQuestionSchema = z.object({
+  key,
+  topicKey: key,
+  questionText: z.string().trim().min(1),
+  questionType: z.nativeEnum(QuestionType),
+  options: json,
+  correctOption: optionalText,
+  correctAnswers: json,
+  matchStrategy: z.nativeEnum(AnswerMatchStrategy).default(AnswerMatchStrategy.EXACT),
+  matchOptions: json,
+  difficulty: z.nativeEnum(Difficulty),
+  language: z.string().default("EN"),
+  imageUrl: optionalText,
+  explanation: optionalText,
+  status: z.nativeEnum(QuestionStatus).default(QuestionStatus.PUBLISHED),
+  isActive: z.boolean().default(true),
+});
+
+export const bundleQuizSchema = z.object({
+  key,
+  topicKey: key,
+  title: z.string().trim().min(1),
+  description: optionalText,
+  difficulty: z.nativeEnum(Difficulty),
+  isActive: z.boolean().default(true),
+  isPremium: z.boolean().default(false),
+  isAdaptive: z.boolean().default(false),
+  adaptiveQuestionCount: z.number().int().positive().nullable().default(null),
+  questions: z.array(bundleQuestionLink),
+});
+
+// Topic filters hold environment-specific ids, so generated tests travel as their fixed question list.
+export const bundlePracticeTestSchema = z.object({
+  key,
+  subjectKey: key.nullable().default(null),
+  gradeLevelKey: key.nullable().default(null),
+  title: z.string().trim().min(1),
+  description: optionalText,
+  xpReward: z.number().int().min(0).default(0),
+  durationMinutes: z.number().int().positive().nullable().default(null),
+  difficultyMix: json,
+  isGenerated: z.boolean().default(false),
+  negativeMarking: z.number().min(0).default(0),
+  isActive: z.boolean().default(true),
+  isPremium: z.boolean().default(false),
+  questions: z.array(bundleQuestionLink),
+});
+
+export const bundleFlashcardSchema = z.object({
+  key,
+  topicKey: key,
+  frontText: z.string().trim().min(1),
+  backText: z.string().trim().min(1),
+  imageUrl: optionalText,
+  language: z.string().default("en"),
+  isPremium: z.boolean().default(false),
+});
+
+// Media is referenced by URL; the bundle carries content and structure only.
+export const curriculumBundleSchema = z.object({
+  format: z.literal(CURRICULUM_BUNDLE_FORMAT),
+  version: z.literal(CURRICULUM_BUNDLE_VERSION),
+  exportedAt: z.string().optional(),
+  gradeLevels: z.array(bundleGradeLevelSchema).default([]),
+  subjects: z.array(bundleSubjectSchema).default([]),
+  topics: z.array(bundleTopicSchema).default([]),
+  questions: z.array(bundleQuestionSchema).default([]),
+  quizzes: z.array(bundleQuizSchema).default([]),
+  practiceTests: z.array(bundlePracticeTestSchema).default([]),
+  flashcards: z.array(bundleFlashcardSchema).default([]),
+});
+
+export type CurriculumBundle = z.infer<typeof curriculumBundleSchema>;
+export type BundleGradeLevel = z.infer<typeof bundleGradeLevelSchema>;
+export type BundleSubject = z.infer<typeof bundleSubjectSchema>;
+export type BundleTopic = z.infer<typeof bundleTopicSchema>;
+export type BundleQuestion = z.infer<typeof bundleQuestionSchema>;
+export type BundleQuiz = z.infer<typeof bundleQuizSchema>;
+export type BundlePracticeTest = z.infer<typeof bundlePracticeTestSchema>;
+export type BundleFlashcard = z.infer<typeof bundleFlashcardSchema>;
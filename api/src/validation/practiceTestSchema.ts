@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { questionPointsSchema } from "./quizSchema";
 
 const booleanParam = z
   .union([z.literal("true"), z.literal("false"), z.boolean()])
@@ -39,6 +40,10 @@ export const createPracticeTestSchema = z.object({
   questionCount: z.coerce.number().int().positive().max(200),
   topicIds: z.array(z.coerce.number().int().positive()).min(1),
   difficultyMix: difficultyMixSchema,
+  isGenerated: z.boolean().optional(),
+  negativeMarking: z.coerce.number().min(0).max(1).optional(),
+  isPremium: z.boolean().optional(),
+  questionPoints: questionPointsSchema.optional(),
 });
 
 export const updatePracticeTestSchema = createPracticeTestSchema
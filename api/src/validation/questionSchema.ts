@@ -1,5 +1,7 @@
-import { Difficulty, QuestionStatus, QuestionType } from "@prisma/client";
+import { AnswerMatchStrategy, Difficulty, QuestionStatus, QuestionType } from "@prisma/client";
 import { z } from "zod";
+import { AnswerMatchOptions, compileAnswerPattern, parseNumericAnswer } from "../utils/answerMatching";
+import { splitOutsideMath } from "../utils/mathMarkup";
 
 const collapseInlineWhitespace = (value: string) =>
   value
@@ -30,8 +32,7 @@ const normalizeList = (value?: string[] | string | null) => {
   }
 
   if (typeof value === "string") {
-    const normalizedList = value
-      .split(/[,|;]/)
+    const normalizedList = splitOutsideMath(value, /[,|;]/)
       .map((item) => collapseInlineWhitespace(item))
       .filter((item) => item.length);
     return normalizedList.length ? normalizedList : undefined;
@@ -40,6 +41,27 @@ const normalizeList = (value?: string[] | string | null) => {
   return undefined;
 };
 
+const matchOptionsSchema = z.object({
+  maxDistance: z.coerce.number().int().min(0).max(5).optional(),
+  tolerance: z.coerce.number().min(0).optional(),
+  units: stringOrArraySchema.optional(),
+});
+
+const normalizeMatchOptions = (value: z.infer<typeof matchOptionsSchema>) => {
+  const options: AnswerMatchOptions = {};
+  if (value.maxDistance !== undefined) {
+    options.maxDistance = value.maxDistance;
+  }
+  if (value.tolerance !== undefined) {
+    options.tolerance = value.tolerance;
+  }
+  const units = normalizeList(value.units);
+  if (units !== undefined) {
+    options.units = units;
+  }
+  return options;
+};
+
 const normalizeLanguage = (value?: string | null) => {
   const trimmed = value?.trim();
   if (!trimmed) {
@@ -66,6 +88,7 @@ export const questionListQuerySchema = z.object({
   topicId: z.coerce.number().int().positive().optional(),
   subjectId: z.coerce.number().int().positive().optional(),
   gradeId: z.coerce.number().int().positive().optional(),
+  objectiveId: z.coerce.number().int().positive().optional(),
   difficulty: z.nativeEnum(Difficulty).optional(),
   status: z.nativeEnum(QuestionStatus).optional(),
   isActive: z
@@ -88,12 +111,13 @@ export const baseQuestionSchema = z.object({
     .string()
     .optional(),
   correctAnswers: stringOrArraySchema.optional(),
+  matchStrategy: z.nativeEnum(AnswerMatchStrategy).optional(),
+  matchOptions: matchOptionsSchema.optional(),
   difficulty: z.nativeEnum(Difficulty).default(Difficulty.EASY),
   language: languageSchema.optional(),
   imageUrl: z.string().url().optional(),
   explanation: z.string().optional(),
-  status: z.nativeEnum(QuestionStatus).optional(),
-  isActive: z.boolean().optional(),
+  objectiveIds: z.array(z.coerce.number().int().positive()).max(20).optional(),
 });
 
 export const createQuestionSchema = baseQuestionSchema;
@@ -104,6 +128,28 @@ export const updateQuestionSchema = baseQuestionSchema
     message: "At least one field must be supplied for update",
   });
 
+export const questionReviewActionSchema = z.object({
+  action: z.enum(["submit", "approve", "request_changes", "publish"]),
+  reviewerId: z.number().int().positive().nullable().optional(),
+  comment: z.string().trim().min(1).max(2000).optional(),
+});
+
+export const questionReviewerSchema = z.object({
+  reviewerId: z.number().int().positive().nullable(),
+});
+
+export const questionReviewCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+  field: z
+    .enum(["questionText", "options", "correctOption", "correctAnswers", "matchOptions", "explanation", "imageUrl"])
+    .optional(),
+});
+
+export const questionReviewCommentParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  commentId: z.coerce.number().int().positive(),
+});
+
 export const importQuestionRowSchema = z.object({
   topicId: z.coerce.number().int().positive(),
   subjectId: z.coerce.number().int().positive().optional(),
@@ -113,9 +159,12 @@ export const importQuestionRowSchema = z.object({
   options: stringOrArraySchema.optional(),
   correctOption: z.string().optional(),
   correctAnswers: stringOrArraySchema.optional(),
+  matchStrategy: z.nativeEnum(AnswerMatchStrategy).optional(),
+  matchOptions: matchOptionsSchema.optional(),
   difficulty: z.nativeEnum(Difficulty).default(Difficulty.EASY),
   language: z.string().min(2).max(5).optional(),
   explanation: z.string().optional(),
+  objectiveCodes: stringOrArraySchema.optional(),
 });
 
 export type QuestionCreateInput = z.infer<typeof createQuestionSchema>;
@@ -130,12 +179,12 @@ export type NormalizedQuestionInput = {
   options?: string[];
   correctOption?: string;
   correctAnswers?: string[];
+  matchStrategy?: AnswerMatchStrategy;
+  matchOptions?: AnswerMatchOptions;
   difficulty?: Difficulty;
   language?: string;
   imageUrl?: string;
   explanation?: string;
-  status?: QuestionStatus;
-  isActive?: boolean;
 };
 
 export const normalizeQuestionPayload = <T extends QuestionCreateInput | QuestionUpdateInput>(
@@ -183,6 +232,14 @@ export const normalizeQuestionPayload = <T extends QuestionCreateInput | Questio
     normalized.correctAnswers = answers;
   }
 
+  if (payload.matchStrategy !== undefined) {
+    normalized.matchStrategy = payload.matchStrategy;
+  }
+
+  if (payload.matchOptions !== undefined) {
+    normalized.matchOptions = normalizeMatchOptions(payload.matchOptions);
+  }
+
   if (payload.difficulty !== undefined) {
     normalized.difficulty = payload.difficulty;
   }
@@ -200,14 +257,6 @@ export const normalizeQuestionPayload = <T extends QuestionCreateInput | Questio
     normalized.explanation = payload.explanation;
   }
 
-  if (payload.status !== undefined) {
-    normalized.status = payload.status;
-  }
-
-  if (payload.isActive !== undefined) {
-    normalized.isActive = payload.isActive;
-  }
-
   return normalized;
 };
 
@@ -217,6 +266,7 @@ const normalizedQuestionSchema = z
     options: z.array(z.string().min(1)).optional(),
     correctOption: z.string().min(1).optional(),
     correctAnswers: z.array(z.string().min(1)).optional(),
+    matchStrategy: z.nativeEnum(AnswerMatchStrategy).optional(),
   })
   .superRefine((data, ctx) => {
     if (data.questionType === QuestionType.MULTIPLE_CHOICE) {
@@ -259,6 +309,61 @@ const normalizedQuestionSchema = z
       }
     }
 
+    if (
+      data.questionType === QuestionType.MULTI_SELECT ||
+      data.questionType === QuestionType.MATCHING ||
+      data.questionType === QuestionType.ORDERING
+    ) {
+      const options = data.options ?? [];
+      const answers = data.correctAnswers ?? [];
+      if (options.length < 2) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "This question type requires at least two options",
+          path: ["options"],
+        });
+      }
+
+      if (data.questionType === QuestionType.MULTI_SELECT) {
+        if (!answers.length) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Multi-select questions require at least one correct answer",
+            path: ["correctAnswers"],
+          });
+        } else if (!answers.every((answer) => options.includes(answer))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Every correct answer must be one of the provided options",
+            path: ["correctAnswers"],
+          });
+        }
+      }
+
+      // Matching pairs are stored side by side: options[i] pairs with correctAnswers[i].
+      if (data.questionType === QuestionType.MATCHING && answers.length !== options.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Every matching prompt needs exactly one answer",
+          path: ["correctAnswers"],
+        });
+      }
+
+      if (data.questionType === QuestionType.ORDERING) {
+        const sameItems =
+          answers.length === options.length &&
+          new Set(answers).size === answers.length &&
+          answers.every((answer) => options.includes(answer));
+        if (!sameItems) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "The correct order must list every option exactly once",
+            path: ["correctAnswers"],
+          });
+        }
+      }
+    }
+
     if (
       data.questionType === QuestionType.FILL_IN_THE_BLANK ||
       data.questionType === QuestionType.SHORT_ANSWER
@@ -270,12 +375,39 @@ const normalizedQuestionSchema = z
           path: ["correctAnswers"],
         });
       }
+
+      data.correctAnswers?.forEach((answer, index) => {
+        if (data.matchStrategy === AnswerMatchStrategy.NUMERIC && !parseNumericAnswer(answer)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `"${answer}" is not a number`,
+            path: ["correctAnswers", index],
+          });
+        }
+        if (data.matchStrategy === AnswerMatchStrategy.REGEX) {
+          try {
+            compileAnswerPattern(answer);
+          } catch {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `"${answer}" is not a valid pattern`,
+              path: ["correctAnswers", index],
+            });
+          }
+        }
+      });
+    } else if (data.matchStrategy && data.matchStrategy !== AnswerMatchStrategy.EXACT) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Match strategies only apply to fill in the blank and short answer questions",
+        path: ["matchStrategy"],
+      });
     }
   });
 
 export const validateNormalizedQuestion = (
   payload: Pick<
     NormalizedQuestionInput,
-    "questionType" | "options" | "correctOption" | "correctAnswers"
+    "questionType" | "options" | "correctOption" | "correctAnswers" | "matchStrategy"
   >,
 ) => normalizedQuestionSchema.parse(payload);
@@ -9,6 +9,9 @@ const booleanParam = z
 
 const questionIdArray = z.array(z.coerce.number().int().positive()).min(1);
 
+// Point weights keyed by question id; questions left out are worth one point.
+export const questionPointsSchema = z.record(z.string().regex(/^\d+$/), z.coerce.number().positive().max(100));
+
 export const quizIdParamSchema = z.object({
   id: z.coerce.number().int().positive(),
 });
@@ -25,7 +28,11 @@ export const createQuizSchema = z.object({
   title: z.string().min(1).max(160),
   description: z.string().max(500).optional(),
   difficulty: z.nativeEnum(Difficulty).default(Difficulty.MEDIUM),
+  isPremium: z.boolean().optional(),
+  isAdaptive: z.boolean().optional(),
+  adaptiveQuestionCount: z.coerce.number().int().positive().max(200).nullable().optional(),
   questionIds: questionIdArray,
+  questionPoints: questionPointsSchema.optional(),
 });
 
 export const updateQuizSchema = z
@@ -33,7 +40,11 @@ export const updateQuizSchema = z
     title: z.string().min(1).max(160).optional(),
     description: z.string().max(500).optional(),
     difficulty: z.nativeEnum(Difficulty).optional(),
+    isPremium: z.boolean().optional(),
+    isAdaptive: z.boolean().optional(),
+    adaptiveQuestionCount: z.coerce.number().int().positive().max(200).nullable().optional(),
     questionIds: questionIdArray.optional(),
+    questionPoints: questionPointsSchema.optional(),
   })
   .refine((payload) => Object.keys(payload).length > 0, {
     message: "At least one field is required",
@@ -9,9 +9,14 @@ const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 type Props = {
   masteryBefore?: number;
   masteryAfter?: number;
+  // 0-1; below LOW_CONFIDENCE the estimate rests on too few answers to trust yet.
+  confidence?: number;
 };
 
-export const MasteryRing = ({ masteryBefore = 0, masteryAfter = 0 }: Props) => {
+const LOW_CONFIDENCE = 0.5;
+
+export const MasteryRing = ({ masteryBefore = 0, masteryAfter = 0, confidence }: Props) => {
+  const tentative = confidence !== undefined && confidence < LOW_CONFIDENCE;
   const clampedBefore = Math.max(0, Math.min(100, masteryBefore));
   const clampedAfter = Math.max(0, Math.min(100, masteryAfter));
   const progress = useSharedValue(clampedBefore);
@@ -37,6 +42,7 @@ export const MasteryRing = ({ masteryBefore = 0, masteryAfter = 0 }: Props) => {
           cy={55}
           r={42}
           stroke={feedbackColors.masteryGreen}
+          strokeOpacity={tentative ? 0.5 : 1}
           strokeWidth={10}
           strokeDasharray={2 * Math.PI * 42}
           animatedProps={animatedProps}
@@ -47,7 +53,7 @@ export const MasteryRing = ({ masteryBefore = 0, masteryAfter = 0 }: Props) => {
       </Svg>
       <View style={styles.center}>
         <Text style={styles.percent}>{Math.round(clampedAfter)}%</Text>
-        <Text style={styles.label}>Mastery</Text>
+        <Text style={styles.label}>{tentative ? "Estimating" : "Mastery"}</Text>
       </View>
     </View>
   );
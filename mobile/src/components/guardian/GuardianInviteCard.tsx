@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { styled } from "../../utils/styled";
+
+import Button from "../UI/Button";
+import { colors } from "../../theme/colors";
+import {
+  createGuardianInvite,
+  getMyGuardians,
+  revokeGuardianLink,
+  type GuardianInvite,
+  type LinkedGuardian,
+} from "../../services/guardian.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+const StyledPressable = styled(Pressable);
+
+export default function GuardianInviteCard() {
+  const [guardians, setGuardians] = useState<LinkedGuardian[]>([]);
+  const [invite, setInvite] = useState<GuardianInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await getMyGuardians();
+      setGuardians(data.guardians);
+      setInvite(data.pendingInvite);
+    } catch {
+      setError("Unable to load guardians");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      setInvite(await createGuardianInvite());
+    } catch {
+      setError("Unable to create a code right now");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: number) => {
+    try {
+      await revokeGuardianLink(linkId);
+      await load();
+    } catch {
+      setError("Unable to remove guardian");
+    }
+  };
+
+  return (
+    <StyledView className="gap-3 rounded-3xl border p-5" style={styles.card}>
+      <StyledText className="text-xl font-semibold" style={styles.headingText}>
+        Parents & guardians
+      </StyledText>
+      <StyledText className="text-sm" style={styles.mutedText}>
+        Share a code with a parent so they can follow your XP, streak and quiz results. They can&apos;t change anything.
+      </StyledText>
+
+      {loading ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : (
+        <StyledView className="gap-2">
+          {guardians.map((guardian) => (
+            <StyledView key={guardian.linkId} className="flex-row items-center justify-between">
+              <StyledView className="flex-1 pr-3">
+                <StyledText className="text-base font-semibold" style={styles.headingText}>
+                  {guardian.fullName ?? "Guardian"}
+                </StyledText>
+                <StyledText className="text-xs" style={styles.mutedText}>
+                  {guardian.email}
+                </StyledText>
+              </StyledView>
+              <StyledPressable onPress={() => handleRevoke(guardian.linkId)}>
+                <StyledText className="text-sm font-semibold text-red-500">Remove</StyledText>
+              </StyledPressable>
+            </StyledView>
+          ))}
+          {invite ? (
+            <StyledView className="items-center rounded-2xl p-4" style={styles.codeTile}>
+              <StyledText className="text-3xl font-bold tracking-widest" style={styles.headingText}>
+                {invite.code}
+              </StyledText>
+              <StyledText className="mt-1 text-xs" style={styles.mutedText}>
+                Expires {new Date(invite.expiresAt).toLocaleDateString()}
+              </StyledText>
+            </StyledView>
+          ) : null}
+        </StyledView>
+      )}
+
+      {error ? <StyledText className="text-sm text-red-500">{error}</StyledText> : null}
+      <Button title={invite ? "Get a new code" : "Create guardian code"} onPress={handleCreate} loading={creating} />
+    </StyledView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderColor: colors.border,
+  },
+  codeTile: {
+    backgroundColor: colors.background,
+  },
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+});
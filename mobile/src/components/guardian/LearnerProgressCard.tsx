@@ -0,0 +1,138 @@
+import { Ionicons } from "@expo/vector-icons";
+import { StyleSheet, Text, View } from "react-native";
+import { styled } from "../../utils/styled";
+
+import { colors } from "../../theme/colors";
+import type { LearnerDashboard } from "../../services/guardian.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+
+type LearnerProgressCardProps = {
+  dashboard: LearnerDashboard;
+};
+
+const MASTERY_LIMIT = 6;
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+export default function LearnerProgressCard({ dashboard }: LearnerProgressCardProps) {
+  const { learner } = dashboard;
+  const stats = [
+    { label: "Total XP", value: `${learner.xpTotal}` },
+    { label: "This week", value: `+${dashboard.xpLast7Days} XP` },
+    { label: "Level", value: `${learner.level}` },
+  ];
+
+  return (
+    <StyledView className="gap-5 rounded-3xl bg-white p-5" style={styles.card}>
+      <StyledView className="flex-row items-center justify-between">
+        <StyledText className="text-xl font-bold" style={styles.headingText}>
+          {learner.fullName}
+        </StyledText>
+        <StyledView className="flex-row items-center gap-1">
+          <Ionicons name="flame" size={18} color={colors.streak} />
+          <StyledText className="font-semibold" style={styles.headingText}>
+            {learner.streakDays} day streak
+          </StyledText>
+        </StyledView>
+      </StyledView>
+
+      <StyledView className="flex-row gap-3">
+        {stats.map((stat) => (
+          <StyledView key={stat.label} className="flex-1 rounded-2xl p-3" style={styles.statTile}>
+            <StyledText className="text-xs font-semibold uppercase" style={styles.mutedText}>
+              {stat.label}
+            </StyledText>
+            <StyledText className="mt-1 text-lg font-bold" style={styles.headingText}>
+              {stat.value}
+            </StyledText>
+          </StyledView>
+        ))}
+      </StyledView>
+
+      <StyledView className="gap-2">
+        <StyledText className="text-base font-semibold" style={styles.headingText}>
+          Topic mastery
+        </StyledText>
+        {dashboard.mastery.length ? (
+          dashboard.mastery.slice(0, MASTERY_LIMIT).map((topic) => (
+            <StyledView key={topic.topicId} className="gap-1">
+              <StyledView className="flex-row justify-between">
+                <StyledText className="text-sm" style={styles.headingText}>
+                  {topic.topicName}
+                </StyledText>
+                <StyledText className="text-sm font-semibold" style={styles.mutedText}>
+                  {Math.round(topic.mastery)}%
+                </StyledText>
+              </StyledView>
+              <StyledView className="h-2 w-full overflow-hidden rounded-full" style={styles.track}>
+                <StyledView
+                  className="h-full rounded-full"
+                  style={{ width: `${Math.min(Math.max(topic.mastery, 0), 100)}%`, backgroundColor: colors.primary }}
+                />
+              </StyledView>
+            </StyledView>
+          ))
+        ) : (
+          <StyledText className="text-sm" style={styles.mutedText}>
+            No topics practised yet.
+          </StyledText>
+        )}
+      </StyledView>
+
+      <StyledView className="gap-2">
+        <StyledText className="text-base font-semibold" style={styles.headingText}>
+          Recent quizzes and tests
+        </StyledText>
+        {dashboard.recentAttempts.length ? (
+          dashboard.recentAttempts.map((attempt) => (
+            <StyledView key={`${attempt.type}-${attempt.attemptId}`} className="flex-row items-center justify-between">
+              <StyledView className="flex-1 pr-3">
+                <StyledText className="text-sm" style={styles.headingText}>
+                  {attempt.title}
+                </StyledText>
+                <StyledText className="text-xs" style={styles.mutedText}>
+                  {attempt.topicName ? `${attempt.topicName} · ` : ""}
+                  {formatDate(attempt.completedAt)}
+                </StyledText>
+              </StyledView>
+              <StyledText className="text-sm font-semibold" style={styles.headingText}>
+                {attempt.score === null ? "—" : `${attempt.score}%`}
+              </StyledText>
+            </StyledView>
+          ))
+        ) : (
+          <StyledText className="text-sm" style={styles.mutedText}>
+            No completed quizzes yet.
+          </StyledText>
+        )}
+      </StyledView>
+    </StyledView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    shadowColor: "#0F172A",
+    shadowOpacity: 0.06,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 2,
+  },
+  statTile: {
+    backgroundColor: colors.background,
+  },
+  track: {
+    backgroundColor: colors.border,
+  },
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+});
@@ -0,0 +1,69 @@
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { styled } from "../../utils/styled";
+
+import { colors } from "../../theme/colors";
+import type { GuardianSummary } from "../../services/guardian.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+
+type WeeklySummaryCardProps = {
+  summary: GuardianSummary;
+  onPress: () => void;
+};
+
+export default function WeeklySummaryCard({ summary, onPress }: WeeklySummaryCardProps) {
+  const weekOf = new Date(summary.weekStart).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  const strongest = summary.details?.strongestTopics?.[0];
+  const weakest = summary.details?.weakestTopics?.[0];
+
+  return (
+    <Pressable onPress={onPress}>
+      <StyledView
+        className="gap-2 rounded-3xl border p-4"
+        style={[styles.card, summary.read ? null : styles.unread]}
+      >
+        <StyledView className="flex-row items-center justify-between">
+          <StyledText className="text-base font-semibold" style={styles.headingText}>
+            {summary.learnerName ?? "Learner"} · week of {weekOf}
+          </StyledText>
+          {summary.read ? null : <StyledView className="h-2 w-2 rounded-full" style={styles.dot} />}
+        </StyledView>
+        <StyledText className="text-sm" style={styles.mutedText}>
+          {summary.xpEarned} XP over {summary.activeDays} active {summary.activeDays === 1 ? "day" : "days"} ·{" "}
+          {summary.quizzesCompleted} quizzes · {summary.practiceTestsCompleted} practice tests
+        </StyledText>
+        <StyledText className="text-sm" style={styles.mutedText}>
+          {summary.averageScore === null ? "No scores this week" : `Average score ${Math.round(summary.averageScore)}%`} ·{" "}
+          {summary.streakDays} day streak
+        </StyledText>
+        {strongest || weakest ? (
+          <StyledText className="text-sm" style={styles.headingText}>
+            {strongest ? `Strongest: ${strongest.topicName}` : ""}
+            {strongest && weakest ? " · " : ""}
+            {weakest ? `Needs practice: ${weakest.topicName}` : ""}
+          </StyledText>
+        ) : null}
+      </StyledView>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  unread: {
+    borderColor: colors.primary,
+  },
+  dot: {
+    backgroundColor: colors.primary,
+  },
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+});
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Ionicons } from "@expo/vector-icons";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { styled } from "../../utils/styled";
+
+import Button from "../UI/Button";
+import Input from "../UI/Input";
+import { colors } from "../../theme/colors";
+import type { ClassAssignment, ClassAssignmentStatus } from "../../services/classroom.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+
+type ClassAssignmentsCardProps = {
+  assignments: ClassAssignment[];
+  classCount: number;
+  joining: boolean;
+  joinError?: string | null;
+  onJoin: (code: string) => void;
+  onOpen: (assignment: ClassAssignment) => void;
+};
+
+const statusLabel: Record<ClassAssignmentStatus, string> = {
+  overdue: "Overdue",
+  in_progress: "In progress",
+  not_started: "To do",
+  completed: "Done",
+};
+
+const statusColor: Record<ClassAssignmentStatus, string> = {
+  overdue: "#DC2626",
+  in_progress: colors.accent,
+  not_started: colors.muted,
+  completed: colors.primaryDark,
+};
+
+// Only the most recently finished work is listed so open assignments stay at the top.
+const MAX_COMPLETED = 3;
+
+const formatDue = (value: string) => {
+  const due = new Date(value);
+  return Number.isNaN(due.getTime()) ? "" : due.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+export default function ClassAssignmentsCard({
+  assignments,
+  classCount,
+  joining,
+  joinError,
+  onJoin,
+  onOpen,
+}: ClassAssignmentsCardProps) {
+  const [code, setCode] = useState("");
+  const open = assignments.filter((assignment) => assignment.status !== "completed");
+  const completed = assignments
+    .filter((assignment) => assignment.status === "completed")
+    .sort((a, b) => Date.parse(b.completedAt ?? b.dueAt) - Date.parse(a.completedAt ?? a.dueAt))
+    .slice(0, MAX_COMPLETED);
+  const visible = [...open, ...completed];
+
+  const handleJoin = () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    onJoin(trimmed);
+    setCode("");
+  };
+
+  return (
+    <StyledView className="gap-3">
+      <StyledView className="flex-row items-center justify-between">
+        <StyledText className="text-xl font-semibold" style={styles.headingText}>
+          Class assignments
+        </StyledText>
+        <StyledText className="text-sm" style={styles.mutedText}>
+          {classCount} {classCount === 1 ? "class" : "classes"}
+        </StyledText>
+      </StyledView>
+
+      {visible.length ? (
+        <StyledView className="gap-3">
+          {visible.map((assignment) => (
+            <Pressable key={assignment.assignmentId} onPress={() => onOpen(assignment)}>
+              <StyledView className="flex-row items-center rounded-3xl bg-white p-4" style={styles.card}>
+                <Ionicons
+                  name={assignment.type === "quiz" ? "sparkles-outline" : "trophy-outline"}
+                  size={22}
+                  color={statusColor[assignment.status]}
+                />
+                <StyledView className="flex-1 px-3">
+                  <StyledText className="text-base font-semibold" style={styles.headingText}>
+                    {assignment.title}
+                  </StyledText>
+                  <StyledText className="text-xs" style={styles.mutedText}>
+                    {assignment.classroomName} · due {formatDue(assignment.dueAt)}
+                  </StyledText>
+                </StyledView>
+                <StyledText className="text-xs font-semibold uppercase" style={{ color: statusColor[assignment.status] }}>
+                  {assignment.status === "completed" && typeof assignment.score === "number"
+                    ? `${assignment.score}%${assignment.late ? " late" : ""}`
+                    : statusLabel[assignment.status]}
+                </StyledText>
+              </StyledView>
+            </Pressable>
+          ))}
+        </StyledView>
+      ) : (
+        <StyledView className="items-center rounded-3xl border border-dashed p-6" style={styles.borderCard}>
+          <StyledText className="text-center text-base" style={styles.mutedText}>
+            {classCount ? "Nothing assigned right now." : "Got a code from your teacher? Join their class below."}
+          </StyledText>
+        </StyledView>
+      )}
+
+      <StyledView className="gap-2">
+        <Input
+          icon="people-outline"
+          placeholder="Class join code"
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="characters"
+          maxLength={6}
+          error={joinError ?? undefined}
+        />
+        <Button title="Join class" onPress={handleJoin} loading={joining} disabled={!code.trim()} />
+      </StyledView>
+    </StyledView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    shadowColor: "#0F172A",
+    shadowOpacity: 0.06,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 2,
+  },
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+  borderCard: {
+    borderColor: colors.border,
+  },
+});
@@ -0,0 +1,74 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { styled } from "../../utils/styled";
+
+import { colors } from "../../theme/colors";
+import type { Recommendation, RecommendationType } from "../../services/recommendation.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+
+type RecommendationFeedProps = {
+  items: Recommendation[];
+  onOpen: (item: Recommendation) => void;
+};
+
+export const recommendationIcon: Record<RecommendationType, keyof typeof Ionicons.glyphMap> = {
+  resume_quiz: "play-circle-outline",
+  resume_practice: "play-circle-outline",
+  review_flashcards: "albums-outline",
+  review_mistakes: "refresh-outline",
+  strengthen_topic: "fitness-outline",
+  start_quiz: "sparkles-outline",
+  continue_challenge: "flag-outline",
+  join_challenge: "flag-outline",
+};
+
+export default function RecommendationFeed({ items, onOpen }: RecommendationFeedProps) {
+  if (!items.length) {
+    return null;
+  }
+
+  return (
+    <StyledView className="gap-3">
+      <StyledText className="text-xl font-semibold" style={styles.headingText}>
+        Up next
+      </StyledText>
+      {items.map((item) => (
+        <Pressable
+          key={`${item.type}-${item.attemptId ?? item.quizId ?? item.challengeId ?? item.topicId}`}
+          onPress={() => onOpen(item)}
+        >
+          <StyledView className="flex-row items-center rounded-3xl bg-white p-4" style={styles.card}>
+            <Ionicons name={recommendationIcon[item.type]} size={22} color={colors.primary} />
+            <StyledView className="flex-1 px-3">
+              <StyledText className="text-base font-semibold" style={styles.headingText}>
+                {item.title}
+              </StyledText>
+              <StyledText className="text-xs" style={styles.mutedText}>
+                {item.reason}
+              </StyledText>
+            </StyledView>
+            <Ionicons name="chevron-forward" size={18} color={colors.muted} />
+          </StyledView>
+        </Pressable>
+      ))}
+    </StyledView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    shadowColor: "#0F172A",
+    shadowOpacity: 0.06,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 2,
+  },
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+});
@@ -0,0 +1,79 @@
+import { useMemo, useState } from "react";
+import { Text, TextStyle } from "react-native";
+import { WebView, WebViewMessageEvent } from "react-native-webview";
+import katex from "katex";
+import "katex/contrib/mhchem";
+
+import { splitMathSegments } from "../../utils/mathMarkup";
+
+type Props = {
+  text: string;
+  style?: TextStyle;
+  // Inline text sizes to its content instead of filling the row, e.g. inside a chip.
+  inline?: boolean;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br/>");
+
+// MathML needs no fonts or stylesheet, so formulas still render inside offline packs.
+const buildHtml = (text: string, style: TextStyle, inline: boolean) => {
+  const body = splitMathSegments(text)
+    .map((segment) =>
+      segment.type === "math"
+        ? katex.renderToString(segment.value, {
+            displayMode: segment.displayMode,
+            output: "mathml",
+            throwOnError: false,
+          })
+        : escapeHtml(segment.value),
+    )
+    .join("");
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1"/>
+<style>html,body{margin:0;padding:0;background:transparent;font-family:-apple-system,Roboto,sans-serif;font-size:${
+    style.fontSize ?? 16
+  }px;font-weight:${style.fontWeight ?? "normal"};color:${String(style.color ?? "#111827")};}
+#content{${inline ? "display:inline-block;white-space:nowrap;" : ""}}</style></head>
+<body><div id="content">${body}</div>
+<script>var c=document.getElementById("content");window.ReactNativeWebView.postMessage(JSON.stringify({width:c.scrollWidth,height:c.scrollHeight}));</script>
+</body></html>`;
+};
+
+export default function MathText({ text, style = {}, inline = false }: Props) {
+  const fontSize = style.fontSize ?? 16;
+  const [size, setSize] = useState({ width: text.length * fontSize * 0.6, height: fontSize * 1.5 });
+  const segments = useMemo(() => splitMathSegments(text), [text]);
+  const hasMath = segments.some((segment) => segment.type === "math");
+  // Style objects are usually inline literals; key on their content so the WebView does not reload every render.
+  const styleKey = JSON.stringify(style);
+  const source = useMemo(
+    () => ({ html: hasMath ? buildHtml(text, JSON.parse(styleKey) as TextStyle, inline) : "" }),
+    [hasMath, inline, styleKey, text],
+  );
+
+  if (!hasMath) {
+    return <Text style={style}>{segments.map((segment) => segment.value).join("")}</Text>;
+  }
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const measured = JSON.parse(event.nativeEvent.data) as { width?: number; height?: number };
+      if (measured.width && measured.height) {
+        setSize({ width: measured.width, height: measured.height });
+      }
+    } catch {
+      // Ignore messages that are not size reports.
+    }
+  };
+
+  return (
+    <WebView
+      originWhitelist={["*"]}
+      source={source}
+      onMessage={handleMessage}
+      scrollEnabled={false}
+      pointerEvents="none"
+      style={{ height: size.height, width: inline ? size.width : undefined, backgroundColor: "transparent" }}
+    />
+  );
+}
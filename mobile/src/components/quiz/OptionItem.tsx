@@ -1,4 +1,27 @@
-export default function QuizOptionItem() {
-  return null;
-}
+import { TouchableOpacity } from "react-native";
+
+import MathText from "./MathText";
 
+type Props = {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  accentColor?: string;
+};
+
+export default function OptionItem({ label, selected, onPress, accentColor = "#111827" }: Props) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={{
+        padding: 14,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: selected ? accentColor : "#d1d5db",
+        backgroundColor: selected ? accentColor : "#fff",
+      }}
+    >
+      <MathText text={label} style={{ color: selected ? "#fff" : "#111827" }} />
+    </TouchableOpacity>
+  );
+}
@@ -1,4 +1,166 @@
-export default function QuestionCard() {
-  return null;
-}
+import { Text, TouchableOpacity, View } from "react-native";
+
+import MathText from "./MathText";
+import OptionItem from "./OptionItem";
+
+export type PlayableQuestion = {
+  questionType?: string;
+  options?: string[];
+  choices?: string[];
+  matchChoices?: string[];
+};
+
+type Props = {
+  question: PlayableQuestion;
+  value: string[];
+  onChange: (value: string[]) => void;
+  accentColor?: string;
+};
+
+const MULTI_VALUE_TYPES = ["MULTI_SELECT", "MATCHING", "ORDERING"];
+
+export const getQuestionOptions = (question: PlayableQuestion) => question.options ?? question.choices ?? [];
+
+// Ordering questions start from the shuffled order the server sent, so an untouched list is still an answer.
+export const getResponseValue = (question: PlayableQuestion, value?: string[]) =>
+  value?.length ? value : question.questionType === "ORDERING" ? getQuestionOptions(question) : [];
+
+export const isQuestionAnswered = (question: PlayableQuestion, value?: string[]) => {
+  const current = getResponseValue(question, value);
+  if (question.questionType === "MATCHING") {
+    return getQuestionOptions(question).every((_, index) => Boolean(current[index]));
+  }
+  return current.length > 0;
+};
 
+export const toResponsePayload = (question: PlayableQuestion, value?: string[]) => {
+  const current = getResponseValue(question, value);
+  if (MULTI_VALUE_TYPES.includes(question.questionType ?? "")) {
+    return { selectedOption: null, selectedOptions: current.length ? current : null };
+  }
+  return { selectedOption: current[0] ?? null, selectedOptions: null };
+};
+
+export const fromResponsePayload = (entry: { selectedOption?: string | null; selectedOptions?: string[] | null }) =>
+  entry.selectedOptions?.length ? entry.selectedOptions : entry.selectedOption ? [entry.selectedOption] : [];
+
+export default function QuestionCard({ question, value, onChange, accentColor = "#111827" }: Props) {
+  const options = getQuestionOptions(question);
+
+  if (question.questionType === "MULTI_SELECT") {
+    const toggle = (option: string) =>
+      onChange(value.includes(option) ? value.filter((entry) => entry !== option) : [...value, option]);
+    return (
+      <View style={{ gap: 12 }}>
+        <Text style={{ color: "#6b7280" }}>Select all that apply</Text>
+        {options.map((option) => (
+          <OptionItem
+            key={option}
+            label={option}
+            selected={value.includes(option)}
+            onPress={() => toggle(option)}
+            accentColor={accentColor}
+          />
+        ))}
+      </View>
+    );
+  }
+
+  if (question.questionType === "MATCHING") {
+    const choices = question.matchChoices ?? [];
+    const select = (index: number, choice: string) => {
+      const next = options.map((_, position) => value[position] ?? "");
+      next[index] = choice;
+      onChange(next);
+    };
+    return (
+      <View style={{ gap: 16 }}>
+        {options.map((prompt, index) => (
+          <View key={prompt} style={{ gap: 8 }}>
+            <MathText text={prompt} style={{ fontWeight: "600" }} />
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+              {choices.map((choice) => {
+                const selected = value[index] === choice;
+                return (
+                  <TouchableOpacity
+                    key={choice}
+                    onPress={() => select(index, choice)}
+                    style={{
+                      paddingVertical: 8,
+                      paddingHorizontal: 12,
+                      borderRadius: 16,
+                      borderWidth: 1,
+                      borderColor: selected ? accentColor : "#d1d5db",
+                      backgroundColor: selected ? accentColor : "#fff",
+                    }}
+                  >
+                    <MathText text={choice} inline style={{ color: selected ? "#fff" : "#111827" }} />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  if (question.questionType === "ORDERING") {
+    const items = getResponseValue(question, value);
+    const move = (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= items.length) return;
+      const next = [...items];
+      [next[index], next[target]] = [next[target]!, next[index]!];
+      onChange(next);
+    };
+    return (
+      <View style={{ gap: 12 }}>
+        <Text style={{ color: "#6b7280" }}>Arrange the items in the correct order</Text>
+        {items.map((item, index) => (
+          <View
+            key={item}
+            style={{
+              flexDirection: "row",
+              alignItems: "center",
+              padding: 12,
+              borderRadius: 8,
+              borderWidth: 1,
+              borderColor: "#d1d5db",
+              gap: 8,
+            }}
+          >
+            <Text style={{ width: 24, color: "#6b7280" }}>{index + 1}.</Text>
+            <View style={{ flex: 1 }}>
+              <MathText text={item} />
+            </View>
+            <TouchableOpacity onPress={() => move(index, -1)} disabled={index === 0} style={{ padding: 6 }}>
+              <Text style={{ color: index === 0 ? "#d1d5db" : accentColor }}>▲</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => move(index, 1)}
+              disabled={index === items.length - 1}
+              style={{ padding: 6 }}
+            >
+              <Text style={{ color: index === items.length - 1 ? "#d1d5db" : accentColor }}>▼</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ gap: 12 }}>
+      {options.map((option) => (
+        <OptionItem
+          key={option}
+          label={option}
+          selected={value[0] === option}
+          onPress={() => onChange([option])}
+          accentColor={accentColor}
+        />
+      ))}
+    </View>
+  );
+}
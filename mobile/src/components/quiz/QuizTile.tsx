@@ -107,6 +107,14 @@ const QuizTileComponent = ({ quiz, onPress, style }: QuizTileProps) => {
                 {(quiz.difficulty ?? "ungraded").toUpperCase()}
               </StyledText>
               </StyledView>
+              {quiz.locked ? (
+                <StyledView style={[styles.chip, styles.lockChip, { backgroundColor: colors.border }]}>
+                  <Ionicons name="lock-closed" size={12} color={colors.text} />
+                  <StyledText className="text-xs font-semibold" style={{ color: colors.text }}>
+                    PREMIUM
+                  </StyledText>
+                </StyledView>
+              ) : null}
               {quiz.questionCount ? (
                 <StyledText className="text-xs font-semibold uppercase tracking-wide" style={{ color: colors.muted }}>
                   {quiz.questionCount} questions
@@ -177,6 +185,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     paddingVertical: 4,
   },
+  lockChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   xpBadge: {
     flexDirection: "row",
     alignItems: "center",
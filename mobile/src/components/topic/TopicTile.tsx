@@ -1,5 +1,5 @@
 import { memo, useMemo } from "react";
-import { Image, Pressable, StyleProp, StyleSheet, Text, View, type ViewStyle } from "react-native";
+import { ActivityIndicator, Image, Pressable, StyleProp, StyleSheet, Text, View, type ViewStyle } from "react-native";
 import Animated, { FadeInUp, FadeOutDown, useAnimatedStyle, useSharedValue, withTiming } from "react-native-reanimated";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
@@ -16,6 +16,9 @@ type TopicTileProps = {
   topic: Topic;
   onQuizPress: () => void;
   onPracticePress: () => void;
+  onDownloadPress?: () => void;
+  offlineReady?: boolean;
+  downloading?: boolean;
   style?: StyleProp<ViewStyle>;
 };
 
@@ -26,10 +29,22 @@ const iconMap: Record<string, keyof typeof Ionicons.glyphMap> = {
   default: "sparkles-outline",
 };
 
-const TopicTileComponent = ({ topic, onQuizPress, onPracticePress, style }: TopicTileProps) => {
+const TopicTileComponent = ({
+  topic,
+  onQuizPress,
+  onPracticePress,
+  onDownloadPress,
+  offlineReady = false,
+  downloading = false,
+  style,
+}: TopicTileProps) => {
   const displayName = topic.topicName ?? topic.name ?? "Topic";
   const description = topic.description ?? topic.summary ?? "Ready to explore";
   const difficulty = topic.difficulty?.toLowerCase();
+  const locked = topic.locked ?? false;
+  const unlocksHint = topic.unlocksNext?.length
+    ? `Unlocks ${topic.unlocksNext.map((entry) => entry.topicName).join(", ")}`
+    : null;
   const iconName = useMemo(() => {
     if (!difficulty) return iconMap.default;
     return iconMap[difficulty] ?? iconMap.default;
@@ -55,13 +70,16 @@ const TopicTileComponent = ({ topic, onQuizPress, onPracticePress, style }: Topi
       onPressOut={handlePressOut}
       style={[styles.wrapper, style, animatedStyle]}
     >
-      <LinearGradient colors={[colors.gradientStart, colors.gradientEnd]} style={styles.gradient}>
+      <LinearGradient
+        colors={[colors.gradientStart, colors.gradientEnd]}
+        style={[styles.gradient, locked ? styles.lockedGradient : null]}
+      >
         <StyledView className="flex-row items-center gap-3">
           {topic.iconUrl ? (
             <Image source={{ uri: topic.iconUrl }} style={styles.iconImage} />
           ) : (
             <StyledView style={[styles.iconCircle, { backgroundColor: colors.surface }]}>
-              <Ionicons name={iconName} size={24} color={colors.primary} />
+              <Ionicons name={locked ? "lock-closed" : iconName} size={24} color={colors.primary} />
             </StyledView>
           )}
           <StyledView className="flex-1">
@@ -71,7 +89,31 @@ const TopicTileComponent = ({ topic, onQuizPress, onPracticePress, style }: Topi
             <StyledText className="text-xs" style={{ color: colors.surface, opacity: 0.75 }} numberOfLines={2}>
               {description}
             </StyledText>
+            {unlocksHint ? (
+              <StyledText className="mt-1 text-xs font-semibold" style={{ color: colors.surface }} numberOfLines={1}>
+                {unlocksHint}
+              </StyledText>
+            ) : null}
           </StyledView>
+          {onDownloadPress ? (
+            <Pressable
+              onPress={onDownloadPress}
+              disabled={downloading}
+              style={styles.downloadButton}
+              accessibilityRole="button"
+              accessibilityLabel={offlineReady ? "Update offline pack" : "Download for offline"}
+            >
+              {downloading ? (
+                <ActivityIndicator size="small" color={colors.surface} />
+              ) : (
+                <Ionicons
+                  name={offlineReady ? "cloud-done-outline" : "cloud-download-outline"}
+                  size={22}
+                  color={colors.surface}
+                />
+              )}
+            </Pressable>
+          ) : null}
         </StyledView>
 
         <StyledView className="mt-4 flex-row gap-3">
@@ -80,7 +122,7 @@ const TopicTileComponent = ({ topic, onQuizPress, onPracticePress, style }: Topi
             style={[styles.chip, { backgroundColor: colors.surface }]}
             accessibilityRole="button"
           >
-            <Ionicons name="sparkles" size={16} color={colors.primary} />
+            <Ionicons name={locked ? "lock-closed" : "sparkles"} size={16} color={colors.primary} />
             <StyledText className="text-sm font-semibold" style={{ color: colors.primary }}>
               Quizzes
             </StyledText>
@@ -111,6 +153,9 @@ const styles = StyleSheet.create({
     minHeight: 140,
     justifyContent: "space-between",
   },
+  lockedGradient: {
+    opacity: 0.6,
+  },
   iconCircle: {
     width: 48,
     height: 48,
@@ -123,6 +168,12 @@ const styles = StyleSheet.create({
     height: 48,
     borderRadius: 16,
   },
+  downloadButton: {
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+  },
   chip: {
     flex: 1,
     borderRadius: 999,
@@ -1,7 +1,8 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { isAxiosError } from "axios";
 
-import authService, { Profile } from "../services/auth.service";
+import authService, { AccountType, Profile } from "../services/auth.service";
 import { setAuthTokens, setLogoutHandler } from "../services/api";
 
 export type AuthContextValue = {
@@ -10,7 +11,7 @@ export type AuthContextValue = {
   refreshToken: string | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (fullName: string, email: string, password: string) => Promise<void>;
+  register: (fullName: string, email: string, password: string, accountType?: AccountType) => Promise<void>;
   logout: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 };
@@ -21,6 +22,9 @@ const ACCESS_TOKEN_KEY = "accessToken";
 const REFRESH_TOKEN_KEY = "refreshToken";
 const USER_KEY = "user";
 
+// No response at all means the device is offline; the stored session is still good for offline packs.
+const isNetworkError = (error: unknown) => isAxiosError(error) && !error.response;
+
 export const AuthContextProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<Profile | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
@@ -61,7 +65,10 @@ export const AuthContextProvider = ({ children }: { children: React.ReactNode })
       const profile = await authService.profile();
       consecutiveProfileErrors.current = 0;
       await persistUser(profile);
-    } catch {
+    } catch (error) {
+      if (isNetworkError(error)) {
+        throw error;
+      }
       consecutiveProfileErrors.current += 1;
       if (consecutiveProfileErrors.current >= 2) {
         await persistTokens(null, null);
@@ -92,9 +99,9 @@ export const AuthContextProvider = ({ children }: { children: React.ReactNode })
   );
 
   const register = useCallback(
-    async (fullName: string, email: string, password: string) => {
+    async (fullName: string, email: string, password: string, accountType?: AccountType) => {
       try {
-        const result = await authService.register(fullName, email, password);
+        const result = await authService.register(fullName, email, password, accountType);
         await persistTokens(result?.accessToken ?? null, result?.refreshToken ?? null);
         await refreshProfile();
       } catch (error) {
@@ -131,9 +138,11 @@ export const AuthContextProvider = ({ children }: { children: React.ReactNode })
         if (storedAccessToken && storedRefreshToken) {
           try {
             await refreshProfile();
-          } catch {
-            await persistTokens(null, null);
-            await persistUser(null);
+          } catch (error) {
+            if (!isNetworkError(error)) {
+              await persistTokens(null, null);
+              await persistUser(null);
+            }
           }
         }
       } finally {
@@ -0,0 +1,126 @@
+import NetInfo from "@react-native-community/netinfo";
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { useAuth } from "../hooks/useAuth";
+import { useEngagement } from "../hooks/useEngagement";
+import offlineService, {
+  type AttemptSyncResult,
+  type QueuedQuizAttempt,
+  type TopicPack,
+} from "../services/offline.service";
+
+type OfflineContextValue = {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  downloadedTopicIds: number[];
+  downloadPack: (topicId: number) => Promise<TopicPack>;
+  removePack: (topicId: number) => void;
+  queueAttempt: (attempt: Omit<QueuedQuizAttempt, "userId">) => Promise<void>;
+  syncNow: () => Promise<AttemptSyncResult[]>;
+};
+
+export const OfflineContext = createContext<OfflineContextValue | undefined>(undefined);
+
+export const OfflineContextProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { triggerXpPopup } = useEngagement();
+  const [isOnline, setIsOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [downloadedTopicIds, setDownloadedTopicIds] = useState<number[]>([]);
+  const syncRef = useRef<Promise<AttemptSyncResult[]> | null>(null);
+  const userId = user?.id ?? null;
+
+  const refreshPendingCount = useCallback(async () => {
+    const queue = await offlineService.getQueuedAttempts();
+    setPendingCount(queue.filter((entry) => entry.userId === userId).length);
+  }, [userId]);
+
+  useEffect(() => {
+    setDownloadedTopicIds(offlineService.listTopicPackIds());
+    refreshPendingCount().catch(() => undefined);
+  }, [refreshPendingCount]);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      setIsOnline(Boolean(state.isConnected) && state.isInternetReachable !== false);
+    });
+    return unsubscribe;
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!userId) {
+      return [];
+    }
+    // Share one in-flight sync so reconnect events and manual retries do not double-post.
+    if (!syncRef.current) {
+      setSyncing(true);
+      syncRef.current = offlineService
+        .syncQueuedAttempts(userId)
+        .then((results) => {
+          const xpAwarded = results.reduce((total, result) => {
+            const attempt = result.attempt as { xpAwarded?: number } | null | undefined;
+            return result.status === "synced" ? total + (attempt?.xpAwarded ?? 0) : total;
+          }, 0);
+          if (xpAwarded > 0) {
+            triggerXpPopup(xpAwarded);
+          }
+          return results;
+        })
+        .finally(() => {
+          syncRef.current = null;
+          setSyncing(false);
+          refreshPendingCount().catch(() => undefined);
+        });
+    }
+    return syncRef.current;
+  }, [userId, triggerXpPopup, refreshPendingCount]);
+
+  useEffect(() => {
+    if (isOnline && userId) {
+      syncNow().catch(() => undefined);
+    }
+  }, [isOnline, userId, syncNow]);
+
+  const downloadPack = useCallback(async (topicId: number) => {
+    const pack = await offlineService.downloadTopicPack(topicId);
+    setDownloadedTopicIds(offlineService.listTopicPackIds());
+    return pack;
+  }, []);
+
+  const removePack = useCallback((topicId: number) => {
+    offlineService.removeTopicPack(topicId);
+    setDownloadedTopicIds(offlineService.listTopicPackIds());
+  }, []);
+
+  const queueAttempt = useCallback(
+    async (attempt: Omit<QueuedQuizAttempt, "userId">) => {
+      if (!userId) {
+        throw new Error("Sign in to save offline attempts");
+      }
+      await offlineService.queueQuizAttempt({ ...attempt, userId });
+      await refreshPendingCount();
+      if (isOnline) {
+        syncNow().catch(() => undefined);
+      }
+    },
+    [userId, isOnline, refreshPendingCount, syncNow],
+  );
+
+  const value = useMemo<OfflineContextValue>(
+    () => ({
+      isOnline,
+      syncing,
+      pendingCount,
+      downloadedTopicIds,
+      downloadPack,
+      removePack,
+      queueAttempt,
+      syncNow,
+    }),
+    [isOnline, syncing, pendingCount, downloadedTopicIds, downloadPack, removePack, queueAttempt, syncNow],
+  );
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+};
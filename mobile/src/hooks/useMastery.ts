@@ -1,18 +1,18 @@
 import { useCallback } from "react";
-import { updateTopicMastery } from "../services/mastery.service";
+import { fetchMastery } from "../services/mastery.service";
 
 export const useMastery = () => {
-  const update = useCallback(
-    async (topicId: number, body: { accuracy?: number; correct?: number; total?: number }) => {
-      return updateTopicMastery(topicId, body);
-    },
-    [],
-  );
+  const getMastery = useCallback(async (topicId?: number) => fetchMastery(topicId), []);
+
+  const getTopicMastery = useCallback(async (topicId: number) => {
+    const { topics } = await fetchMastery(topicId);
+    return topics.find((entry) => entry.topicId === topicId) ?? null;
+  }, []);
 
   return {
-    updateTopicMastery: update,
+    getMastery,
+    getTopicMastery,
   };
 };
 
 export type UseMasteryReturn = ReturnType<typeof useMastery>;
-
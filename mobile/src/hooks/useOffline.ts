@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { OfflineContext } from "../context/OfflineContext";
+
+export const useOffline = () => {
+  const context = useContext(OfflineContext);
+  if (!context) {
+    throw new Error("useOffline must be used within an OfflineContextProvider");
+  }
+  return context;
+};
+
+export type UseOfflineReturn = ReturnType<typeof useOffline>;
@@ -4,6 +4,7 @@ import {
   startPracticeTestAttempt,
   submitPracticeTestAttempt,
   getPracticeTestAttempt,
+  savePracticeTestAttemptResponses,
   PracticeTestSummary,
   PracticeTestAttempt,
   PracticeTestSubmission,
@@ -29,6 +30,13 @@ export const usePracticeTest = () => {
     [],
   );
 
+  const saveResponses = useCallback(
+    async (attemptId: number, payload: { responses: PracticeTestResponsePayload[]; currentIndex?: number }) => {
+      return savePracticeTestAttemptResponses(attemptId, payload);
+    },
+    [],
+  );
+
   const fetchAttempt = useCallback(async (attemptId: number): Promise<PracticeTestAttempt> => {
     return getPracticeTestAttempt(attemptId);
   }, []);
@@ -38,6 +46,7 @@ export const usePracticeTest = () => {
     startPracticeTestAttempt: startAttempt,
     submitPracticeTestAttempt: submitAttempt,
     getPracticeTestAttempt: fetchAttempt,
+    savePracticeTestAttemptResponses: saveResponses,
   };
 };
 
@@ -4,6 +4,9 @@ import {
   startQuizAttempt,
   submitQuizAttempt,
   getQuizAttempt,
+  saveQuizAttemptResponses,
+  answerAdaptiveQuestion,
+  AdaptiveAnswerResult,
   QuizSummary,
   QuizAttempt,
   QuizSubmissionResponse,
@@ -29,6 +32,20 @@ export const useQuiz = () => {
     [],
   );
 
+  const answerAdaptive = useCallback(
+    async (quizId: number, payload: { attemptId: number } & QuizResponsePayload): Promise<AdaptiveAnswerResult> => {
+      return answerAdaptiveQuestion(quizId, payload);
+    },
+    [],
+  );
+
+  const saveResponses = useCallback(
+    async (attemptId: number, payload: { responses: QuizResponsePayload[]; currentIndex?: number }) => {
+      return saveQuizAttemptResponses(attemptId, payload);
+    },
+    [],
+  );
+
   const fetchAttempt = useCallback(async (attemptId: number): Promise<QuizAttempt> => {
     return getQuizAttempt(attemptId);
   }, []);
@@ -38,6 +55,8 @@ export const useQuiz = () => {
     startQuizAttempt: startAttempt,
     submitQuizAttempt: submitAttempt,
     getQuizAttempt: fetchAttempt,
+    saveQuizAttemptResponses: saveResponses,
+    answerAdaptiveQuestion: answerAdaptive,
   };
 };
 
@@ -14,11 +14,15 @@ import QuizResultScreen from "../screens/QuizResultScreen";
 import PracticeTestListScreen from "../screens/PracticeTestListScreen";
 import TestPlayerScreen from "../screens/TestPlayerScreen";
 import TestResultScreen from "../screens/TestResultScreen";
+import ReviewPlayerScreen from "../screens/ReviewPlayerScreen";
+import ReviewResultScreen from "../screens/ReviewResultScreen";
 import ProfileScreen from "../screens/ProfileScreen";
 import HomeScreen from "../screens/HomeScreen";
 import AchievementsScreen from "../screens/AchievementsScreen";
+import GuardianHomeScreen from "../screens/GuardianHomeScreen";
 import { AuthContextProvider } from "../context/AuthContext";
 import { EngagementContextProvider } from "../context/EngagementContext";
+import { OfflineContextProvider } from "../context/OfflineContext";
 import { useAuth } from "../hooks/useAuth";
 import type {
   AuthStackParamList,
@@ -57,6 +61,8 @@ const LearnStackNavigator = () => (
     <LearnStack.Screen name="QuizResult" component={QuizResultScreen} />
     <LearnStack.Screen name="TestPlayer" component={TestPlayerScreen} />
     <LearnStack.Screen name="TestResult" component={TestResultScreen} />
+    <LearnStack.Screen name="ReviewPlayer" component={ReviewPlayerScreen} />
+    <LearnStack.Screen name="ReviewResult" component={ReviewResultScreen} />
   </LearnStack.Navigator>
 );
 
@@ -87,10 +93,13 @@ const NavigatorContent = () => {
   }
 
   const isAuthenticated = Boolean(user);
+  const isGuardian = user?.role === "GUARDIAN";
 
   return (
     <RootStack.Navigator screenOptions={{ headerShown: false }}>
-      {isAuthenticated ? (
+      {isAuthenticated && isGuardian ? (
+        <RootStack.Screen name="Guardian" component={GuardianHomeScreen} />
+      ) : isAuthenticated ? (
         <RootStack.Screen name="MainTabs" component={MainTabs} />
       ) : (
         <RootStack.Screen name="Auth" component={AuthStackNavigator} />
@@ -103,7 +112,9 @@ export default function AppNavigator() {
   return (
     <AuthContextProvider>
       <EngagementContextProvider>
-        <NavigatorContent />
+        <OfflineContextProvider>
+          <NavigatorContent />
+        </OfflineContextProvider>
       </EngagementContextProvider>
     </AuthContextProvider>
   );
@@ -13,6 +13,8 @@ export type LearnStackParamList = {
   QuizResult: { attemptId: number };
   TestPlayer: { testId: number; topicId?: number; mode?: "practice" | "exam" };
   TestResult: { attemptId: number };
+  ReviewPlayer: { topicId?: number } | undefined;
+  ReviewResult: { attemptId: number };
 };
 
 export type ProfileStackParamList = {
@@ -22,4 +24,5 @@ export type ProfileStackParamList = {
 export type RootStackParamList = {
   Auth: undefined;
   MainTabs: undefined;
+  Guardian: undefined;
 };
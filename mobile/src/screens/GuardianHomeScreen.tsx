@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { styled } from "../utils/styled";
+
+import Screen from "../components/UI/Screen";
+import Input from "../components/UI/Input";
+import Button from "../components/UI/Button";
+import LearnerProgressCard from "../components/guardian/LearnerProgressCard";
+import WeeklySummaryCard from "../components/guardian/WeeklySummaryCard";
+import { colors } from "../theme/colors";
+import { useAuth } from "../hooks/useAuth";
+import {
+  getGuardianSummaries,
+  getLearnerDashboard,
+  getLinkedLearners,
+  linkLearner,
+  markSummaryRead,
+  type GuardianSummary,
+  type LearnerDashboard,
+  type LinkedLearner,
+} from "../services/guardian.service";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+const StyledPressable = styled(Pressable);
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } })?.response?.data?.message ?? fallback;
+
+export default function GuardianHomeScreen() {
+  const { user, logout } = useAuth();
+  const [learners, setLearners] = useState<LinkedLearner[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dashboard, setDashboard] = useState<LearnerDashboard | null>(null);
+  const [summaries, setSummaries] = useState<GuardianSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dashboardLoading, setDashboardLoading] = useState(false);
+  const [code, setCode] = useState("");
+  const [linking, setLinking] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [linked, weekly] = await Promise.all([getLinkedLearners(), getGuardianSummaries()]);
+      setLearners(linked);
+      setSummaries(weekly);
+      setSelectedId((current) =>
+        current && linked.some((learner) => learner.learnerId === current) ? current : linked[0]?.learnerId ?? null,
+      );
+    } catch {
+      setLearners([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDashboard(null);
+      return;
+    }
+    let cancelled = false;
+    setDashboardLoading(true);
+    getLearnerDashboard(selectedId)
+      .then((data) => {
+        if (!cancelled) setDashboard(data);
+      })
+      .catch(() => {
+        if (!cancelled) setDashboard(null);
+      })
+      .finally(() => {
+        if (!cancelled) setDashboardLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const handleLink = async () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    setLinking(true);
+    setLinkError(null);
+    try {
+      const learner = await linkLearner(trimmed);
+      setCode("");
+      setSelectedId(learner.learnerId);
+      await loadOverview();
+    } catch (error) {
+      setLinkError(getErrorMessage(error, "Unable to link learner"));
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleSummaryPress = async (summary: GuardianSummary) => {
+    setSelectedId(summary.learnerId);
+    if (summary.read) return;
+    setSummaries((current) =>
+      current.map((entry) => (entry.summaryId === summary.summaryId ? { ...entry, read: true } : entry)),
+    );
+    try {
+      await markSummaryRead(summary.summaryId);
+    } catch {
+      // Staying unread just means the badge shows again next time.
+    }
+  };
+
+  return (
+    <Screen scrollable contentClassName="gap-8">
+      <StyledView className="flex-row items-start justify-between">
+        <StyledView className="flex-1 pr-4">
+          <StyledText className="text-sm" style={styles.mutedText}>
+            Welcome back,
+          </StyledText>
+          <StyledText className="text-3xl font-bold" style={styles.headingText}>
+            {user?.fullName ?? "Guardian"}
+          </StyledText>
+        </StyledView>
+        <StyledPressable onPress={logout}>
+          <StyledText className="text-sm font-semibold text-[#00C853]">Log out</StyledText>
+        </StyledPressable>
+      </StyledView>
+
+      {loading ? (
+        <StyledView className="py-10">
+          <ActivityIndicator color={colors.primary} />
+        </StyledView>
+      ) : learners.length ? (
+        <StyledView className="gap-4">
+          {learners.length > 1 ? (
+            <StyledView className="flex-row flex-wrap gap-2">
+              {learners.map((learner) => (
+                <StyledPressable
+                  key={learner.learnerId}
+                  onPress={() => setSelectedId(learner.learnerId)}
+                  className="rounded-full border px-4 py-2"
+                  style={learner.learnerId === selectedId ? styles.chipActive : styles.chip}
+                >
+                  <StyledText className="text-sm font-semibold" style={styles.headingText}>
+                    {learner.fullName}
+                  </StyledText>
+                </StyledPressable>
+              ))}
+            </StyledView>
+          ) : null}
+          {dashboardLoading ? (
+            <StyledView className="py-6">
+              <ActivityIndicator color={colors.primary} />
+            </StyledView>
+          ) : dashboard ? (
+            <LearnerProgressCard dashboard={dashboard} />
+          ) : null}
+        </StyledView>
+      ) : (
+        <StyledView className="items-center rounded-3xl border border-dashed p-6" style={styles.borderCard}>
+          <StyledText className="text-center text-base" style={styles.mutedText}>
+            Ask your learner to open their profile and share a guardian code with you.
+          </StyledText>
+        </StyledView>
+      )}
+
+      <StyledView className="gap-2">
+        <StyledText className="text-xl font-semibold" style={styles.headingText}>
+          Link a learner
+        </StyledText>
+        <Input
+          icon="key-outline"
+          placeholder="Guardian code"
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="characters"
+          maxLength={6}
+          error={linkError ?? undefined}
+        />
+        <Button title="Link learner" onPress={handleLink} loading={linking} disabled={!code.trim()} />
+      </StyledView>
+
+      {summaries.length ? (
+        <StyledView className="gap-3">
+          <StyledText className="text-xl font-semibold" style={styles.headingText}>
+            Weekly summaries
+          </StyledText>
+          {summaries.map((summary) => (
+            <WeeklySummaryCard key={summary.summaryId} summary={summary} onPress={() => handleSummaryPress(summary)} />
+          ))}
+        </StyledView>
+      ) : null}
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  headingText: {
+    color: colors.text,
+  },
+  mutedText: {
+    color: colors.muted,
+  },
+  borderCard: {
+    borderColor: colors.border,
+  },
+  chip: {
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.background,
+  },
+});
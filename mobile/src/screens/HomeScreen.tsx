@@ -11,12 +11,19 @@ import Screen from "../components/UI/Screen";
 import { colors } from "../theme/colors";
 import { useAuth } from "../hooks/useAuth";
 import { useEngagement } from "../hooks/useEngagement";
-import { useQuiz } from "../hooks/useQuiz";
-import { usePracticeTest } from "../hooks/usePracticeTest";
 import ContinueLearningCard, { type ContinueLearningActivity } from "../components/home/ContinueLearningCard";
 import GradeTile from "../components/home/GradeTile";
+import ClassAssignmentsCard from "../components/home/ClassAssignmentsCard";
+import RecommendationFeed from "../components/home/RecommendationFeed";
 import Button from "../components/UI/Button";
 import api from "../services/api";
+import {
+  getClassAssignments,
+  getClassrooms,
+  joinClassroom,
+  type ClassAssignment,
+} from "../services/classroom.service";
+import { getRecommendations, type Recommendation } from "../services/recommendation.service";
 import type { LearnStackParamList, ProfileStackParamList } from "../navigation/types";
 
 const StyledView = styled(View);
@@ -38,36 +45,8 @@ type Grade = {
   gradeLevelName?: string;
 };
 
-type ActivityType = "quiz" | "practice";
-
-type RawAttemptPayload = {
-  attemptId?: number;
-  id?: number;
-  quizId?: number;
-  testId?: number;
-  resourceId?: number;
-  topicId?: number;
-  topicName?: string;
-  topic?: { id?: number; name?: string };
-  title?: string;
-  completedQuestions?: number;
-  answeredQuestions?: number;
-  questionsAnswered?: number;
-  totalQuestions?: number;
-  questionCount?: number;
-  questionTotal?: number;
-  questions?: unknown[];
-  progressPercent?: number;
-  score?: number;
-  updatedAt?: string;
-  startedAt?: string;
-};
-
 type ContinueLearningData = ContinueLearningActivity & {
-  attemptId: number;
-  resourceId?: number;
-  topicId?: number;
-  updatedAt?: string;
+  recommendation: Recommendation;
 };
 
 const unwrap = <T,>(payload: T | { data?: T }): T => {
@@ -77,76 +56,26 @@ const unwrap = <T,>(payload: T | { data?: T }): T => {
   return payload as T;
 };
 
-const extractAttemptPayload = (payload: unknown): RawAttemptPayload | null => {
-  if (!payload || typeof payload !== "object") {
+// Only unfinished attempts earn the large card; everything else is listed in the feed below it.
+const buildActivity = (recommendation: Recommendation): ContinueLearningData | null => {
+  if (recommendation.type !== "resume_quiz" && recommendation.type !== "resume_practice") {
     return null;
   }
-  if ("latestAttempt" in payload) {
-    const latest = (payload as { latestAttempt?: RawAttemptPayload }).latestAttempt;
-    if (latest) return latest;
-  }
-  if ("attempt" in payload) {
-    const attempt = (payload as { attempt?: RawAttemptPayload }).attempt;
-    if (attempt) return attempt;
-  }
-  if (Array.isArray(payload)) {
-    return (payload as RawAttemptPayload[])[0] ?? null;
-  }
-  return payload as RawAttemptPayload;
-};
-
-const buildActivity = (type: ActivityType, attempt: RawAttemptPayload): ContinueLearningData | null => {
-  const attemptId = attempt.attemptId ?? attempt.id;
-  if (!attemptId) {
-    return null;
-  }
-
-  const totalQuestions =
-    attempt.totalQuestions ??
-    attempt.questionCount ??
-    attempt.questionTotal ??
-    (Array.isArray(attempt.questions) ? attempt.questions.length : undefined);
-  const completed =
-    attempt.completedQuestions ?? attempt.answeredQuestions ?? attempt.questionsAnswered ?? (totalQuestions ? 0 : undefined);
-
-  const computedProgress =
-    typeof totalQuestions === "number" && totalQuestions > 0 && typeof completed === "number"
-      ? (completed / totalQuestions) * 100
-      : undefined;
-  const progressPercent = attempt.progressPercent ?? computedProgress;
-
-  const topicName = attempt.topicName ?? attempt.topic?.name ?? attempt.title ?? "Learning track";
-  const title = attempt.title ?? (type === "quiz" ? "Quiz mastery" : "Practice test");
-  const metaLabel = type === "quiz" ? "Latest quiz" : "Latest practice test";
-  const progressCaption =
-    typeof progressPercent === "number" ? `${Math.round(progressPercent)}% complete` : "Pick up where you left off";
-
+  const type = recommendation.type === "resume_quiz" ? "quiz" : "practice";
   return {
-    attemptId,
-    resourceId: attempt.quizId ?? attempt.testId ?? attempt.resourceId,
-    topicId: attempt.topicId ?? attempt.topic?.id,
-    updatedAt: attempt.updatedAt ?? attempt.startedAt,
+    recommendation,
     type,
-    title,
-    topicName,
-    metaLabel,
-    progressPercent,
-    progressCaption,
+    title: recommendation.title,
+    topicName: recommendation.topicName ?? recommendation.title,
+    metaLabel: type === "quiz" ? "Unfinished quiz" : "Unfinished practice test",
+    progressCaption: recommendation.reason,
   };
 };
 
-const getTimestamp = (input?: string) => {
-  if (!input) return 0;
-  const value = Date.parse(input);
-  return Number.isNaN(value) ? 0 : value;
-};
-
 export default function HomeScreen() {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { user } = useAuth();
   const { xpToday, streakDays } = useEngagement();
-  const { getQuizAttempt } = useQuiz();
-  const { getPracticeTestAttempt } = usePracticeTest();
 
   const [grades, setGrades] = useState<Grade[]>([]);
   const [gradesLoading, setGradesLoading] = useState(true);
@@ -154,6 +83,12 @@ export default function HomeScreen() {
 
   const [activityLoading, setActivityLoading] = useState(true);
   const [continueActivity, setContinueActivity] = useState<ContinueLearningData | null>(null);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+
+  const [classCount, setClassCount] = useState(0);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [joiningClass, setJoiningClass] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
 
   const firstName = useMemo(() => {
     const raw = user?.fullName ?? "";
@@ -190,47 +125,20 @@ export default function HomeScreen() {
     [navigation],
   );
 
-  const fetchLatestAttempt = useCallback(
-    async (type: ActivityType): Promise<ContinueLearningData | null> => {
-      try {
-        const response = await api.get("/api/v2/attempts/latest", { params: { type } });
-        const payload = extractAttemptPayload(unwrap(response.data));
-        if (!payload) {
-          return null;
-        }
-        const attemptId = payload.attemptId ?? payload.id;
-        if (!attemptId) {
-          return null;
-        }
-        let enriched: RawAttemptPayload = payload;
-        if (type === "quiz") {
-          const detailed = await getQuizAttempt(attemptId);
-          enriched = { ...payload, ...detailed };
-        } else {
-          const detailed = await getPracticeTestAttempt(attemptId);
-          enriched = { ...payload, ...detailed };
-        }
-        return buildActivity(type, enriched);
-      } catch {
-        return null;
-      }
-    },
-    [getPracticeTestAttempt, getQuizAttempt],
-  );
-
-  const loadLatestActivity = useCallback(async () => {
+  const loadRecommendations = useCallback(async () => {
     setActivityLoading(true);
-    const [quizResult, practiceResult] = await Promise.all([fetchLatestAttempt("quiz"), fetchLatestAttempt("practice")]);
-    const attempts = [quizResult, practiceResult].filter(Boolean) as ContinueLearningData[];
-    if (attempts.length === 0) {
+    try {
+      const items = await getRecommendations();
+      const activity = items[0] ? buildActivity(items[0]) : null;
+      setContinueActivity(activity);
+      setRecommendations(activity ? items.slice(1) : items);
+    } catch {
       setContinueActivity(null);
+      setRecommendations([]);
+    } finally {
       setActivityLoading(false);
-      return;
     }
-    attempts.sort((a, b) => getTimestamp(b.updatedAt) - getTimestamp(a.updatedAt));
-    setContinueActivity(attempts[0]);
-    setActivityLoading(false);
-  }, [fetchLatestAttempt]);
+  }, []);
 
   const loadGrades = useCallback(async () => {
     setGradesLoading(true);
@@ -253,40 +161,98 @@ export default function HomeScreen() {
     }
   }, []);
 
+  const loadClassAssignments = useCallback(async () => {
+    try {
+      const [classrooms, classAssignments] = await Promise.all([getClassrooms(), getClassAssignments()]);
+      setClassCount(classrooms.length);
+      setAssignments(classAssignments);
+    } catch {
+      setAssignments([]);
+    }
+  }, []);
+
   useEffect(() => {
     loadGrades();
-    loadLatestActivity();
-  }, [loadGrades, loadLatestActivity]);
+    loadRecommendations();
+    loadClassAssignments();
+  }, [loadGrades, loadRecommendations, loadClassAssignments]);
+
+  const handleJoinClass = async (code: string) => {
+    setJoiningClass(true);
+    setJoinError(null);
+    try {
+      await joinClassroom(code);
+      await loadClassAssignments();
+    } catch (error) {
+      const message =
+        (error as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Unable to join class";
+      setJoinError(message);
+    } finally {
+      setJoiningClass(false);
+    }
+  };
+
+  const handleOpenAssignment = (assignment: ClassAssignment) => {
+    if (assignment.type === "quiz" && assignment.quizId) {
+      navigation.navigate("Learn", {
+        screen: "QuizPlayer",
+        params: { quizId: assignment.quizId },
+      });
+      return;
+    }
+    if (assignment.type === "practice" && assignment.practiceTestId) {
+      navigation.navigate("Learn", {
+        screen: "TestPlayer",
+        params: { testId: assignment.practiceTestId },
+      });
+    }
+  };
 
   const handleRetryGrades = () => {
     loadGrades();
   };
 
-  const handleContinue = () => {
-    if (!continueActivity) return;
-    if (continueActivity.type === "quiz" && continueActivity.resourceId) {
+  const handleOpenRecommendation = (item: Recommendation) => {
+    if (item.type === "resume_practice" && item.practiceTestId) {
+      navigation.navigate("Learn", {
+        screen: "TestPlayer",
+        params: { testId: item.practiceTestId },
+      });
+      return;
+    }
+    if (item.type === "review_mistakes") {
+      navigation.navigate("Learn", {
+        screen: "ReviewPlayer",
+        params: item.topicId ? { topicId: item.topicId } : undefined,
+      });
+      return;
+    }
+    if (item.quizId) {
       navigation.navigate("Learn", {
         screen: "QuizPlayer",
-        params: {
-          quizId: continueActivity.resourceId,
-          topicId: continueActivity.topicId,
-        },
+        params: { quizId: item.quizId, topicId: item.topicId ?? undefined, topicName: item.topicName ?? undefined },
       });
       return;
     }
-    if (continueActivity.type === "practice" && continueActivity.resourceId) {
+    if (item.type === "continue_challenge" || item.type === "join_challenge") {
+      navigation.navigate("Achievements");
+      return;
+    }
+    if (item.subjectId) {
       navigation.navigate("Learn", {
-        screen: "TestPlayer",
-        params: {
-          testId: continueActivity.resourceId,
-          topicId: continueActivity.topicId,
-        },
+        screen: "Topics",
+        params: { subjectId: item.subjectId },
       });
       return;
     }
     navigation.navigate("Learn");
   };
 
+  const handleContinue = () => {
+    if (!continueActivity) return;
+    handleOpenRecommendation(continueActivity.recommendation);
+  };
+
   return (
     <Screen scrollable contentClassName="gap-8">
       <StyledView className="gap-8">
@@ -325,6 +291,17 @@ export default function HomeScreen() {
           <ContinueLearningCard activity={continueActivity} onPress={handleContinue} />
         ) : null}
 
+        {!activityLoading ? <RecommendationFeed items={recommendations} onOpen={handleOpenRecommendation} /> : null}
+
+        <ClassAssignmentsCard
+          assignments={assignments}
+          classCount={classCount}
+          joining={joiningClass}
+          joinError={joinError}
+          onJoin={handleJoinClass}
+          onOpen={handleOpenAssignment}
+        />
+
         <StyledView className="gap-3">
           <StyledView className="flex-row items-center justify-between">
             <StyledText className="text-xl font-semibold" style={styles.headingText}>
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { LinearGradient } from "expo-linear-gradient";
 import { Ionicons } from "@expo/vector-icons";
@@ -61,12 +61,26 @@ export default function PracticeTestListScreen({ navigation, route }: Props) {
 
   const handleSelect = useCallback(
     (test: PracticeTestSummary) => {
-      navigation.navigate("TestPlayer", {
-        testId: test.id,
-        topicId,
-        topicName,
-        mode: "practice",
-      });
+      const open = (mode: "practice" | "exam") =>
+        navigation.navigate("TestPlayer", {
+          testId: test.id,
+          topicId,
+          topicName,
+          mode,
+        });
+
+      if (test.locked) {
+        Alert.alert("Premium test", "Upgrade to Premium to take this practice test.");
+        return;
+      }
+      if (!test.durationMinutes) {
+        open("practice");
+        return;
+      }
+      Alert.alert(test.title ?? "Practice test", `Take it as a timed exam (${test.durationMinutes} min)?`, [
+        { text: "Practice", onPress: () => open("practice") },
+        { text: "Timed exam", onPress: () => open("exam") },
+      ]);
     },
     [navigation, topicId, topicName],
   );
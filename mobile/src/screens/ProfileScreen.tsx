@@ -1,4 +1,35 @@
+import { Pressable, Text, View } from "react-native";
+import { styled } from "../utils/styled";
+
+import Screen from "../components/UI/Screen";
+import GuardianInviteCard from "../components/guardian/GuardianInviteCard";
+import { colors } from "../theme/colors";
+import { useAuth } from "../hooks/useAuth";
+
+const StyledView = styled(View);
+const StyledText = styled(Text);
+const StyledPressable = styled(Pressable);
+
 export default function ProfileScreen() {
-  return null;
-}
+  const { user, logout } = useAuth();
+
+  return (
+    <Screen scrollable contentClassName="gap-8">
+      <StyledView className="flex-row items-start justify-between">
+        <StyledView className="flex-1 pr-4">
+          <StyledText className="text-3xl font-bold" style={{ color: colors.text }}>
+            {user?.fullName ?? "Profile"}
+          </StyledText>
+          <StyledText className="text-sm" style={{ color: colors.muted }}>
+            {user?.email}
+          </StyledText>
+        </StyledView>
+        <StyledPressable onPress={logout}>
+          <StyledText className="text-sm font-semibold text-[#00C853]">Log out</StyledText>
+        </StyledPressable>
+      </StyledView>
 
+      <GuardianInviteCard />
+    </Screen>
+  );
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   RefreshControl,
   ScrollView,
@@ -21,6 +22,7 @@ import { useQuiz } from "../hooks/useQuiz";
 import { useEngagement } from "../hooks/useEngagement";
 import type { LearnStackParamList } from "../navigation/types";
 import type { QuizSummary } from "../services/quiz.service";
+import offlineService from "../services/offline.service";
 import { colors } from "../theme/colors";
 
 type Props = NativeStackScreenProps<LearnStackParamList, "QuizList">;
@@ -37,6 +39,7 @@ export default function QuizListScreen({ navigation, route }: Props) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [offline, setOffline] = useState(false);
 
   const fetchQuizzes = useCallback(
     async (showLoader = true) => {
@@ -47,8 +50,15 @@ export default function QuizListScreen({ navigation, route }: Props) {
       try {
         const data = await getQuizzesByTopic(topicId);
         setQuizzes(data);
+        setOffline(false);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load quizzes");
+        const pack = await offlineService.getTopicPack(topicId);
+        if (pack) {
+          setQuizzes(pack.quizzes);
+          setOffline(true);
+        } else {
+          setError(err instanceof Error ? err.message : "Failed to load quizzes");
+        }
       } finally {
         if (showLoader) {
           setLoading(false);
@@ -81,6 +91,10 @@ export default function QuizListScreen({ navigation, route }: Props) {
     (quiz: QuizSummary) => {
       const quizId = quiz.quizId ?? quiz.id;
       if (!quizId) return;
+      if (quiz.locked) {
+        Alert.alert("Premium quiz", "Upgrade to Premium to take this quiz.");
+        return;
+      }
       navigation.navigate("QuizPlayer", {
         quizId,
         topicId,
@@ -108,7 +122,7 @@ export default function QuizListScreen({ navigation, route }: Props) {
             {topicName ?? "Quizzes"}
           </StyledText>
           <StyledText className="mt-2 text-base" style={styles.heroSubheading}>
-            {activeQuizzes.length} quizzes ready
+            {activeQuizzes.length} quizzes ready{offline ? " offline" : ""}
           </StyledText>
         </StyledView>
         <StyledView style={[styles.heroStats, { backgroundColor: colors.surface }]}>
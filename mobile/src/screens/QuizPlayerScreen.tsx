@@ -1,39 +1,72 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Alert, Button, Text, TouchableOpacity, View } from "react-native";
+import { ActivityIndicator, Alert, Button, Text, View } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { isAxiosError } from "axios";
 
 import { LearnStackParamList } from "../navigation/types";
 import { useQuiz } from "../hooks/useQuiz";
-import type { QuizAttempt, QuizAttemptQuestion } from "../services/quiz.service";
+import type { QuizAttempt, QuizAttemptQuestion, QuizResponsePayload } from "../services/quiz.service";
 import { useEngagement } from "../hooks/useEngagement";
+import { useOffline } from "../hooks/useOffline";
+import offlineService from "../services/offline.service";
+import { createClientId } from "../utils/clientId";
+import MathText from "../components/quiz/MathText";
+import QuestionCard, {
+  fromResponsePayload,
+  isQuestionAnswered,
+  toResponsePayload,
+} from "../components/quiz/QuestionCard";
 
 type Props = NativeStackScreenProps<LearnStackParamList, "QuizPlayer">;
 
 export default function QuizPlayerScreen({ route, navigation }: Props) {
   const { quizId, topicId } = route.params;
-  const { startQuizAttempt, submitQuizAttempt } = useQuiz();
+  const { startQuizAttempt, submitQuizAttempt, saveQuizAttemptResponses, answerAdaptiveQuestion } = useQuiz();
   const { triggerXpPopup, triggerStreakAnimation, triggerMasteryUpdate } = useEngagement();
+  const { queueAttempt } = useOffline();
   const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [responses, setResponses] = useState<Record<number, string[]>>({});
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [advancing, setAdvancing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the quiz is played from a downloaded pack; the attempt is queued instead of submitted.
+  const [offlineSession, setOfflineSession] = useState<{ clientId: string; startedAt: string } | null>(null);
 
   const loadAttempt = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
       const data = await startQuizAttempt(quizId);
+      const restored: Record<number, string[]> = {};
+      (data.responses ?? []).forEach((entry) => {
+        const value = fromResponsePayload(entry);
+        if (value.length) {
+          restored[entry.questionId] = value;
+        }
+      });
+      const lastIndex = Math.max((data.questions?.length ?? 0) - 1, 0);
       setAttempt(data);
-      setCurrentIndex(0);
-      setResponses({});
+      setCurrentIndex(Math.min(data.currentIndex ?? 0, lastIndex));
+      setResponses(restored);
+      setOfflineSession(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to start quiz");
+      const packQuiz = isAxiosError(err) && !err.response ? await offlineService.findPackQuiz(quizId, topicId) : null;
+      if (packQuiz?.questions?.length) {
+        setAttempt({ quizId, questions: packQuiz.questions });
+        setCurrentIndex(0);
+        setResponses({});
+        setOfflineSession({ clientId: createClientId(), startedAt: new Date().toISOString() });
+      } else if (isAxiosError(err) && err.response?.status === 402) {
+        setError("This quiz is part of Premium. Upgrade to take it.");
+      } else {
+        setError(err instanceof Error ? err.message : "Unable to start quiz");
+      }
     } finally {
       setLoading(false);
     }
-  }, [quizId, startQuizAttempt]);
+  }, [quizId, topicId, startQuizAttempt]);
 
   useEffect(() => {
     loadAttempt();
@@ -42,30 +75,72 @@ export default function QuizPlayerScreen({ route, navigation }: Props) {
   const questions = useMemo(() => attempt?.questions ?? [], [attempt]);
   const currentQuestion: QuizAttemptQuestion | undefined = questions[currentIndex];
   const currentQuestionId = currentQuestion?.questionId ?? currentQuestion?.id;
-  const options = currentQuestion?.options ?? currentQuestion?.choices ?? [];
+  const adaptive = Boolean(attempt?.adaptive) && !offlineSession;
+  const totalQuestions = adaptive ? (attempt?.totalQuestions ?? questions.length) : questions.length;
 
-  const selectOption = (option: string) => {
-    if (!currentQuestionId) return;
-    setResponses((prev) => ({ ...prev, [currentQuestionId]: option }));
+  // Autosave is best-effort: the final submit still carries every response.
+  const saveProgress = (payload: { responses: QuizResponsePayload[]; currentIndex: number }) => {
+    const attemptId = attempt?.attemptId ?? attempt?.id;
+    if (!attemptId || offlineSession) return;
+    saveQuizAttemptResponses(attemptId, payload).catch(() => undefined);
   };
 
-  const handleSubmit = async () => {
-    if (!attempt || !currentQuestionId) return;
-    const attemptId = attempt.attemptId ?? attempt.id;
-    if (!attemptId) {
-      Alert.alert("Unable to submit quiz");
-      return;
+  const updateResponse = (value: string[]) => {
+    if (!currentQuestion || !currentQuestionId) return;
+    setResponses((prev) => ({ ...prev, [currentQuestionId]: value }));
+    // Adaptive answers are recorded once, when the learner moves on.
+    if (adaptive) return;
+    saveProgress({
+      responses: [{ questionId: currentQuestionId, ...toResponsePayload(currentQuestion, value) }],
+      currentIndex,
+    });
+  };
+
+  const queueOfflineAttempt = async (
+    session: { clientId: string; startedAt: string },
+    formattedResponses: QuizResponsePayload[],
+  ) => {
+    setSubmitting(true);
+    try {
+      await queueAttempt({
+        clientId: session.clientId,
+        quizId,
+        topicId,
+        responses: formattedResponses,
+        startedAt: session.startedAt,
+        completedAt: new Date().toISOString(),
+        durationSeconds: Math.round((Date.now() - Date.parse(session.startedAt)) / 1000),
+      });
+      Alert.alert("Saved offline", "Your answers will be scored and your XP added when you are back online.");
+      navigation.goBack();
+    } catch (err) {
+      Alert.alert("Unable to save attempt", err instanceof Error ? err.message : "Please try again");
+    } finally {
+      setSubmitting(false);
     }
+  };
 
+  const handleSubmit = async () => {
+    if (!attempt || !currentQuestionId) return;
     const formattedResponses = questions.map((question) => {
       const qId = question.questionId ?? question.id;
       return {
         questionId: qId!,
-        selectedOption: responses[qId!] ?? null,
-        selectedOptions: null,
+        ...toResponsePayload(question, responses[qId!]),
       };
     });
 
+    if (offlineSession) {
+      await queueOfflineAttempt(offlineSession, formattedResponses);
+      return;
+    }
+
+    const attemptId = attempt.attemptId ?? attempt.id;
+    if (!attemptId) {
+      Alert.alert("Unable to submit quiz");
+      return;
+    }
+
     setSubmitting(true);
     try {
       const result = await submitQuizAttempt(quizId, {
@@ -102,9 +177,37 @@ export default function QuizPlayerScreen({ route, navigation }: Props) {
     }
   };
 
+  // Adaptive quizzes only learn the next question once the server has seen this answer.
+  const advanceAdaptive = async () => {
+    const attemptId = attempt?.attemptId ?? attempt?.id;
+    if (!attempt || !attemptId || !currentQuestion || !currentQuestionId) return;
+    setAdvancing(true);
+    try {
+      const result = await answerAdaptiveQuestion(quizId, {
+        attemptId,
+        questionId: currentQuestionId,
+        ...toResponsePayload(currentQuestion, responses[currentQuestionId]),
+      });
+      const nextQuestion = result.nextQuestion;
+      if (result.completed || !nextQuestion) {
+        await handleSubmit();
+        return;
+      }
+      setAttempt({ ...attempt, questions: [...questions, nextQuestion] });
+      setCurrentIndex(questions.length);
+    } catch (err) {
+      Alert.alert("Unable to continue", err instanceof Error ? err.message : "Please try again");
+    } finally {
+      setAdvancing(false);
+    }
+  };
+
   const handleNext = () => {
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex((index) => index + 1);
+    if (adaptive && currentIndex === questions.length - 1) {
+      advanceAdaptive();
+    } else if (currentIndex < questions.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+      saveProgress({ responses: [], currentIndex: currentIndex + 1 });
     } else {
       handleSubmit();
     }
@@ -135,39 +238,29 @@ export default function QuizPlayerScreen({ route, navigation }: Props) {
     );
   }
 
-  const selectedOption = responses[currentQuestionId];
+  const currentResponse = responses[currentQuestionId] ?? [];
   const questionPrompt = currentQuestion.prompt ?? currentQuestion.questionText ?? "Question";
 
   return (
     <View style={{ flex: 1, padding: 16, gap: 16 }}>
       <Text style={{ fontSize: 16, color: "#6b7280" }}>
-        Question {currentIndex + 1} / {questions.length}
+        Question {currentIndex + 1} / {totalQuestions}
+        {offlineSession ? " · Offline" : ""}
       </Text>
-      <Text style={{ fontSize: 18, fontWeight: "600" }}>{questionPrompt}</Text>
-
-      <View style={{ gap: 12 }}>
-        {options.map((option) => (
-          <TouchableOpacity
-            key={option}
-            onPress={() => selectOption(option)}
-            style={{
-              padding: 14,
-              borderRadius: 8,
-              borderWidth: 1,
-              borderColor: selectedOption === option ? "#111827" : "#d1d5db",
-              backgroundColor: selectedOption === option ? "#111827" : "#fff",
-            }}
-          >
-            <Text style={{ color: selectedOption === option ? "#fff" : "#111827" }}>{option}</Text>
-          </TouchableOpacity>
-        ))}
-      </View>
+      <MathText text={questionPrompt} style={{ fontSize: 18, fontWeight: "600" }} />
+
+      <QuestionCard
+        question={currentQuestion}
+        value={currentResponse}
+        onChange={updateResponse}
+        accentColor="#111827"
+      />
 
       <View style={{ marginTop: "auto" }}>
         <Button
-          title={currentIndex === questions.length - 1 ? "Submit" : "Next"}
+          title={currentIndex === totalQuestions - 1 ? "Submit" : "Next"}
           onPress={handleNext}
-          disabled={submitting || !selectedOption}
+          disabled={submitting || advancing || !isQuestionAnswered(currentQuestion, currentResponse)}
         />
       </View>
     </View>
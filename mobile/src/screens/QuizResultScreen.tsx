@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { ActivityIndicator, Button, Text, View } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 
@@ -53,14 +53,8 @@ export default function QuizResultScreen({ route, navigation }: Props) {
     );
   }
 
-  const masteryBefore = useMemo(
-    () => (attempt ? Number((attempt as Record<string, unknown>)?.["masteryBefore"]) || 0 : 0),
-    [attempt],
-  );
-  const masteryAfter = useMemo(
-    () => (attempt ? Number((attempt as Record<string, unknown>)?.["masteryAfter"]) || masteryBefore : masteryBefore),
-    [attempt, masteryBefore],
-  );
+  const masteryBefore = attempt?.masteryBefore ?? 0;
+  const masteryAfter = attempt?.masteryAfter ?? masteryBefore;
   const score = attempt?.score ?? 0;
 
   if (!attempt) {
@@ -80,7 +74,11 @@ export default function QuizResultScreen({ route, navigation }: Props) {
       <Text style={{ fontSize: 16, textAlign: "center" }}>Score: {score}%</Text>
       <Text style={{ textAlign: "center" }}>XP Earned: {attempt.xpAwarded ?? 0}</Text>
       <View style={{ alignItems: "center", marginVertical: 24 }}>
-        <MasteryRing masteryBefore={masteryBefore} masteryAfter={masteryAfter} />
+        <MasteryRing
+          masteryBefore={masteryBefore}
+          masteryAfter={masteryAfter}
+          confidence={attempt.masteryConfidence ?? undefined}
+        />
       </View>
       <Button title="Continue" onPress={() => navigation.popToTop()} />
     </View>
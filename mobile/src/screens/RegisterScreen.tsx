@@ -8,6 +8,7 @@ import Input from "../components/UI/Input";
 import Button from "../components/UI/Button";
 import AuthHeader from "../components/UI/AuthHeader";
 import { useAuth } from "../hooks/useAuth";
+import type { AccountType } from "../services/auth.service";
 import type { AuthStackParamList } from "../navigation/types";
 
 const StyledView = styled(View);
@@ -24,11 +25,17 @@ type FieldErrors = {
 
 const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+const accountTypes: Array<{ value: AccountType; label: string }> = [
+  { value: "learner", label: "I'm a learner" },
+  { value: "guardian", label: "I'm a parent" },
+];
+
 export default function RegisterScreen({ navigation }: Props) {
   const { register } = useAuth();
   const [fullName, setFullName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [accountType, setAccountType] = useState<AccountType>("learner");
   const [loading, setLoading] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [showErrors, setShowErrors] = useState(false);
@@ -59,7 +66,7 @@ export default function RegisterScreen({ navigation }: Props) {
     setLoading(true);
     setSubmitError(null);
     try {
-      await register(fullName.trim(), email.trim().toLowerCase(), password);
+      await register(fullName.trim(), email.trim().toLowerCase(), password, accountType);
     } catch (err) {
       setSubmitError(err instanceof Error ? err.message : "Registration failed");
     } finally {
@@ -72,6 +79,23 @@ export default function RegisterScreen({ navigation }: Props) {
       <StyledView className="flex-1 justify-between gap-12">
         <StyledView className="gap-8">
           <AuthHeader title="Create account" subtitle="Join Stitch and start learning instantly." />
+          <StyledView className="flex-row gap-2 rounded-full bg-gray-100 p-1">
+            {accountTypes.map((option) => (
+              <StyledPressable
+                key={option.value}
+                onPress={() => setAccountType(option.value)}
+                className={`flex-1 rounded-full py-2 ${accountType === option.value ? "bg-white" : ""}`}
+              >
+                <StyledText
+                  className={`text-center text-sm font-semibold ${
+                    accountType === option.value ? "text-[#06411d]" : "text-gray-500"
+                  }`}
+                >
+                  {option.label}
+                </StyledText>
+              </StyledPressable>
+            ))}
+          </StyledView>
           <StyledView className="gap-4">
             <Input
               icon="person-outline"
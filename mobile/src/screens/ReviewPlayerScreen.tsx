@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Button, Text, View } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { isAxiosError } from "axios";
+
+import { LearnStackParamList } from "../navigation/types";
+import type { QuizAttemptQuestion, QuizResponsePayload } from "../services/quiz.service";
+import {
+  saveReviewAttemptResponses,
+  startReviewAttempt,
+  submitReviewAttempt,
+  type ReviewAttempt,
+} from "../services/review.service";
+import { useEngagement } from "../hooks/useEngagement";
+import MathText from "../components/quiz/MathText";
+import QuestionCard, {
+  fromResponsePayload,
+  isQuestionAnswered,
+  toResponsePayload,
+} from "../components/quiz/QuestionCard";
+
+type Props = NativeStackScreenProps<LearnStackParamList, "ReviewPlayer">;
+
+export default function ReviewPlayerScreen({ route, navigation }: Props) {
+  const topicId = route.params?.topicId;
+  const { triggerXpPopup } = useEngagement();
+  const [attempt, setAttempt] = useState<ReviewAttempt | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<number, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttempt = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await startReviewAttempt(topicId);
+      const restored: Record<number, string[]> = {};
+      (data.responses ?? []).forEach((entry) => {
+        const value = fromResponsePayload(entry);
+        if (value.length) {
+          restored[entry.questionId] = value;
+        }
+      });
+      const lastIndex = Math.max((data.questions?.length ?? 0) - 1, 0);
+      setAttempt(data);
+      setCurrentIndex(Math.min(data.currentIndex ?? 0, lastIndex));
+      setResponses(restored);
+    } catch (err) {
+      if (isAxiosError(err) && err.response?.status === 404) {
+        setError("Nothing to review right now. Questions you miss will show up here.");
+      } else {
+        setError(err instanceof Error ? err.message : "Unable to start review");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [topicId]);
+
+  useEffect(() => {
+    loadAttempt();
+  }, [loadAttempt]);
+
+  const questions = useMemo(() => attempt?.questions ?? [], [attempt]);
+  const currentQuestion: QuizAttemptQuestion | undefined = questions[currentIndex];
+  const currentQuestionId = currentQuestion?.questionId ?? currentQuestion?.id;
+  const attemptId = attempt?.attemptId ?? attempt?.id;
+
+  // Autosave is best-effort: the final submit still carries every response.
+  const saveProgress = (payload: { responses: QuizResponsePayload[]; currentIndex: number }) => {
+    if (!attemptId) return;
+    saveReviewAttemptResponses(attemptId, payload).catch(() => undefined);
+  };
+
+  const updateResponse = (value: string[]) => {
+    if (!currentQuestion || !currentQuestionId) return;
+    setResponses((prev) => ({ ...prev, [currentQuestionId]: value }));
+    saveProgress({
+      responses: [{ questionId: currentQuestionId, ...toResponsePayload(currentQuestion, value) }],
+      currentIndex,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!attemptId) {
+      Alert.alert("Unable to submit review");
+      return;
+    }
+    const formattedResponses = questions.map((question) => {
+      const qId = question.questionId ?? question.id;
+      return {
+        questionId: qId!,
+        ...toResponsePayload(question, responses[qId!]),
+      };
+    });
+
+    setSubmitting(true);
+    try {
+      const result = await submitReviewAttempt({ attemptId, responses: formattedResponses });
+      if (typeof result?.xpAwarded === "number" && result.xpAwarded > 0) {
+        triggerXpPopup(result.xpAwarded);
+      }
+      navigation.replace("ReviewResult", { attemptId: result?.attemptId ?? attemptId });
+    } catch (err) {
+      Alert.alert("Submission error", err instanceof Error ? err.message : "Unable to submit review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+      saveProgress({ responses: [], currentIndex: currentIndex + 1 });
+    } else {
+      handleSubmit();
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center", padding: 16 }}>
+        <Text style={{ color: "#6b7280", marginBottom: 12, textAlign: "center" }}>{error}</Text>
+        <Button title="Back" onPress={() => navigation.goBack()} />
+      </View>
+    );
+  }
+
+  if (!currentQuestion || !currentQuestionId) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <Text>No questions available.</Text>
+      </View>
+    );
+  }
+
+  const currentResponse = responses[currentQuestionId] ?? [];
+  const questionPrompt = currentQuestion.prompt ?? currentQuestion.questionText ?? "Question";
+  const isMistake = attempt?.mistakeQuestionIds?.includes(currentQuestionId) ?? false;
+
+  return (
+    <View style={{ flex: 1, padding: 16, gap: 16 }}>
+      <Text style={{ fontSize: 16, color: "#6b7280" }}>
+        Review {currentIndex + 1} / {questions.length}
+        {isMistake ? " · Missed before" : ""}
+      </Text>
+      <MathText text={questionPrompt} style={{ fontSize: 18, fontWeight: "600" }} />
+
+      <QuestionCard
+        question={currentQuestion}
+        value={currentResponse}
+        onChange={updateResponse}
+        accentColor="#111827"
+      />
+
+      <View style={{ marginTop: "auto" }}>
+        <Button
+          title={currentIndex === questions.length - 1 ? "Submit" : "Next"}
+          onPress={handleNext}
+          disabled={submitting || !isQuestionAnswered(currentQuestion, currentResponse)}
+        />
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Button, Text, View } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+
+import { LearnStackParamList } from "../navigation/types";
+import { getReviewAttempt, type ReviewAttempt } from "../services/review.service";
+import XpPopup from "../components/feedback/XpPopup";
+import StreakFire from "../components/feedback/StreakFire";
+import MasteryRing from "../components/feedback/MasteryRing";
+import Confetti from "../components/feedback/Confetti";
+
+type Props = NativeStackScreenProps<LearnStackParamList, "ReviewResult">;
+
+export default function ReviewResultScreen({ route, navigation }: Props) {
+  const { attemptId } = route.params;
+  const [attempt, setAttempt] = useState<ReviewAttempt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttempt = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getReviewAttempt(attemptId);
+      setAttempt(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load review");
+    } finally {
+      setLoading(false);
+    }
+  }, [attemptId]);
+
+  useEffect(() => {
+    loadAttempt();
+  }, [loadAttempt]);
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center", padding: 16 }}>
+        <Text style={{ color: "red", marginBottom: 12 }}>{error}</Text>
+        <Button title="Try again" onPress={loadAttempt} />
+      </View>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <View style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
+        <Text>Review not found.</Text>
+      </View>
+    );
+  }
+
+  const masteryBefore = attempt.masteryBefore ?? 0;
+  const masteryAfter = attempt.masteryAfter ?? masteryBefore;
+  const score = attempt.score ?? 0;
+  const retired = attempt.retiredCount ?? 0;
+  const missed = attempt.mistakeQuestionIds?.length ?? 0;
+
+  return (
+    <View style={{ flex: 1, padding: 24, justifyContent: "center", gap: 16 }}>
+      <XpPopup />
+      <StreakFire />
+      <Confetti visible={missed > 0 && retired === missed} />
+      <Text style={{ fontSize: 22, fontWeight: "700", textAlign: "center" }}>Review Complete!</Text>
+      <Text style={{ fontSize: 16, textAlign: "center" }}>Score: {score}%</Text>
+      <Text style={{ textAlign: "center" }}>XP Earned: {attempt.xpAwarded ?? 0}</Text>
+      <Text style={{ textAlign: "center", color: "#6b7280" }}>
+        {retired > 0
+          ? `${retired} of ${missed} missed ${missed === 1 ? "question is" : "questions are"} now mastered.`
+          : "Get a missed question right twice in a row to clear it from review."}
+      </Text>
+      <View style={{ alignItems: "center", marginVertical: 24 }}>
+        <MasteryRing
+          masteryBefore={masteryBefore}
+          masteryAfter={masteryAfter}
+          confidence={attempt.masteryConfidence ?? undefined}
+        />
+      </View>
+      <Button title="Continue" onPress={() => navigation.popToTop()} />
+    </View>
+  );
+}
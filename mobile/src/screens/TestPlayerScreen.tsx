@@ -1,35 +1,65 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Alert, Button, Text, TouchableOpacity, View } from "react-native";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, Alert, Button, Text, View } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { isAxiosError } from "axios";
 
 import { LearnStackParamList } from "../navigation/types";
 import { usePracticeTest } from "../hooks/usePracticeTest";
-import type { PracticeTestAttempt } from "../services/test.service";
+import type { PracticeTestAttempt, PracticeTestResponsePayload } from "../services/test.service";
 import { useEngagement } from "../hooks/useEngagement";
+import MathText from "../components/quiz/MathText";
+import QuestionCard, {
+  fromResponsePayload,
+  isQuestionAnswered,
+  toResponsePayload,
+} from "../components/quiz/QuestionCard";
 
 type Props = NativeStackScreenProps<LearnStackParamList, "TestPlayer">;
 
+const formatCountdown = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
 export default function TestPlayerScreen({ route, navigation }: Props) {
   const { testId, topicId, mode } = route.params;
-  const { startPracticeTestAttempt, submitPracticeTestAttempt } = usePracticeTest();
+  const { startPracticeTestAttempt, submitPracticeTestAttempt, savePracticeTestAttemptResponses } = usePracticeTest();
   const { triggerXpPopup, triggerStreakAnimation, triggerMasteryUpdate } = useEngagement();
   const [attempt, setAttempt] = useState<PracticeTestAttempt | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [responses, setResponses] = useState<Record<number, string[]>>({});
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const clockOffsetMs = useRef(0);
+  const submitRef = useRef<() => void>(() => undefined);
 
   const loadAttempt = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
       const data = await startPracticeTestAttempt(testId, { mode });
+      const restored: Record<number, string[]> = {};
+      (data.responses ?? []).forEach((entry) => {
+        const value = fromResponsePayload(entry);
+        if (value.length) {
+          restored[entry.questionId] = value;
+        }
+      });
+      const lastIndex = Math.max((data.questions?.length ?? 0) - 1, 0);
+      const serverTime = data.serverTime ? Date.parse(data.serverTime) : NaN;
+      clockOffsetMs.current = Number.isNaN(serverTime) ? 0 : serverTime - Date.now();
       setAttempt(data);
-      setCurrentIndex(0);
-      setResponses({});
+      setCurrentIndex(Math.min(data.currentIndex ?? 0, lastIndex));
+      setResponses(restored);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to start test");
+      if (isAxiosError(err) && err.response?.status === 402) {
+        setError("This practice test is part of Premium. Upgrade to take it.");
+      } else {
+        setError(err instanceof Error ? err.message : "Unable to start test");
+      }
     } finally {
       setLoading(false);
     }
@@ -39,14 +69,45 @@ export default function TestPlayerScreen({ route, navigation }: Props) {
     loadAttempt();
   }, [loadAttempt]);
 
+  const deadlineAt = attempt?.deadlineAt ? Date.parse(attempt.deadlineAt) : null;
+
+  useEffect(() => {
+    if (!deadlineAt || Number.isNaN(deadlineAt)) {
+      setRemainingSeconds(null);
+      return undefined;
+    }
+    // Count down against the server clock so a skewed device time cannot extend the exam.
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((deadlineAt - (Date.now() + clockOffsetMs.current)) / 1000));
+      setRemainingSeconds(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        submitRef.current();
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [deadlineAt]);
+
   const questions = useMemo(() => attempt?.questions ?? [], [attempt]);
   const currentQuestion = questions[currentIndex];
   const currentQuestionId = currentQuestion?.questionId ?? currentQuestion?.id;
-  const options = currentQuestion?.options ?? currentQuestion?.choices ?? [];
 
-  const selectOption = (option: string) => {
-    if (!currentQuestionId) return;
-    setResponses((prev) => ({ ...prev, [currentQuestionId]: option }));
+  // Autosave is best-effort: the final submit still carries every response.
+  const saveProgress = (payload: { responses: PracticeTestResponsePayload[]; currentIndex: number }) => {
+    const attemptId = attempt?.attemptId ?? attempt?.id;
+    if (!attemptId) return;
+    savePracticeTestAttemptResponses(attemptId, payload).catch(() => undefined);
+  };
+
+  const updateResponse = (value: string[]) => {
+    if (!currentQuestion || !currentQuestionId) return;
+    setResponses((prev) => ({ ...prev, [currentQuestionId]: value }));
+    saveProgress({
+      responses: [{ questionId: currentQuestionId, ...toResponsePayload(currentQuestion, value) }],
+      currentIndex,
+    });
   };
 
   const handleSubmit = async () => {
@@ -61,8 +122,7 @@ export default function TestPlayerScreen({ route, navigation }: Props) {
       const qId = question.questionId ?? question.id;
       return {
         questionId: qId!,
-        selectedOption: responses[qId!] ?? null,
-        selectedOptions: null,
+        ...toResponsePayload(question, responses[qId!]),
       };
     });
 
@@ -102,9 +162,12 @@ export default function TestPlayerScreen({ route, navigation }: Props) {
     }
   };
 
+  submitRef.current = handleSubmit;
+
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
-      setCurrentIndex((index) => index + 1);
+      setCurrentIndex(currentIndex + 1);
+      saveProgress({ responses: [], currentIndex: currentIndex + 1 });
     } else {
       handleSubmit();
     }
@@ -135,39 +198,35 @@ export default function TestPlayerScreen({ route, navigation }: Props) {
     );
   }
 
-  const selectedOption = responses[currentQuestionId];
+  const currentResponse = responses[currentQuestionId] ?? [];
   const questionPrompt = currentQuestion.prompt ?? currentQuestion.questionText ?? "Question";
 
   return (
     <View style={{ flex: 1, padding: 16, gap: 16 }}>
-      <Text style={{ fontSize: 16, color: "#6b7280" }}>
-        Question {currentIndex + 1} / {questions.length}
-      </Text>
-      <Text style={{ fontSize: 18, fontWeight: "600" }}>{questionPrompt}</Text>
-
-      <View style={{ gap: 12 }}>
-        {options.map((option) => (
-          <TouchableOpacity
-            key={option}
-            onPress={() => selectOption(option)}
-            style={{
-              padding: 14,
-              borderRadius: 8,
-              borderWidth: 1,
-              borderColor: selectedOption === option ? "#047857" : "#d1d5db",
-              backgroundColor: selectedOption === option ? "#047857" : "#fff",
-            }}
-          >
-            <Text style={{ color: selectedOption === option ? "#fff" : "#111827" }}>{option}</Text>
-          </TouchableOpacity>
-        ))}
+      <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
+        <Text style={{ fontSize: 16, color: "#6b7280" }}>
+          Question {currentIndex + 1} / {questions.length}
+        </Text>
+        {remainingSeconds !== null ? (
+          <Text style={{ fontSize: 16, fontWeight: "600", color: remainingSeconds <= 60 ? "#dc2626" : "#111827" }}>
+            {formatCountdown(remainingSeconds)}
+          </Text>
+        ) : null}
       </View>
+      <MathText text={questionPrompt} style={{ fontSize: 18, fontWeight: "600" }} />
+
+      <QuestionCard
+        question={currentQuestion}
+        value={currentResponse}
+        onChange={updateResponse}
+        accentColor="#047857"
+      />
 
       <View style={{ marginTop: "auto" }}>
         <Button
           title={currentIndex === questions.length - 1 ? "Submit" : "Next"}
           onPress={handleNext}
-          disabled={submitting || !selectedOption}
+          disabled={submitting || !isQuestionAnswered(currentQuestion, currentResponse)}
         />
       </View>
     </View>
@@ -53,8 +53,8 @@ export default function TestResultScreen({ route, navigation }: Props) {
     );
   }
 
-  const masteryBefore = attempt ? Number((attempt as Record<string, unknown>)?.["masteryBefore"]) || 0 : 0;
-  const masteryAfter = attempt ? Number((attempt as Record<string, unknown>)?.["masteryAfter"]) || masteryBefore : masteryBefore;
+  const masteryBefore = attempt?.masteryBefore ?? 0;
+  const masteryAfter = attempt?.masteryAfter ?? masteryBefore;
   const score = attempt?.score ?? 0;
 
   if (!attempt) {
@@ -80,7 +80,11 @@ export default function TestResultScreen({ route, navigation }: Props) {
         <Text style={{ color: "#1d4ed8", textAlign: "center" }}>Certificate: {String(attempt["certificateUrl"])}</Text>
       ) : null}
       <View style={{ alignItems: "center", marginVertical: 24 }}>
-        <MasteryRing masteryBefore={masteryBefore} masteryAfter={masteryAfter} />
+        <MasteryRing
+          masteryBefore={masteryBefore}
+          masteryAfter={masteryAfter}
+          confidence={attempt.masteryConfidence ?? undefined}
+        />
       </View>
       <Button title="Continue" onPress={() => navigation.popToTop()} />
     </View>
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
@@ -10,6 +10,8 @@ import Button from "../components/UI/Button";
 import TopicTile from "../components/topic/TopicTile";
 import { colors } from "../theme/colors";
 import { topicService, type Topic } from "../services/topic.service";
+import offlineService from "../services/offline.service";
+import { useOffline } from "../hooks/useOffline";
 import type { LearnStackParamList } from "../navigation/types";
 
 type Props = NativeStackScreenProps<LearnStackParamList, "Topics">;
@@ -22,6 +24,8 @@ export default function TopicScreen({ navigation, route }: Props) {
   const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+  const { downloadedTopicIds, downloadPack } = useOffline();
 
   const loadTopics = useCallback(async () => {
     setLoading(true);
@@ -30,7 +34,16 @@ export default function TopicScreen({ navigation, route }: Props) {
       const data = await topicService.fetchTopics(subjectId);
       setTopics(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to load topics");
+      // Offline: fall back to the topics of this subject that were downloaded as packs.
+      const packs = await Promise.all(offlineService.listTopicPackIds().map((id) => offlineService.getTopicPack(id)));
+      const offlineTopics = packs
+        .map((pack) => pack?.topic as (Topic & { subjectId?: number }) | null | undefined)
+        .filter((topic): topic is Topic & { subjectId?: number } => Boolean(topic) && topic?.subjectId === subjectId);
+      if (offlineTopics.length) {
+        setTopics(offlineTopics);
+      } else {
+        setError(err instanceof Error ? err.message : "Unable to load topics");
+      }
     } finally {
       setLoading(false);
     }
@@ -53,6 +66,36 @@ export default function TopicScreen({ navigation, route }: Props) {
     [subjectName],
   );
 
+  // Locks are guidance: the tile stays visible but explains what to finish before opening it.
+  const alertIfLocked = useCallback((topic: Topic) => {
+    if (!topic.locked) {
+      return false;
+    }
+    const pending = (topic.prerequisites ?? [])
+      .filter((entry) => !entry.met)
+      .map((entry) => `• Reach ${entry.minAccuracy}% in ${entry.topicName}`);
+    Alert.alert("Topic locked", ["Finish these first:", ...pending].join("\n"));
+    return true;
+  }, []);
+
+  const handleDownload = useCallback(
+    async (topicId: number) => {
+      setDownloadingId(topicId);
+      try {
+        const pack = await downloadPack(topicId);
+        Alert.alert(
+          "Ready offline",
+          `${pack.quizzes.length} quizzes and ${pack.flashcards.length} flashcards saved to this device.`,
+        );
+      } catch (err) {
+        Alert.alert("Download failed", err instanceof Error ? err.message : "Unable to download topic");
+      } finally {
+        setDownloadingId(null);
+      }
+    },
+    [downloadPack],
+  );
+
   const renderGrid = () => (
     <StyledView className="flex-row flex-wrap justify-between gap-4">
       {gridData.map((topic, index) => (
@@ -61,16 +104,24 @@ export default function TopicScreen({ navigation, route }: Props) {
           topic={topic}
           onQuizPress={() => {
             const params = buildParams(topic);
-            if (params.topicId) {
+            if (params.topicId && !alertIfLocked(topic)) {
               navigation.navigate("QuizList", params);
             }
           }}
           onPracticePress={() => {
             const params = buildParams(topic);
-            if (params.topicId) {
+            if (params.topicId && !alertIfLocked(topic)) {
               navigation.navigate("PracticeTestList", params);
             }
           }}
+          onDownloadPress={() => {
+            const topicId = topic.topicId ?? topic.id;
+            if (topicId) {
+              handleDownload(topicId);
+            }
+          }}
+          offlineReady={downloadedTopicIds.includes(topic.topicId ?? topic.id ?? -1)}
+          downloading={downloadingId !== null && downloadingId === (topic.topicId ?? topic.id)}
           style={styles.tile}
         />
       ))}
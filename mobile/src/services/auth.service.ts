@@ -18,10 +18,13 @@ export type AuthTokens = {
   refreshToken: string;
 };
 
+export type AccountType = "learner" | "guardian";
+
 export type Profile = {
   id: number;
   fullName?: string;
   email?: string;
+  role?: string;
   [key: string]: unknown;
 };
 
@@ -31,11 +34,17 @@ export const authService = {
     return extract<AuthTokens>(response.data);
   },
 
-  async register(fullName: string, email: string, password: string): Promise<AuthTokens> {
+  async register(
+    fullName: string,
+    email: string,
+    password: string,
+    accountType: AccountType = "learner",
+  ): Promise<AuthTokens> {
     const response = await api.post("/auth/register", {
       fullName,
       email,
       password,
+      accountType,
     });
     return extract<AuthTokens>(response.data);
   },
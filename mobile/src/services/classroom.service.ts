@@ -0,0 +1,66 @@
+import api from "./api";
+
+type ApiResponse<T> = {
+  data?: T;
+  success?: boolean;
+  message?: string;
+};
+
+const extract = <T>(payload: ApiResponse<T> | T): T => {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as ApiResponse<T>).data as T;
+  }
+  return payload as T;
+};
+
+export type LearnerClassroom = {
+  classroomId: number;
+  name: string;
+  description?: string | null;
+  teacherName?: string | null;
+  assignmentCount?: number;
+  [key: string]: unknown;
+};
+
+export type ClassAssignmentStatus = "not_started" | "in_progress" | "completed" | "overdue";
+
+export type ClassAssignment = {
+  assignmentId: number;
+  type: "quiz" | "practice";
+  title: string;
+  instructions?: string | null;
+  quizId?: number | null;
+  practiceTestId?: number | null;
+  classroomId: number;
+  classroomName: string;
+  dueAt: string;
+  status: ClassAssignmentStatus;
+  attemptId?: number | null;
+  score?: number | null;
+  completedAt?: string | null;
+  late?: boolean;
+  [key: string]: unknown;
+};
+
+export const getClassrooms = async (): Promise<LearnerClassroom[]> => {
+  const response = await api.get("/api/v2/classrooms");
+  const data = extract<{ classrooms?: LearnerClassroom[] }>(response.data);
+  return data?.classrooms ?? [];
+};
+
+export const joinClassroom = async (code: string): Promise<LearnerClassroom> => {
+  const response = await api.post("/api/v2/classrooms/join", { code });
+  const data = extract<{ classroom: LearnerClassroom }>(response.data);
+  return data.classroom;
+};
+
+export const leaveClassroom = async (classroomId: number) => {
+  const response = await api.delete(`/api/v2/classrooms/${classroomId}/membership`);
+  return extract(response.data);
+};
+
+export const getClassAssignments = async (): Promise<ClassAssignment[]> => {
+  const response = await api.get("/api/v2/classrooms/assignments");
+  const data = extract<{ assignments?: ClassAssignment[] }>(response.data);
+  return data?.assignments ?? [];
+};
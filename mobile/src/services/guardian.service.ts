@@ -0,0 +1,127 @@
+import api from "./api";
+
+type ApiResponse<T> = {
+  data?: T;
+  success?: boolean;
+  message?: string;
+};
+
+const extract = <T>(payload: ApiResponse<T> | T): T => {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as ApiResponse<T>).data as T;
+  }
+  return payload as T;
+};
+
+export type GuardianInvite = {
+  linkId: number;
+  code: string;
+  expiresAt: string;
+};
+
+export type LinkedGuardian = {
+  linkId: number;
+  guardianId: number | null;
+  fullName: string | null;
+  email: string | null;
+  linkedAt: string | null;
+};
+
+export type LinkedLearner = {
+  learnerId: number;
+  fullName: string;
+  xpTotal: number;
+  level: number;
+  streakDays: number;
+  linkedAt?: string | null;
+  [key: string]: unknown;
+};
+
+export type LearnerDashboard = {
+  learner: LinkedLearner;
+  xpLast7Days: number;
+  mastery: Array<{
+    topicId: number;
+    topicName: string;
+    accuracy: number;
+    mastery: number;
+    confidence: number;
+    correctAttempts: number;
+    totalAttempts: number;
+    updatedAt: string;
+  }>;
+  recentAttempts: Array<{
+    attemptId: number;
+    type: "quiz" | "practice";
+    title: string;
+    topicName: string | null;
+    score: number | null;
+    completedAt: string;
+  }>;
+};
+
+export type TopicHighlight = { topicId: number; topicName: string; mastery: number };
+
+export type GuardianSummary = {
+  summaryId: number;
+  learnerId: number;
+  learnerName: string | null;
+  weekStart: string;
+  xpEarned: number;
+  activeDays: number;
+  quizzesCompleted: number;
+  practiceTestsCompleted: number;
+  averageScore: number | null;
+  streakDays: number;
+  details: { strongestTopics?: TopicHighlight[]; weakestTopics?: TopicHighlight[] } | null;
+  read: boolean;
+};
+
+// Learner side
+
+export const getMyGuardians = async () => {
+  const response = await api.get("/api/v2/guardian-links");
+  return extract<{ guardians: LinkedGuardian[]; pendingInvite: GuardianInvite | null }>(response.data);
+};
+
+export const createGuardianInvite = async (): Promise<GuardianInvite> => {
+  const response = await api.post("/api/v2/guardian-links/invites");
+  return extract<{ invite: GuardianInvite }>(response.data).invite;
+};
+
+export const revokeGuardianLink = async (linkId: number) => {
+  const response = await api.delete(`/api/v2/guardian-links/${linkId}`);
+  return extract(response.data);
+};
+
+// Guardian side
+
+export const linkLearner = async (code: string): Promise<LinkedLearner> => {
+  const response = await api.post("/api/v2/guardian/links", { code });
+  return extract<{ learner: LinkedLearner }>(response.data).learner;
+};
+
+export const getLinkedLearners = async (): Promise<LinkedLearner[]> => {
+  const response = await api.get("/api/v2/guardian/learners");
+  return extract<{ learners?: LinkedLearner[] }>(response.data)?.learners ?? [];
+};
+
+export const getLearnerDashboard = async (learnerId: number): Promise<LearnerDashboard> => {
+  const response = await api.get(`/api/v2/guardian/learners/${learnerId}`);
+  return extract<LearnerDashboard>(response.data);
+};
+
+export const unlinkLearner = async (learnerId: number) => {
+  const response = await api.delete(`/api/v2/guardian/learners/${learnerId}`);
+  return extract(response.data);
+};
+
+export const getGuardianSummaries = async (): Promise<GuardianSummary[]> => {
+  const response = await api.get("/api/v2/guardian/summaries");
+  return extract<{ summaries?: GuardianSummary[] }>(response.data)?.summaries ?? [];
+};
+
+export const markSummaryRead = async (summaryId: number) => {
+  const response = await api.post(`/api/v2/guardian/summaries/${summaryId}/read`);
+  return extract(response.data);
+};
@@ -12,8 +12,31 @@ const extract = <T>(payload: ApiResponse<T> | T): T => {
   return payload as T;
 };
 
-export const updateTopicMastery = async (topicId: number, body: { accuracy?: number; correct?: number; total?: number }) => {
-  const response = await api.post(`/api/v2/mastery/topics/${topicId}`, body);
-  return extract(response.data);
+export type TopicMastery = {
+  topicId: number;
+  // 0-100, after forgetting since the last practice.
+  mastery: number;
+  // 0-1, how much recent evidence backs the estimate.
+  confidence: number;
+  accuracy: number;
+  totalAttempts: number;
+  lastPracticedAt: string | null;
+  topic?: { id: number; topicName: string; subjectId: number };
 };
 
+export type ObjectiveMastery = {
+  objectiveId: number;
+  topicId: number;
+  code: string;
+  description: string;
+  mastery: number;
+  confidence: number;
+  totalAttempts: number;
+  lastPracticedAt: string | null;
+};
+
+export const fetchMastery = async (topicId?: number) => {
+  const response = await api.get("/api/v2/mastery", { params: topicId ? { topicId } : undefined });
+  const data = extract<{ topics?: TopicMastery[]; objectives?: ObjectiveMastery[] }>(response.data);
+  return { topics: data?.topics ?? [], objectives: data?.objectives ?? [] };
+};
@@ -0,0 +1,212 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+
+import api from "./api";
+import type { QuizAttemptQuestion, QuizResponsePayload, QuizSummary } from "./quiz.service";
+
+type ApiResponse<T> = {
+  data?: T;
+  message?: string;
+  success?: boolean;
+};
+
+const extract = <T>(payload: ApiResponse<T> | T): T => {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as ApiResponse<T>).data as T;
+  }
+  return payload as T;
+};
+
+export type PackFlashcard = {
+  flashcardId?: number;
+  id?: number;
+  frontText?: string;
+  backText?: string;
+  [key: string]: unknown;
+};
+
+export type PackQuiz = QuizSummary & {
+  questions?: QuizAttemptQuestion[];
+};
+
+export type TopicPack = {
+  topicId: number;
+  version: string;
+  topic?: Record<string, unknown> | null;
+  flashcards: PackFlashcard[];
+  quizzes: PackQuiz[];
+  downloadedAt: string;
+};
+
+type TopicPackResponse = Partial<Omit<TopicPack, "downloadedAt">> & {
+  upToDate?: boolean;
+};
+
+export type QueuedQuizAttempt = {
+  clientId: string;
+  userId: number;
+  quizId: number;
+  topicId?: number;
+  responses: QuizResponsePayload[];
+  startedAt: string;
+  completedAt: string;
+  durationSeconds?: number;
+};
+
+export type AttemptSyncStatus = "synced" | "duplicate" | "rejected" | "failed";
+
+export type AttemptSyncResult = {
+  clientId: string;
+  status: AttemptSyncStatus;
+  attemptId: number | null;
+  message?: string;
+  [key: string]: unknown;
+};
+
+const QUEUE_KEY = "offline_attemptQueue";
+// Matches the server's per-request limit.
+const SYNC_BATCH_SIZE = 50;
+
+const packDirectory = () => new Directory(Paths.document, "topic-packs");
+const packFile = (topicId: number) => new File(packDirectory(), `topic-${topicId}.json`);
+
+export const getTopicPack = async (topicId: number): Promise<TopicPack | null> => {
+  const file = packFile(topicId);
+  if (!file.exists) {
+    return null;
+  }
+  try {
+    return JSON.parse(await file.text()) as TopicPack;
+  } catch {
+    return null;
+  }
+};
+
+export const listTopicPackIds = (): number[] => {
+  const directory = packDirectory();
+  if (!directory.exists) {
+    return [];
+  }
+  return directory
+    .list()
+    .map((entry) => /^topic-(\d+)\.json$/.exec(entry.name)?.[1])
+    .filter((id): id is string => Boolean(id))
+    .map(Number);
+};
+
+/**
+ * Downloads a topic pack, sending the installed version so an unchanged pack is not
+ * transferred again.
+ */
+export const downloadTopicPack = async (topicId: number): Promise<TopicPack> => {
+  const existing = await getTopicPack(topicId);
+  const response = await api.get(`/api/v2/topics/${topicId}/pack`, {
+    params: existing ? { version: existing.version } : undefined,
+  });
+  const data = extract<TopicPackResponse>(response.data);
+  if (data.upToDate && existing) {
+    return existing;
+  }
+  const pack: TopicPack = {
+    topicId,
+    version: data.version ?? "",
+    topic: data.topic ?? null,
+    flashcards: data.flashcards ?? [],
+    quizzes: data.quizzes ?? [],
+    downloadedAt: new Date().toISOString(),
+  };
+  packDirectory().create({ idempotent: true });
+  const file = packFile(topicId);
+  if (!file.exists) {
+    file.create();
+  }
+  file.write(JSON.stringify(pack));
+  return pack;
+};
+
+export const removeTopicPack = (topicId: number) => {
+  const file = packFile(topicId);
+  if (file.exists) {
+    file.delete();
+  }
+};
+
+export const findPackQuiz = async (quizId: number, topicId?: number): Promise<PackQuiz | null> => {
+  const topicIds = topicId ? [topicId] : listTopicPackIds();
+  for (const id of topicIds) {
+    const pack = await getTopicPack(id);
+    const quiz = pack?.quizzes.find((entry) => (entry.quizId ?? entry.id) === quizId);
+    if (quiz) {
+      return quiz;
+    }
+  }
+  return null;
+};
+
+export const getQueuedAttempts = async (): Promise<QueuedQuizAttempt[]> => {
+  const raw = await AsyncStorage.getItem(QUEUE_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedQuizAttempt[]) => AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+
+export const queueQuizAttempt = async (attempt: QueuedQuizAttempt) => {
+  const queue = await getQueuedAttempts();
+  await saveQueue([...queue.filter((entry) => entry.clientId !== attempt.clientId), attempt]);
+};
+
+// The server rejects null selections, so absent values are dropped rather than sent as null.
+const toSyncResponse = (entry: QuizResponsePayload) => ({
+  questionId: entry.questionId,
+  ...(entry.selectedOption ? { selectedOption: entry.selectedOption } : {}),
+  ...(entry.selectedOptions?.length ? { selectedOptions: entry.selectedOptions } : {}),
+});
+
+/**
+ * Sends the signed-in learner's queued attempts. Synced, duplicate and rejected attempts leave
+ * the queue; failed ones stay so the next sync retries them. Other learners' attempts on a
+ * shared device are left untouched.
+ */
+export const syncQueuedAttempts = async (userId: number): Promise<AttemptSyncResult[]> => {
+  const pending = (await getQueuedAttempts()).filter((entry) => entry.userId === userId).slice(0, SYNC_BATCH_SIZE);
+  if (!pending.length) {
+    return [];
+  }
+  const response = await api.post("/api/v2/attempts/sync", {
+    attempts: pending.map((entry) => ({
+      clientId: entry.clientId,
+      quizId: entry.quizId,
+      responses: entry.responses.map(toSyncResponse),
+      startedAt: entry.startedAt,
+      completedAt: entry.completedAt,
+      ...(typeof entry.durationSeconds === "number" ? { durationSeconds: entry.durationSeconds } : {}),
+    })),
+  });
+  const results = extract<AttemptSyncResult[]>(response.data) ?? [];
+  const settled = new Set(results.filter((result) => result.status !== "failed").map((result) => result.clientId));
+  // Re-read the queue so attempts finished while the request was in flight are kept.
+  const queue = await getQueuedAttempts();
+  await saveQueue(queue.filter((entry) => !settled.has(entry.clientId)));
+  return results;
+};
+
+export const offlineService = {
+  getTopicPack,
+  listTopicPackIds,
+  downloadTopicPack,
+  removeTopicPack,
+  findPackQuiz,
+  getQueuedAttempts,
+  queueQuizAttempt,
+  syncQueuedAttempts,
+};
+
+export default offlineService;
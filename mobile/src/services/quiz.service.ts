@@ -32,6 +32,8 @@ export type QuizSummary = {
   questionCount?: number;
   xpReward?: number;
   isActive?: boolean;
+  isPremium?: boolean;
+  locked?: boolean;
   latestAttempt?: QuizAttemptSummary | null;
   progressPercent?: number;
   [key: string]: unknown;
@@ -42,8 +44,10 @@ export type QuizAttemptQuestion = {
   id?: number;
   prompt?: string;
   questionText?: string;
+  questionType?: string;
   options?: string[];
   choices?: string[];
+  matchChoices?: string[];
   [key: string]: unknown;
 };
 
@@ -51,9 +55,20 @@ export type QuizAttempt = {
   attemptId?: number;
   id?: number;
   quizId?: number;
+  status?: string;
+  resumed?: boolean;
+  // Adaptive attempts only carry the questions served so far; totalQuestions is the target length.
+  adaptive?: boolean;
+  totalQuestions?: number;
+  currentIndex?: number;
+  responses?: QuizResponsePayload[];
   questions?: QuizAttemptQuestion[];
   score?: number;
   xpAwarded?: number;
+  // Topic mastery (0-100) around this attempt and how much evidence backs the new value (0-1).
+  masteryBefore?: number | null;
+  masteryAfter?: number | null;
+  masteryConfidence?: number | null;
   [key: string]: unknown;
 };
 
@@ -70,6 +85,15 @@ export type QuizResponsePayload = {
   selectedOptions?: string[] | null;
 };
 
+export type AdaptiveAnswerResult = {
+  attemptId?: number;
+  completed?: boolean;
+  answeredCount?: number;
+  totalQuestions?: number;
+  nextQuestion?: QuizAttemptQuestion | null;
+  [key: string]: unknown;
+};
+
 export const getQuizzesByTopic = async (topicId: number): Promise<QuizSummary[]> => {
   const response = await api.get("/api/v2/quizzes", { params: { topicId } });
   const data = extract<{ quizzes?: QuizSummary[] } | QuizSummary[]>(response.data);
@@ -92,6 +116,29 @@ export const submitQuizAttempt = async (
   return extract<QuizSubmissionResponse>(response.data);
 };
 
+export const answerAdaptiveQuestion = async (
+  quizId: number,
+  payload: { attemptId: number } & QuizResponsePayload,
+): Promise<AdaptiveAnswerResult> => {
+  const response = await api.post(`/api/v2/quizzes/${quizId}/next`, {
+    attemptId: payload.attemptId,
+    questionId: payload.questionId,
+    selectedOption: payload.selectedOption ?? undefined,
+    selectedOptions: payload.selectedOptions ?? undefined,
+  });
+  return extract<AdaptiveAnswerResult>(response.data);
+};
+
+export const saveQuizAttemptResponses = async (
+  attemptId: number,
+  payload: { responses: QuizResponsePayload[]; currentIndex?: number },
+): Promise<QuizAttempt> => {
+  const response = await api.patch(`/api/v2/attempts/${attemptId}/responses`, payload, {
+    params: { type: "quiz" },
+  });
+  return extract<QuizAttempt>(response.data);
+};
+
 export const getQuizAttempt = async (attemptId: number): Promise<QuizAttempt> => {
   const response = await api.get(`/api/v2/attempts/${attemptId}`, { params: { type: "quiz" } });
   return extract<QuizAttempt>(response.data);
@@ -0,0 +1,45 @@
+import api from "./api";
+
+type ApiResponse<T> = {
+  data?: T;
+  success?: boolean;
+  message?: string;
+};
+
+const extract = <T>(payload: ApiResponse<T> | T): T => {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as ApiResponse<T>).data as T;
+  }
+  return payload as T;
+};
+
+export type RecommendationType =
+  | "resume_quiz"
+  | "resume_practice"
+  | "review_flashcards"
+  | "review_mistakes"
+  | "strengthen_topic"
+  | "start_quiz"
+  | "continue_challenge"
+  | "join_challenge";
+
+export type Recommendation = {
+  type: RecommendationType;
+  title: string;
+  reason: string;
+  priority: number;
+  topicId: number | null;
+  topicName: string | null;
+  subjectId: number | null;
+  quizId: number | null;
+  practiceTestId: number | null;
+  attemptId: number | null;
+  challengeId: number | null;
+  count: number | null;
+};
+
+export const getRecommendations = async (params: { gradeLevelId?: number; limit?: number } = {}) => {
+  const response = await api.get("/api/v2/recommendations", { params });
+  const data = extract<{ recommendations?: Recommendation[] }>(response.data);
+  return data?.recommendations ?? [];
+};
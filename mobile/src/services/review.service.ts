@@ -0,0 +1,63 @@
+import api from "./api";
+import type { QuizAttempt, QuizAttemptQuestion, QuizResponsePayload } from "./quiz.service";
+
+type ApiResponse<T> = {
+  data?: T;
+  success?: boolean;
+  message?: string;
+};
+
+const extract = <T>(payload: ApiResponse<T> | T): T => {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as ApiResponse<T>).data as T;
+  }
+  return payload as T;
+};
+
+export type ReviewPool = {
+  total: number;
+  topics: Array<{ topicId: number; topicName: string; count: number }>;
+};
+
+export type ReviewAttempt = QuizAttempt & {
+  topicId?: number | null;
+  questions?: QuizAttemptQuestion[];
+  // Missed questions in this session, and those answered correctly often enough to leave review.
+  mistakeQuestionIds?: number[];
+  retiredQuestionIds?: number[];
+  retiredCount?: number;
+};
+
+export const getReviewPool = async (topicId?: number): Promise<ReviewPool> => {
+  const response = await api.get("/api/v2/reviews", { params: topicId ? { topicId } : undefined });
+  return extract<ReviewPool>(response.data) ?? { total: 0, topics: [] };
+};
+
+export const startReviewAttempt = async (topicId?: number): Promise<ReviewAttempt> => {
+  const response = await api.post("/api/v2/reviews/start", topicId ? { topicId } : {});
+  return extract<ReviewAttempt>(response.data);
+};
+
+export const saveReviewAttemptResponses = async (
+  attemptId: number,
+  payload: { responses: QuizResponsePayload[]; currentIndex?: number },
+) => {
+  const response = await api.patch(`/api/v2/attempts/${attemptId}/responses`, payload, {
+    params: { type: "review" },
+  });
+  return extract<ReviewAttempt>(response.data);
+};
+
+export const submitReviewAttempt = async (payload: {
+  attemptId: number;
+  responses: QuizResponsePayload[];
+  durationSeconds?: number;
+}): Promise<ReviewAttempt> => {
+  const response = await api.post("/api/v2/reviews/submit", payload);
+  return extract<ReviewAttempt>(response.data);
+};
+
+export const getReviewAttempt = async (attemptId: number): Promise<ReviewAttempt> => {
+  const response = await api.get(`/api/v2/reviews/${attemptId}`);
+  return extract<ReviewAttempt>(response.data);
+};
@@ -30,6 +30,8 @@ export type PracticeTestSummary = {
   durationMinutes?: number | null;
   xpReward?: number | null;
   isActive?: boolean;
+  isPremium?: boolean;
+  locked?: boolean;
   difficultyMix?: string | null;
   latestAttempt?: PracticeTestAttemptSummary | null;
   progressPercent?: number | null;
@@ -40,16 +42,29 @@ export type PracticeTestAttempt = {
   attemptId?: number;
   id?: number;
   practiceTestId?: number;
+  status?: string;
+  mode?: string;
+  resumed?: boolean;
+  deadlineAt?: string | null;
+  serverTime?: string;
+  currentIndex?: number;
+  responses?: PracticeTestResponsePayload[];
   questions?: Array<{
     questionId?: number;
     id?: number;
     questionText?: string;
     prompt?: string;
+    questionType?: string;
     options?: string[];
     choices?: string[];
+    matchChoices?: string[];
   }>;
   score?: number;
   xpAwarded?: number;
+  // Topic mastery (0-100) around this attempt and how much evidence backs the new value (0-1).
+  masteryBefore?: number | null;
+  masteryAfter?: number | null;
+  masteryConfidence?: number | null;
   [key: string]: unknown;
 };
 
@@ -92,6 +107,16 @@ export const submitPracticeTestAttempt = async (
   return extract<PracticeTestSubmission>(response.data);
 };
 
+export const savePracticeTestAttemptResponses = async (
+  attemptId: number,
+  payload: { responses: PracticeTestResponsePayload[]; currentIndex?: number },
+): Promise<PracticeTestAttempt> => {
+  const response = await api.patch(`/api/v2/attempts/${attemptId}/responses`, payload, {
+    params: { type: "practice" },
+  });
+  return extract<PracticeTestAttempt>(response.data);
+};
+
 export const getPracticeTestAttempt = async (attemptId: number): Promise<PracticeTestAttempt> => {
   const response = await api.get(`/api/v2/attempts/${attemptId}`, { params: { type: "practice" } });
   return extract<PracticeTestAttempt>(response.data);
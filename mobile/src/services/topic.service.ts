@@ -15,6 +15,15 @@ const unwrap = <T,>(payload: ApiResponse<T> | T): T => {
   return payload as T;
 };
 
+export type TopicPrerequisite = {
+  topicId: number;
+  topicName: string;
+  minAccuracy: number;
+  mastery: number | null;
+  attempts: number;
+  met: boolean;
+};
+
 export type Topic = {
   id?: number;
   topicId?: number;
@@ -24,6 +33,9 @@ export type Topic = {
   summary?: string | null;
   iconUrl?: string | null;
   difficulty?: string | null;
+  locked?: boolean;
+  prerequisites?: TopicPrerequisite[];
+  unlocksNext?: Array<{ topicId: number; topicName: string }>;
 };
 
 const normalize = (payload: { topics?: Topic[] } | Topic[] | undefined | null): Topic[] => {
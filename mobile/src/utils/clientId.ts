@@ -0,0 +1,10 @@
+/**
+ * RFC 4122 version 4 identifier for records created on the device before the server has seen
+ * them. Math.random is enough here: ids only need to be unique per learner, not unguessable.
+ */
+export const createClientId = () =>
+  "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === "x" ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
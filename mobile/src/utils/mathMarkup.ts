@@ -0,0 +1,61 @@
+export type MathSegment = {
+  type: "text" | "math";
+  value: string;
+  displayMode: boolean;
+};
+
+// Mirrors the API parser: $...$, $$...$$, \(...\) and \[...\], with \$ kept as a literal dollar.
+const delimiters = [
+  { open: "$$", close: "$$", displayMode: true },
+  { open: "\\[", close: "\\]", displayMode: true },
+  { open: "\\(", close: "\\)", displayMode: false },
+  { open: "$", close: "$", displayMode: false },
+];
+
+const findClosing = (text: string, close: string, from: number) => {
+  let index = text.indexOf(close, from);
+  while (index > 0 && text[index - 1] === "\\" && close === "$") {
+    index = text.indexOf(close, index + 1);
+  }
+  return index;
+};
+
+export const splitMathSegments = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = "";
+  let index = 0;
+
+  while (index < text.length) {
+    if (text[index] === "\\" && text[index + 1] === "$") {
+      buffer += "$";
+      index += 2;
+      continue;
+    }
+
+    const delimiter = delimiters.find((entry) => text.startsWith(entry.open, index));
+    const closing = delimiter ? findClosing(text, delimiter.close, index + delimiter.open.length) : -1;
+    if (!delimiter || closing === -1) {
+      buffer += text[index];
+      index += 1;
+      continue;
+    }
+
+    if (buffer) {
+      segments.push({ type: "text", value: buffer, displayMode: false });
+      buffer = "";
+    }
+    segments.push({
+      type: "math",
+      value: text.slice(index + delimiter.open.length, closing),
+      displayMode: delimiter.displayMode,
+    });
+    index = closing + delimiter.close.length;
+  }
+
+  if (buffer) {
+    segments.push({ type: "text", value: buffer, displayMode: false });
+  }
+  return segments;
+};
+
+export const hasMathMarkup = (text: string) => splitMathSegments(text).some((segment) => segment.type === "math");
@@ -0,0 +1,107 @@
+"use client";
+
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { fetcher } from "@/lib/api";
+
+type GradebookCell = {
+  assignmentId: number;
+  status: "not_started" | "in_progress" | "completed" | "overdue";
+  score: number | null;
+  completedAt: string | null;
+  late: boolean;
+};
+
+type Gradebook = {
+  assignments: Array<{ id: number; type: string; title: string; dueAt: string; completed: number; overdue: number }>;
+  learners: Array<{
+    userId: number;
+    fullName: string;
+    email: string;
+    completed: number;
+    overdue: number;
+    averageScore: number | null;
+    cells: GradebookCell[];
+  }>;
+};
+
+const statusClasses: Record<GradebookCell["status"], string> = {
+  completed: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  in_progress: "border-sky-200 bg-sky-50 text-sky-800",
+  not_started: "border-slate-200 bg-slate-50 text-slate-600",
+  overdue: "border-red-200 bg-red-50 text-red-700",
+};
+
+const statusLabels: Record<GradebookCell["status"], string> = {
+  completed: "Done",
+  in_progress: "Started",
+  not_started: "Not started",
+  overdue: "Overdue",
+};
+
+type Props = {
+  classroomId: number;
+};
+
+const ClassroomGradebook = ({ classroomId }: Props) => {
+  const { data, error, isLoading } = useSWR<Gradebook>(`/admin/classrooms/${classroomId}/gradebook`, fetcher);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading gradebook...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-muted-foreground">The gradebook is unavailable.</p>;
+  }
+  if (!data.learners.length || !data.assignments.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The gradebook fills in once learners have joined and at least one assignment is set.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-xs text-muted-foreground">
+          <tr>
+            <th className="py-2 pr-3 font-medium">Learner</th>
+            {data.assignments.map((assignment) => (
+              <th key={assignment.id} className="min-w-[140px] py-2 pr-3 font-medium">
+                <span className="block text-foreground">{assignment.title}</span>
+                <span>
+                  Due {new Date(assignment.dueAt).toLocaleDateString()} · {assignment.completed}/{data.learners.length}{" "}
+                  done
+                </span>
+              </th>
+            ))}
+            <th className="py-2 font-medium">Average</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.learners.map((learner) => (
+            <tr key={learner.userId} className="border-t align-top">
+              <td className="py-2 pr-3">
+                <span className="block font-medium">{learner.fullName}</span>
+                <span className="text-xs text-muted-foreground">{learner.email}</span>
+              </td>
+              {learner.cells.map((cell) => (
+                <td key={cell.assignmentId} className="py-2 pr-3">
+                  <Badge variant="outline" className={statusClasses[cell.status]}>
+                    {cell.status === "completed" && cell.score !== null ? `${cell.score}%` : statusLabels[cell.status]}
+                  </Badge>
+                  {cell.late ? <span className="ml-1 text-xs text-amber-700">late</span> : null}
+                </td>
+              ))}
+              <td className="py-2 font-semibold text-[#004976]">
+                {learner.averageScore === null ? "—" : `${learner.averageScore}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ClassroomGradebook;
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { fetcher } from "@/lib/api";
+
+type Range = "7d" | "30d" | "all";
+
+type Report = {
+  summary: {
+    members: number;
+    activeLearners: number;
+    quizzesCompleted: number;
+    practiceTestsCompleted: number;
+    averageScore: number | null;
+  };
+  learners: Array<{
+    userId: number;
+    fullName: string;
+    email: string;
+    quizzesCompleted: number;
+    practiceTestsCompleted: number;
+    averageScore: number | null;
+    lastActiveAt: string | null;
+    streakDays: number;
+  }>;
+  objectives: Array<{
+    objectiveId: number;
+    code: string;
+    description: string;
+    topicName: string;
+    learners: number;
+    averageMastery: number | null;
+  }>;
+};
+
+const rangeOptions: Array<{ value: Range; label: string }> = [
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "all", label: "All time" },
+];
+
+type Props = {
+  classroomId: number;
+};
+
+const ClassroomReport = ({ classroomId }: Props) => {
+  const [range, setRange] = useState<Range>("30d");
+  const { data, error, isLoading } = useSWR<Report>(`/admin/classrooms/${classroomId}/report?range=${range}`, fetcher);
+
+  const summary = data?.summary;
+  const weakest = (data?.objectives ?? []).slice(0, 5);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <select
+        value={range}
+        onChange={(event) => setRange(event.target.value as Range)}
+        className="rounded-xl border border-input bg-background px-3 py-2 text-sm shadow-sm"
+        aria-label="Report range"
+      >
+        {rangeOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading report...</p>
+      ) : error || !data || !summary ? (
+        <p className="text-muted-foreground">The class report is unavailable.</p>
+      ) : (
+        <>
+          <div className="grid gap-3 sm:grid-cols-4">
+            <div className="rounded-2xl border p-3">
+              <p className="text-xs text-muted-foreground">Active learners</p>
+              <p className="text-lg font-semibold text-[#004976]">
+                {summary.activeLearners}/{summary.members}
+              </p>
+            </div>
+            <div className="rounded-2xl border p-3">
+              <p className="text-xs text-muted-foreground">Quizzes completed</p>
+              <p className="text-lg font-semibold text-[#004976]">{summary.quizzesCompleted}</p>
+            </div>
+            <div className="rounded-2xl border p-3">
+              <p className="text-xs text-muted-foreground">Practice tests completed</p>
+              <p className="text-lg font-semibold text-[#004976]">{summary.practiceTestsCompleted}</p>
+            </div>
+            <div className="rounded-2xl border p-3">
+              <p className="text-xs text-muted-foreground">Average score</p>
+              <p className="text-lg font-semibold text-[#004976]">
+                {summary.averageScore === null ? "—" : `${summary.averageScore}%`}
+              </p>
+            </div>
+          </div>
+
+          {data.learners.length ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="text-left text-xs text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-3 font-medium">Learner</th>
+                    <th className="py-2 pr-3 font-medium">Quizzes</th>
+                    <th className="py-2 pr-3 font-medium">Tests</th>
+                    <th className="py-2 pr-3 font-medium">Average</th>
+                    <th className="py-2 pr-3 font-medium">Streak</th>
+                    <th className="py-2 font-medium">Last active</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.learners.map((learner) => (
+                    <tr key={learner.userId} className="border-t">
+                      <td className="py-2 pr-3">
+                        <span className="block font-medium">{learner.fullName}</span>
+                        <span className="text-xs text-muted-foreground">{learner.email}</span>
+                      </td>
+                      <td className="py-2 pr-3">{learner.quizzesCompleted}</td>
+                      <td className="py-2 pr-3">{learner.practiceTestsCompleted}</td>
+                      <td className="py-2 pr-3 font-semibold text-[#004976]">
+                        {learner.averageScore === null ? "—" : `${learner.averageScore}%`}
+                      </td>
+                      <td className="py-2 pr-3">{learner.streakDays} days</td>
+                      <td className="py-2">
+                        {learner.lastActiveAt ? new Date(learner.lastActiveAt).toLocaleDateString() : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No learners have joined this class yet.</p>
+          )}
+
+          {weakest.length ? (
+            <div className="space-y-2">
+              <p className="text-xs uppercase text-muted-foreground">Weakest objectives</p>
+              <ul className="space-y-1">
+                {weakest.map((objective) => (
+                  <li key={objective.objectiveId} className="flex items-center justify-between gap-3">
+                    <span>
+                      <span className="font-medium">{objective.code}</span> {objective.description}
+                      <span className="text-xs text-muted-foreground"> · {objective.topicName}</span>
+                    </span>
+                    <span className="whitespace-nowrap text-xs text-muted-foreground">
+                      {objective.averageMastery === null ? "—" : `${Math.round(objective.averageMastery)}%`} ·{" "}
+                      {objective.learners} learners
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClassroomReport;
@@ -0,0 +1,446 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import useSWR, { useSWRConfig } from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import api, { fetcher } from "@/lib/api";
+import ClassroomGradebook from "./ClassroomGradebook";
+import ClassroomReport from "./ClassroomReport";
+
+type ClassroomSummary = {
+  id: number;
+  name: string;
+  description?: string | null;
+  joinCode: string;
+  isArchived: boolean;
+  teacher: { id: number; name: string; email: string };
+  memberCount: number;
+  assignmentCount: number;
+};
+
+type ClassroomAssignment = {
+  id: number;
+  type: "quiz" | "practice";
+  title: string;
+  instructions?: string | null;
+  dueAt: string;
+};
+
+type ClassroomDetail = Omit<ClassroomSummary, "memberCount" | "assignmentCount"> & {
+  members: Array<{ userId: number; fullName: string; email: string; joinedAt: string }>;
+  assignments: ClassroomAssignment[];
+};
+
+type AssignableContent = {
+  quizzes: Array<{ id: number; title: string; topicName: string }>;
+  practiceTests: Array<{ id: number; title: string; questionCount: number }>;
+};
+
+const selectClass =
+  "w-full rounded-xl border border-input bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+const emptyAssignment = { type: "quiz" as "quiz" | "practice", targetId: "", title: "", dueAt: "" };
+
+const getErrorMessage = (error: unknown, fallback = "Please try again.") => {
+  if (!error) {
+    return fallback;
+  }
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  const responseData = (error as { response?: { data?: unknown } })?.response?.data;
+  if (responseData && typeof responseData === "object") {
+    const { message } = responseData as { message?: unknown };
+    if (typeof message === "string") {
+      return message;
+    }
+  }
+  return fallback;
+};
+
+const ClassroomsPage = () => {
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newClass, setNewClass] = useState({ name: "", description: "" });
+  const [assignmentDraft, setAssignmentDraft] = useState(emptyAssignment);
+  const [saving, setSaving] = useState(false);
+
+  const {
+    data: listData,
+    isLoading,
+    mutate: mutateList,
+  } = useSWR<{ classrooms: ClassroomSummary[] }>(`/admin/classrooms?archived=${showArchived}`, fetcher);
+  const {
+    data: detailData,
+    mutate: mutateDetail,
+  } = useSWR<{ classroom: ClassroomDetail }>(selectedId ? `/admin/classrooms/${selectedId}` : null, fetcher);
+  const { data: assignable } = useSWR<AssignableContent>(selectedId ? "/admin/classrooms/assignable" : null, fetcher);
+  const { mutate } = useSWRConfig();
+
+  const classrooms = listData?.classrooms ?? [];
+  const classroom = detailData?.classroom;
+  const targets =
+    assignmentDraft.type === "quiz"
+      ? (assignable?.quizzes ?? []).map((quiz) => ({ id: quiz.id, label: `${quiz.title} · ${quiz.topicName}` }))
+      : (assignable?.practiceTests ?? []).map((test) => ({
+          id: test.id,
+          label: `${test.title} · ${test.questionCount} questions`,
+        }));
+
+  const refresh = async () => {
+    await Promise.all([
+      mutateList(),
+      mutateDetail(),
+      selectedId ? mutate(`/admin/classrooms/${selectedId}/gradebook`) : undefined,
+    ]);
+  };
+
+  const runAction = async (task: () => Promise<unknown>, success: string, failure: string) => {
+    setSaving(true);
+    try {
+      await task();
+      toast({ title: success });
+      await refresh();
+      return true;
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: failure, description: getErrorMessage(error) });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateClass = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!newClass.name.trim()) {
+      toast({ variant: "destructive", title: "Give the class a name" });
+      return;
+    }
+    const created = await runAction(
+      async () => {
+        const response = await api.post("/admin/classrooms", {
+          name: newClass.name.trim(),
+          ...(newClass.description.trim() ? { description: newClass.description.trim() } : {}),
+        });
+        const payload = response.data as { data?: { classroom?: { id: number } } };
+        if (payload.data?.classroom) {
+          setSelectedId(payload.data.classroom.id);
+        }
+      },
+      "Class created",
+      "Unable to create class",
+    );
+    if (created) {
+      setDialogOpen(false);
+      setNewClass({ name: "", description: "" });
+    }
+  };
+
+  const handleAssign = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!classroom || !assignmentDraft.targetId || !assignmentDraft.dueAt) {
+      toast({ variant: "destructive", title: "Pick what to assign and when it is due" });
+      return;
+    }
+    const targetKey = assignmentDraft.type === "quiz" ? "quizId" : "practiceTestId";
+    const assigned = await runAction(
+      () =>
+        api.post(`/admin/classrooms/${classroom.id}/assignments`, {
+          [targetKey]: Number(assignmentDraft.targetId),
+          dueAt: new Date(assignmentDraft.dueAt).toISOString(),
+          ...(assignmentDraft.title.trim() ? { title: assignmentDraft.title.trim() } : {}),
+        }),
+      "Assignment set",
+      "Unable to assign",
+    );
+    if (assigned) {
+      setAssignmentDraft(emptyAssignment);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-primary">Classrooms</h1>
+          <p className="text-muted-foreground">
+            Run classes, share join codes with learners, and follow assigned quizzes in the gradebook.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input type="checkbox" checked={showArchived} onChange={(event) => setShowArchived(event.target.checked)} />
+            Show archived
+          </label>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>New class</Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New class</DialogTitle>
+                <DialogDescription>Learners join with the code generated for the class.</DialogDescription>
+              </DialogHeader>
+              <form className="space-y-3" onSubmit={handleCreateClass}>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-muted-foreground">Name</label>
+                  <Input
+                    value={newClass.name}
+                    onChange={(event) => setNewClass((prev) => ({ ...prev, name: event.target.value }))}
+                    placeholder="JHS 2 Mathematics"
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-muted-foreground">Description</label>
+                  <Textarea
+                    value={newClass.description}
+                    onChange={(event) => setNewClass((prev) => ({ ...prev, description: event.target.value }))}
+                    rows={3}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Saving..." : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading classes...</p>
+      ) : classrooms.length === 0 ? (
+        <p className="rounded-xl border border-dashed p-6 text-center text-sm text-muted-foreground">
+          No classes yet. Create one to get a join code for your learners.
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {classrooms.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => setSelectedId(entry.id)}
+              className={`rounded-2xl border bg-white p-4 text-left shadow-sm transition hover:border-[#00AD50]/60 ${
+                entry.id === selectedId ? "border-[#00AD50] bg-[#00AD50]/5" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-semibold text-[#004976]">{entry.name}</span>
+                {entry.isArchived ? <Badge variant="outline">Archived</Badge> : null}
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {entry.memberCount} learners · {entry.assignmentCount} assignments · {entry.teacher.name}
+              </p>
+              <p className="mt-2 font-mono text-lg tracking-[0.3em]">{entry.joinCode}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {classroom ? (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-lg text-[#004976]">{classroom.name}</CardTitle>
+                <CardDescription>
+                  {classroom.description || "No description"} · Join code{" "}
+                  <span className="font-mono font-semibold tracking-widest">{classroom.joinCode}</span>
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() =>
+                    runAction(
+                      () => api.post(`/admin/classrooms/${classroom.id}/join-code`),
+                      "New join code issued",
+                      "Unable to change the join code",
+                    )
+                  }
+                >
+                  New code
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={saving}
+                  onClick={() =>
+                    runAction(
+                      () => api.put(`/admin/classrooms/${classroom.id}`, { isArchived: !classroom.isArchived }),
+                      classroom.isArchived ? "Class restored" : "Class archived",
+                      "Unable to update class",
+                    )
+                  }
+                >
+                  {classroom.isArchived ? "Restore" : "Archive"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-3">
+                <h2 className="text-sm font-semibold">Assignments</h2>
+                <form className="grid gap-2 md:grid-cols-2" onSubmit={handleAssign}>
+                  <select
+                    value={assignmentDraft.type}
+                    onChange={(event) =>
+                      setAssignmentDraft((prev) => ({
+                        ...prev,
+                        type: event.target.value as "quiz" | "practice",
+                        targetId: "",
+                      }))
+                    }
+                    className={selectClass}
+                  >
+                    <option value="quiz">Quiz</option>
+                    <option value="practice">Practice test</option>
+                  </select>
+                  <select
+                    value={assignmentDraft.targetId}
+                    onChange={(event) => setAssignmentDraft((prev) => ({ ...prev, targetId: event.target.value }))}
+                    className={selectClass}
+                  >
+                    <option value="">Choose {assignmentDraft.type === "quiz" ? "a quiz" : "a practice test"}</option>
+                    {targets.map((target) => (
+                      <option key={target.id} value={String(target.id)}>
+                        {target.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Input
+                    value={assignmentDraft.title}
+                    onChange={(event) => setAssignmentDraft((prev) => ({ ...prev, title: event.target.value }))}
+                    placeholder="Title (optional)"
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={assignmentDraft.dueAt}
+                    onChange={(event) => setAssignmentDraft((prev) => ({ ...prev, dueAt: event.target.value }))}
+                  />
+                  <Button type="submit" disabled={saving} className="md:col-span-2">
+                    Assign
+                  </Button>
+                </form>
+                {classroom.assignments.length ? (
+                  <ul className="space-y-2 text-sm">
+                    {classroom.assignments.map((assignment) => (
+                      <li key={assignment.id} className="flex items-center justify-between rounded-xl border px-3 py-2">
+                        <span>
+                          <span className="font-medium">{assignment.title}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {assignment.type === "quiz" ? "Quiz" : "Practice test"} · due{" "}
+                            {new Date(assignment.dueAt).toLocaleString()}
+                          </span>
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={saving}
+                          onClick={() =>
+                            runAction(
+                              () => api.delete(`/admin/classrooms/${classroom.id}/assignments/${assignment.id}`),
+                              "Assignment removed",
+                              "Unable to remove assignment",
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Nothing assigned yet.</p>
+                )}
+              </div>
+              <div className="space-y-3">
+                <h2 className="text-sm font-semibold">Learners ({classroom.members.length})</h2>
+                {classroom.members.length ? (
+                  <ul className="space-y-2 text-sm">
+                    {classroom.members.map((member) => (
+                      <li key={member.userId} className="flex items-center justify-between rounded-xl border px-3 py-2">
+                        <span>
+                          <span className="font-medium">{member.fullName}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {member.email} · joined {new Date(member.joinedAt).toLocaleDateString()}
+                          </span>
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={saving}
+                          onClick={() =>
+                            runAction(
+                              () => api.delete(`/admin/classrooms/${classroom.id}/members/${member.userId}`),
+                              "Learner removed",
+                              "Unable to remove learner",
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No learners yet. Share the join code so they can add the class from the app.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg text-[#004976]">Gradebook</CardTitle>
+              <CardDescription>Only attempts started after an assignment was set count towards it.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ClassroomGradebook classroomId={classroom.id} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg text-[#004976]">Class Report</CardTitle>
+              <CardDescription>All completed work by this class&apos;s learners, assigned or not.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ClassroomReport classroomId={classroom.id} />
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ClassroomsPage;
@@ -0,0 +1,258 @@
+"use client";
+
+import { ChangeEvent, FormEvent, useRef, useState } from "react";
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import api, { downloadFile, fetcher } from "@/lib/api";
+
+type LearningObjective = {
+  id: number;
+  topicId: number;
+  curriculum: string;
+  code: string;
+  description: string;
+  isActive: boolean;
+  questionCount: number;
+};
+
+type ObjectiveReport = {
+  objectiveId: number;
+  learners: number;
+  averageMastery: number | null;
+};
+
+type Props = {
+  topic: { id: number; name: string } | null;
+  canEdit: boolean;
+  canViewReports: boolean;
+};
+
+const emptyDraft = { curriculum: "", code: "", description: "" };
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const responseData = (error as { response?: { data?: { message?: unknown } } })?.response?.data;
+  return typeof responseData?.message === "string" ? responseData.message : fallback;
+};
+
+const LearningObjectivesPanel = ({ topic, canEdit, canViewReports }: Props) => {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, mutate } = useSWR<{ objectives: LearningObjective[]; curricula: string[] }>(
+    topic ? `/admin/objectives?topicId=${topic.id}&includeInactive=true` : null,
+    fetcher,
+  );
+  const { data: reportData } = useSWR<{ objectives: ObjectiveReport[] }>(
+    topic && canViewReports ? `/admin/reporting/objectives?topicId=${topic.id}` : null,
+    fetcher,
+  );
+
+  const objectives = data?.objectives ?? [];
+  const reportById = new Map((reportData?.objectives ?? []).map((entry) => [entry.objectiveId, entry]));
+
+  const runAction = async (task: () => Promise<unknown>, success: string, failure: string) => {
+    setSaving(true);
+    try {
+      await task();
+      toast({ title: success });
+      await mutate();
+      return true;
+    } catch (error) {
+      toast({ variant: "destructive", title: failure, description: getErrorMessage(error, "Please try again.") });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!topic) return;
+    const created = await runAction(
+      () => api.post("/admin/objectives", { topicId: topic.id, ...draft }),
+      "Objective added",
+      "Unable to add objective",
+    );
+    if (created) {
+      setDraft((current) => ({ ...emptyDraft, curriculum: current.curriculum }));
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setImporting(true);
+    const formData = new FormData();
+    formData.append("file", file);
+    const query = draft.curriculum.trim() ? `?curriculum=${encodeURIComponent(draft.curriculum.trim())}` : "";
+    try {
+      const response = await api.post(`/admin/objectives/import${query}`, formData, {
+        headers: { "Content-Type": "multipart/form-data" },
+      });
+      const stats = response.data?.data ?? response.data ?? {};
+      toast({
+        title: "Objectives imported",
+        description: `${stats.created ?? 0} added, ${stats.updated ?? 0} updated, ${stats.failed ?? 0} failed.`,
+      });
+      await mutate();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: getErrorMessage(error, "Check the file against the template."),
+      });
+    } finally {
+      setImporting(false);
+      event.target.value = "";
+    }
+  };
+
+  const handleTemplate = async () => {
+    try {
+      await downloadFile("/admin/objectives/template", "learning-objectives-template.xlsx");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: getErrorMessage(error, "Unable to download the template."),
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <CardTitle>Learning objectives</CardTitle>
+          <CardDescription>
+            {topic
+              ? `Curriculum objectives taught under ${topic.name}. Tag questions with them in the question bank.`
+              : "Select a topic to manage its learning objectives."}
+          </CardDescription>
+        </div>
+        {canEdit ? (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleTemplate}>
+              Download template
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+              {importing ? "Importing..." : "Import catalogue"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {topic && canEdit ? (
+          <form className="grid gap-2 md:grid-cols-[160px_140px_1fr_auto]" onSubmit={handleCreate}>
+            <Input
+              placeholder="Curriculum"
+              value={draft.curriculum}
+              onChange={(event) => setDraft((current) => ({ ...current, curriculum: event.target.value }))}
+              list="objective-curricula"
+              required
+            />
+            <datalist id="objective-curricula">
+              {(data?.curricula ?? []).map((curriculum) => (
+                <option key={curriculum} value={curriculum} />
+              ))}
+            </datalist>
+            <Input
+              placeholder="Code"
+              value={draft.code}
+              onChange={(event) => setDraft((current) => ({ ...current, code: event.target.value }))}
+              required
+            />
+            <Input
+              placeholder="Description"
+              value={draft.description}
+              onChange={(event) => setDraft((current) => ({ ...current, description: event.target.value }))}
+              required
+            />
+            <Button type="submit" disabled={saving}>
+              Add
+            </Button>
+          </form>
+        ) : null}
+
+        {!topic ? null : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading objectives...</p>
+        ) : !objectives.length ? (
+          <p className="text-sm text-muted-foreground">No objectives yet for this topic.</p>
+        ) : (
+          <ul className="divide-y">
+            {objectives.map((objective) => {
+              const report = reportById.get(objective.id);
+              return (
+                <li key={objective.id} className="flex flex-col gap-2 py-3 md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-[#004976]">{objective.code}</span>
+                      <Badge variant="outline">{objective.curriculum}</Badge>
+                      {!objective.isActive ? <Badge variant="outline">Inactive</Badge> : null}
+                    </div>
+                    <p className="text-sm">{objective.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {objective.questionCount} tagged {objective.questionCount === 1 ? "question" : "questions"}
+                      {report
+                        ? ` · ${report.learners} ${report.learners === 1 ? "learner" : "learners"}` +
+                          (report.averageMastery === null ? "" : ` · ${report.averageMastery}% average mastery`)
+                        : ""}
+                    </p>
+                  </div>
+                  {canEdit ? (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          runAction(
+                            () => api.put(`/admin/objectives/${objective.id}`, { isActive: !objective.isActive }),
+                            objective.isActive ? "Objective deactivated" : "Objective reactivated",
+                            "Unable to update objective",
+                          )
+                        }
+                      >
+                        {objective.isActive ? "Deactivate" : "Reactivate"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          runAction(
+                            () => api.delete(`/admin/objectives/${objective.id}`),
+                            "Objective deleted",
+                            "Unable to delete objective",
+                          )
+                        }
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LearningObjectivesPanel;
@@ -0,0 +1,185 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import api, { fetcher } from "@/lib/api";
+
+type PathTopic = {
+  topicId: number;
+  topicName: string;
+  subjectId: number;
+  isActive: boolean;
+  minAccuracy: number;
+};
+
+type Props = {
+  topic: { id: number; name: string } | null;
+  candidates: Array<{ id: number; name: string }>;
+  canEdit: boolean;
+};
+
+const selectClass =
+  "w-full rounded-xl border border-input bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const responseData = (error as { response?: { data?: { message?: unknown } } })?.response?.data;
+  return typeof responseData?.message === "string" ? responseData.message : fallback;
+};
+
+const TopicPrerequisitesPanel = ({ topic, candidates, canEdit }: Props) => {
+  const { toast } = useToast();
+  const [prerequisiteId, setPrerequisiteId] = useState("");
+  const [minAccuracy, setMinAccuracy] = useState("70");
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading, mutate } = useSWR<{ prerequisites: PathTopic[]; unlocks: PathTopic[] }>(
+    topic ? `/admin/topics/${topic.id}/prerequisites` : null,
+    fetcher,
+  );
+
+  const prerequisites = data?.prerequisites ?? [];
+  const unlocks = data?.unlocks ?? [];
+  const available = candidates.filter(
+    (candidate) => candidate.id !== topic?.id && !prerequisites.some((entry) => entry.topicId === candidate.id),
+  );
+
+  const runAction = async (task: () => Promise<unknown>, success: string, failure: string) => {
+    setSaving(true);
+    try {
+      await task();
+      toast({ title: success });
+      await mutate();
+      return true;
+    } catch (error) {
+      toast({ variant: "destructive", title: failure, description: getErrorMessage(error, "Please try again.") });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!topic || !prerequisiteId) return;
+    const added = await runAction(
+      () =>
+        api.post(`/admin/topics/${topic.id}/prerequisites`, {
+          prerequisiteId: Number(prerequisiteId),
+          minAccuracy: Number(minAccuracy),
+        }),
+      "Prerequisite added",
+      "Unable to add prerequisite",
+    );
+    if (added) {
+      setPrerequisiteId("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Learning path</CardTitle>
+        <CardDescription>
+          {topic
+            ? `Learners see ${topic.name} locked until they reach the required mastery in each prerequisite.`
+            : "Select a topic to manage its prerequisites."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {topic && canEdit ? (
+          <form className="grid gap-2 md:grid-cols-[1fr_140px_auto]" onSubmit={handleAdd}>
+            <select
+              value={prerequisiteId}
+              onChange={(event) => setPrerequisiteId(event.target.value)}
+              className={selectClass}
+              required
+            >
+              <option value="">Choose a prerequisite topic</option>
+              {available.map((candidate) => (
+                <option key={candidate.id} value={String(candidate.id)}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Min mastery %"
+              value={minAccuracy}
+              onChange={(event) => setMinAccuracy(event.target.value)}
+              required
+            />
+            <Button type="submit" disabled={saving || !prerequisiteId}>
+              Add
+            </Button>
+          </form>
+        ) : null}
+
+        {!topic ? null : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading prerequisites...</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-[#004976]">Requires</p>
+              {!prerequisites.length ? (
+                <p className="text-sm text-muted-foreground">No prerequisites. This topic is always unlocked.</p>
+              ) : (
+                <ul className="divide-y">
+                  {prerequisites.map((entry) => (
+                    <li key={entry.topicId} className="flex items-center justify-between gap-2 py-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm">{entry.topicName}</span>
+                        <Badge variant="outline">{entry.minAccuracy}%</Badge>
+                        {!entry.isActive ? <Badge variant="outline">Archived</Badge> : null}
+                      </div>
+                      {canEdit ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() =>
+                            runAction(
+                              () => api.delete(`/admin/topics/${topic.id}/prerequisites/${entry.topicId}`),
+                              "Prerequisite removed",
+                              "Unable to remove prerequisite",
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-[#004976]">Unlocks</p>
+              {!unlocks.length ? (
+                <p className="text-sm text-muted-foreground">No topics depend on this one yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {unlocks.map((entry) => (
+                    <li key={entry.topicId} className="flex flex-wrap items-center gap-2 py-2">
+                      <span className="text-sm">{entry.topicName}</span>
+                      <Badge variant="outline">{entry.minAccuracy}%</Badge>
+                      {!entry.isActive ? <Badge variant="outline">Archived</Badge> : null}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TopicPrerequisitesPanel;
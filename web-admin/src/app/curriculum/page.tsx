@@ -9,6 +9,8 @@ import Loader from "@/components/Loader";
 import { useAuth } from "@/hooks/useAuth";
 import api from "@/lib/api";
 import { useToast } from "@/components/ui/use-toast";
+import LearningObjectivesPanel from "./LearningObjectivesPanel";
+import TopicPrerequisitesPanel from "./TopicPrerequisitesPanel";
 
 type EntityType = "grade" | "subject" | "topic";
 
@@ -222,11 +224,12 @@ const getErrorMessage = (error: unknown) => {
 
 const CurriculumPage = () => {
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, can } = useAuth();
   const { toast } = useToast();
 
   const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
   const [selectedSubjectId, setSelectedSubjectId] = useState<number | null>(null);
+  const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
   const [activeCreate, setActiveCreate] = useState<EntityType | null>(null);
   const [deleteContext, setDeleteContext] = useState<DeleteContext | null>(null);
   const [creatingType, setCreatingType] = useState<EntityType | null>(null);
@@ -235,10 +238,10 @@ const CurriculumPage = () => {
   const [topicCache, setTopicCache] = useState<Record<number, Topic[]>>({});
 
   useEffect(() => {
-    if (!authLoading && user && user.role !== "ADMIN") {
-      router.replace("/auth/login");
+    if (!authLoading && user && !can("curriculum:read")) {
+      router.replace("/");
     }
-  }, [authLoading, router, user]);
+  }, [authLoading, can, router, user]);
 
   const {
     data: gradesData,
@@ -296,6 +299,16 @@ const CurriculumPage = () => {
     }
   }, [selectedSubjectId, subjects]);
 
+  useEffect(() => {
+    if (!topics.length) {
+      setSelectedTopicId(null);
+      return;
+    }
+    if (selectedTopicId === null || !topics.some((topic) => topic.id === selectedTopicId)) {
+      setSelectedTopicId(topics[0].id);
+    }
+  }, [selectedTopicId, topics]);
+
   useEffect(() => {
     if (selectedGradeId && subjects.length) {
       setSubjectCache((prev) => ({
@@ -316,6 +329,7 @@ const CurriculumPage = () => {
 
   const selectedGrade = grades.find((grade) => grade.id === selectedGradeId) ?? null;
   const selectedSubject = subjects.find((subject) => subject.id === selectedSubjectId) ?? null;
+  const selectedTopic = topics.find((topic) => topic.id === selectedTopicId) ?? null;
   const subjectsForModal = selectedGradeId ? subjectCache[selectedGradeId] ?? subjects : [];
 
   const gradeItems: CurriculumCardItem[] = useMemo(
@@ -364,7 +378,9 @@ const CurriculumPage = () => {
   );
 
   const requireAuthLoading = authLoading || !user;
-  const userIsAdmin = user?.role === "ADMIN";
+  const canReadCurriculum = can("curriculum:read");
+  const canEditCurriculum = can("curriculum:write");
+  const readOnlyReason = canEditCurriculum ? undefined : "Your role can view the curriculum but not change it.";
 
   const gradeErrorMessage = gradesError ? getErrorMessage(gradesError) : null;
   const subjectsErrorMessage = subjectsError ? getErrorMessage(subjectsError) : null;
@@ -712,8 +728,8 @@ const CurriculumPage = () => {
     return <Loader fullscreen message="Loading your admin workspace..." />;
   }
 
-  if (!userIsAdmin) {
-    return <Loader fullscreen message="Redirecting to login..." />;
+  if (!canReadCurriculum) {
+    return <Loader fullscreen message="Redirecting to your dashboard..." />;
   }
 
   return (
@@ -737,13 +753,19 @@ const CurriculumPage = () => {
             setSelectedGradeId(item.id);
             setSelectedSubjectId(null);
           }}
+          addDisabled={!canEditCurriculum}
+          addDisabledReason={readOnlyReason}
           onAddClick={() => setActiveCreate("grade")}
-          onDeleteClick={(item) => {
-            const target = grades.find((grade) => grade.id === item.id);
-            if (target) {
-              setDeleteContext({ type: "grade", entity: target });
-            }
-          }}
+          onDeleteClick={
+            canEditCurriculum
+              ? (item) => {
+                  const target = grades.find((grade) => grade.id === item.id);
+                  if (target) {
+                    setDeleteContext({ type: "grade", entity: target });
+                  }
+                }
+              : undefined
+          }
           emptyLabel="No grade levels yet. Add the first one to begin."
           footerSlot={
             gradeErrorMessage ? (
@@ -769,16 +791,20 @@ const CurriculumPage = () => {
               ? "No subjects found for this grade."
               : "Select a grade level to view its subjects."
           }
-          addDisabled={!grades.length}
-          addDisabledReason={!grades.length ? "Create a grade before adding subjects." : undefined}
+          addDisabled={!canEditCurriculum || !grades.length}
+          addDisabledReason={readOnlyReason ?? (!grades.length ? "Create a grade before adding subjects." : undefined)}
           onSelect={(item) => setSelectedSubjectId(item.id)}
           onAddClick={() => setActiveCreate("subject")}
-          onDeleteClick={(item) => {
-            const target = subjects.find((subject) => subject.id === item.id);
-            if (target) {
-              setDeleteContext({ type: "subject", entity: target });
-            }
-          }}
+          onDeleteClick={
+            canEditCurriculum
+              ? (item) => {
+                  const target = subjects.find((subject) => subject.id === item.id);
+                  if (target) {
+                    setDeleteContext({ type: "subject", entity: target });
+                  }
+                }
+              : undefined
+          }
           footerSlot={
             subjectsErrorMessage ? (
               <p className="mt-3 rounded-xl border border-destructive/20 bg-destructive/5 px-3 py-2 text-sm text-destructive">
@@ -797,20 +823,26 @@ const CurriculumPage = () => {
           }
           items={topicItems}
           loading={loadingTopics}
+          selectedId={selectedTopicId ?? undefined}
           emptyLabel={
             selectedSubject
               ? "No topics yet. Add the first learning objective."
               : "Select a subject to drill into its topics."
           }
-          addDisabled={!selectedGradeId || !subjects.length}
-          addDisabledReason={!selectedGradeId ? "Select a grade and subject first." : undefined}
+          addDisabled={!canEditCurriculum || !selectedGradeId || !subjects.length}
+          addDisabledReason={readOnlyReason ?? (!selectedGradeId ? "Select a grade and subject first." : undefined)}
+          onSelect={(item) => setSelectedTopicId(item.id)}
           onAddClick={() => setActiveCreate("topic")}
-          onDeleteClick={(item) => {
-            const target = topics.find((topic) => topic.id === item.id);
-            if (target) {
-              setDeleteContext({ type: "topic", entity: target });
-            }
-          }}
+          onDeleteClick={
+            canEditCurriculum
+              ? (item) => {
+                  const target = topics.find((topic) => topic.id === item.id);
+                  if (target) {
+                    setDeleteContext({ type: "topic", entity: target });
+                  }
+                }
+              : undefined
+          }
           footerSlot={
             topicsErrorMessage ? (
               <p className="mt-3 rounded-xl border border-destructive/20 bg-destructive/5 px-3 py-2 text-sm text-destructive">
@@ -821,6 +853,18 @@ const CurriculumPage = () => {
         />
       </div>
 
+      <LearningObjectivesPanel
+        topic={selectedTopic ? { id: selectedTopic.id, name: selectedTopic.name } : null}
+        canEdit={canEditCurriculum}
+        canViewReports={can("reports:read")}
+      />
+
+      <TopicPrerequisitesPanel
+        topic={selectedTopic ? { id: selectedTopic.id, name: selectedTopic.name } : null}
+        candidates={topics.filter((topic) => !topic.optimistic).map((topic) => ({ id: topic.id, name: topic.name }))}
+        canEdit={canEditCurriculum}
+      />
+
       <CurriculumModal
         mode="create"
         open={activeCreate === "grade"}
@@ -17,7 +17,9 @@ import {
 } from "@/components/ui/dialog";
 import { DataTable, TableColumn } from "@/components/DataTable";
 import Loader from "@/components/Loader";
+import MathText from "@/components/MathText";
 import api, { fetcher } from "@/lib/api";
+import { hasMathMarkup } from "@/lib/mathMarkup";
 import { useToast } from "@/components/ui/use-toast";
 
 type GradeNode = {
@@ -166,12 +168,12 @@ const FlashcardsPage = () => {
       {
         key: "front_text",
         label: "Question",
-        render: (row) => <span className="font-medium text-[#004976]">{row.front_text}</span>,
+        render: (row) => <MathText text={row.front_text} className="font-medium text-[#004976]" />,
       },
       {
         key: "back_text",
         label: "Answer",
-        render: (row) => <span className="text-[#505759]">{row.back_text}</span>,
+        render: (row) => <MathText text={row.back_text} className="text-[#505759]" />,
       },
       {
         key: "topic",
@@ -579,7 +581,18 @@ const FlashcardsPage = () => {
                 value={formState.answer}
                 onChange={(event) => setFormState((prev) => ({ ...prev, answer: event.target.value }))}
               />
+              <p className="text-xs text-muted-foreground">
+                Use <code>$...$</code> for maths and <code>\ce{"{...}"}</code> for chemistry; write <code>\$</code> for a
+                literal dollar sign.
+              </p>
             </div>
+            {hasMathMarkup(formState.question) || hasMathMarkup(formState.answer) ? (
+              <div className="space-y-2 rounded-2xl border p-3 text-sm">
+                <p className="text-xs uppercase text-muted-foreground">Preview</p>
+                <MathText text={formState.question} className="block font-medium text-[#004976]" />
+                <MathText text={formState.answer} className="block text-[#505759]" />
+              </div>
+            ) : null}
             <div className="space-y-1">
               <label className="text-sm font-medium text-muted-foreground">Language</label>
               <Select
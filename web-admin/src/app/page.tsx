@@ -1,5 +1,7 @@
 "use client";
 
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
 import useSWR from "swr";
 import {
   ResponsiveContainer,
@@ -16,6 +18,7 @@ import StatCard from "@/components/StatCard";
 import ChartCard from "@/components/ChartCard";
 import { DataTable } from "@/components/DataTable";
 import Loader from "@/components/Loader";
+import { useAuth } from "@/hooks/useAuth";
 import { fetcher } from "@/lib/api";
 
 type MetricsResponse = {
@@ -41,17 +44,28 @@ type LeaderboardEntry = {
 };
 
 const DashboardPage = () => {
+  const router = useRouter();
+  const { user, loading: authLoading, can } = useAuth();
+  const canReadReports = can("reports:read");
+
+  // Teachers have no platform-wide reporting; their class reports live on the classrooms page.
+  useEffect(() => {
+    if (!authLoading && user && !canReadReports && can("classrooms:manage")) {
+      router.replace("/classrooms");
+    }
+  }, [authLoading, can, canReadReports, router, user]);
+
   const { data: metrics, isLoading: metricsLoading } = useSWR<MetricsResponse>(
-    "/admin/reporting/metrics",
+    canReadReports ? "/admin/reporting/metrics" : null,
     fetcher,
     { refreshInterval: 60_000 },
   );
   const { data: engagement, isLoading: engagementLoading } = useSWR<EngagementResponse>(
-    "/admin/reporting/engagement?range=30d",
+    canReadReports ? "/admin/reporting/engagement?range=30d" : null,
     fetcher,
   );
   const { data: leaderboardData, isLoading: leaderboardLoading } = useSWR<LeaderboardEntry[] | { leaderboard?: LeaderboardEntry[] }>(
-    "/admin/reporting/leaderboard?limit=6&sortBy=xp",
+    canReadReports ? "/admin/reporting/leaderboard?limit=6&sortBy=xp" : null,
     fetcher,
   );
   const leaderboard = Array.isArray(leaderboardData) ? leaderboardData : leaderboardData?.leaderboard ?? [];
@@ -75,6 +75,9 @@ type PracticeTestRecord = {
   xpReward?: number;
   questionCount: number;
   isActive: boolean;
+  isGenerated?: boolean;
+  negativeMarking?: number;
+  isPremium?: boolean;
   difficultyMix: Record<string, number>;
   topicIds: number[];
   topics: Array<{ id: number; name: string }>;
@@ -102,6 +105,9 @@ type FormState = {
   durationMinutes: string;
   xpReward: string;
   questionCount: string;
+  isGenerated: boolean;
+  negativeMarking: string;
+  isPremium: boolean;
   topicIds: string[];
   difficultyMix: Record<DifficultyField, string>;
 };
@@ -148,6 +154,9 @@ const defaultFormState: FormState = {
   durationMinutes: "",
   xpReward: "0",
   questionCount: "15",
+  isGenerated: false,
+  negativeMarking: "0",
+  isPremium: false,
   topicIds: [],
   difficultyMix: {
     EASY: "5",
@@ -335,6 +344,9 @@ const PracticeTestsPage = () => {
         durationMinutes: test.durationMinutes ? String(test.durationMinutes) : "",
         xpReward: test.xpReward !== undefined ? String(test.xpReward) : "0",
         questionCount: String(test.questionCount ?? 0),
+        isGenerated: Boolean(test.isGenerated),
+        negativeMarking: String(test.negativeMarking ?? 0),
+        isPremium: Boolean(test.isPremium),
         topicIds: (test.topicIds ?? []).map(String),
         difficultyMix: {
           EASY: String(test.difficultyMix?.EASY ?? 0),
@@ -437,7 +449,7 @@ const PracticeTestsPage = () => {
       const responses = await Promise.all(
         topicIds.map((topicId) =>
           api.get<QuestionBankPayload>(
-            `/admin/questionbank?topicId=${topicId}&status=ACTIVE&isActive=true&page=1&limit=${QUESTION_BANK_PAGE_SIZE}`,
+            `/admin/questionbank?topicId=${topicId}&status=PUBLISHED&isActive=true&page=1&limit=${QUESTION_BANK_PAGE_SIZE}`,
           ),
         ),
       );
@@ -560,6 +572,9 @@ const PracticeTestsPage = () => {
       durationMinutes: formState.durationMinutes ? Number(formState.durationMinutes) : undefined,
       xpReward: formState.xpReward ? Number(formState.xpReward) : 0,
       questionCount: questionCountValue,
+      isGenerated: formState.isGenerated,
+      negativeMarking: Number(formState.negativeMarking) || 0,
+      isPremium: formState.isPremium,
       topicIds: formState.topicIds.map((id) => Number(id)),
       difficultyMix: {
         EASY: Number(formState.difficultyMix.EASY) || 0,
@@ -751,6 +766,8 @@ const PracticeTestsPage = () => {
                     {test.durationMinutes ? (
                       <Badge variant="outline">{test.durationMinutes} min</Badge>
                     ) : null}
+                    {test.isGenerated ? <Badge variant="outline">Generated per attempt</Badge> : null}
+                    {test.isPremium ? <Badge variant="outline">Premium</Badge> : null}
                     <Badge variant="outline">{test.xpReward ?? 0} XP</Badge>
                   </div>
                   {test.description ? (
@@ -943,6 +960,22 @@ const PracticeTestsPage = () => {
                   placeholder="75"
                 />
               </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-muted-foreground">
+                  Negative marking (share of a question&apos;s points lost per wrong answer)
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={formState.negativeMarking}
+                  onChange={(event) =>
+                    setFormState((prev) => ({ ...prev, negativeMarking: event.target.value }))
+                  }
+                  placeholder="0.25"
+                />
+              </div>
             </div>
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
@@ -975,6 +1008,24 @@ const PracticeTestsPage = () => {
                 </div>
               </div>
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={formState.isGenerated}
+                onChange={(event) =>
+                  setFormState((prev) => ({ ...prev, isGenerated: event.target.checked }))
+                }
+              />
+              Draw a fresh question set for every attempt using this mix and these topics
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={formState.isPremium}
+                onChange={(event) => setFormState((prev) => ({ ...prev, isPremium: event.target.checked }))}
+              />
+              Premium — only subscribers can start this practice test
+            </label>
             <div className="space-y-2">
               <label className="text-sm font-medium text-muted-foreground">Difficulty mix</label>
               <div className="grid gap-3 md:grid-cols-3">
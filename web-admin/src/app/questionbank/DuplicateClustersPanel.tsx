@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import MathText from "@/components/MathText";
+import EmptyState from "@/components/EmptyState";
+import api, { fetcher } from "@/lib/api";
+
+type ClusterQuestion = {
+  id: number;
+  questionText: string;
+  status: string;
+  isActive: boolean;
+  usage: { quizzes: number; practiceTests: number; attempts: number };
+  similarity: number;
+};
+
+type DuplicateCluster = {
+  topicId: number;
+  topicName: string;
+  suggestedSurvivorId: number;
+  questions: ClusterQuestion[];
+};
+
+type MergeSummary = {
+  mergedIds: number[];
+  quizLinksMoved: number;
+  practiceTestLinksMoved: number;
+};
+
+type Props = {
+  topicId?: string;
+  subjectId?: string;
+  onMerged: () => void | Promise<unknown>;
+};
+
+const clusterKey = (cluster: DuplicateCluster) => cluster.questions.map((question) => question.id).join("-");
+
+// The API only merges into a published, active question.
+const canSurvive = (question: ClusterQuestion) => question.status === "PUBLISHED" && question.isActive;
+
+const DuplicateClustersPanel = ({ topicId, subjectId, onMerged }: Props) => {
+  const { toast } = useToast();
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [merging, setMerging] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (topicId) params.set("topicId", topicId);
+  else if (subjectId) params.set("subjectId", subjectId);
+  const { data, isLoading, mutate } = useSWR<{ clusters: DuplicateCluster[] }>(
+    `/admin/questionbank/duplicates?${params.toString()}`,
+    fetcher,
+  );
+  const clusters = data?.clusters ?? [];
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const key = clusterKey(cluster);
+    const survivorId = survivors[key] ?? cluster.suggestedSurvivorId;
+    const duplicateIds = cluster.questions.map((question) => question.id).filter((id) => id !== survivorId);
+    setMerging(key);
+    try {
+      const response = await api.post("/admin/questionbank/duplicates/merge", { survivorId, duplicateIds });
+      const summary: MergeSummary = response.data?.data ?? response.data;
+      toast({
+        title: "Duplicates merged",
+        description: `Archived ${summary.mergedIds.length} ${summary.mergedIds.length === 1 ? "copy" : "copies"}; moved ${
+          summary.quizLinksMoved
+        } quiz and ${summary.practiceTestLinksMoved} practice test links to #${survivorId}.`,
+      });
+      await Promise.all([mutate(), onMerged()]);
+    } catch (error: unknown) {
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast({ variant: "destructive", title: "Merge failed", description: message ?? "Please try again." });
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  return (
+    <Card className="border border-[#919D9D]/30 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-sm text-muted-foreground">Likely Duplicates</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Looking for similar questions...</p>
+        ) : clusters.length ? (
+          <div className="space-y-4">
+            {clusters.map((cluster) => {
+              const key = clusterKey(cluster);
+              const survivorId = survivors[key] ?? cluster.suggestedSurvivorId;
+              const survivor = cluster.questions.find((question) => question.id === survivorId);
+              const mergeable = survivor ? canSurvive(survivor) : false;
+              return (
+                <div key={key} className="space-y-2 rounded-2xl border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs uppercase text-muted-foreground">
+                      {cluster.topicName} · {cluster.questions.length} questions
+                    </p>
+                    <Button
+                      size="sm"
+                      disabled={merging !== null || !mergeable}
+                      title={mergeable ? undefined : "Publish one of these questions to merge into it"}
+                      onClick={() => handleMerge(cluster)}
+                    >
+                      {merging === key ? "Merging..." : `Merge into #${survivorId}`}
+                    </Button>
+                  </div>
+                  <ul className="space-y-2">
+                    {cluster.questions.map((question) => (
+                      <li key={question.id} className="flex items-start gap-2">
+                        <input
+                          type="radio"
+                          className="mt-1"
+                          name={`survivor-${key}`}
+                          checked={survivorId === question.id}
+                          disabled={!canSurvive(question)}
+                          onChange={() => setSurvivors((current) => ({ ...current, [key]: question.id }))}
+                          aria-label={`Keep question ${question.id}`}
+                        />
+                        <div className="flex-1 space-y-1">
+                          <MathText text={question.questionText} className="line-clamp-2 font-medium text-[#004976]" />
+                          <div className="flex flex-wrap gap-1 text-xs text-muted-foreground">
+                            <span>#{question.id}</span>
+                            <span>· {Math.round(question.similarity * 100)}% match</span>
+                            <span>
+                              · {question.usage.quizzes} quizzes, {question.usage.practiceTests} tests,{" "}
+                              {question.usage.attempts} answers
+                            </span>
+                            {question.status !== "PUBLISHED" ? (
+                              <Badge variant="outline">{question.status.toLowerCase()}</Badge>
+                            ) : null}
+                            {!question.isActive ? <Badge variant="outline">inactive</Badge> : null}
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <EmptyState message="No likely duplicates found here." className="text-sm text-muted-foreground" />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateClustersPanel;
@@ -0,0 +1,134 @@
+"use client";
+
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import MathText from "@/components/MathText";
+import { fetcher } from "@/lib/api";
+
+type OptionStatistic = {
+  option: string;
+  isKey: boolean;
+  count: number;
+  share: number;
+  upperShare: number;
+  lowerShare: number;
+  meanScore: number | null;
+};
+
+export type ItemAnalysis = {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  responses: number;
+  answered: number;
+  skipped: number;
+  facility: number | null;
+  discrimination: number | null;
+  averageSecondsPerQuestion: number | null;
+  options: OptionStatistic[];
+  sufficientData: boolean;
+  flags: string[];
+};
+
+export const flagLabels: Record<string, string> = {
+  possible_miskey: "Possible mis-key",
+  negative_discrimination: "Negative discrimination",
+  low_discrimination: "Low discrimination",
+  too_easy: "Too easy",
+  too_hard: "Too hard",
+  non_functioning_distractor: "Unused distractor",
+};
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+type Props = {
+  questionId: number;
+};
+
+const ItemAnalysisPanel = ({ questionId }: Props) => {
+  const { data, error, isLoading } = useSWR<{ analysis: ItemAnalysis }>(
+    `/admin/questionbank/${questionId}/analysis`,
+    fetcher,
+  );
+  const analysis = data?.analysis;
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading item analysis...</p>;
+  }
+  if (error || !analysis) {
+    return <p className="text-xs text-muted-foreground">Item analysis is unavailable.</p>;
+  }
+  if (analysis.responses === 0) {
+    return <p className="text-xs text-muted-foreground">No completed attempts have answered this question yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <div>
+          <p className="text-xs text-muted-foreground">Facility (p)</p>
+          <p className="font-semibold text-[#004976]">{formatPercent(analysis.facility)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Discrimination</p>
+          <p className="font-semibold text-[#004976]">{analysis.discrimination?.toFixed(2) ?? "—"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Responses</p>
+          <p className="font-semibold text-[#004976]">
+            {analysis.responses} <span className="text-xs font-normal">({analysis.skipped} skipped)</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Avg. time</p>
+          <p className="font-semibold text-[#004976]">
+            {analysis.averageSecondsPerQuestion === null ? "—" : `~${analysis.averageSecondsPerQuestion}s`}
+          </p>
+        </div>
+      </div>
+      {analysis.flags.length ? (
+        <div className="flex flex-wrap gap-2">
+          {analysis.flags.map((flag) => (
+            <Badge key={flag} variant="outline" className="border-amber-200 bg-amber-50 text-amber-800">
+              {flagLabels[flag] ?? flag}
+            </Badge>
+          ))}
+        </div>
+      ) : null}
+      {!analysis.sufficientData ? (
+        <p className="text-xs text-muted-foreground">Too few responses to flag problems reliably.</p>
+      ) : null}
+      {analysis.options.length ? (
+        <table className="w-full text-xs">
+          <thead className="text-left text-muted-foreground">
+            <tr>
+              <th className="py-1 font-medium">Option</th>
+              <th className="py-1 font-medium">Chosen</th>
+              <th className="py-1 font-medium">Top 27%</th>
+              <th className="py-1 font-medium">Bottom 27%</th>
+              <th className="py-1 font-medium">Mean score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.options.map((option) => (
+              <tr key={option.option} className={option.isKey ? "text-emerald-800" : ""}>
+                <td className="py-1 pr-2">
+                  <MathText text={option.option} />
+                  {option.isKey ? " ✓" : ""}
+                </td>
+                <td className="py-1">
+                  {option.count} ({formatPercent(option.share)})
+                </td>
+                <td className="py-1">{formatPercent(option.upperShare)}</td>
+                <td className="py-1">{formatPercent(option.lowerShare)}</td>
+                <td className="py-1">{option.meanScore ?? "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+};
+
+export default ItemAnalysisPanel;
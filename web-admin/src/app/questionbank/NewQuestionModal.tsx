@@ -8,7 +8,9 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
+import MathText from "@/components/MathText";
 import api, { fetcher } from "@/lib/api";
+import { hasMathMarkup } from "@/lib/mathMarkup";
 
 type GradeOption = {
   id: number;
@@ -27,6 +29,12 @@ type TopicOption = {
   name?: string;
 };
 
+type ObjectiveOption = {
+  id: number;
+  code: string;
+  description: string;
+};
+
 export type QuestionModalPayload = {
   id?: number;
   questionText?: string;
@@ -37,9 +45,26 @@ export type QuestionModalPayload = {
   gradeId?: number | null;
   subjectId?: number | null;
   topicId?: number | null;
+  objectiveIds?: number[];
   options?: string[];
   correctOption?: string | null;
   correctAnswers?: string[];
+  matchStrategy?: string;
+  matchOptions?: AnswerMatchOptions | null;
+};
+
+type AnswerMatchOptions = {
+  maxDistance?: number;
+  tolerance?: number;
+  units?: string[];
+};
+
+type SimilarQuestion = {
+  id: number;
+  questionText: string;
+  topicName: string;
+  status: string;
+  similarity: number;
 };
 
 type NewQuestionModalProps = {
@@ -54,6 +79,19 @@ const questionTypeOptions = [
   { label: "True / False", value: "TRUE_FALSE" },
   { label: "Fill in the Blank", value: "FILL_IN_THE_BLANK" },
   { label: "Short Answer", value: "SHORT_ANSWER" },
+  { label: "Multi-select", value: "MULTI_SELECT" },
+  { label: "Matching pairs", value: "MATCHING" },
+  { label: "Ordering", value: "ORDERING" },
+];
+
+type MatchingPair = {
+  prompt: string;
+  answer: string;
+};
+
+const emptyPairs = (): MatchingPair[] => [
+  { prompt: "", answer: "" },
+  { prompt: "", answer: "" },
 ];
 
 const difficultyOptions = [
@@ -67,9 +105,21 @@ const languageOptions = [
   { label: "French", value: "FR" },
 ];
 
+const matchStrategyOptions = [
+  { label: "Exact (ignores case, accents, punctuation)", value: "EXACT" },
+  { label: "Fuzzy (tolerates typos)", value: "FUZZY" },
+  { label: "Numeric", value: "NUMERIC" },
+  { label: "Pattern (regular expression)", value: "REGEX" },
+];
+
 const requiresTextAnswers = (type: string) =>
   type === "FILL_IN_THE_BLANK" || type === "SHORT_ANSWER";
 
+const usesOptionList = (type: string) => type === "MULTIPLE_CHOICE" || type === "MULTI_SELECT";
+
+const sanitizeList = (values: string[]) =>
+  values.map((value) => value.trim()).filter((value) => value.length);
+
 const getErrorMessage = (error: unknown, fallback = "Please try again.") => {
   if (!error) {
     return fallback;
@@ -104,12 +154,21 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
   const [gradeId, setGradeId] = useState("");
   const [subjectId, setSubjectId] = useState("");
   const [topicId, setTopicId] = useState("");
+  const [objectiveIds, setObjectiveIds] = useState<number[]>([]);
   const [mcqOptions, setMcqOptions] = useState<string[]>(["", ""]);
   const [mcqCorrectOption, setMcqCorrectOption] = useState("");
   const [tfCorrectOption, setTfCorrectOption] = useState("TRUE");
+  const [multiCorrectOptions, setMultiCorrectOptions] = useState<string[]>([]);
+  const [matchingPairs, setMatchingPairs] = useState<MatchingPair[]>(emptyPairs);
+  const [orderingItems, setOrderingItems] = useState<string[]>(["", ""]);
   const [correctAnswersText, setCorrectAnswersText] = useState("");
+  const [matchStrategy, setMatchStrategy] = useState("EXACT");
+  const [maxDistance, setMaxDistance] = useState("");
+  const [tolerance, setTolerance] = useState("");
+  const [unitsText, setUnitsText] = useState("");
   const [explanation, setExplanation] = useState("");
   const [saving, setSaving] = useState(false);
+  const [similarText, setSimilarText] = useState("");
   const isEditing = Boolean(question?.id);
 
   const updateGradeSelection = useCallback(
@@ -118,6 +177,7 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
       if (resetDependents) {
         setSubjectId("");
         setTopicId("");
+        setObjectiveIds([]);
       }
     },
     [],
@@ -128,6 +188,7 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
       setSubjectId(value);
       if (resetTopic) {
         setTopicId("");
+        setObjectiveIds([]);
       }
     },
     [],
@@ -155,6 +216,38 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
   const { data: topicPayload } = useSWR<{ topics: TopicOption[] }>(topicKey, fetcher);
   const topicOptions = topicPayload?.topics ?? [];
 
+  const objectiveKey = shouldLoadData && topicId ? `/admin/objectives?topicId=${topicId}` : null;
+  const { data: objectivePayload } = useSWR<{ objectives: ObjectiveOption[] }>(objectiveKey, fetcher);
+  const objectiveOptions = objectivePayload?.objectives ?? [];
+
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      setSimilarText(questionText.trim());
+    }, 500);
+    return () => clearTimeout(handle);
+  }, [questionText]);
+
+  const similarParams = new URLSearchParams({ questionText: similarText, topicId });
+  if (question?.id) {
+    similarParams.set("excludeId", String(question.id));
+  }
+  // The API only compares within one topic, so wait until a topic is picked.
+  const similarKey =
+    shouldLoadData && topicId && similarText.length >= 10
+      ? `/admin/questionbank/similar?${similarParams.toString()}`
+      : null;
+  const { data: similarPayload } = useSWR<{ items: SimilarQuestion[] }>(similarKey, fetcher);
+  const similarQuestions = similarKey ? similarPayload?.items ?? [] : [];
+
+  const updateTopicSelection = (value: string) => {
+    setTopicId(value);
+    setObjectiveIds([]);
+  };
+
+  const toggleObjective = (id: number, checked: boolean) => {
+    setObjectiveIds((current) => (checked ? [...current, id] : current.filter((entry) => entry !== id)));
+  };
+
   const resetForm = useCallback(() => {
     setQuestionText("");
     setQuestionType("MULTIPLE_CHOICE");
@@ -164,7 +257,14 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
     setMcqOptions(["", ""]);
     setMcqCorrectOption("");
     setTfCorrectOption("TRUE");
+    setMultiCorrectOptions([]);
+    setMatchingPairs(emptyPairs());
+    setOrderingItems(["", ""]);
     setCorrectAnswersText("");
+    setMatchStrategy("EXACT");
+    setMaxDistance("");
+    setTolerance("");
+    setUnitsText("");
     setExplanation("");
     setSaving(false);
   }, [updateGradeSelection]);
@@ -184,12 +284,35 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
       updateGradeSelection(record.gradeId ? String(record.gradeId) : "", false);
       updateSubjectSelection(record.subjectId ? String(record.subjectId) : "", false);
       setTopicId(record.topicId ? String(record.topicId) : "");
+      setObjectiveIds(record.objectiveIds ?? []);
       setMcqOptions(record.options?.length ? record.options : ["", ""]);
       setMcqCorrectOption(record.correctOption ?? "");
       setTfCorrectOption((record.correctOption ?? "TRUE").toUpperCase());
+      setMultiCorrectOptions(nextType === "MULTI_SELECT" ? record.correctAnswers ?? [] : []);
+      setMatchingPairs(
+        nextType === "MATCHING" && record.options?.length
+          ? record.options.map((prompt, index) => ({
+              prompt,
+              answer: record.correctAnswers?.[index] ?? "",
+            }))
+          : emptyPairs(),
+      );
+      setOrderingItems(
+        nextType === "ORDERING" && record.correctAnswers?.length ? record.correctAnswers : ["", ""],
+      );
       setCorrectAnswersText(
-        record.correctAnswers && record.correctAnswers.length ? record.correctAnswers.join("\n") : "",
+        requiresTextAnswers(nextType) && record.correctAnswers?.length
+          ? record.correctAnswers.join("\n")
+          : "",
+      );
+      setMatchStrategy(record.matchStrategy ?? "EXACT");
+      setMaxDistance(
+        record.matchOptions?.maxDistance !== undefined ? String(record.matchOptions.maxDistance) : "",
       );
+      setTolerance(
+        record.matchOptions?.tolerance !== undefined ? String(record.matchOptions.tolerance) : "",
+      );
+      setUnitsText(record.matchOptions?.units?.join(", ") ?? "");
       setExplanation(record.explanation ?? "");
     },
     [resetForm, updateGradeSelection, updateSubjectSelection],
@@ -207,11 +330,15 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
     if (questionType !== "MULTIPLE_CHOICE") {
       setMcqCorrectOption("");
     }
+    if (questionType !== "MULTI_SELECT") {
+      setMultiCorrectOptions([]);
+    }
     if (questionType !== "TRUE_FALSE") {
       setTfCorrectOption("TRUE");
     }
     if (!requiresTextAnswers(questionType)) {
       setCorrectAnswersText("");
+      setMatchStrategy("EXACT");
     }
   }, [questionType]);
 
@@ -227,6 +354,23 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
     [mcqOptions],
   );
 
+  const previewOptions = useMemo(() => {
+    if (usesOptionList(questionType)) {
+      return sanitizeList(mcqOptions);
+    }
+    if (questionType === "MATCHING") {
+      return matchingPairs
+        .filter((pair) => pair.prompt.trim() || pair.answer.trim())
+        .map((pair) => `${pair.prompt.trim()} → ${pair.answer.trim()}`);
+    }
+    if (questionType === "ORDERING") {
+      return sanitizeList(orderingItems);
+    }
+    return [];
+  }, [matchingPairs, mcqOptions, orderingItems, questionType]);
+
+  const showMathPreview = hasMathMarkup(questionText) || previewOptions.some((option) => hasMathMarkup(option));
+
   const handleOptionChange = (index: number, value: string) => {
     setMcqOptions((current) => {
       const next = [...current];
@@ -239,6 +383,48 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
     setMcqOptions((current) => [...current, ""]);
   };
 
+  const toggleMultiCorrectOption = (value: string, checked: boolean) => {
+    setMultiCorrectOptions((current) =>
+      checked ? [...current.filter((entry) => entry !== value), value] : current.filter((entry) => entry !== value),
+    );
+  };
+
+  const updatePair = (index: number, field: keyof MatchingPair, value: string) => {
+    setMatchingPairs((current) => {
+      const next = [...current];
+      next[index] = { ...next[index], [field]: value } as MatchingPair;
+      return next;
+    });
+  };
+
+  const removePair = (index: number) => {
+    setMatchingPairs((current) => (current.length <= 2 ? current : current.filter((_, i) => i !== index)));
+  };
+
+  const updateOrderingItem = (index: number, value: string) => {
+    setOrderingItems((current) => {
+      const next = [...current];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const moveOrderingItem = (index: number, offset: number) => {
+    setOrderingItems((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) {
+        return current;
+      }
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeOrderingItem = (index: number) => {
+    setOrderingItems((current) => (current.length <= 2 ? current : current.filter((_, i) => i !== index)));
+  };
+
   const removeOption = (index: number) => {
     setMcqOptions((current) => {
       if (current.length <= 2) {
@@ -276,6 +462,7 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
       difficulty,
       language,
       explanation: explanation.trim() || undefined,
+      objectiveIds,
     };
 
     if (gradeId) {
@@ -310,6 +497,51 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
 
       payload.options = sanitizedOptions;
       payload.correctOption = mcqCorrectOption.trim();
+    } else if (questionType === "MULTI_SELECT") {
+      const sanitizedOptions = sanitizeList(mcqOptions);
+      const correctAnswers = multiCorrectOptions.filter((option) => sanitizedOptions.includes(option));
+
+      if (sanitizedOptions.length < 2 || !correctAnswers.length) {
+        toast({
+          variant: "destructive",
+          title: "Complete the options",
+          description: "Add at least two options and tick every correct one.",
+        });
+        return;
+      }
+
+      payload.options = sanitizedOptions;
+      payload.correctAnswers = correctAnswers;
+    } else if (questionType === "MATCHING") {
+      const pairs = matchingPairs
+        .map((pair) => ({ prompt: pair.prompt.trim(), answer: pair.answer.trim() }))
+        .filter((pair) => pair.prompt.length || pair.answer.length);
+
+      if (pairs.length < 2 || pairs.some((pair) => !pair.prompt || !pair.answer)) {
+        toast({
+          variant: "destructive",
+          title: "Complete the pairs",
+          description: "Matching questions need at least two pairs with both sides filled in.",
+        });
+        return;
+      }
+
+      payload.options = pairs.map((pair) => pair.prompt);
+      payload.correctAnswers = pairs.map((pair) => pair.answer);
+    } else if (questionType === "ORDERING") {
+      const items = sanitizeList(orderingItems);
+
+      if (items.length < 2 || new Set(items).size !== items.length) {
+        toast({
+          variant: "destructive",
+          title: "Check the sequence",
+          description: "Ordering questions need at least two distinct items.",
+        });
+        return;
+      }
+
+      payload.options = items;
+      payload.correctAnswers = items;
     } else if (questionType === "TRUE_FALSE") {
       payload.correctOption = tfCorrectOption.toUpperCase();
     } else if (requiresTextAnswers(questionType)) {
@@ -327,7 +559,45 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
         return;
       }
 
+      if (matchStrategy === "REGEX") {
+        const invalidPattern = answers.find((answer) => {
+          try {
+            new RegExp(answer);
+            return false;
+          } catch {
+            return true;
+          }
+        });
+        if (invalidPattern) {
+          toast({
+            variant: "destructive",
+            title: "Invalid pattern",
+            description: `"${invalidPattern}" is not a valid regular expression.`,
+          });
+          return;
+        }
+      }
+
+      const matchOptions: AnswerMatchOptions = {};
+      if (matchStrategy === "FUZZY" && maxDistance.trim()) {
+        matchOptions.maxDistance = Number(maxDistance);
+      }
+      if (matchStrategy === "NUMERIC") {
+        if (tolerance.trim()) {
+          matchOptions.tolerance = Number(tolerance);
+        }
+        const units = unitsText
+          .split(",")
+          .map((unit) => unit.trim())
+          .filter((unit) => unit.length);
+        if (units.length) {
+          matchOptions.units = units;
+        }
+      }
+
       payload.correctAnswers = answers;
+      payload.matchStrategy = matchStrategy;
+      payload.matchOptions = matchOptions;
     }
 
     try {
@@ -374,8 +644,46 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
               onChange={(event) => setQuestionText(event.target.value)}
               placeholder="Enter the prompt shown to learners"
             />
+            <p className="text-xs text-muted-foreground">
+              Use <code>$...$</code> for maths and <code>\ce{"{...}"}</code> for chemistry; write <code>\$</code> for a
+              literal dollar sign.
+            </p>
+            {similarQuestions.length ? (
+              <div className="space-y-1 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                <p className="font-medium">
+                  {similarQuestions.length === 1
+                    ? "A similar question already exists"
+                    : `${similarQuestions.length} similar questions already exist`}
+                  {topicId ? " in this topic" : ""}
+                </p>
+                <ul className="space-y-1">
+                  {similarQuestions.map((item) => (
+                    <li key={item.id}>
+                      #{item.id} · {Math.round(item.similarity * 100)}% match · {item.topicName}
+                      {item.status !== "PUBLISHED" ? ` · ${item.status.toLowerCase()}` : ""} — {item.questionText}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
           </div>
 
+          {showMathPreview ? (
+            <div className="space-y-2 rounded-2xl border p-4 text-sm">
+              <p className="text-xs uppercase text-muted-foreground">Preview</p>
+              <MathText text={questionText} className="block font-medium text-[#004976]" />
+              {previewOptions.length ? (
+                <ul className="list-disc space-y-1 pl-5">
+                  {previewOptions.map((option, index) => (
+                    <li key={`preview-${index}`}>
+                      <MathText text={option} />
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="grid gap-4 md:grid-cols-3">
             <div className="space-y-2">
               <label className="text-sm font-medium text-muted-foreground">Question type</label>
@@ -463,7 +771,7 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
               <label className="text-sm font-medium text-muted-foreground">Topic</label>
               <Select
                 value={topicId}
-                onValueChange={setTopicId}
+                onValueChange={updateTopicSelection}
                 disabled={!subjectId || topicOptions.length === 0}
               >
                 <SelectTrigger>
@@ -480,7 +788,28 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
             </div>
           </div>
 
-          {questionType === "MULTIPLE_CHOICE" ? (
+          {topicId && objectiveOptions.length ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Learning objectives</label>
+              <div className="grid gap-2 rounded-2xl border p-3 md:grid-cols-2">
+                {objectiveOptions.map((objective) => (
+                  <label key={objective.id} className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={objectiveIds.includes(objective.id)}
+                      onChange={(event) => toggleObjective(objective.id, event.target.checked)}
+                    />
+                    <span>
+                      <span className="font-medium text-[#004976]">{objective.code}</span> {objective.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {usesOptionList(questionType) ? (
             <div className="space-y-3 rounded-2xl border p-4">
               <div className="flex items-center justify-between">
                 <p className="text-sm font-medium text-muted-foreground">Options</p>
@@ -509,21 +838,139 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
                   </div>
                 ))}
               </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-muted-foreground">Correct answer</label>
-                <Select value={mcqCorrectOption} onValueChange={setMcqCorrectOption}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select correct option" />
-                  </SelectTrigger>
-                  <SelectContent>
+              {questionType === "MULTI_SELECT" ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-muted-foreground">Correct answers</label>
+                  <div className="flex flex-wrap gap-4">
                     {availableMcqOptions.map((option) => (
-                      <SelectItem key={option.key} value={option.value}>
+                      <label
+                        key={option.key}
+                        className="flex items-center gap-2 text-sm font-medium text-muted-foreground"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={multiCorrectOptions.includes(option.value)}
+                          onChange={(event) => toggleMultiCorrectOption(option.value, event.target.checked)}
+                        />
                         {option.label}
-                      </SelectItem>
+                      </label>
                     ))}
-                  </SelectContent>
-                </Select>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-muted-foreground">Correct answer</label>
+                  <Select value={mcqCorrectOption} onValueChange={setMcqCorrectOption}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select correct option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableMcqOptions.map((option) => (
+                        <SelectItem key={option.key} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {questionType === "MATCHING" ? (
+            <div className="space-y-3 rounded-2xl border p-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-muted-foreground">Pairs (prompt → answer)</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setMatchingPairs((current) => [...current, { prompt: "", answer: "" }])}
+                >
+                  Add pair
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {matchingPairs.map((pair, index) => (
+                  <div key={`pair-${index}`} className="flex items-center gap-2">
+                    <Input
+                      value={pair.prompt}
+                      onChange={(event) => updatePair(index, "prompt", event.target.value)}
+                      placeholder={`Prompt ${index + 1}`}
+                    />
+                    <span className="text-muted-foreground">→</span>
+                    <Input
+                      value={pair.answer}
+                      onChange={(event) => updatePair(index, "answer", event.target.value)}
+                      placeholder={`Match ${index + 1}`}
+                    />
+                    {matchingPairs.length > 2 ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removePair(index)}
+                        aria-label="Remove pair"
+                      >
+                        ×
+                      </Button>
+                    ) : null}
+                  </div>
+                ))}
               </div>
+              <p className="text-xs text-muted-foreground">
+                Learners see the answers shuffled and match one to each prompt.
+              </p>
+            </div>
+          ) : null}
+
+          {questionType === "ORDERING" ? (
+            <div className="space-y-3 rounded-2xl border p-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-muted-foreground">Items in the correct order</p>
+                <Button variant="ghost" size="sm" onClick={() => setOrderingItems((current) => [...current, ""])}>
+                  Add item
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {orderingItems.map((item, index) => (
+                  <div key={`ordering-${index}`} className="flex items-center gap-2">
+                    <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                    <Input
+                      value={item}
+                      onChange={(event) => updateOrderingItem(index, event.target.value)}
+                      placeholder={`Step ${index + 1}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveOrderingItem(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveOrderingItem(index, 1)}
+                      disabled={index === orderingItems.length - 1}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </Button>
+                    {orderingItems.length > 2 ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeOrderingItem(index)}
+                        aria-label="Remove item"
+                      >
+                        ×
+                      </Button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Learners receive these items shuffled.</p>
             </div>
           ) : null}
 
@@ -551,8 +998,77 @@ const NewQuestionModal = ({ open, onOpenChange, onCreated, question }: NewQuesti
                 rows={3}
                 value={correctAnswersText}
                 onChange={(event) => setCorrectAnswersText(event.target.value)}
-                placeholder={"Answer A\nAnswer B"}
+                placeholder={
+                  matchStrategy === "REGEX"
+                    ? "colou?r\nphotosynth(esis|ese)"
+                    : matchStrategy === "NUMERIC"
+                      ? "3.5"
+                      : "Answer A\nAnswer B"
+                }
               />
+              {questionType === "FILL_IN_THE_BLANK" ? (
+                <p className="text-xs text-muted-foreground">
+                  With several blanks, give one line per blank in order and separate alternatives with |.
+                </p>
+              ) : null}
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-muted-foreground">Answer matching</label>
+                  <Select value={matchStrategy} onValueChange={setMatchStrategy}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {matchStrategyOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {matchStrategy === "FUZZY" ? (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-muted-foreground">Typos allowed</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={maxDistance}
+                      onChange={(event) => setMaxDistance(event.target.value)}
+                      placeholder="Auto"
+                    />
+                  </div>
+                ) : null}
+                {matchStrategy === "NUMERIC" ? (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-muted-foreground">Tolerance (±)</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={tolerance}
+                        onChange={(event) => setTolerance(event.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-muted-foreground">Accepted units</label>
+                      <Input
+                        value={unitsText}
+                        onChange={(event) => setUnitsText(event.target.value)}
+                        placeholder="km/h, kmh"
+                      />
+                    </div>
+                  </>
+                ) : null}
+              </div>
+              {matchStrategy === "REGEX" ? (
+                <p className="text-xs text-muted-foreground">
+                  Each line is a case-insensitive pattern that must match the whole response.
+                </p>
+              ) : null}
             </div>
           ) : null}
 
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetcher } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+
+export type ReviewAction = "submit" | "approve" | "request_changes" | "publish";
+
+type ReviewComment = {
+  id: number;
+  version: number;
+  field?: string | null;
+  body: string;
+  author?: { id: number; name: string; email: string } | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+};
+
+type ReviewerOption = {
+  id: number;
+  full_name?: string;
+  email?: string;
+};
+
+export const reviewStatusLabels: Record<string, string> = {
+  DRAFT: "Draft",
+  IN_REVIEW: "In review",
+  CHANGES_REQUESTED: "Changes requested",
+  APPROVED: "Approved",
+  PUBLISHED: "Published",
+  INACTIVE: "Inactive",
+  ARCHIVED: "Archived",
+};
+
+export const reviewStatusClasses: Record<string, string> = {
+  DRAFT: "border-slate-200 bg-slate-50 text-slate-700",
+  IN_REVIEW: "border-sky-200 bg-sky-50 text-sky-800",
+  CHANGES_REQUESTED: "border-amber-200 bg-amber-50 text-amber-800",
+  APPROVED: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  PUBLISHED: "border-[#00AD50]/40 bg-[#00AD50]/10 text-[#006b31]",
+};
+
+const actionsByStatus: Record<string, Array<{ action: ReviewAction; label: string }>> = {
+  DRAFT: [{ action: "submit", label: "Submit for review" }],
+  CHANGES_REQUESTED: [{ action: "submit", label: "Resubmit for review" }],
+  IN_REVIEW: [
+    { action: "approve", label: "Approve" },
+    { action: "request_changes", label: "Request changes" },
+  ],
+  APPROVED: [{ action: "publish", label: "Publish" }],
+};
+
+// Mirrors the API: decisions need content:review, submitting and publishing need content:write.
+const actionPermission: Record<ReviewAction, string> = {
+  submit: "content:write",
+  approve: "content:review",
+  request_changes: "content:review",
+  publish: "content:write",
+};
+
+const fieldLabels: Record<string, string> = {
+  questionText: "Question",
+  options: "Options",
+  correctOption: "Correct option",
+  correctAnswers: "Correct answers",
+  matchOptions: "Match options",
+  explanation: "Explanation",
+  imageUrl: "Image",
+};
+
+const GENERAL_FIELD = "general";
+const NO_REVIEWER = "none";
+
+type Props = {
+  questionId: number;
+  status: string;
+  reviewerId?: number | null;
+  onTransition: (action: ReviewAction, payload: { comment?: string }) => Promise<boolean>;
+  onAssignReviewer: (reviewerId: number | null) => Promise<boolean>;
+  onComment: (payload: { body: string; field?: string }) => Promise<boolean>;
+  onResolveComment: (commentId: number) => Promise<boolean>;
+};
+
+const QuestionReviewPanel = ({
+  questionId,
+  status,
+  reviewerId,
+  onTransition,
+  onAssignReviewer,
+  onComment,
+  onResolveComment,
+}: Props) => {
+  const { data: commentPayload, mutate: mutateComments } = useSWR<{ comments: ReviewComment[] }>(
+    `/admin/questionbank/${questionId}/comments`,
+    fetcher,
+  );
+  const { data: reviewerPayload } = useSWR<{ reviewers: ReviewerOption[] }>("/admin/questionbank/reviewers", fetcher);
+  const { can } = useAuth();
+  const [comment, setComment] = useState("");
+  const [field, setField] = useState(GENERAL_FIELD);
+  const [busy, setBusy] = useState(false);
+
+  const comments = commentPayload?.comments ?? [];
+  const reviewers = reviewerPayload?.reviewers ?? [];
+  const actions = (actionsByStatus[status] ?? []).filter(({ action }) => can(actionPermission[action]));
+
+  const run = async (task: () => Promise<boolean>, clearDraft = false) => {
+    setBusy(true);
+    try {
+      if (await task()) {
+        if (clearDraft) {
+          setComment("");
+          setField(GENERAL_FIELD);
+        }
+        await mutateComments();
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const trimmedComment = comment.trim();
+  const commentField = field === GENERAL_FIELD ? undefined : field;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant="outline" className={reviewStatusClasses[status] ?? ""}>
+          {reviewStatusLabels[status] ?? status}
+        </Badge>
+        <div className="w-56">
+          <Select
+            value={reviewerId ? String(reviewerId) : NO_REVIEWER}
+            onValueChange={(value) => run(() => onAssignReviewer(value === NO_REVIEWER ? null : Number(value)))}
+            disabled={busy || !can("content:write")}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Assign reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REVIEWER}>No reviewer assigned</SelectItem>
+              {reviewers.map((reviewer) => (
+                <SelectItem key={reviewer.id} value={String(reviewer.id)}>
+                  {reviewer.full_name ?? reviewer.email ?? `Reviewer ${reviewer.id}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {comments.length ? (
+        <ul className="space-y-2">
+          {comments.map((entry) => (
+            <li
+              key={entry.id}
+              className={`rounded-2xl border px-3 py-2 ${entry.resolvedAt ? "opacity-60" : ""}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 text-muted-foreground">
+                <span>
+                  {entry.author?.name ?? "Unknown reviewer"} · v{entry.version}
+                  {entry.field ? ` · ${fieldLabels[entry.field] ?? entry.field}` : ""} ·{" "}
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+                {entry.resolvedAt ? (
+                  <span>Resolved</span>
+                ) : (
+                  <Button size="sm" variant="ghost" disabled={busy} onClick={() => run(() => onResolveComment(entry.id))}>
+                    Resolve
+                  </Button>
+                )}
+              </div>
+              <p className="mt-1 whitespace-pre-wrap text-sm">{entry.body}</p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground">No review comments yet.</p>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <div className="w-44">
+            <Select value={field} onValueChange={setField}>
+              <SelectTrigger>
+                <SelectValue placeholder="Whole question" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GENERAL_FIELD}>Whole question</SelectItem>
+                {Object.entries(fieldLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Leave a review comment"
+            rows={2}
+            className="min-h-[64px] flex-1"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy || !trimmedComment}
+            onClick={() =>
+              run(() => onComment({ body: trimmedComment, ...(commentField ? { field: commentField } : {}) }), true)
+            }
+          >
+            Add comment
+          </Button>
+          {actions.map(({ action, label }) => (
+            <Button
+              key={action}
+              size="sm"
+              variant={action === "request_changes" ? "outline" : "default"}
+              disabled={busy || (action === "request_changes" && !trimmedComment)}
+              onClick={() => run(() => onTransition(action, trimmedComment ? { comment: trimmedComment } : {}), true)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {status === "IN_REVIEW" ? (
+          <p className="text-muted-foreground">Requesting changes needs a comment explaining what to fix.</p>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionReviewPanel;
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import MathText from "@/components/MathText";
+import { fetcher } from "@/lib/api";
+
+type QuestionRevision = {
+  id: number;
+  version: number;
+  isCurrent: boolean;
+  isPending?: boolean;
+  questionText: string;
+  questionType: string;
+  options: string[];
+  correctOption?: string | null;
+  correctAnswers: string[];
+  matchStrategy?: string;
+  matchOptions?: { maxDistance?: number; tolerance?: number; units?: string[] } | null;
+  topicId: number;
+  difficulty: string;
+  language: string;
+  imageUrl?: string | null;
+  explanation?: string | null;
+  restoredFromVersion?: number | null;
+  createdBy?: { id: number; name: string; email: string } | null;
+  attemptCount: number;
+  createdAt: string;
+};
+
+type RevisionPayload = {
+  currentVersion: number;
+  revisions: QuestionRevision[];
+};
+
+const diffFields: Array<{ label: string; read: (revision: QuestionRevision) => string; math?: boolean }> = [
+  { label: "Question", read: (revision) => revision.questionText, math: true },
+  { label: "Type", read: (revision) => revision.questionType },
+  { label: "Options", read: (revision) => revision.options.join(" | "), math: true },
+  { label: "Correct option", read: (revision) => revision.correctOption ?? "", math: true },
+  { label: "Correct answers", read: (revision) => revision.correctAnswers.join(" | "), math: true },
+  { label: "Matching", read: (revision) => revision.matchStrategy ?? "" },
+  { label: "Match options", read: (revision) => (revision.matchOptions ? JSON.stringify(revision.matchOptions) : "") },
+  { label: "Topic", read: (revision) => String(revision.topicId) },
+  { label: "Difficulty", read: (revision) => revision.difficulty },
+  { label: "Language", read: (revision) => revision.language },
+  { label: "Image", read: (revision) => revision.imageUrl ?? "" },
+  { label: "Explanation", read: (revision) => revision.explanation ?? "" },
+];
+
+const renderValue = (value: string, math?: boolean) => {
+  if (!value) {
+    return <span className="italic text-muted-foreground">empty</span>;
+  }
+  return math ? <MathText text={value} /> : value;
+};
+
+type Props = {
+  questionId: number;
+  onRestore: (version: number) => Promise<boolean>;
+};
+
+const QuestionRevisionHistory = ({ questionId, onRestore }: Props) => {
+  const { data, error, isLoading, mutate } = useSWR<RevisionPayload>(
+    `/admin/questionbank/${questionId}/revisions`,
+    fetcher,
+  );
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading revisions...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-xs text-muted-foreground">Revision history is unavailable.</p>;
+  }
+
+  const revisions = data.revisions;
+  const selectedIndex = Math.max(
+    0,
+    revisions.findIndex((revision) => revision.version === (selectedVersion ?? data.currentVersion)),
+  );
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one this version replaced is the next entry.
+  const previous = revisions[selectedIndex + 1];
+  const changes =
+    selected && previous
+      ? diffFields.filter((field) => field.read(selected) !== field.read(previous))
+      : [];
+
+  const handleRestore = async (version: number) => {
+    setRestoring(true);
+    try {
+      if (await onRestore(version)) {
+        setSelectedVersion(null);
+        await mutate();
+      }
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {revisions.map((revision) => (
+          <button
+            key={revision.id}
+            type="button"
+            onClick={() => setSelectedVersion(revision.version)}
+            className={`rounded-full border px-3 py-1 text-xs ${
+              revision.version === selected?.version
+                ? "border-[#004976] bg-[#004976] text-white"
+                : "border-muted-foreground/30 text-muted-foreground"
+            }`}
+          >
+            v{revision.version}
+            {revision.isCurrent ? " · current" : ""}
+            {revision.isPending ? " · pending review" : ""}
+          </button>
+        ))}
+      </div>
+      {selected ? (
+        <div className="space-y-2 rounded-2xl border px-3 py-2 text-xs">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+              <span>
+                {selected.createdBy?.name ?? "Unknown author"} · {new Date(selected.createdAt).toLocaleString()}
+              </span>
+              <Badge variant="outline">{selected.attemptCount} answers</Badge>
+              {selected.restoredFromVersion ? (
+                <Badge variant="outline">Restored from v{selected.restoredFromVersion}</Badge>
+              ) : null}
+            </div>
+            {!selected.isCurrent && !selected.isPending ? (
+              <Button size="sm" variant="outline" disabled={restoring} onClick={() => handleRestore(selected.version)}>
+                {restoring ? "Restoring..." : `Restore v${selected.version}`}
+              </Button>
+            ) : null}
+          </div>
+          {!previous ? (
+            <p className="text-muted-foreground">First recorded version.</p>
+          ) : changes.length ? (
+            <table className="w-full">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="py-1 font-medium">Field</th>
+                  <th className="py-1 font-medium">v{previous.version}</th>
+                  <th className="py-1 font-medium">v{selected.version}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((field) => (
+                  <tr key={field.label} className="align-top">
+                    <td className="py-1 pr-2 text-muted-foreground">{field.label}</td>
+                    <td className="py-1 pr-2 text-red-700 line-through">
+                      {renderValue(field.read(previous), field.math)}
+                    </td>
+                    <td className="py-1 text-emerald-800">{renderValue(field.read(selected), field.math)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-muted-foreground">No content changes from v{previous.version}.</p>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default QuestionRevisionHistory;
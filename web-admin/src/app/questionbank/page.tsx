@@ -21,9 +21,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { DataTable, TableColumn } from "@/components/DataTable";
+import MathText from "@/components/MathText";
 import api, { downloadFile, fetcher } from "@/lib/api";
 import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import NewQuestionModal, { QuestionModalPayload } from "./NewQuestionModal";
+import DuplicateClustersPanel from "./DuplicateClustersPanel";
+import ItemAnalysisPanel, { ItemAnalysis, flagLabels } from "./ItemAnalysisPanel";
+import QuestionRevisionHistory from "./QuestionRevisionHistory";
+import QuestionReviewPanel, { ReviewAction, reviewStatusClasses, reviewStatusLabels } from "./QuestionReviewPanel";
 import CurriculumFilter from "@/components/CurriculumFilter";
 import DifficultyFilter from "@/components/DifficultyFilter";
 import StatusFilter from "@/components/StatusFilter";
@@ -36,11 +42,30 @@ type QuestionUsage = {
   practiceTests: number;
 };
 
+// An edit to a published question waiting for review; learners keep seeing the live version.
+type PendingEdit = {
+  version: number;
+  status: string;
+  questionText: string;
+  questionType: string;
+  options: string[];
+  correctOption?: string | null;
+  correctAnswers: string[];
+  matchStrategy?: string;
+  matchOptions?: { maxDistance?: number; tolerance?: number; units?: string[] } | null;
+  topicId: number;
+  difficulty: string;
+  language: string;
+  explanation?: string | null;
+};
+
 type QuestionRecord = {
   id: number;
   questionText: string;
   questionType: string;
   difficulty: string;
+  calibratedDifficulty?: number | null;
+  calibrationResponses?: number;
   language: string;
   topicId: number;
   topicName?: string | null;
@@ -49,11 +74,20 @@ type QuestionRecord = {
   gradeId?: number | null;
   gradeName?: string | null;
   status: string;
+  pendingStatus?: string | null;
+  pendingEdit?: PendingEdit | null;
   isActive: boolean;
+  reviewerId?: number | null;
+  reviewerName?: string | null;
+  objectiveIds?: number[];
+  objectives?: Array<{ id: number; code: string; description: string }>;
   options: string[];
   correctOption?: string | null;
   correctAnswers: string[];
+  matchStrategy?: string;
+  matchOptions?: { maxDistance?: number; tolerance?: number; units?: string[] } | null;
   explanation?: string | null;
+  version?: number;
   usage?: QuestionUsage;
   updatedAt?: string;
 };
@@ -123,16 +157,26 @@ const difficultyOptions = [
 
 const statusOptions = [
   { label: "All statuses", value: "all" },
-  { label: "Active only", value: "active" },
-  { label: "Inactive only", value: "inactive" },
+  { label: "Draft", value: "DRAFT" },
+  { label: "In review", value: "IN_REVIEW" },
+  { label: "Changes requested", value: "CHANGES_REQUESTED" },
+  { label: "Approved", value: "APPROVED" },
+  { label: "Published", value: "PUBLISHED" },
+  { label: "Inactive", value: "INACTIVE" },
 ];
 
+// Only live or retired questions can be toggled; everything else moves through review.
+const toggleableStatuses = ["PUBLISHED", "INACTIVE", "ARCHIVED"];
+
 const questionTypeFilterOptions = [
   { label: "All types", value: ALL_TYPES },
   { label: "MCQ", value: "MULTIPLE_CHOICE" },
   { label: "True / False", value: "TRUE_FALSE" },
   { label: "Fill in the Blank", value: "FILL_IN_THE_BLANK" },
   { label: "Short Answer", value: "SHORT_ANSWER" },
+  { label: "Multi-select", value: "MULTI_SELECT" },
+  { label: "Matching", value: "MATCHING" },
+  { label: "Ordering", value: "ORDERING" },
 ];
 
 const languageFilterOptions = [
@@ -172,6 +216,7 @@ const templateGuidelines: TemplateGuideline[] = [
     rules: [
       "Leave `options` empty and add blanks (____) in `questionText`.",
       "List every accepted response inside `correctAnswers` separated by `|` or commas.",
+      "Optional `matchStrategy` (EXACT, FUZZY, NUMERIC, REGEX) controls how responses are compared.",
       "Leave `correctOption` empty.",
     ],
   },
@@ -181,9 +226,37 @@ const templateGuidelines: TemplateGuideline[] = [
     rules: [
       "Leave `options` empty; prompts live in `questionText`.",
       "Populate `correctAnswers` with acceptable phrases separated by `|` or commas.",
+      "Set `matchStrategy` to EXACT, FUZZY, NUMERIC or REGEX; NUMERIC answers can add `tolerance` and `units`.",
       "Leave `correctOption` empty.",
     ],
   },
+  {
+    type: "MULTI_SELECT",
+    title: "Multi-select",
+    rules: [
+      "Enter at least two answer choices in `options` separated by `|`.",
+      "List every correct choice in `correctAnswers`; each must match a value from `options`.",
+      "Learners earn a share per correct pick and lose one per wrong pick.",
+    ],
+  },
+  {
+    type: "MATCHING",
+    title: "Matching pairs",
+    rules: [
+      "Fill `pairs` with `prompt=answer` entries separated by `|`, e.g. `Ghana=Accra|Togo=Lomé`.",
+      "Alternatively align `options` (prompts) with `correctAnswers` (answers) in the same order.",
+      "Each correct pair earns an equal share of the points.",
+    ],
+  },
+  {
+    type: "ORDERING",
+    title: "Ordering",
+    rules: [
+      "List the items in their correct order inside `correctAnswers` separated by `|`.",
+      "Leave `options` empty; learners receive the items shuffled.",
+      "Each item in the right position earns an equal share of the points.",
+    ],
+  },
 ];
 
 const difficultyBadgeClasses: Record<string, string> = {
@@ -231,11 +304,14 @@ const QuestionBankPage = () => {
   const [topicFilter, setTopicFilter] = useState(ALL_TOPICS);
   const [difficultyFilter, setDifficultyFilter] = useState(ALL_DIFFICULTIES);
   const [typeFilter, setTypeFilter] = useState(ALL_TYPES);
-  const [statusFilter, setStatusFilter] = useState<"all" | "active" | "inactive">("all");
+  const [statusFilter, setStatusFilter] = useState("all");
   const [languageFilter, setLanguageFilter] = useState(ALL_LANGUAGES);
   const [togglingId, setTogglingId] = useState<number | null>(null);
   const [importing, setImporting] = useState(false);
+  const { can } = useAuth();
+  const [publishImport, setPublishImport] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [calibrating, setCalibrating] = useState(false);
   const [questionModalOpen, setQuestionModalOpen] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<QuestionModalPayload | null>(null);
   const [previewQuestion, setPreviewQuestion] = useState<QuestionRecord | null>(null);
@@ -288,7 +364,7 @@ const QuestionBankPage = () => {
       params.set("language", languageFilter);
     }
     if (statusFilter !== "all") {
-      params.set("isActive", statusFilter === "active" ? "true" : "false");
+      params.set("status", statusFilter);
     }
 
     return `/admin/questionbank?${params.toString()}`;
@@ -321,6 +397,11 @@ const QuestionBankPage = () => {
     subjectFilter !== ALL_SUBJECTS ? `/admin/curriculum/topics?subjectId=${subjectFilter}` : null;
   const { data: topicPayload, isLoading: topicsLoading } = useSWR<TopicPayload>(topicKey, fetcher);
 
+  const flaggedKey =
+    topicFilter !== ALL_TOPICS ? `/admin/questionbank/analysis?topicId=${topicFilter}&flaggedOnly=true` : null;
+  const { data: flaggedPayload } = useSWR<{ items: ItemAnalysis[] }>(flaggedKey, fetcher);
+  const flaggedItems = flaggedPayload?.items ?? [];
+
   const gradeOptions = gradePayload?.grades ?? [];
   const subjectOptions = subjectPayload?.subjects ?? [];
   const topicOptions: TopicOption[] = useMemo(
@@ -388,13 +469,20 @@ const QuestionBankPage = () => {
     const formData = new FormData();
     formData.append("file", file);
     try {
-      const response = await api.post("/admin/questionbank/import", formData, {
-        headers: { "Content-Type": "multipart/form-data" },
-      });
+      const response = await api.post(
+        `/admin/questionbank/import${publishImport ? "?publish=true" : ""}`,
+        formData,
+        { headers: { "Content-Type": "multipart/form-data" } },
+      );
       const stats = response.data?.data ?? response.data ?? {};
+      const possibleDuplicates = stats.possibleDuplicates?.length ?? 0;
       toast({
         title: "Import completed",
-        description: `Imported ${stats.imported ?? 0}, skipped ${stats.skipped ?? 0}.`,
+        description: `Imported ${stats.imported ?? 0} ${publishImport ? "published questions" : "drafts"}, skipped ${stats.skipped ?? 0}.${
+          possibleDuplicates
+            ? ` ${possibleDuplicates} look like existing questions; filter by topic to review likely duplicates.`
+            : ""
+        }`,
       });
       await mutate();
     } catch (error: unknown) {
@@ -414,7 +502,7 @@ const QuestionBankPage = () => {
     if (difficultyFilter !== ALL_DIFFICULTIES) params.set("difficulty", difficultyFilter);
     if (typeFilter !== ALL_TYPES) params.set("type", typeFilter);
     if (languageFilter !== ALL_LANGUAGES) params.set("language", languageFilter);
-    if (statusFilter !== "all") params.set("isActive", statusFilter === "active" ? "true" : "false");
+    if (statusFilter !== "all") params.set("status", statusFilter);
     if (searchTerm) params.set("search", searchTerm);
     return params;
   };
@@ -433,6 +521,116 @@ const QuestionBankPage = () => {
     }
   };
 
+  const handleCalibrate = async () => {
+    setCalibrating(true);
+    try {
+      await api.post("/admin/questionbank/calibrate");
+      toast({
+        title: "Recalibration started",
+        description: "Difficulty estimates will update once the run finishes. Refresh the bank to see them.",
+      });
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to recalibrate question difficulty.");
+      toast({ variant: "destructive", title: "Calibration failed", description: message });
+    } finally {
+      setCalibrating(false);
+    }
+  };
+
+  const handleRestoreRevision = async (version: number) => {
+    if (!previewQuestion) {
+      return false;
+    }
+    try {
+      const response = await api.post(`/admin/questionbank/${previewQuestion.id}/revisions/${version}/restore`);
+      const restored = response.data?.data?.question as QuestionRecord | undefined;
+      if (restored) {
+        setPreviewQuestion(restored);
+      }
+      toast({ title: "Revision restored", description: `Version ${version} is live as a new version.` });
+      await mutate();
+      return true;
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to restore this revision.");
+      toast({ variant: "destructive", title: "Restore failed", description: message });
+      return false;
+    }
+  };
+
+  const applyReviewUpdate = async (request: Promise<{ data?: { data?: { question?: QuestionRecord } } }>) => {
+    const response = await request;
+    const updated = response.data?.data?.question;
+    if (updated) {
+      setPreviewQuestion(updated);
+    }
+    await mutate();
+  };
+
+  const reviewActionToasts: Record<ReviewAction, string> = {
+    submit: "Submitted for review",
+    approve: "Question approved",
+    request_changes: "Changes requested",
+    publish: "Question published",
+  };
+
+  const handleReviewTransition = async (action: ReviewAction, payload: { comment?: string }) => {
+    if (!previewQuestion) {
+      return false;
+    }
+    try {
+      await applyReviewUpdate(api.post(`/admin/questionbank/${previewQuestion.id}/review`, { action, ...payload }));
+      toast({ title: reviewActionToasts[action], description: previewQuestion.questionText });
+      return true;
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to update the review status.");
+      toast({ variant: "destructive", title: "Review update failed", description: message });
+      return false;
+    }
+  };
+
+  const handleAssignReviewer = async (reviewerId: number | null) => {
+    if (!previewQuestion) {
+      return false;
+    }
+    try {
+      await applyReviewUpdate(api.patch(`/admin/questionbank/${previewQuestion.id}/reviewer`, { reviewerId }));
+      toast({ title: reviewerId ? "Reviewer assigned" : "Reviewer cleared" });
+      return true;
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to assign the reviewer.");
+      toast({ variant: "destructive", title: "Assignment failed", description: message });
+      return false;
+    }
+  };
+
+  const handleReviewComment = async (payload: { body: string; field?: string }) => {
+    if (!previewQuestion) {
+      return false;
+    }
+    try {
+      await api.post(`/admin/questionbank/${previewQuestion.id}/comments`, payload);
+      return true;
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to add the comment.");
+      toast({ variant: "destructive", title: "Comment failed", description: message });
+      return false;
+    }
+  };
+
+  const handleResolveComment = async (commentId: number) => {
+    if (!previewQuestion) {
+      return false;
+    }
+    try {
+      await api.patch(`/admin/questionbank/${previewQuestion.id}/comments/${commentId}/resolve`);
+      return true;
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, "Unable to resolve the comment.");
+      toast({ variant: "destructive", title: "Resolve failed", description: message });
+      return false;
+    }
+  };
+
   const handleDownloadTemplate = async () => {
     try {
       await downloadFile("/admin/questionbank/template", "question-bank-template.xlsx");
@@ -480,8 +678,9 @@ const QuestionBankPage = () => {
     setQuestionModalOpen(true);
   };
 
+  // Editing a question with a pending edit continues that edit rather than the live version.
   const openEditModal = useCallback((question: QuestionRecord) => {
-    setEditingQuestion(question);
+    setEditingQuestion(question.pendingEdit ? { ...question, ...question.pendingEdit, id: question.id } : question);
     setQuestionModalOpen(true);
   }, []);
 
@@ -505,6 +704,11 @@ const QuestionBankPage = () => {
             <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
               <Badge variant="outline">{formatQuestionType(row.questionType)}</Badge>
               <span>{row.language}</span>
+              {row.objectives?.map((objective) => (
+                <Badge key={objective.id} variant="outline" title={objective.description}>
+                  {objective.code}
+                </Badge>
+              ))}
             </div>
           </div>
         ),
@@ -522,9 +726,16 @@ const QuestionBankPage = () => {
         key: "difficulty",
         label: "Difficulty",
         render: (row) => (
-          <Badge variant="outline" className={difficultyBadgeClasses[row.difficulty] ?? ""}>
-            {row.difficulty}
-          </Badge>
+          <div className="flex flex-col items-start gap-1">
+            <Badge variant="outline" className={difficultyBadgeClasses[row.difficulty] ?? ""}>
+              {row.difficulty}
+            </Badge>
+            {typeof row.calibratedDifficulty === "number" ? (
+              <span className="text-xs text-muted-foreground">
+                Calibrated {row.calibratedDifficulty.toFixed(2)} · {row.calibrationResponses ?? 0} responses
+              </span>
+            ) : null}
+          </div>
         ),
       },
       {
@@ -552,10 +763,15 @@ const QuestionBankPage = () => {
         label: "Status",
         render: (row) => (
           <div className="space-y-1">
-            <Badge variant={row.isActive ? "success" : "outline"}>
-              {row.isActive ? "Active" : "Inactive"}
+            <Badge variant="outline" className={reviewStatusClasses[row.status] ?? ""}>
+              {reviewStatusLabels[row.status] ?? row.status}
             </Badge>
-            <p className="text-xs text-muted-foreground">{row.status}</p>
+            {row.pendingStatus ? (
+              <Badge variant="outline" className={reviewStatusClasses[row.pendingStatus] ?? ""}>
+                Edit: {reviewStatusLabels[row.pendingStatus] ?? row.pendingStatus}
+              </Badge>
+            ) : null}
+            {row.reviewerName ? <p className="text-xs text-muted-foreground">Reviewer: {row.reviewerName}</p> : null}
           </div>
         ),
       },
@@ -580,14 +796,16 @@ const QuestionBankPage = () => {
             <Button size="sm" variant="outline" onClick={() => openEditModal(row)}>
               Edit
             </Button>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => handleToggleQuestion(row)}
-              disabled={togglingId === row.id}
-            >
-              {row.isActive ? "Deactivate" : "Reactivate"}
-            </Button>
+            {toggleableStatuses.includes(row.status) ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleToggleQuestion(row)}
+                disabled={togglingId === row.id}
+              >
+                {row.isActive ? "Deactivate" : "Reactivate"}
+              </Button>
+            ) : null}
           </div>
         ),
       },
@@ -611,9 +829,22 @@ const QuestionBankPage = () => {
           <Button variant="outline" onClick={handleExport} disabled={exporting}>
             {exporting ? "Exporting..." : "Export XLSX"}
           </Button>
+          <Button variant="outline" onClick={handleCalibrate} disabled={calibrating}>
+            {calibrating ? "Calibrating..." : "Recalibrate Difficulty"}
+          </Button>
           <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
             {importing ? "Importing..." : "Import CSV/XLSX"}
           </Button>
+          {can("content:review") ? (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={publishImport}
+                onChange={(event) => setPublishImport(event.target.checked)}
+              />
+              Publish imports (skip review)
+            </label>
+          ) : null}
           <Button variant="outline" onClick={handleDownloadTemplate}>
             Download Template
           </Button>
@@ -690,6 +921,48 @@ const QuestionBankPage = () => {
         </Card>
       </div>
 
+      {flaggedKey ? (
+        <Card className="border border-[#919D9D]/30 shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-sm text-muted-foreground">Flagged by Item Analysis</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {flaggedItems.length ? (
+              <ul className="space-y-2 text-sm">
+                {flaggedItems.map((item) => (
+                  <li
+                    key={item.questionId}
+                    className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between"
+                  >
+                    <MathText text={item.questionText} className="line-clamp-1 font-medium text-[#004976]" />
+                    <div className="flex flex-wrap gap-1">
+                      {item.flags.map((flag) => (
+                        <Badge key={flag} variant="outline" className="border-amber-200 bg-amber-50 text-amber-800">
+                          {flagLabels[flag] ?? flag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <EmptyState
+                message="No questions in this topic are flagged yet."
+                className="text-sm text-muted-foreground"
+              />
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {topicFilter !== ALL_TOPICS || subjectFilter !== ALL_SUBJECTS ? (
+        <DuplicateClustersPanel
+          topicId={topicFilter !== ALL_TOPICS ? topicFilter : undefined}
+          subjectId={subjectFilter !== ALL_SUBJECTS ? subjectFilter : undefined}
+          onMerged={() => mutate()}
+        />
+      ) : null}
+
       <TableToolbar>
         <div className="space-y-1 sm:col-span-2">
           <label className="text-sm text-muted-foreground">Search</label>
@@ -736,7 +1009,7 @@ const QuestionBankPage = () => {
         </div>
         <StatusFilter
           value={statusFilter}
-          onChange={(value: "all" | "active" | "inactive") => setStatusFilter(value)}
+          onChange={setStatusFilter}
           options={statusOptions}
         />
         <div className="space-y-1">
@@ -769,6 +1042,7 @@ const QuestionBankPage = () => {
           <p className="text-sm font-semibold text-[#004976]">View Template Guidelines</p>
           <p className="text-xs text-muted-foreground">
             Each row needs a valid `topicId` from the Topic Mapping download. Leave `language` empty to default to EN.
+            Tag learning objectives with `objectiveCodes` separated by `|`; codes must belong to the row&apos;s topic.
           </p>
         </div>
         <div className="mt-3 grid gap-3 md:grid-cols-2">
@@ -859,7 +1133,7 @@ const QuestionBankPage = () => {
               <div>
                 <p className="text-xs uppercase text-muted-foreground">Question</p>
                 <p className="mt-1 whitespace-pre-line text-base font-semibold text-foreground">
-                  {previewQuestion.questionText}
+                  <MathText text={previewQuestion.questionText} />
                 </p>
               </div>
               <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
@@ -874,7 +1148,7 @@ const QuestionBankPage = () => {
                   {previewQuestion.isActive ? "Active" : "Inactive"}
                 </Badge>
               </div>
-              {previewQuestion.questionType === "MULTIPLE_CHOICE" ? (
+              {["MULTIPLE_CHOICE", "MULTI_SELECT"].includes(previewQuestion.questionType) ? (
                 <div>
                   <p className="text-xs uppercase text-muted-foreground">Options</p>
                   <ul className="mt-2 space-y-2">
@@ -882,12 +1156,14 @@ const QuestionBankPage = () => {
                       <li
                         key={`${option}-${index}`}
                         className={`rounded-2xl border px-3 py-2 ${
-                          previewQuestion.correctOption === option
+                          previewQuestion.correctOption === option ||
+                          (previewQuestion.questionType === "MULTI_SELECT" &&
+                            previewQuestion.correctAnswers.includes(option))
                             ? "border-emerald-200 bg-emerald-50 text-emerald-800"
                             : "border-border"
                         }`}
                       >
-                        {option}
+                        <MathText text={option} />
                       </li>
                     ))}
                   </ul>
@@ -901,6 +1177,31 @@ const QuestionBankPage = () => {
                   </p>
                 </div>
               ) : null}
+              {previewQuestion.questionType === "MATCHING" ? (
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Pairs</p>
+                  <ul className="mt-2 space-y-1">
+                    {previewQuestion.options.map((prompt, index) => (
+                      <li key={`${prompt}-${index}`}>
+                        <MathText text={prompt} /> →{" "}
+                        <MathText text={previewQuestion.correctAnswers[index] ?? "—"} className="font-semibold" />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              {previewQuestion.questionType === "ORDERING" ? (
+                <div>
+                  <p className="text-xs uppercase text-muted-foreground">Correct order</p>
+                  <ol className="mt-2 list-decimal space-y-1 pl-5">
+                    {previewQuestion.correctAnswers.map((item, index) => (
+                      <li key={`${item}-${index}`}>
+                        <MathText text={item} />
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ) : null}
               {["FILL_IN_THE_BLANK", "SHORT_ANSWER"].includes(previewQuestion.questionType) ? (
                 <div>
                   <p className="text-xs uppercase text-muted-foreground">Accepted answers</p>
@@ -917,6 +1218,40 @@ const QuestionBankPage = () => {
                   <p className="mt-1 text-muted-foreground">{previewQuestion.explanation}</p>
                 </div>
               ) : null}
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">Editorial review</p>
+                {previewQuestion.pendingEdit ? (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Reviewing an edit that will become version {previewQuestion.pendingEdit.version}. Learners see the
+                    published version until the edit is published.
+                  </p>
+                ) : null}
+                <div className="mt-2">
+                  <QuestionReviewPanel
+                    questionId={previewQuestion.id}
+                    status={previewQuestion.pendingStatus ?? previewQuestion.status}
+                    reviewerId={previewQuestion.reviewerId ?? null}
+                    onTransition={handleReviewTransition}
+                    onAssignReviewer={handleAssignReviewer}
+                    onComment={handleReviewComment}
+                    onResolveComment={handleResolveComment}
+                  />
+                </div>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">Item analysis</p>
+                <div className="mt-2">
+                  <ItemAnalysisPanel questionId={previewQuestion.id} />
+                </div>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-muted-foreground">
+                  Revision history{previewQuestion.version ? ` · v${previewQuestion.version}` : ""}
+                </p>
+                <div className="mt-2">
+                  <QuestionRevisionHistory questionId={previewQuestion.id} onRestore={handleRestoreRevision} />
+                </div>
+              </div>
               <div className="flex flex-wrap gap-4 rounded-2xl border border-dashed px-3 py-2 text-xs text-muted-foreground">
                 <span>
                   {previewQuestion.usage?.quizzes ?? 0} quizzes · {previewQuestion.usage?.practiceTests ?? 0} practice tests
@@ -81,6 +81,9 @@ type QuizRecord = {
   description?: string | null;
   difficulty: string;
   isActive: boolean;
+  isPremium?: boolean;
+  isAdaptive?: boolean;
+  adaptiveQuestionCount?: number | null;
   questionCount: number;
   updatedAt?: string;
   questions: QuizQuestion[];
@@ -127,6 +130,9 @@ type QuizFormState = {
   title: string;
   description: string;
   difficulty: string;
+  isPremium: boolean;
+  isAdaptive: boolean;
+  adaptiveQuestionCount: string;
   questions: SelectedQuestion[];
 };
 
@@ -137,6 +143,9 @@ const defaultFormState: QuizFormState = {
   title: "",
   description: "",
   difficulty: "MEDIUM",
+  isPremium: false,
+  isAdaptive: false,
+  adaptiveQuestionCount: "",
   questions: [],
 };
 
@@ -304,7 +313,7 @@ const QuizzesPage = () => {
   const pickerTopicId = formState.topicId || selectedTopicId;
   const questionKey =
     pickerTopicId && isQuestionPickerOpen
-      ? `/admin/questionbank?topicId=${pickerTopicId}&status=ACTIVE&isActive=true&page=1&limit=${QUESTION_BANK_PAGE_SIZE}`
+      ? `/admin/questionbank?topicId=${pickerTopicId}&status=PUBLISHED&isActive=true&page=1&limit=${QUESTION_BANK_PAGE_SIZE}`
       : null;
   const {
     data: questionPayload,
@@ -386,6 +395,9 @@ const QuizzesPage = () => {
       title: quiz.title,
       description: quiz.description ?? "",
       difficulty: quiz.difficulty,
+      isPremium: Boolean(quiz.isPremium),
+      isAdaptive: Boolean(quiz.isAdaptive),
+      adaptiveQuestionCount: quiz.adaptiveQuestionCount ? String(quiz.adaptiveQuestionCount) : "",
       questions,
     });
     setPickerSelection(questions);
@@ -514,6 +526,10 @@ const QuizzesPage = () => {
       title: formState.title.trim(),
       description: formState.description.trim() || undefined,
       difficulty: formState.difficulty,
+      isPremium: formState.isPremium,
+      isAdaptive: formState.isAdaptive,
+      adaptiveQuestionCount:
+        formState.isAdaptive && formState.adaptiveQuestionCount ? Number(formState.adaptiveQuestionCount) : null,
       questionIds: formState.questions.map((question) => question.questionId),
       topicId: Number(formState.topicId),
     };
@@ -565,6 +581,9 @@ const QuizzesPage = () => {
         title: `${quiz.title} Copy`,
         description: quiz.description ?? undefined,
         difficulty: quiz.difficulty,
+        isPremium: Boolean(quiz.isPremium),
+        isAdaptive: Boolean(quiz.isAdaptive),
+        adaptiveQuestionCount: quiz.adaptiveQuestionCount ?? null,
         questionIds: quiz.questions.map((question) => question.questionId),
         topicId: quiz.topicId,
       };
@@ -735,6 +754,8 @@ const QuizzesPage = () => {
                       {quiz.isActive ? "Active" : "Inactive"}
                     </Badge>
                     <Badge variant="outline">{formatDifficulty(quiz.difficulty)}</Badge>
+                    {quiz.isPremium ? <Badge variant="outline">Premium</Badge> : null}
+                    {quiz.isAdaptive ? <Badge variant="outline">Adaptive</Badge> : null}
                   </div>
                   {quiz.description ? (
                     <p className="text-sm text-muted-foreground">{quiz.description}</p>
@@ -783,7 +804,7 @@ const QuizzesPage = () => {
                           <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
                             <Badge variant="outline">{formatQuestionType(question.questionType)}</Badge>
                             <Badge variant="outline">
-                              {question.questionStatus === "ACTIVE" ? "Active" : question.questionStatus}
+                              {question.questionStatus === "PUBLISHED" ? "Published" : question.questionStatus}
                             </Badge>
                           </div>
                         </li>
@@ -917,6 +938,36 @@ const QuizzesPage = () => {
                 </SelectContent>
               </Select>
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={formState.isPremium}
+                onChange={(event) => setFormState((prev) => ({ ...prev, isPremium: event.target.checked }))}
+              />
+              Premium — only subscribers can start this quiz
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={formState.isAdaptive}
+                onChange={(event) => setFormState((prev) => ({ ...prev, isAdaptive: event.target.checked }))}
+              />
+              Adaptive — serve one question at a time, matched to the learner&apos;s level
+            </label>
+            {formState.isAdaptive ? (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-muted-foreground">Questions per attempt</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={formState.adaptiveQuestionCount}
+                  onChange={(event) =>
+                    setFormState((prev) => ({ ...prev, adaptiveQuestionCount: event.target.value }))
+                  }
+                  placeholder={`All ${formState.questions.length} selected questions`}
+                />
+              </div>
+            ) : null}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-muted-foreground">
@@ -1,6 +1,6 @@
 "use client";
 
-import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import useSWR from "swr";
 import { Button } from "@/components/ui/button";
 import { DataTable, TableColumn } from "@/components/DataTable";
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 
 type AdminUser = {
   id: number;
@@ -29,6 +30,31 @@ type AdminUser = {
   join_date?: string;
 };
 
+const roleOptions = [
+  { value: "USER", label: "Learner" },
+  { value: "GUARDIAN", label: "Guardian" },
+  { value: "CONTENT_EDITOR", label: "Content editor" },
+  { value: "REVIEWER", label: "Reviewer" },
+  { value: "SUPPORT_AGENT", label: "Support agent" },
+  { value: "FINANCE", label: "Finance" },
+  { value: "TEACHER", label: "Teacher" },
+  { value: "SUPER_ADMIN", label: "Super admin" },
+];
+
+const roleLabel = (role: string) => roleOptions.find((option) => option.value === role)?.label ?? role;
+
+// Older exports used ADMIN for every staff account; that is now SUPER_ADMIN.
+const normalizeCsvRole = (value: string | undefined) => {
+  const role = (value ?? "USER").trim().toUpperCase();
+  if (role === "ADMIN") {
+    return "SUPER_ADMIN";
+  }
+  return roleOptions.some((option) => option.value === role) ? role : "USER";
+};
+
+const roleSelectClass =
+  "w-full rounded-xl border border-input bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary/20";
+
 const csvTemplate = "fullName,email,password,role,isPremium\nJane Doe,jane@example.com,Password123,USER,false\n";
 
 const parseCsvUsers = (text: string) => {
@@ -61,7 +87,7 @@ const normalizeCsvRows = (rows: Record<string, string>[]) => {
       const fullName = row.fullname ?? row["full name"] ?? row.name ?? "";
       const email = row.email ?? "";
       const password = row.password ?? "";
-      const role = (row.role ?? "USER").toUpperCase() === "ADMIN" ? "ADMIN" : "USER";
+      const role = normalizeCsvRole(row.role);
       const isPremium =
         ["true", "1", "yes"].includes((row.ispremium ?? row.premium ?? "").toLowerCase()) || false;
 
@@ -126,6 +152,10 @@ const extractUsers = (raw: unknown): AdminUser[] => {
 
 const UsersPage = () => {
   const { toast } = useToast();
+  const { user: currentUser, can } = useAuth();
+  const canWriteUsers = can("users:write");
+  const canAssignRoles = can("roles:assign");
+  const [savingRoleId, setSavingRoleId] = useState<number | null>(null);
   const [searchInput, setSearchInput] = useState("");
   const [appliedSearch, setAppliedSearch] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -152,11 +182,51 @@ const UsersPage = () => {
   const { data, isLoading, mutate } = useSWR(`/admin/users${query}`, fetcher);
   const users = useMemo(() => extractUsers(data), [data]);
 
+  const handleRoleChange = useCallback(
+    async (target: AdminUser, role: string) => {
+      setSavingRoleId(target.id);
+      try {
+        await api.put(`/admin/users/${target.id}`, { role });
+        toast({ title: "Role updated", description: `${target.full_name} is now ${roleLabel(role)}.` });
+        mutate();
+      } catch (error: unknown) {
+        toast({
+          variant: "destructive",
+          title: "Unable to change role",
+          description: getErrorMessage(error),
+        });
+      } finally {
+        setSavingRoleId(null);
+      }
+    },
+    [mutate, toast],
+  );
+
   const userColumns: TableColumn<AdminUser>[] = useMemo(
     () => [
       { key: "full_name", label: "Name" },
       { key: "email", label: "Email" },
-      { key: "role", label: "Role" },
+      {
+        key: "role",
+        label: "Role",
+        render: (row) =>
+          canAssignRoles && row.id !== currentUser?.id ? (
+            <select
+              value={row.role}
+              disabled={savingRoleId === row.id}
+              onChange={(event) => handleRoleChange(row, event.target.value)}
+              className={roleSelectClass}
+            >
+              {roleOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            roleLabel(row.role)
+          ),
+      },
       {
         key: "is_premium",
         label: "Premium",
@@ -179,7 +249,7 @@ const UsersPage = () => {
         render: (row) => (row.join_date ? new Date(row.join_date).toLocaleDateString() : "—"),
       },
     ],
-    [],
+    [canAssignRoles, currentUser?.id, handleRoleChange, savingRoleId],
   );
 
   const handleCreateUser = async (event: FormEvent<HTMLFormElement>) => {
@@ -288,84 +358,93 @@ const UsersPage = () => {
           <Button variant="outline" onClick={handleExport} disabled={exporting}>
             {exporting ? "Exporting..." : "Export CSV"}
           </Button>
-          <Button variant="outline" onClick={handleDownloadTemplate}>
-            Template CSV
-          </Button>
-          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
-            {importing ? "Importing..." : "Import CSV"}
-          </Button>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>Add User</Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>New User</DialogTitle>
-                <DialogDescription>Invite a learner or admin with instant credentials.</DialogDescription>
-              </DialogHeader>
-              <form className="space-y-3" onSubmit={handleCreateUser}>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-muted-foreground">Full name</label>
-                  <Input
-                    value={newUser.fullName}
-                    onChange={(event) => setNewUser((prev) => ({ ...prev, fullName: event.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-muted-foreground">Email</label>
-                  <Input
-                    type="email"
-                    value={newUser.email}
-                    onChange={(event) => setNewUser((prev) => ({ ...prev, email: event.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-muted-foreground">Temporary password</label>
-                  <Input
-                    type="password"
-                    value={newUser.password}
-                    onChange={(event) => setNewUser((prev) => ({ ...prev, password: event.target.value }))}
-                    required
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-muted-foreground">Role</label>
-                  <select
-                    value={newUser.role}
-                    onChange={(event) => setNewUser((prev) => ({ ...prev, role: event.target.value }))}
-                    className="w-full rounded-xl border border-input bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
-                  >
-                    <option value="USER">Learner</option>
-                    <option value="ADMIN">Admin</option>
-                  </select>
-                </div>
-                <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                  <input
-                    type="checkbox"
-                    checked={newUser.isPremium}
-                    onChange={(event) => setNewUser((prev) => ({ ...prev, isPremium: event.target.checked }))}
-                  />
-                  Premium access
-                </label>
-                <DialogFooter>
-                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={creating}>
-                    {creating ? "Saving..." : "Save"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+          {canWriteUsers ? (
+            <>
+              <Button variant="outline" onClick={handleDownloadTemplate}>
+                Template CSV
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+                {importing ? "Importing..." : "Import CSV"}
+              </Button>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>Add User</Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>New User</DialogTitle>
+                    <DialogDescription>Invite a learner or staff member with instant credentials.</DialogDescription>
+                  </DialogHeader>
+                  <form className="space-y-3" onSubmit={handleCreateUser}>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-muted-foreground">Full name</label>
+                      <Input
+                        value={newUser.fullName}
+                        onChange={(event) => setNewUser((prev) => ({ ...prev, fullName: event.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-muted-foreground">Email</label>
+                      <Input
+                        type="email"
+                        value={newUser.email}
+                        onChange={(event) => setNewUser((prev) => ({ ...prev, email: event.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-muted-foreground">Temporary password</label>
+                      <Input
+                        type="password"
+                        value={newUser.password}
+                        onChange={(event) => setNewUser((prev) => ({ ...prev, password: event.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-muted-foreground">Role</label>
+                      <select
+                        value={newUser.role}
+                        onChange={(event) => setNewUser((prev) => ({ ...prev, role: event.target.value }))}
+                        className={roleSelectClass}
+                      >
+                        {roleOptions
+                          .filter((option) => canAssignRoles || option.value === "USER")
+                          .map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={newUser.isPremium}
+                        onChange={(event) => setNewUser((prev) => ({ ...prev, isPremium: event.target.checked }))}
+                      />
+                      Premium access
+                    </label>
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={creating}>
+                        {creating ? "Saving..." : "Save"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </>
+          ) : null}
         </div>
       </div>
 
       <p className="text-sm text-muted-foreground">
-        Import files must use the template headers: <code>fullName,email,password,role,isPremium</code>. Role defaults to USER,
-        and premium accepts true/false.
+        Import files must use the template headers: <code>fullName,email,password,role,isPremium</code>. Role defaults to USER
+        (staff roles: CONTENT_EDITOR, REVIEWER, SUPPORT_AGENT, FINANCE, TEACHER, SUPER_ADMIN), and premium accepts true/false.
       </p>
 
       <input
@@ -0,0 +1,45 @@
+"use client";
+
+import { useMemo } from "react";
+import katex from "katex";
+import "katex/contrib/mhchem";
+import "katex/dist/katex.min.css";
+import { splitMathSegments } from "@/lib/mathMarkup";
+
+type MathTextProps = {
+  text: string;
+  className?: string;
+};
+
+// Formulas that fail to parse render as red source text instead of breaking the preview.
+const MathText = ({ text, className }: MathTextProps) => {
+  const segments = useMemo(
+    () =>
+      splitMathSegments(text).map((segment) =>
+        segment.type === "math"
+          ? {
+              ...segment,
+              html: katex.renderToString(segment.value, {
+                displayMode: segment.displayMode,
+                throwOnError: false,
+              }),
+            }
+          : { ...segment, html: null },
+      ),
+    [text],
+  );
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.html ? (
+          <span key={index} dangerouslySetInnerHTML={{ __html: segment.html }} />
+        ) : (
+          <span key={index}>{segment.value}</span>
+        ),
+      )}
+    </span>
+  );
+};
+
+export default MathText;
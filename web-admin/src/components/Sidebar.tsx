@@ -17,28 +17,33 @@ import {
   MonitorCog,
   Cog,
   GraduationCap,
+  School,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
 
 const navItems = [
-  { href: "/", label: "Dashboard", icon: Gauge },
-  { href: "/users", label: "Users", icon: Users },
-  { href: "/curriculum", label: "Curriculum", icon: GraduationCap },
-  { href: "/flashcards", label: "Flashcards", icon: BookOpen },
-  { href: "/quizzes", label: "Quizzes", icon: ListTree },
-  { href: "/practice-tests", label: "Practice Tests", icon: ShieldCheck },
-  { href: "/questionbank", label: "Question Bank", icon: Layers3 },
-  { href: "/analytics", label: "Analytics", icon: BarChart3 },
-  { href: "/gamification", label: "Gamification", icon: Trophy },
-  { href: "/notifications", label: "Notifications", icon: Bell },
-  { href: "/support", label: "Support", icon: LifeBuoy },
-  { href: "/payments", label: "Payments", icon: CreditCard },
-  { href: "/system", label: "System", icon: MonitorCog },
-  { href: "/settings", label: "Settings", icon: Cog },
+  { href: "/", label: "Dashboard", icon: Gauge, permission: "reports:read" },
+  { href: "/users", label: "Users", icon: Users, permission: "users:read" },
+  { href: "/curriculum", label: "Curriculum", icon: GraduationCap, permission: "curriculum:read" },
+  { href: "/flashcards", label: "Flashcards", icon: BookOpen, permission: "content:read" },
+  { href: "/quizzes", label: "Quizzes", icon: ListTree, permission: "content:read" },
+  { href: "/practice-tests", label: "Practice Tests", icon: ShieldCheck, permission: "content:read" },
+  { href: "/questionbank", label: "Question Bank", icon: Layers3, permission: "content:read" },
+  { href: "/classrooms", label: "Classrooms", icon: School, permission: "classrooms:manage" },
+  { href: "/analytics", label: "Analytics", icon: BarChart3, permission: "reports:read" },
+  { href: "/gamification", label: "Gamification", icon: Trophy, permission: "gamification:manage" },
+  { href: "/notifications", label: "Notifications", icon: Bell, permission: "notifications:manage" },
+  { href: "/support", label: "Support", icon: LifeBuoy, permission: "support:manage" },
+  { href: "/payments", label: "Payments", icon: CreditCard, permission: "payments:read" },
+  { href: "/system", label: "System", icon: MonitorCog, permission: "system:read" },
+  { href: "/settings", label: "Settings", icon: Cog, permission: "settings:manage" },
 ];
 
 const Sidebar = () => {
   const pathname = usePathname();
+  const { can } = useAuth();
+  const visibleItems = navItems.filter((item) => can(item.permission));
 
   return (
     <aside className="hidden w-64 shrink-0 flex-col border-r border-sidebar-border bg-sidebar/95 p-5 text-sidebar-foreground shadow-lg md:flex">
@@ -52,7 +57,7 @@ const Sidebar = () => {
         </div>
       </div>
       <nav className="flex flex-1 flex-col gap-1 text-sm">
-        {navItems.map((item) => {
+        {visibleItems.map((item) => {
           const Icon = item.icon;
           const active = pathname === item.href;
           return (
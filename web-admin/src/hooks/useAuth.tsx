@@ -10,6 +10,7 @@ type AuthUser = {
   fullName?: string;
   full_name?: string;
   role?: string;
+  permissions?: string[];
   isPremium?: boolean;
 };
 
@@ -20,6 +21,7 @@ type AuthContextValue = {
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
   refreshProfile: () => Promise<void>;
+  can: (permission: string) => boolean;
 };
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -128,6 +130,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     await loadProfile();
   }, [loadProfile]);
 
+  // Permissions come from the profile; the API enforces them again on every admin route.
+  const can = useCallback((permission: string) => user?.permissions?.includes(permission) ?? false, [user]);
+
   const value = useMemo(
     () => ({
       user,
@@ -136,8 +141,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       login,
       logout,
       refreshProfile,
+      can,
     }),
-    [user, token, loading, login, logout, refreshProfile],
+    [user, token, loading, login, logout, refreshProfile, can],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;